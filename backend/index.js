@@ -0,0 +1,48 @@
+const express = require('express');
+const config = require('./lib/config');
+const authRoutes = require('./routes/auth');
+const uploadRoutes = require('./routes/uploads');
+const pinRoutes = require('./routes/pins');
+const aiRoutes = require('./routes/ai');
+const projectRoutes = require('./routes/projects');
+const studentRoutes = require('./routes/students');
+const institutionRoutes = require('./routes/institutions');
+const searchRoutes = require('./routes/search');
+const metadataRoutes = require('./routes/metadata');
+const keyRoutes = require('./routes/keys');
+const accessRequestRoutes = require('./routes/accessRequests');
+
+const app = express();
+
+app.use(express.json());
+
+app.use('/api/auth', authRoutes);
+app.use('/api/uploads', uploadRoutes);
+app.use('/api/pins', pinRoutes);
+app.use('/api/ai', aiRoutes);
+app.use('/api/projects', projectRoutes);
+app.use('/api/students', studentRoutes);
+app.use('/api/institutions', institutionRoutes);
+app.use('/api/search', searchRoutes);
+app.use('/api/metadata', metadataRoutes);
+app.use('/api/keys', keyRoutes);
+app.use('/api/access-requests', accessRequestRoutes);
+
+// Every error is answered as { error, details? }, unknown routes included
+app.use('/api', (req, res) => {
+  res.status(404).json({ error: `No route for ${req.method} ${req.originalUrl}` });
+});
+
+// Report unhandled errors as JSON, keeping the status of client errors like malformed bodies
+app.use((err, req, res, next) => {
+  if (err.status >= 400 && err.status < 500) {
+    return res.status(err.status).json({ error: err.expose ? err.message : 'Bad request' });
+  }
+
+  console.error('Unhandled error:', err);
+  res.status(500).json({ error: 'Internal server error' });
+});
+
+app.listen(config.port, () => {
+  console.log(`Backend listening on port ${config.port}`);
+});
@@ -0,0 +1,109 @@
+const { getSession } = require('./sessions');
+const { consumeUploadToken } = require('./uploadTokens');
+
+// Read the session token from an "Authorization: Bearer <token>" header
+const getBearerToken = (req) => {
+  const header = req.get('authorization') || '';
+  const [scheme, token] = header.split(' ');
+  return scheme === 'Bearer' ? token : undefined;
+};
+
+// Attach the verified session to the request, or reject with 401
+async function requireSession(req, res, next) {
+  const token = getBearerToken(req);
+  const session = await getSession(token);
+
+  if (!session) {
+    return res.status(401).json({ error: 'Not signed in' });
+  }
+
+  req.sessionToken = token;
+  req.session = session;
+  next();
+}
+
+// Attach the session when there is one, for routes that anyone may call
+async function attachSession(req, res, next) {
+  const token = getBearerToken(req);
+  const session = await getSession(token);
+  if (session) {
+    req.sessionToken = token;
+    req.session = session;
+  }
+  next();
+}
+
+// Super admins manage every institution, institution admins only their own
+const canManageInstitution = (session, institutionId) => {
+  if (!session) return false;
+  return session.isAdmin || (session.isInstitutionAdmin && session.institutionId === institutionId);
+};
+
+const isAuthor = (session, project) => {
+  return !!session && project.authors.some(author => author.toLowerCase() === session.address.toLowerCase());
+};
+
+// The viewer lib/repository limits project reads to, null for guests
+const getViewer = (session) => {
+  if (!session) return null;
+
+  return {
+    address: session.address,
+    institutionId: session.isRegistered ? session.institutionId : null,
+    departmentId: session.isRegistered ? session.departmentId : null
+  };
+};
+
+// The allowlist names other readers' wallets, only authors and admins of the institution get it
+const redactProject = (session, project) => {
+  if (!project.allowlist || isAuthor(session, project) || canManageInstitution(session, project.institutionId)) {
+    return project;
+  }
+
+  const { allowlist, ...rest } = project;
+  return rest;
+};
+
+// Only allow super admins and institution admins
+function requireAdmin(req, res, next) {
+  requireSession(req, res, () => {
+    if (!req.session.isAdmin && !req.session.isInstitutionAdmin) {
+      return res.status(403).json({ error: 'Admin rights required' });
+    }
+    next();
+  });
+}
+
+// Only allow super admins, for actions that affect every institution
+function requireSuperAdmin(req, res, next) {
+  requireSession(req, res, () => {
+    if (!req.session.isAdmin) {
+      return res.status(403).json({ error: 'Super admin rights required' });
+    }
+    next();
+  });
+}
+
+// Accept a single-use upload token from the "X-Upload-Token" header instead of a session
+const requireUploadToken = (scope) => (req, res, next) => {
+  const uploadToken = consumeUploadToken(req.get('x-upload-token'), scope);
+  if (!uploadToken) {
+    return res.status(401).json({ error: 'Invalid or expired upload token' });
+  }
+
+  req.uploadToken = uploadToken;
+  next();
+};
+
+module.exports = {
+  getBearerToken,
+  requireSession,
+  attachSession,
+  canManageInstitution,
+  isAuthor,
+  getViewer,
+  redactProject,
+  requireAdmin,
+  requireSuperAdmin,
+  requireUploadToken
+};
@@ -0,0 +1,63 @@
+const os = require('os');
+const path = require('path');
+
+// Server configuration, read from the environment
+
+const required = (name) => {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} must be set`);
+  }
+  return value;
+};
+
+module.exports = {
+  port: Number(process.env.PORT || 3001),
+
+  // Chain the contract is deployed on, sign-in messages must name this chain
+  chainId: Number(process.env.CHAIN_ID || 11155111),
+  rpcUrl: process.env.RPC_URL || 'https://rpc.sepolia.org',
+  contractAddress: process.env.CONTRACT_ADDRESS || '0xaF7993E02C51cb2c40837eE8c58750490112d3AE',
+
+  // Where the projects access requests refer to are kept, the frontend's VITE_PROJECT_SOURCE: projects
+  // are read from the contract for 'contract' and from the database otherwise
+  projectSource: process.env.PROJECT_SOURCE || 'api',
+
+  // Host the frontend is served from (e.g. localhost:8080), sign-in messages for any other site are refused
+  siweDomain: required('SIWE_DOMAIN'),
+
+  // IPFS pinning for uploads that go through the backend: 'pinata' or 'kubo'
+  storageProvider: process.env.STORAGE_PROVIDER || 'pinata',
+  pinataApiKey: process.env.PINATA_API_KEY || '',
+  pinataApiSecret: process.env.PINATA_API_SECRET || '',
+  kuboApiUrl: process.env.KUBO_API_URL || 'http://127.0.0.1:5001',
+
+  // Chunked uploads are staged on disk so an interrupted upload can resume
+  uploadDir: process.env.UPLOAD_DIR || path.join(os.tmpdir(), 'uni-vault-uploads'),
+  maxUploadBytes: Number(process.env.MAX_UPLOAD_MB || 100) * 1024 * 1024,
+  uploadChunkBytes: 5 * 1024 * 1024,
+  uploadTtlMs: 24 * 60 * 60 * 1000,
+
+  // Pins from the browser need a single-use token, minted for one request of a given size
+  uploadTokenTtlMs: 10 * 60 * 1000,
+
+  // Gemini is only called from here, so its key never reaches the browser bundle
+  geminiApiKey: process.env.GEMINI_API_KEY || '',
+  geminiModel: process.env.GEMINI_MODEL || 'gemini-pro',
+  maxPromptChars: 20000,
+
+  // Per-wallet quotas over a rolling window
+  quotaWindowMs: 24 * 60 * 60 * 1000,
+  uploadQuotaBytes: Number(process.env.UPLOAD_QUOTA_MB || 1024) * 1024 * 1024,
+  aiQuotaRequests: Number(process.env.AI_QUOTA_REQUESTS || 100),
+
+  // SQLite database, created and migrated on start (':memory:' keeps nothing between runs)
+  databasePath: process.env.DATABASE_PATH || path.join(__dirname, '..', 'data', 'vault.sqlite'),
+  // Fill a new database with the demo projects the frontend ships with
+  seedDemoData: process.env.SEED_DEMO_DATA !== 'false',
+
+  nonceTtlMs: 5 * 60 * 1000,
+  sessionTtlMs: Number(process.env.SESSION_TTL_HOURS || 24) * 60 * 60 * 1000,
+  // Roles in a session are read from the contract again once they are this old
+  roleTtlMs: Number(process.env.ROLE_TTL_MINUTES || 5) * 60 * 1000
+};
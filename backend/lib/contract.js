@@ -0,0 +1,45 @@
+const { ethers } = require('ethers');
+const config = require('./config');
+
+// Only the role and project lookups are needed on the server
+const contractABI = [
+  'function getProjectById(uint256 projectId) external view returns (uint256 projectId, string title, address[] authors, uint256 uploadDate, string ipfsHash, uint256 departmentId, uint256 year, string description, uint8 accessLevel)',
+  'function getUserInfo(address user) external view returns (bool isRegistered, bool isStudent, bool isAdmin, uint256 departmentId, uint256 institutionId)',
+  'function isInstitutionAdmin(address user, uint256 institutionId) external view returns (bool)'
+];
+
+const network = ethers.Network.from(config.chainId);
+const provider = new ethers.JsonRpcProvider(config.rpcUrl, network, { staticNetwork: network });
+const contract = new ethers.Contract(config.contractAddress, contractABI, provider);
+
+// Look up a wallet's roles on the contract
+async function getUserRoles(address) {
+  const info = await contract.getUserInfo(address);
+  const institutionId = Number(info.institutionId);
+
+  const isInstitutionAdmin = info.isRegistered
+    ? await contract.isInstitutionAdmin(address, institutionId)
+    : false;
+
+  return {
+    isRegistered: info.isRegistered,
+    isStudent: info.isStudent,
+    isAdmin: info.isAdmin,
+    isInstitutionAdmin,
+    departmentId: Number(info.departmentId),
+    institutionId
+  };
+}
+
+// The authors and department of a registered project, undefined for unknown IDs (the contract reverts)
+async function getChainProject(projectId) {
+  try {
+    const project = await contract.getProjectById(projectId);
+    return { authors: [...project.authors], departmentId: Number(project.departmentId) };
+  } catch (error) {
+    if (error.code === 'CALL_EXCEPTION') return undefined;
+    throw error;
+  }
+}
+
+module.exports = { getUserRoles, getChainProject };
@@ -0,0 +1,61 @@
+const fs = require('fs');
+const path = require('path');
+const Database = require('better-sqlite3');
+const config = require('./config');
+
+// Migrations are numbered files in backend/migrations (001-name.js), each exporting up(db).
+// They only ever move forward: a change to the schema is a new file, never an edit to an applied one.
+const MIGRATIONS_DIR = path.join(__dirname, '..', 'migrations');
+
+const readMigrations = () => {
+  return fs.readdirSync(MIGRATIONS_DIR)
+    .filter(file => /^\d+-[\w-]+\.js$/.test(file))
+    .map(file => ({ version: parseInt(file, 10), name: path.basename(file, '.js'), file }))
+    .sort((a, b) => a.version - b.version);
+};
+
+// Apply every migration the database hasn't seen yet, each in its own transaction
+function migrate(db) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    )
+  `);
+
+  const applied = new Set(db.prepare('SELECT version FROM schema_migrations').pluck().all());
+  const record = db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)');
+
+  for (const migration of readMigrations()) {
+    if (applied.has(migration.version)) continue;
+
+    const { up } = require(path.join(MIGRATIONS_DIR, migration.file));
+    db.transaction(() => {
+      up(db);
+      record.run(migration.version, migration.name, Date.now());
+    })();
+    console.log(`Applied migration ${migration.name}`);
+  }
+}
+
+function openDatabase(filename = config.databasePath) {
+  if (filename !== ':memory:') {
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+  }
+
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  migrate(db);
+  return db;
+}
+
+// The database every module shares, opened when first required
+const db = openDatabase();
+
+module.exports = {
+  db,
+  openDatabase,
+  migrate
+};
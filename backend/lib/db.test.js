@@ -0,0 +1,125 @@
+const { describe, it, before, mock } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+
+// lib/db opens the shared database when first required, keep it in memory
+process.env.DATABASE_PATH = ':memory:';
+process.env.SIWE_DOMAIN = 'localhost';
+
+const Database = require('better-sqlite3');
+const { openDatabase, migrate } = require('./db');
+
+const MIGRATIONS_DIR = path.join(__dirname, '..', 'migrations');
+const MIGRATION_FILES = fs.readdirSync(MIGRATIONS_DIR).filter(file => /^\d+-[\w-]+\.js$/.test(file)).sort();
+
+const appliedVersions = (db) => db.prepare('SELECT version FROM schema_migrations ORDER BY version').pluck().all();
+
+// A database that has seen the migrations before the given version, the way lib/db would have left it
+const openDatabaseAt = (version) => {
+  const db = new Database(':memory:');
+  db.pragma('foreign_keys = ON');
+  db.exec('CREATE TABLE schema_migrations (version INTEGER PRIMARY KEY, name TEXT NOT NULL, applied_at INTEGER NOT NULL)');
+
+  MIGRATION_FILES.filter(file => parseInt(file, 10) < version).forEach(file => {
+    require(path.join(MIGRATIONS_DIR, file)).up(db);
+    db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)')
+      .run(parseInt(file, 10), path.basename(file, '.js'), Date.now());
+  });
+  return db;
+};
+
+before(() => {
+  mock.method(console, 'log', () => {});
+});
+
+describe('migrate', () => {
+  it('applies every migration in order to a new database', () => {
+    const db = openDatabase(':memory:');
+
+    assert.deepEqual(appliedVersions(db), MIGRATION_FILES.map(file => parseInt(file, 10)));
+    assert.deepEqual(db.pragma('foreign_key_check'), []);
+  });
+
+  it('applies nothing twice', () => {
+    const db = openDatabase(':memory:');
+    const projects = db.prepare('SELECT * FROM projects ORDER BY id').all();
+
+    migrate(db);
+
+    assert.equal(appliedVersions(db).length, MIGRATION_FILES.length);
+    assert.deepEqual(db.prepare('SELECT * FROM projects ORDER BY id').all(), projects);
+  });
+
+  it('only applies the migrations a database has not seen', () => {
+    const db = openDatabaseAt(7);
+    db.prepare('UPDATE projects SET title = ? WHERE id = 1').run('Renamed before 007');
+
+    migrate(db);
+
+    assert.deepEqual(appliedVersions(db), MIGRATION_FILES.map(file => parseInt(file, 10)));
+    assert.equal(db.prepare('SELECT title FROM projects WHERE id = 1').pluck().get(), 'Renamed before 007');
+  });
+
+  it('rolls back a migration that fails, with its version', () => {
+    const db = openDatabaseAt(7);
+    db.exec('DROP TABLE project_search; DROP TABLE project_authors; DROP TABLE projects');
+
+    assert.throws(() => migrate(db), /no such table: projects/);
+    assert.deepEqual(appliedVersions(db), MIGRATION_FILES.map(file => parseInt(file, 10)).filter(version => version < 7));
+  });
+});
+
+describe('migrations', () => {
+  it('index every seeded project for search (003)', () => {
+    const db = openDatabase(':memory:');
+
+    const indexed = db.prepare('SELECT rowid FROM project_search ORDER BY rowid').pluck().all();
+    assert.deepEqual(indexed, db.prepare('SELECT id FROM projects ORDER BY id').pluck().all());
+    assert.deepEqual(
+      db.prepare("SELECT rowid FROM project_search WHERE project_search MATCH 'distribution'").pluck().all(),
+      [2]
+    );
+  });
+
+  it('keep allowlist entries when access grants gain requests (006)', () => {
+    const db = openDatabaseAt(6);
+    db.prepare('INSERT INTO access_grants (project_id, address, granted_at) VALUES (?, ?, ?)').run(4, '0xabc', 1);
+
+    migrate(db);
+
+    assert.deepEqual(
+      db.prepare('SELECT project_id AS projectId, address, request_id AS requestId FROM access_grants').all(),
+      [{ projectId: 4, address: '0xabc', requestId: null }]
+    );
+    assert.throws(
+      () => db.prepare('INSERT INTO access_grants (project_id, address, granted_at) VALUES (?, ?, ?)').run(4, '0xABC', 2),
+      /UNIQUE constraint failed/
+    );
+  });
+
+  it('give every project the institution of its department (007)', () => {
+    const db = openDatabaseAt(7);
+    const mismatched = `
+      SELECT COUNT(*) FROM projects p JOIN departments d ON d.id = p.department_id
+      WHERE p.institution_id IS NOT d.institution_id
+    `;
+    db.prepare('UPDATE projects SET institution_id = NULL WHERE id = 1').run();
+    assert.notEqual(db.prepare(mismatched).pluck().get(), 0);
+
+    migrate(db);
+
+    assert.equal(db.prepare(mismatched).pluck().get(), 0);
+    assert.deepEqual(
+      db.prepare('SELECT id, department_id AS departmentId, institution_id AS institutionId FROM projects ORDER BY id').all(),
+      [
+        { id: 1, departmentId: 1, institutionId: 0 },
+        { id: 2, departmentId: 2, institutionId: 0 },
+        { id: 3, departmentId: 6, institutionId: 2 },
+        { id: 4, departmentId: 1, institutionId: 0 },
+        { id: 5, departmentId: 4, institutionId: 1 },
+        { id: 6, departmentId: 7, institutionId: 2 }
+      ]
+    );
+  });
+});
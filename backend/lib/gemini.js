@@ -0,0 +1,37 @@
+const config = require('./config');
+
+const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+// Generate text for a prompt, the key is sent as a header so it never appears in URLs or logs
+async function generateContent(prompt) {
+  const response = await fetch(`${GEMINI_API_URL}/${config.geminiModel}:generateContent`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-goog-api-key': config.geminiApiKey
+    },
+    body: JSON.stringify({
+      contents: [{ parts: [{ text: prompt }] }],
+      generationConfig: {
+        temperature: 0.7,
+        topK: 40,
+        topP: 0.95,
+        maxOutputTokens: 1024
+      }
+    })
+  });
+
+  /** @type {any} */
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(`Gemini API error: ${data.error?.message || response.status}`);
+  }
+
+  const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+  if (typeof text !== 'string') {
+    throw new Error('Unexpected Gemini API response structure');
+  }
+  return text;
+}
+
+module.exports = { generateContent };
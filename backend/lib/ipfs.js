@@ -0,0 +1,213 @@
+const fs = require('fs');
+const config = require('./config');
+
+// Pin content with the configured provider and return its CID.
+// Files from disk are streamed as blobs, so large uploads never sit in memory.
+
+const PINATA_API_URL = 'https://api.pinata.cloud';
+const PIN_LIST_PAGE_SIZE = 1000;
+
+const pinataHeaders = () => ({
+  pinata_api_key: config.pinataApiKey,
+  pinata_secret_api_key: config.pinataApiSecret
+});
+
+/**
+ * Call a provider endpoint and parse its JSON answer, failing with the provider's message
+ * @returns {Promise<any>}
+ */
+async function request(url, options, action) {
+  const response = await fetch(url, options);
+  if (!response.ok) {
+    throw new Error(`${action} failed: ${response.status} ${await response.text()}`);
+  }
+  return response.json();
+}
+
+// Upload form data to Kubo's add endpoint, every added entry is one JSON line
+async function addToKubo(formData) {
+  const response = await fetch(`${config.kuboApiUrl}/api/v0/add?pin=true&cid-version=0`, {
+    method: 'POST',
+    body: formData
+  });
+
+  if (!response.ok) {
+    throw new Error(`Kubo upload failed: ${response.status} ${await response.text()}`);
+  }
+
+  return (await response.text()).split('\n').filter(Boolean).map(line => JSON.parse(line));
+}
+
+async function pinBlobToPinata(blob, fileName, keyvalues) {
+  const formData = new FormData();
+  formData.append('file', blob, fileName);
+  formData.append('pinataMetadata', JSON.stringify({ name: fileName, keyvalues }));
+  formData.append('pinataOptions', JSON.stringify({ cidVersion: 0 }));
+
+  const { IpfsHash } = await request(`${PINATA_API_URL}/pinning/pinFileToIPFS`, {
+    method: 'POST',
+    headers: pinataHeaders(),
+    body: formData
+  }, 'Pinata upload');
+  return IpfsHash;
+}
+
+async function pinBlobToKubo(blob, fileName) {
+  const formData = new FormData();
+  formData.append('file', blob, fileName);
+
+  const [added] = await addToKubo(formData);
+  return added.Hash;
+}
+
+// Pin a blob, metadata key-values are kept by Pinata and ignored by Kubo
+async function pinBlob(blob, fileName, keyvalues) {
+  return config.storageProvider === 'kubo'
+    ? pinBlobToKubo(blob, fileName)
+    : pinBlobToPinata(blob, fileName, keyvalues);
+}
+
+async function pinFile(filePath, fileName) {
+  return pinBlob(await fs.openAsBlob(filePath), fileName);
+}
+
+async function pinJson(data, name) {
+  const blob = new Blob([JSON.stringify(data)], { type: 'application/json' });
+  return pinBlob(blob, name);
+}
+
+// Pin files as one directory, entries are { path, blob } with paths relative to the root
+async function pinDirectory(entries, name) {
+  const formData = new FormData();
+
+  if (config.storageProvider === 'kubo') {
+    // Kubo needs every directory announced before the files inside it
+    const directories = new Set([name]);
+    entries.forEach(entry => {
+      const parts = entry.path.split('/').slice(0, -1);
+      parts.forEach((_, index) => directories.add(`${name}/${parts.slice(0, index + 1).join('/')}`));
+    });
+
+    [...directories].sort().forEach(directory => {
+      formData.append('file', new Blob([], { type: 'application/x-directory' }), encodeURIComponent(directory));
+    });
+    entries.forEach(entry => formData.append('file', entry.blob, encodeURIComponent(`${name}/${entry.path}`)));
+
+    const root = (await addToKubo(formData)).find(item => item.Name === name);
+    if (!root) {
+      throw new Error('Kubo did not return the directory CID');
+    }
+    return root.Hash;
+  }
+
+  // Pinata builds the directory from the shared root folder of every file path
+  entries.forEach(entry => formData.append('file', entry.blob, `${name}/${entry.path}`));
+  formData.append('pinataMetadata', JSON.stringify({ name }));
+  formData.append('pinataOptions', JSON.stringify({ cidVersion: 0 }));
+
+  const { IpfsHash } = await request(`${PINATA_API_URL}/pinning/pinFileToIPFS`, {
+    method: 'POST',
+    headers: pinataHeaders(),
+    body: formData
+  }, 'Pinata directory upload');
+  return IpfsHash;
+}
+
+async function unpin(cid) {
+  if (config.storageProvider === 'kubo') {
+    const response = await fetch(`${config.kuboApiUrl}/api/v0/pin/rm?arg=${encodeURIComponent(cid)}`, { method: 'POST' });
+    const body = await response.text();
+    // Kubo answers 500 with "not pinned" for content that has no pin
+    if (!response.ok && !/not pinned/.test(body)) {
+      throw new Error(`Kubo unpin failed: ${response.status} ${body}`);
+    }
+    return;
+  }
+
+  const response = await fetch(`${PINATA_API_URL}/pinning/unpin/${encodeURIComponent(cid)}`, {
+    method: 'DELETE',
+    headers: pinataHeaders()
+  });
+  if (!response.ok) {
+    throw new Error(`Pinata unpin failed: ${response.status} ${await response.text()}`);
+  }
+}
+
+// Pin content that is already on the network by its CID
+async function repin(cid) {
+  if (config.storageProvider === 'kubo') {
+    await request(`${config.kuboApiUrl}/api/v0/pin/add?arg=${encodeURIComponent(cid)}&recursive=true`, {
+      method: 'POST'
+    }, 'Kubo pin');
+    return;
+  }
+
+  await request(`${PINATA_API_URL}/pinning/pinByHash`, {
+    method: 'POST',
+    headers: { ...pinataHeaders(), 'Content-Type': 'application/json' },
+    body: JSON.stringify({ hashToPin: cid })
+  }, 'Pinata pin by hash');
+}
+
+// 'pinned' or 'unpinned'
+async function getPinStatus(cid) {
+  if (config.storageProvider === 'kubo') {
+    const response = await fetch(
+      `${config.kuboApiUrl}/api/v0/pin/ls?arg=${encodeURIComponent(cid)}&type=recursive`,
+      { method: 'POST' }
+    );
+    const body = await response.text();
+    if (!response.ok) {
+      if (/not pinned/.test(body)) return 'unpinned';
+      throw new Error(`Kubo pin status failed: ${response.status} ${body}`);
+    }
+    return JSON.parse(body).Keys?.[cid] ? 'pinned' : 'unpinned';
+  }
+
+  const params = new URLSearchParams({ hashContains: cid, status: 'pinned', pageLimit: '1' });
+  const { count } = await request(`${PINATA_API_URL}/data/pinList?${params}`, {
+    headers: pinataHeaders()
+  }, 'Pinata pin status');
+  return count > 0 ? 'pinned' : 'unpinned';
+}
+
+// Every active pin as { cid, name, size, status, pinnedAt }
+async function listPins() {
+  if (config.storageProvider === 'kubo') {
+    const { Keys } = await request(`${config.kuboApiUrl}/api/v0/pin/ls?type=recursive`, {
+      method: 'POST'
+    }, 'Kubo pin list');
+
+    // Kubo does not store pin sizes, stat every pinned DAG
+    return Promise.all(Object.keys(Keys || {}).map(async (cid) => {
+      const stat = await request(`${config.kuboApiUrl}/api/v0/files/stat?arg=/ipfs/${cid}`, {
+        method: 'POST'
+      }, 'Kubo stat');
+      return { cid, size: stat.CumulativeSize || 0, status: 'pinned' };
+    }));
+  }
+
+  const pins = [];
+  for (let pageOffset = 0; ; pageOffset += PIN_LIST_PAGE_SIZE) {
+    const params = new URLSearchParams({
+      status: 'pinned',
+      pageLimit: String(PIN_LIST_PAGE_SIZE),
+      pageOffset: String(pageOffset)
+    });
+    const { rows } = await request(`${PINATA_API_URL}/data/pinList?${params}`, {
+      headers: pinataHeaders()
+    }, 'Pinata pin list');
+
+    pins.push(...rows.map(row => ({
+      cid: row.ipfs_pin_hash,
+      name: row.metadata?.name || undefined,
+      size: row.size,
+      status: 'pinned',
+      pinnedAt: Date.parse(row.date_pinned)
+    })));
+
+    if (rows.length < PIN_LIST_PAGE_SIZE) return pins;
+  }
+}
+
+module.exports = { pinFile, pinBlob, pinJson, pinDirectory, unpin, repin, getPinStatus, listPins };
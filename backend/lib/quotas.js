@@ -0,0 +1,69 @@
+const config = require('./config');
+
+// Per-wallet usage over a rolling window, kept in memory like the sessions
+const usage = new Map(); // "kind:address" -> [{ at, amount }]
+
+const LIMITS = {
+  uploadBytes: () => config.uploadQuotaBytes,
+  aiRequests: () => config.aiQuotaRequests
+};
+
+const getKey = (kind, address) => `${kind}:${address.toLowerCase()}`;
+
+// Entries still inside the window, older ones are dropped
+function getEntries(kind, address) {
+  const key = getKey(kind, address);
+  const windowStart = Date.now() - config.quotaWindowMs;
+  const entries = (usage.get(key) || []).filter(entry => entry.at > windowStart);
+
+  if (entries.length > 0) usage.set(key, entries);
+  else usage.delete(key);
+  return entries;
+}
+
+function getQuota(kind, address) {
+  const entries = getEntries(kind, address);
+  const used = entries.reduce((total, entry) => total + entry.amount, 0);
+
+  return {
+    used,
+    limit: LIMITS[kind](),
+    // The oldest entry leaving the window frees its share first
+    resetsAt: entries.length > 0 ? entries[0].at + config.quotaWindowMs : null
+  };
+}
+
+// Record usage if it fits in the wallet's quota, returns the quota either way
+function consumeQuota(kind, address, amount) {
+  const quota = getQuota(kind, address);
+  if (quota.used + amount > quota.limit) {
+    return { ...quota, allowed: false };
+  }
+
+  const key = getKey(kind, address);
+  usage.set(key, [...(usage.get(key) || []), { at: Date.now(), amount }]);
+  return { ...quota, used: quota.used + amount, allowed: true };
+}
+
+// Give back usage for work that failed, so a retry isn't charged twice
+function refundQuota(kind, address, amount) {
+  const key = getKey(kind, address);
+  usage.set(key, [...(usage.get(key) || []), { at: Date.now(), amount: -amount }]);
+}
+
+function getQuotaStatus(address) {
+  return {
+    uploadBytes: getQuota('uploadBytes', address),
+    aiRequests: getQuota('aiRequests', address)
+  };
+}
+
+// Drop wallets whose usage has all left the window
+setInterval(() => {
+  for (const key of usage.keys()) {
+    const [kind, address] = key.split(':');
+    getEntries(kind, address);
+  }
+}, 60 * 60 * 1000).unref();
+
+module.exports = { consumeQuota, refundQuota, getQuotaStatus };
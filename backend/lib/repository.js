@@ -0,0 +1,715 @@
+const crypto = require('crypto');
+const { db } = require('./db');
+const { indexProjects, indexProjectsByAuthors, removeFromIndex } = require('./searchIndex');
+
+// Records shared by every client of the API, kept in the SQLite database (see lib/db and migrations).
+// Functions stay async so the routes don't depend on the driver being synchronous.
+// Changes take the acting wallet last and are written to audit_events in the same transaction.
+
+/**
+ * @typedef {import('../types').Institution} Institution
+ * @typedef {import('../types').InstitutionWithDepartments} InstitutionWithDepartments
+ * @typedef {import('../types').Department} Department
+ * @typedef {import('../types').Project} Project
+ * @typedef {import('../types').ProjectSummary} ProjectSummary
+ * @typedef {import('../types').ProjectFilter} ProjectFilter
+ * @typedef {import('../types').MetadataRevision} MetadataRevision
+ * @typedef {import('../types').AccessRequest} AccessRequest
+ * @typedef {import('../types').EncryptionKey} EncryptionKey
+ * @typedef {import('../types').Student} Student
+ * @typedef {import('../types').StudentFilter} StudentFilter
+ * @typedef {import('../types').Viewer} Viewer
+ */
+/** @template T @typedef {import('../types').Query<T>} Query */
+
+const generateStudentId = () => {
+  return `STU-${Date.now().toString(36)}-${crypto.randomBytes(3).toString('hex')}`.toUpperCase();
+};
+
+const insertAuditEvent = db.prepare(`
+  INSERT INTO audit_events (action, entity_type, entity_id, actor, details, created_at)
+  VALUES (?, ?, ?, ?, ?, ?)
+`);
+
+const audit = (action, entityType, entityId, actor, details) => {
+  insertAuditEvent.run(
+    action,
+    entityType,
+    String(entityId),
+    actor ?? null,
+    details === undefined ? null : JSON.stringify(details),
+    Date.now()
+  );
+};
+
+// Build "SET a = @a, b = @b" for the given columns
+const setClause = (columns) => columns.map(column => `${column} = @${column}`).join(', ');
+
+// Institutions
+
+const selectInstitutions = /** @type {Query<Institution>} */ (db.prepare('SELECT id, name FROM institutions ORDER BY id'));
+const selectInstitution = /** @type {Query<Institution>} */ (db.prepare('SELECT id, name FROM institutions WHERE id = ?'));
+
+/** @returns {Promise<InstitutionWithDepartments[]>} */
+async function listInstitutions() {
+  const departments = await listDepartments();
+  return selectInstitutions.all().map(institution => ({
+    ...institution,
+    departments: departments.filter(department => department.institutionId === institution.id)
+  }));
+}
+
+/** @returns {Promise<Institution | undefined>} */
+async function getInstitution(id) {
+  return selectInstitution.get(id);
+}
+
+const createInstitutionTx = db.transaction(({ name }, actor) => {
+  const { lastInsertRowid } = db.prepare('INSERT INTO institutions (name) VALUES (?)').run(name);
+  const institution = selectInstitution.get(lastInsertRowid);
+  audit('create', 'institution', institution.id, actor, { name });
+  return institution;
+});
+
+async function createInstitution(data, actor) {
+  return createInstitutionTx(data, actor);
+}
+
+const updateInstitutionTx = db.transaction((id, updates, actor) => {
+  if (!selectInstitution.get(id)) return undefined;
+
+  db.prepare('UPDATE institutions SET name = ? WHERE id = ?').run(updates.name, id);
+  audit('update', 'institution', id, actor, updates);
+  return selectInstitution.get(id);
+});
+
+async function updateInstitution(id, updates, actor) {
+  return updateInstitutionTx(id, updates, actor);
+}
+
+const deleteInstitutionTx = db.transaction((id, actor) => {
+  const { changes } = db.prepare('DELETE FROM institutions WHERE id = ?').run(id);
+  if (changes > 0) audit('delete', 'institution', id, actor);
+  return changes > 0;
+});
+
+async function deleteInstitution(id, actor) {
+  return deleteInstitutionTx(id, actor);
+}
+
+// Departments
+
+const DEPARTMENT_COLUMNS = 'id, institution_id AS institutionId, name';
+const selectDepartment = /** @type {Query<Department>} */ (db.prepare(`SELECT ${DEPARTMENT_COLUMNS} FROM departments WHERE id = ?`));
+
+/**
+ * @param {number} [institutionId]
+ * @returns {Promise<Department[]>}
+ */
+async function listDepartments(institutionId) {
+  if (institutionId === undefined) {
+    return /** @type {Department[]} */ (db.prepare(`SELECT ${DEPARTMENT_COLUMNS} FROM departments ORDER BY id`).all());
+  }
+  return /** @type {Department[]} */ (
+    db.prepare(`SELECT ${DEPARTMENT_COLUMNS} FROM departments WHERE institution_id = ? ORDER BY id`).all(institutionId)
+  );
+}
+
+/** @returns {Promise<Department | undefined>} */
+async function getDepartment(id) {
+  return selectDepartment.get(id);
+}
+
+const createDepartmentTx = db.transaction((institutionId, { name }, actor) => {
+  const { lastInsertRowid } = db.prepare('INSERT INTO departments (institution_id, name) VALUES (?, ?)')
+    .run(institutionId, name);
+  const department = selectDepartment.get(lastInsertRowid);
+  audit('create', 'department', department.id, actor, { institutionId, name });
+  return department;
+});
+
+async function createDepartment(institutionId, data, actor) {
+  return createDepartmentTx(institutionId, data, actor);
+}
+
+const updateDepartmentTx = db.transaction((id, updates, actor) => {
+  if (!selectDepartment.get(id)) return undefined;
+
+  db.prepare('UPDATE departments SET name = ? WHERE id = ?').run(updates.name, id);
+  audit('update', 'department', id, actor, updates);
+  return selectDepartment.get(id);
+});
+
+async function updateDepartment(id, updates, actor) {
+  return updateDepartmentTx(id, updates, actor);
+}
+
+const deleteDepartmentTx = db.transaction((id, actor) => {
+  const { changes } = db.prepare('DELETE FROM departments WHERE id = ?').run(id);
+  if (changes > 0) audit('delete', 'department', id, actor);
+  return changes > 0;
+});
+
+async function deleteDepartment(id, actor) {
+  return deleteDepartmentTx(id, actor);
+}
+
+// Projects
+
+// Project fields stored in their own column, authors and the allowlist live in separate tables
+const PROJECT_COLUMNS = {
+  title: 'title',
+  description: 'description',
+  ipfsHash: 'ipfs_hash',
+  departmentId: 'department_id',
+  institutionId: 'institution_id',
+  year: 'year',
+  uploadDate: 'upload_date',
+  accessLevel: 'access_level',
+  aiSummary: 'ai_summary',
+  creatorAddress: 'creator_address',
+  transactionHash: 'transaction_hash',
+  embargoUntil: 'embargo_until',
+  encryption: 'encryption',
+  isBundle: 'is_bundle',
+  metadataCid: 'metadata_cid',
+  keywords: 'keywords',
+  license: 'license'
+};
+const JSON_FIELDS = new Set(['encryption', 'keywords']);
+
+const toColumnValue = (field, value) => {
+  if (value === undefined || value === null) return null;
+  if (JSON_FIELDS.has(field)) return JSON.stringify(value);
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return value;
+};
+
+const toColumnValues = (fields) => {
+  const values = {};
+  Object.entries(PROJECT_COLUMNS).forEach(([field, column]) => {
+    if (field in fields) values[column] = toColumnValue(field, fields[field]);
+  });
+  return values;
+};
+
+// Authors and allowlist are collected as JSON arrays alongside the project row
+const PROJECT_SELECT = `
+  SELECT p.*,
+    (SELECT json_group_array(address) FROM
+      (SELECT address FROM project_authors WHERE project_id = p.id ORDER BY position)) AS authors,
+    (SELECT json_group_array(address) FROM access_grants WHERE project_id = p.id AND request_id IS NULL) AS allowlist
+  FROM projects p
+`;
+
+/** @returns {Project} */
+const toProject = (row) => {
+  const project = /** @type {Project} */ ({ id: row.id, authors: JSON.parse(row.authors) });
+  Object.entries(PROJECT_COLUMNS).forEach(([field, column]) => {
+    const value = row[column];
+    if (value === null) return;
+    if (JSON_FIELDS.has(field)) project[field] = JSON.parse(value);
+    else if (field === 'isBundle') project[field] = value === 1;
+    else project[field] = value;
+  });
+
+  const allowlist = JSON.parse(row.allowlist);
+  if (allowlist.length > 0) project.allowlist = allowlist;
+  return project;
+};
+
+/** @type {Query<Record<string, any>>} */
+const selectProject = db.prepare(`${PROJECT_SELECT} WHERE p.id = ?`);
+
+// Access rights
+
+// The level in force, embargoed projects stay private (2) until their release date
+const EFFECTIVE_ACCESS_LEVEL = 'CASE WHEN p.embargo_until > @now THEN 2 ELSE p.access_level END';
+// Like the contract, a project's institution follows from its department
+const PROJECT_INSTITUTION = 'COALESCE((SELECT institution_id FROM departments WHERE id = p.department_id), p.institution_id)';
+
+// Same rules as the frontend's lib/accessPolicy: public (0) is open to everyone, authors and wallets
+// with an approved access request see the project and institution (1), department (3) and
+// allowlist (4) depend on the viewer. Bind it with viewerParams.
+const VISIBLE_TO_VIEWER = `(
+  ${EFFECTIVE_ACCESS_LEVEL} = 0 OR (@viewer IS NOT NULL AND (
+    EXISTS (SELECT 1 FROM project_authors a WHERE a.project_id = p.id AND a.address = @viewer) OR
+    EXISTS (SELECT 1 FROM access_grants g WHERE g.project_id = p.id AND g.address = @viewer
+      AND g.request_id IS NOT NULL AND (g.expires_at IS NULL OR g.expires_at > @now)) OR
+    (${EFFECTIVE_ACCESS_LEVEL} = 1 AND ${PROJECT_INSTITUTION} = @viewerInstitutionId) OR
+    (${EFFECTIVE_ACCESS_LEVEL} = 3 AND p.department_id = @viewerDepartmentId) OR
+    (${EFFECTIVE_ACCESS_LEVEL} = 4 AND EXISTS (
+      SELECT 1 FROM access_grants g WHERE g.project_id = p.id AND g.address = @viewer AND g.request_id IS NULL))
+  ))
+)`;
+
+/**
+ * Parameters of VISIBLE_TO_VIEWER for a viewer from lib/auth's getViewer, null is a guest
+ * @param {Viewer | null} viewer
+ * @returns {Record<string, unknown>}
+ */
+const viewerParams = (viewer) => ({
+  now: Date.now(),
+  viewer: viewer?.address ?? null,
+  viewerInstitutionId: viewer?.institutionId ?? null,
+  viewerDepartmentId: viewer?.departmentId ?? null
+});
+
+// Replace the authors and allowlist of a project when they are part of the change
+const writeProjectLists = (id, { authors, allowlist }) => {
+  if (authors !== undefined) {
+    db.prepare('DELETE FROM project_authors WHERE project_id = ?').run(id);
+    const insertAuthor = db.prepare('INSERT INTO project_authors (project_id, position, address) VALUES (?, ?, ?)');
+    authors.forEach((address, position) => insertAuthor.run(id, position, address));
+  }
+
+  if (allowlist !== undefined) {
+    db.prepare('DELETE FROM access_grants WHERE project_id = ? AND request_id IS NULL').run(id);
+    const insertGrant = db.prepare('INSERT OR IGNORE INTO access_grants (project_id, address, granted_at) VALUES (?, ?, ?)');
+    const now = Date.now();
+    allowlist.forEach(address => insertGrant.run(id, address, now));
+  }
+};
+
+/**
+ * Projects are limited to what the viewer may see, internal checks that need every project leave it out
+ * @param {ProjectFilter} [filter]
+ * @param {Viewer | null} [viewer]
+ * @returns {Promise<Project[]>}
+ */
+async function listProjects(filter = {}, viewer) {
+  const conditions = [];
+  const params = {};
+
+  if (viewer !== undefined) {
+    conditions.push(VISIBLE_TO_VIEWER);
+    Object.assign(params, viewerParams(viewer));
+  }
+
+  if (filter.departmentId !== undefined) {
+    conditions.push('p.department_id = @departmentId');
+    params.departmentId = filter.departmentId;
+  }
+  if (filter.institutionId !== undefined) {
+    conditions.push(`${PROJECT_INSTITUTION} = @institutionId`);
+    params.institutionId = filter.institutionId;
+  }
+  if (filter.year !== undefined) {
+    conditions.push('p.year = @year');
+    params.year = filter.year;
+  }
+  if (filter.author !== undefined) {
+    conditions.push('EXISTS (SELECT 1 FROM project_authors a WHERE a.project_id = p.id AND a.address = @author)');
+    params.author = filter.author;
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  return db.prepare(`${PROJECT_SELECT} ${where} ORDER BY p.upload_date DESC, p.id DESC`).all(params).map(toProject);
+}
+
+// What anyone may know about a project, restricted ones included: enough to find who decides on
+// access requests for it, without its description, files or allowlist
+const SUMMARY_SELECT = `
+  SELECT p.id, p.title,
+    (SELECT json_group_array(address) FROM
+      (SELECT address FROM project_authors WHERE project_id = p.id ORDER BY position)) AS authors,
+    p.department_id AS departmentId, ${PROJECT_INSTITUTION} AS institutionId, p.year,
+    p.access_level AS accessLevel, p.embargo_until AS embargoUntil
+  FROM projects p
+`;
+
+/** @returns {ProjectSummary} */
+const toProjectSummary = ({ authors, embargoUntil, ...row }) => {
+  const summary = /** @type {ProjectSummary} */ ({ ...row, authors: JSON.parse(authors) });
+  if (embargoUntil !== null) summary.embargoUntil = embargoUntil;
+  return summary;
+};
+
+/**
+ * @param {number[]} projectIds
+ * @returns {Promise<ProjectSummary[]>}
+ */
+async function listProjectSummaries(projectIds) {
+  if (projectIds.length === 0) return [];
+
+  return db.prepare(`${SUMMARY_SELECT} WHERE p.id IN (${projectIds.map(() => '?').join(', ')}) ORDER BY p.id`)
+    .all(projectIds)
+    .map(toProjectSummary);
+}
+
+/** @type {Query<Record<string, any>>} */
+const selectVisibleProject = db.prepare(`${PROJECT_SELECT} WHERE p.id = @id AND ${VISIBLE_TO_VIEWER}`);
+
+/**
+ * A project the viewer can't see is not found, the same as in listProjects
+ * @param {Viewer | null} [viewer]
+ * @returns {Promise<Project | undefined>}
+ */
+async function getProject(id, viewer) {
+  const row = viewer === undefined ? selectProject.get(id) : selectVisibleProject.get({ id, ...viewerParams(viewer) });
+  return row && toProject(row);
+}
+
+const createProjectTx = db.transaction((data, actor) => {
+  const values = toColumnValues(data);
+  const columns = Object.keys(values);
+  const { lastInsertRowid } = db.prepare(
+    `INSERT INTO projects (${columns.join(', ')}) VALUES (${columns.map(column => `@${column}`).join(', ')})`
+  ).run(values);
+
+  writeProjectLists(lastInsertRowid, data);
+  indexProjects([lastInsertRowid]);
+  audit('create', 'project', lastInsertRowid, actor, { title: data.title, ipfsHash: data.ipfsHash });
+  return toProject(selectProject.get(lastInsertRowid));
+});
+
+/** @returns {Promise<Project>} */
+async function createProject(data, actor) {
+  return createProjectTx(data, actor);
+}
+
+const updateProjectTx = db.transaction((id, updates, actor) => {
+  if (!selectProject.get(id)) return undefined;
+
+  const values = toColumnValues(updates);
+  const columns = Object.keys(values);
+  if (columns.length > 0) {
+    db.prepare(`UPDATE projects SET ${setClause(columns)} WHERE id = @id`).run({ ...values, id });
+  }
+
+  writeProjectLists(id, updates);
+  indexProjects([id]);
+  audit('update', 'project', id, actor, { fields: Object.keys(updates) });
+  return toProject(selectProject.get(id));
+});
+
+/** @returns {Promise<Project | undefined>} */
+async function updateProject(id, updates, actor) {
+  return updateProjectTx(id, updates, actor);
+}
+
+const deleteProjectTx = db.transaction((id, actor) => {
+  const { changes } = db.prepare('DELETE FROM projects WHERE id = ?').run(id);
+  // Grants don't reference the projects table (see migrations/006-access-requests)
+  db.prepare('DELETE FROM access_grants WHERE project_id = ?').run(id);
+  removeFromIndex(id);
+  if (changes > 0) audit('delete', 'project', id, actor);
+  return changes > 0;
+});
+
+/** @returns {Promise<boolean>} */
+async function deleteProject(id, actor) {
+  return deleteProjectTx(id, actor);
+}
+
+// Metadata revisions of projects on the contract
+
+/**
+ * @param {number[]} projectIds
+ * @returns {Promise<MetadataRevision[]>}
+ */
+async function getMetadataRevisions(projectIds) {
+  if (projectIds.length === 0) return [];
+
+  return /** @type {Query<MetadataRevision>} */ (db.prepare(`
+    SELECT project_id AS projectId, metadata_cid AS metadataCid FROM metadata_revisions
+    WHERE project_id IN (${projectIds.map(() => '?').join(', ')})
+  `)).all(projectIds);
+}
+
+const setMetadataRevisionTx = db.transaction((projectId, metadataCid, actor) => {
+  db.prepare(`
+    INSERT INTO metadata_revisions (project_id, metadata_cid, updated_by, updated_at) VALUES (?, ?, ?, ?)
+    ON CONFLICT (project_id) DO UPDATE SET
+      metadata_cid = excluded.metadata_cid, updated_by = excluded.updated_by, updated_at = excluded.updated_at
+  `).run(projectId, metadataCid, actor, Date.now());
+  audit('update', 'metadata_revision', projectId, actor, { metadataCid });
+});
+
+async function setMetadataRevision(projectId, metadataCid, actor) {
+  return setMetadataRevisionTx(projectId, metadataCid, actor);
+}
+
+// Access requests
+
+const REQUEST_SELECT = `
+  SELECT id, project_id AS projectId, requester, reason, status, created_at AS createdAt,
+    decided_at AS decidedAt, decided_by AS decidedBy, expires_at AS expiresAt
+  FROM access_requests
+`;
+
+/**
+ * Leave out the decision fields of requests that are still pending
+ * @returns {AccessRequest}
+ */
+const toAccessRequest = (row) => {
+  return /** @type {AccessRequest} */ (Object.fromEntries(Object.entries(row).filter(([, value]) => value !== null)));
+};
+
+/**
+ * Requests of any of the wallets and projects given, newest first
+ * @param {{ requester?: string, projectIds?: number[] }} filter
+ * @returns {Promise<AccessRequest[]>}
+ */
+async function listAccessRequests({ requester, projectIds = [] }) {
+  const conditions = [];
+  const params = [];
+
+  if (requester !== undefined) {
+    conditions.push('requester = ?');
+    params.push(requester);
+  }
+  if (projectIds.length > 0) {
+    conditions.push(`project_id IN (${projectIds.map(() => '?').join(', ')})`);
+    params.push(...projectIds);
+  }
+  if (conditions.length === 0) return [];
+
+  return db.prepare(`${REQUEST_SELECT} WHERE ${conditions.join(' OR ')} ORDER BY created_at DESC`)
+    .all(params)
+    .map(toAccessRequest);
+}
+
+/** @returns {Promise<number[]>} */
+async function listRequestedProjectIds() {
+  return /** @type {Query<number>} */ (db.prepare('SELECT DISTINCT project_id FROM access_requests')).pluck().all();
+}
+
+/** @returns {Promise<AccessRequest | undefined>} */
+async function getAccessRequest(id) {
+  const row = db.prepare(`${REQUEST_SELECT} WHERE id = ?`).get(id);
+  return row && toAccessRequest(row);
+}
+
+// A wallet has at most one open request per project: pending, or approved and not yet expired
+const selectOpenRequest = db.prepare(`
+  ${REQUEST_SELECT}
+  WHERE project_id = ? AND requester = ?
+    AND (status = 'pending' OR (status = 'approved' AND (expires_at IS NULL OR expires_at > ?)))
+`);
+
+/** @returns {Promise<AccessRequest | undefined>} */
+async function getOpenAccessRequest(projectId, requester) {
+  const row = selectOpenRequest.get(projectId, requester, Date.now());
+  return row && toAccessRequest(row);
+}
+
+const generateAccessRequestId = () => {
+  return `REQ-${Date.now().toString(36)}-${crypto.randomBytes(3).toString('hex')}`.toUpperCase();
+};
+
+const createAccessRequestTx = db.transaction(({ projectId, requester, reason }, actor) => {
+  const id = generateAccessRequestId();
+  db.prepare(`
+    INSERT INTO access_requests (id, project_id, requester, reason, status, created_at)
+    VALUES (?, ?, ?, ?, 'pending', ?)
+  `).run(id, projectId, requester, reason, Date.now());
+  audit('create', 'access_request', id, actor, { projectId });
+  return toAccessRequest(db.prepare(`${REQUEST_SELECT} WHERE id = ?`).get(id));
+});
+
+/** @returns {Promise<AccessRequest>} */
+async function createAccessRequest(data, actor) {
+  return createAccessRequestTx(data, actor);
+}
+
+// Approve or deny a pending request, an approval grants the requester access until expiresAt
+const decideAccessRequestTx = db.transaction((id, { status, expiresAt }, actor) => {
+  const now = Date.now();
+  const { changes } = db.prepare(`
+    UPDATE access_requests SET status = ?, decided_at = ?, decided_by = ?, expires_at = ?
+    WHERE id = ? AND status = 'pending'
+  `).run(status, now, actor, expiresAt ?? null, id);
+  if (changes === 0) return undefined;
+
+  const request = toAccessRequest(db.prepare(`${REQUEST_SELECT} WHERE id = ?`).get(id));
+  if (status === 'approved') {
+    db.prepare(`
+      INSERT INTO access_grants (project_id, address, granted_at, request_id, expires_at) VALUES (?, ?, ?, ?, ?)
+    `).run(request.projectId, request.requester, now, id, expiresAt ?? null);
+  }
+  audit('update', 'access_request', id, actor, { status, expiresAt });
+  return request;
+});
+
+/** @returns {Promise<AccessRequest | undefined>} */
+async function decideAccessRequest(id, decision, actor) {
+  return decideAccessRequestTx(id, decision, actor);
+}
+
+// Encryption keys
+
+const KEY_SELECT = 'SELECT address, public_key AS publicKey, signature, published_at AS publishedAt FROM encryption_keys';
+
+/** @returns {Promise<EncryptionKey[]>} */
+async function listEncryptionKeys() {
+  return /** @type {Query<EncryptionKey>} */ (db.prepare(`${KEY_SELECT} ORDER BY published_at`)).all();
+}
+
+/** @returns {Promise<EncryptionKey | undefined>} */
+async function getEncryptionKey(address) {
+  return /** @type {Query<EncryptionKey>} */ (db.prepare(`${KEY_SELECT} WHERE address = ?`)).get(address);
+}
+
+// A wallet publishes one key at a time, a new one replaces it
+const publishEncryptionKeyTx = db.transaction((address, publicKey, signature, actor) => {
+  db.prepare(`
+    INSERT INTO encryption_keys (address, public_key, signature, published_at) VALUES (?, ?, ?, ?)
+    ON CONFLICT (address) DO UPDATE SET
+      public_key = excluded.public_key, signature = excluded.signature, published_at = excluded.published_at
+  `).run(address.toLowerCase(), publicKey, signature, Date.now());
+  audit('update', 'encryption_key', address.toLowerCase(), actor, { publicKey });
+});
+
+async function publishEncryptionKey(address, publicKey, signature, actor) {
+  return publishEncryptionKeyTx(address, publicKey, signature, actor);
+}
+
+// Students
+
+const STUDENT_SELECT = `
+  SELECT id, wallet_address AS walletAddress, name, email, department_id AS departmentId,
+    institution_id AS institutionId, year, status, date_added AS dateAdded
+  FROM students
+`;
+const STUDENT_COLUMNS = {
+  walletAddress: 'wallet_address',
+  name: 'name',
+  email: 'email',
+  departmentId: 'department_id',
+  institutionId: 'institution_id',
+  year: 'year',
+  status: 'status'
+};
+
+const selectStudent = /** @type {Query<Student>} */ (db.prepare(`${STUDENT_SELECT} WHERE id = ?`));
+const selectStudentByWallet = /** @type {Query<Student>} */ (db.prepare(`${STUDENT_SELECT} WHERE wallet_address = ?`));
+
+/**
+ * @param {StudentFilter} [filter]
+ * @returns {Promise<Student[]>}
+ */
+async function listStudents(filter = {}) {
+  const conditions = [];
+  if (filter.institutionId !== undefined) conditions.push('institution_id = @institutionId');
+  if (filter.departmentId !== undefined) conditions.push('department_id = @departmentId');
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  return /** @type {Query<Student>} */ (db.prepare(`${STUDENT_SELECT} ${where} ORDER BY date_added, id`)).all(filter);
+}
+
+/** @returns {Promise<Student | undefined>} */
+async function getStudent(id) {
+  return selectStudent.get(id);
+}
+
+/** @returns {Promise<Student | undefined>} */
+async function getStudentByWallet(walletAddress) {
+  return selectStudentByWallet.get(walletAddress);
+}
+
+const insertStudent = db.prepare(`
+  INSERT INTO students (id, wallet_address, name, email, department_id, institution_id, year, status, date_added)
+  VALUES (@id, @walletAddress, @name, @email, @departmentId, @institutionId, @year, @status, @dateAdded)
+`);
+
+// A failing insert (e.g. a wallet that is already registered) rolls back the whole list
+const createStudentsTx = db.transaction((list, actor) => {
+  const dateAdded = Date.now();
+  const created = list.map(data => {
+    const student = { ...data, id: generateStudentId(), dateAdded };
+    insertStudent.run(student);
+    audit('create', 'student', student.id, actor, { walletAddress: student.walletAddress });
+    return student;
+  });
+
+  indexProjectsByAuthors(created.map(student => student.walletAddress));
+  return created;
+});
+
+/**
+ * Add several students at once, either all of them or none
+ * @returns {Promise<Student[]>}
+ */
+async function createStudents(list, actor) {
+  return createStudentsTx(list, actor);
+}
+
+const updateStudentTx = db.transaction((id, updates, actor) => {
+  const student = selectStudent.get(id);
+  if (!student) return undefined;
+
+  const values = {};
+  Object.entries(STUDENT_COLUMNS).forEach(([field, column]) => {
+    if (updates[field] !== undefined) values[column] = updates[field];
+  });
+
+  const columns = Object.keys(values);
+  if (columns.length > 0) {
+    db.prepare(`UPDATE students SET ${setClause(columns)} WHERE id = @id`).run({ ...values, id });
+  }
+
+  // The name is indexed through the wallet, so both the old and the new wallet's projects change
+  indexProjectsByAuthors([student.walletAddress, updates.walletAddress].filter(Boolean));
+  audit('update', 'student', id, actor, { fields: Object.keys(updates) });
+  return selectStudent.get(id);
+});
+
+/** @returns {Promise<Student | undefined>} */
+async function updateStudent(id, updates, actor) {
+  return updateStudentTx(id, updates, actor);
+}
+
+const deleteStudentTx = db.transaction((id, actor) => {
+  const student = selectStudent.get(id);
+  if (!student) return false;
+
+  db.prepare('DELETE FROM students WHERE id = ?').run(id);
+  indexProjectsByAuthors([student.walletAddress]);
+  audit('delete', 'student', id, actor);
+  return true;
+});
+
+async function deleteStudent(id, actor) {
+  return deleteStudentTx(id, actor);
+}
+
+module.exports = {
+  EFFECTIVE_ACCESS_LEVEL,
+  PROJECT_INSTITUTION,
+  VISIBLE_TO_VIEWER,
+  viewerParams,
+  listInstitutions,
+  getInstitution,
+  createInstitution,
+  updateInstitution,
+  deleteInstitution,
+  listDepartments,
+  getDepartment,
+  createDepartment,
+  updateDepartment,
+  deleteDepartment,
+  listProjects,
+  listProjectSummaries,
+  getProject,
+  createProject,
+  updateProject,
+  deleteProject,
+  getMetadataRevisions,
+  setMetadataRevision,
+  listAccessRequests,
+  listRequestedProjectIds,
+  getAccessRequest,
+  getOpenAccessRequest,
+  createAccessRequest,
+  decideAccessRequest,
+  listEncryptionKeys,
+  getEncryptionKey,
+  publishEncryptionKey,
+  listStudents,
+  getStudent,
+  getStudentByWallet,
+  createStudents,
+  updateStudent,
+  deleteStudent
+};
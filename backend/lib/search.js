@@ -0,0 +1,237 @@
+const { db } = require('./db');
+const { EFFECTIVE_ACCESS_LEVEL, PROJECT_INSTITUTION, VISIBLE_TO_VIEWER, viewerParams } = require('./repository');
+
+// Full-text project search over the project_search FTS5 table (see migrations/003-project-search),
+// the index itself is maintained by lib/searchIndex
+
+// Query parsing
+
+// Split the query into clauses that must all match, each a list of alternatives.
+// Words and "quoted phrases" are required, OR joins its neighbours and a leading - excludes a term.
+const parseQuery = (text) => {
+  const clauses = [];
+  const excluded = [];
+  let joinNext = false;
+
+  for (const token of text.match(/-?"[^"]*"?|\S+/g) || []) {
+    if (token === 'OR') {
+      joinNext = clauses.length > 0;
+      continue;
+    }
+
+    const isExcluded = token.length > 1 && token.startsWith('-');
+    // Anything but letters and digits separates words, the same way the index tokenizes them
+    const words = (isExcluded ? token.slice(1) : token).match(/[\p{L}\p{N}]+/gu);
+    if (!words) continue;
+
+    const term = words.join(' ');
+    if (isExcluded) {
+      excluded.push(term);
+    } else if (joinNext) {
+      clauses[clauses.length - 1].push(term);
+    } else {
+      clauses.push([term]);
+    }
+    joinNext = false;
+  }
+
+  return { clauses, excluded };
+};
+
+// Terms are only letters, digits and spaces, so quoting them is enough to escape them
+const toMatchExpression = (clauses) => {
+  return clauses.map(alternatives => `(${alternatives.map(term => `"${term}"`).join(' OR ')})`).join(' AND ');
+};
+
+// Typo correction
+
+const selectAnyMatch = db.prepare('SELECT 1 FROM project_search WHERE project_search MATCH ? LIMIT 1').pluck();
+const selectVocabulary = db.prepare('SELECT term FROM project_search_vocab WHERE length(term) BETWEEN ? AND ?').pluck();
+
+const editDistance = (a, b) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// The closest indexed term to a word nothing matches, short words are left alone
+const findCorrection = (word) => {
+  const maxDistance = word.length < 4 ? 0 : word.length < 8 ? 1 : 2;
+  if (maxDistance === 0 || selectAnyMatch.get(`"${word}"`)) return undefined;
+
+  let best;
+  for (const term of selectVocabulary.all(word.length - maxDistance, word.length + maxDistance)) {
+    const distance = editDistance(word, term);
+    if (distance <= maxDistance && (!best || distance < best.distance)) {
+      best = { term, distance };
+    }
+  }
+  return best?.term;
+};
+
+// Add the closest indexed term as an alternative to single words that match nothing
+const correctClauses = (clauses) => {
+  const corrections = [];
+  const corrected = clauses.map(alternatives => alternatives.flatMap(term => {
+    if (term.includes(' ')) return [term];
+
+    const suggestion = findCorrection(term.toLowerCase());
+    if (!suggestion) return [term];
+
+    corrections.push({ term, suggestion });
+    return [term, suggestion];
+  }));
+
+  return { clauses: corrected, corrections };
+};
+
+// Search
+
+// Column weights for bm25: title, description, AI summary, keywords, authors
+const RANK = 'bm25(project_search, 10.0, 1.0, 2.0, 5.0, 3.0)';
+
+const SORT_ORDERS = {
+  relevance: 'score, p.upload_date DESC',
+  recent: 'p.upload_date DESC, p.id DESC',
+  oldest: 'p.upload_date ASC, p.id ASC',
+  title_asc: 'p.title COLLATE NOCASE ASC',
+  title_desc: 'p.title COLLATE NOCASE DESC'
+};
+
+const FACETS = ['departmentId', 'institutionId', 'year', 'accessLevel'];
+
+// Highlighted text comes back between \x01 and \x02, split it into plain and matching segments
+const toSegments = (text) => {
+  return text.split(/(\x01[^\x02]*\x02)/)
+    .filter(Boolean)
+    .map(part => (part.startsWith('\x01') ? { text: part.slice(1, -1), match: true } : { text: part, match: false }));
+};
+
+// Columns after the title, in index order, a snippet is taken from the first one that matched
+const SNIPPET_FIELDS = ['description', 'aiSummary', 'keywords', 'authors'];
+
+const toHighlights = (row) => {
+  const snippetField = SNIPPET_FIELDS.find(field => row[field].includes('\x01')) ?? 'description';
+  return { title: toSegments(row.title), snippet: toSegments(row[snippetField]), snippetField };
+};
+
+// Count the values of each facet across every result
+const countFacets = (rows) => {
+  const facets = {};
+  FACETS.forEach(facet => {
+    const counts = new Map();
+    rows.forEach(row => {
+      if (row[facet] !== null) counts.set(row[facet], (counts.get(row[facet]) || 0) + 1);
+    });
+    facets[facet] = [...counts].map(([value, count]) => ({ value, count })).sort((a, b) => b.count - a.count || a.value - b.value);
+  });
+  return facets;
+};
+
+/**
+ * Search the projects a viewer may see. Results are ranked by BM25 unless another sort is asked for,
+ * and come with highlighted titles and snippets, facet counts and the typo corrections that were applied.
+ * @param {{
+ *   query?: string,
+ *   filter?: import('../types').SearchFilter,
+ *   viewer: import('../types').Viewer | null,
+ *   sort?: string,
+ *   cursor?: number,
+ *   limit?: number
+ * }} options
+ */
+async function searchProjects({ query = '', filter = {}, viewer, sort = 'relevance', cursor = 0, limit = 20 }) {
+  const parsed = parseQuery(query);
+  const { clauses, corrections } = correctClauses(parsed.clauses);
+  const hasMatch = clauses.length > 0;
+
+  const params = viewerParams(viewer);
+  const conditions = [VISIBLE_TO_VIEWER];
+
+  if (hasMatch) {
+    conditions.push('project_search MATCH @match');
+    params.match = toMatchExpression(clauses);
+  }
+  if (parsed.excluded.length > 0) {
+    conditions.push('p.id NOT IN (SELECT rowid FROM project_search WHERE project_search MATCH @excluded)');
+    params.excluded = parsed.excluded.map(term => `"${term}"`).join(' OR ');
+  }
+  if (filter.departmentId !== undefined) {
+    conditions.push('p.department_id = @departmentId');
+    params.departmentId = filter.departmentId;
+  }
+  if (filter.institutionId !== undefined) {
+    conditions.push(`${PROJECT_INSTITUTION} = @institutionId`);
+    params.institutionId = filter.institutionId;
+  }
+  if (filter.year !== undefined) {
+    conditions.push('p.year = @year');
+    params.year = filter.year;
+  }
+  if (filter.yearFrom !== undefined) {
+    conditions.push('p.year >= @yearFrom');
+    params.yearFrom = filter.yearFrom;
+  }
+  if (filter.yearTo !== undefined) {
+    conditions.push('p.year <= @yearTo');
+    params.yearTo = filter.yearTo;
+  }
+  if (filter.author !== undefined) {
+    // The beginning of an address is enough, the way the app shortens them
+    conditions.push("EXISTS (SELECT 1 FROM project_authors a WHERE a.project_id = p.id AND a.address LIKE @author || '%')");
+    params.author = filter.author;
+  }
+  if (filter.accessLevel !== undefined) {
+    conditions.push(`${EFFECTIVE_ACCESS_LEVEL} = @accessLevel`);
+    params.accessLevel = filter.accessLevel;
+  }
+
+  const from = `
+    FROM projects p
+    ${hasMatch ? 'JOIN project_search ON project_search.rowid = p.id' : ''}
+    WHERE ${conditions.join(' AND ')}
+  `;
+
+  const matches = db.prepare(`
+    SELECT p.department_id AS departmentId, ${PROJECT_INSTITUTION} AS institutionId, p.year,
+      ${EFFECTIVE_ACCESS_LEVEL} AS accessLevel
+    ${from}
+  `).all(params);
+
+  const order = SORT_ORDERS[sort === 'relevance' && !hasMatch ? 'recent' : sort];
+  const columns = hasMatch
+    ? `p.id, ${RANK} AS score, highlight(project_search, 0, char(1), char(2)) AS title,
+      ${SNIPPET_FIELDS.map((field, index) => `snippet(project_search, ${index + 1}, char(1), char(2), '…', 24) AS ${field}`).join(', ')}`
+    : 'p.id, NULL AS score';
+
+  /** @type {import('../types').Query<Record<string, any>>} */
+  const selectHits = db.prepare(`SELECT ${columns} ${from} ORDER BY ${order} LIMIT @limit OFFSET @cursor`);
+  const hits = selectHits
+    .all({ ...params, limit, cursor })
+    .map(row => ({
+      id: row.id,
+      // bm25 scores are negative, lower is better, flip them so higher means more relevant
+      score: row.score === null ? null : -row.score,
+      highlights: hasMatch ? toHighlights(row) : undefined
+    }));
+
+  const end = cursor + hits.length;
+  return {
+    hits,
+    total: matches.length,
+    nextCursor: end < matches.length ? end : null,
+    facets: countFacets(matches),
+    corrections
+  };
+}
+
+module.exports = {
+  SORT_ORDERS,
+  searchProjects
+};
@@ -0,0 +1,45 @@
+const { db } = require('./db');
+
+// Keeps the project_search FTS5 table (see migrations/003-project-search) in step with the projects,
+// lib/repository calls these in the transactions that change them
+
+// Index rows: keywords are joined into one column, authors are credited by student name and wallet
+const INDEX_ROW_SELECT = `
+  SELECT p.id, p.title, p.description, COALESCE(p.ai_summary, ''),
+    COALESCE((SELECT group_concat(value, ' ') FROM json_each(p.keywords)), ''),
+    COALESCE((SELECT group_concat(COALESCE(s.name || ' ', '') || a.address, ' ')
+      FROM project_authors a LEFT JOIN students s ON s.wallet_address = a.address
+      WHERE a.project_id = p.id), '')
+  FROM projects p
+`;
+
+const deleteIndexRow = db.prepare('DELETE FROM project_search WHERE rowid = ?');
+const insertIndexRow = db.prepare(`
+  INSERT INTO project_search (rowid, title, description, ai_summary, keywords, authors)
+  ${INDEX_ROW_SELECT} WHERE p.id = ?
+`);
+const selectProjectIdsByAuthor = db.prepare('SELECT DISTINCT project_id FROM project_authors WHERE address = ?').pluck();
+
+// Rewrite the index rows of the given projects, called in the transaction that changed them
+function indexProjects(ids) {
+  ids.forEach(id => {
+    deleteIndexRow.run(id);
+    insertIndexRow.run(id);
+  });
+}
+
+function removeFromIndex(id) {
+  deleteIndexRow.run(id);
+}
+
+// Projects are found by their authors' names, so re-index them when a student changes
+function indexProjectsByAuthors(addresses) {
+  const ids = new Set(addresses.flatMap(address => selectProjectIdsByAuthor.all(address)));
+  indexProjects([...ids]);
+}
+
+module.exports = {
+  indexProjects,
+  indexProjectsByAuthors,
+  removeFromIndex
+};
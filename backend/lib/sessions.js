@@ -0,0 +1,76 @@
+const crypto = require('crypto');
+const { generateNonce } = require('siwe');
+const config = require('./config');
+const { getUserRoles } = require('./contract');
+
+// In-memory stores, sessions are lost when the server restarts
+const nonces = new Map(); // nonce -> expiry
+const sessions = new Map(); // token -> session
+
+const isExpired = (expiresAt) => expiresAt <= Date.now();
+
+// Issue a single-use nonce for a sign-in message
+function createNonce() {
+  const nonce = generateNonce();
+  nonces.set(nonce, Date.now() + config.nonceTtlMs);
+  return nonce;
+}
+
+// Check and invalidate a nonce, each one can only be used once
+function consumeNonce(nonce) {
+  const expiresAt = nonces.get(nonce);
+  nonces.delete(nonce);
+  return expiresAt !== undefined && !isExpired(expiresAt);
+}
+
+function createSession(data) {
+  const token = crypto.randomBytes(32).toString('hex');
+  const session = {
+    ...data,
+    issuedAt: Date.now(),
+    rolesCheckedAt: Date.now(),
+    expiresAt: Date.now() + config.sessionTtlMs
+  };
+
+  sessions.set(token, session);
+  return { token, session };
+}
+
+// Roles older than roleTtlMs are read from the contract again, so revoked admin rights don't last
+// the whole session. A session whose roles can't be confirmed is not accepted.
+async function getSession(token) {
+  const session = token ? sessions.get(token) : undefined;
+  if (!session) return undefined;
+
+  if (isExpired(session.expiresAt)) {
+    sessions.delete(token);
+    return undefined;
+  }
+
+  if (Date.now() - session.rolesCheckedAt >= config.roleTtlMs) {
+    try {
+      Object.assign(session, await getUserRoles(session.address), { rolesCheckedAt: Date.now() });
+    } catch (error) {
+      console.error('Could not refresh session roles:', error);
+      return undefined;
+    }
+  }
+
+  return session;
+}
+
+function deleteSession(token) {
+  sessions.delete(token);
+}
+
+// Drop expired nonces and sessions so the maps don't grow forever
+setInterval(() => {
+  for (const [nonce, expiresAt] of nonces) {
+    if (isExpired(expiresAt)) nonces.delete(nonce);
+  }
+  for (const [token, session] of sessions) {
+    if (isExpired(session.expiresAt)) sessions.delete(token);
+  }
+}, 60 * 1000).unref();
+
+module.exports = { createNonce, consumeNonce, createSession, getSession, deleteSession };
@@ -0,0 +1,43 @@
+const crypto = require('crypto');
+const config = require('./config');
+
+// Kinds of pin request a token can be minted for
+const UPLOAD_SCOPES = ['file', 'directory', 'json'];
+
+// Single-use tokens, each allows one pin request of one scope up to a byte limit
+const tokens = new Map(); // token -> { owner, scope, maxBytes, expiresAt }
+
+const isExpired = (expiresAt) => expiresAt <= Date.now();
+
+function createUploadToken({ owner, scope, maxBytes }) {
+  const token = crypto.randomBytes(24).toString('hex');
+  const entry = {
+    owner: owner.toLowerCase(),
+    scope,
+    maxBytes,
+    expiresAt: Date.now() + config.uploadTokenTtlMs
+  };
+
+  tokens.set(token, entry);
+  return { token, ...entry };
+}
+
+// Check and invalidate a token, it must have been minted for this scope
+function consumeUploadToken(token, scope) {
+  const entry = token ? tokens.get(token) : undefined;
+  tokens.delete(token);
+
+  if (!entry || entry.scope !== scope || isExpired(entry.expiresAt)) {
+    return undefined;
+  }
+  return entry;
+}
+
+// Drop tokens that were never used
+setInterval(() => {
+  for (const [token, entry] of tokens) {
+    if (isExpired(entry.expiresAt)) tokens.delete(token);
+  }
+}, 60 * 1000).unref();
+
+module.exports = { UPLOAD_SCOPES, createUploadToken, consumeUploadToken };
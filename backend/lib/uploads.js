@@ -0,0 +1,91 @@
+const crypto = require('crypto');
+const fs = require('fs/promises');
+const path = require('path');
+const config = require('./config');
+
+// Chunked upload sessions. Chunks are written to disk as they arrive, so a client
+// whose connection drops can ask which chunks made it and send only the rest.
+const uploads = new Map(); // uploadId -> upload
+
+const isExpired = (upload) => upload.expiresAt <= Date.now();
+
+const getUploadDir = (uploadId) => path.join(config.uploadDir, uploadId);
+const getChunkPath = (uploadId, index) => path.join(getUploadDir(uploadId), `${index}.part`);
+
+async function createUpload({ owner, fileName, size }) {
+  const uploadId = crypto.randomBytes(16).toString('hex');
+  const upload = {
+    uploadId,
+    owner: owner.toLowerCase(),
+    fileName,
+    size,
+    chunkSize: config.uploadChunkBytes,
+    chunkCount: Math.max(1, Math.ceil(size / config.uploadChunkBytes)),
+    receivedChunks: [],
+    createdAt: Date.now(),
+    expiresAt: Date.now() + config.uploadTtlMs
+  };
+
+  await fs.mkdir(getUploadDir(uploadId), { recursive: true });
+  uploads.set(uploadId, upload);
+  return upload;
+}
+
+function getUpload(uploadId) {
+  const upload = uploads.get(uploadId);
+  if (!upload) return undefined;
+
+  if (isExpired(upload)) {
+    deleteUpload(uploadId);
+    return undefined;
+  }
+
+  return upload;
+}
+
+// Expected byte length of a chunk, only the last one may be shorter
+function getChunkLength(upload, index) {
+  return index === upload.chunkCount - 1
+    ? upload.size - index * upload.chunkSize
+    : upload.chunkSize;
+}
+
+async function writeChunk(upload, index, data) {
+  await fs.writeFile(getChunkPath(upload.uploadId, index), data);
+  if (!upload.receivedChunks.includes(index)) {
+    upload.receivedChunks.push(index);
+    upload.receivedChunks.sort((a, b) => a - b);
+  }
+}
+
+// Concatenate the chunks into the final file and return its path
+async function assembleUpload(upload) {
+  const filePath = path.join(getUploadDir(upload.uploadId), 'file');
+  const handle = await fs.open(filePath, 'w');
+
+  try {
+    for (let index = 0; index < upload.chunkCount; index++) {
+      await handle.write(await fs.readFile(getChunkPath(upload.uploadId, index)));
+    }
+  } finally {
+    await handle.close();
+  }
+
+  return filePath;
+}
+
+function deleteUpload(uploadId) {
+  uploads.delete(uploadId);
+  fs.rm(getUploadDir(uploadId), { recursive: true, force: true }).catch(error => {
+    console.error(`Error removing upload ${uploadId}:`, error);
+  });
+}
+
+// Drop abandoned uploads and their chunks
+setInterval(() => {
+  for (const [uploadId, upload] of uploads) {
+    if (isExpired(upload)) deleteUpload(uploadId);
+  }
+}, 60 * 60 * 1000).unref();
+
+module.exports = { createUpload, getUpload, getChunkLength, writeChunk, assembleUpload, deleteUpload };
@@ -0,0 +1,116 @@
+const { z } = require('zod');
+
+// Request body schemas, the shapes match the frontend types (ProjectData, Student, Institution, Department)
+
+const ACCESS_LEVELS = [0, 1, 2, 3, 4]; // Public, Institution, Private, Department, Allowlist
+const STUDENT_STATUSES = /** @type {const} */ (['active', 'inactive', 'graduated']);
+
+const address = z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'Must be a wallet address');
+const id = z.number().int().nonnegative();
+
+const projectFields = {
+  title: z.string().trim().min(1).max(300),
+  authors: z.array(address).min(1),
+  uploadDate: z.number().int().positive(),
+  ipfsHash: z.string().min(1),
+  departmentId: id,
+  institutionId: id.optional(),
+  year: z.number().int().min(1900).max(2100),
+  description: z.string().max(20000),
+  accessLevel: z.number().int().refine(level => ACCESS_LEVELS.includes(level), 'Unknown access level'),
+  aiSummary: z.string().optional(),
+  creatorAddress: address.optional(),
+  transactionHash: z.string().optional(),
+  allowlist: z.array(address).optional(),
+  embargoUntil: z.number().int().positive().optional(),
+  encryption: z.object({
+    algorithm: z.literal('AES-GCM'),
+    iv: z.string(),
+    fileName: z.string(),
+    mimeType: z.string(),
+    wrappedKeys: z.record(z.object({ ephemeralPublicKey: z.string(), iv: z.string(), ciphertext: z.string() }))
+  }).optional(),
+  isBundle: z.boolean().optional(),
+  metadataCid: z.string().optional(),
+  keywords: z.array(z.string().max(100)).max(50).optional(),
+  license: z.string().max(100).optional()
+};
+
+const projectSchema = z.object(projectFields).strict();
+const projectUpdateSchema = z.object(projectFields).partial().strict();
+
+const studentFields = {
+  walletAddress: address,
+  name: z.string().trim().min(1).max(200),
+  email: z.string().email(),
+  departmentId: id,
+  institutionId: id,
+  year: z.number().int().min(1900).max(2100),
+  status: z.enum(STUDENT_STATUSES)
+};
+
+const studentSchema = z.object(studentFields).strict();
+const studentUpdateSchema = z.object(studentFields).partial().strict();
+const studentBatchSchema = z.array(studentSchema).min(1).max(1000);
+
+const institutionSchema = z.object({ name: z.string().trim().min(1).max(200) }).strict();
+const departmentSchema = z.object({ name: z.string().trim().min(1).max(200) }).strict();
+const metadataRevisionSchema = z.object({ metadataCid: z.string().regex(/^[A-Za-z0-9]{46,100}$/, 'Must be a CID') }).strict();
+const accessRequestSchema = z.object({ projectId: id, reason: z.string().trim().min(1).max(2000) }).strict();
+const accessDecisionSchema = z.object({
+  status: z.enum(['approved', 'denied']),
+  expiresAt: z.number().int().positive().optional()
+}).strict();
+const encryptionKeySchema = z.object({
+  publicKey: z.string().regex(/^0x0[23][0-9a-fA-F]{64}$/, 'Must be a compressed secp256k1 public key'),
+  signature: z.string().regex(/^0x[0-9a-fA-F]{130}$/, 'Must be a wallet signature')
+}).strict();
+
+// Validate req.body against a schema, replacing it with the parsed value or answering 400
+const validateBody = (schema) => (req, res, next) => {
+  const result = schema.safeParse(req.body);
+  if (!result.success) {
+    return res.status(400).json({
+      error: 'Invalid request body',
+      details: result.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }))
+    });
+  }
+
+  req.body = result.data;
+  next();
+};
+
+// Parse a numeric route parameter, answering 400 for anything else
+const parseIdParam = (name) => (req, res, next) => {
+  const value = Number(req.params[name]);
+  if (!Number.isInteger(value) || value < 0) {
+    return res.status(400).json({ error: `${name} must be a non-negative integer` });
+  }
+
+  req.params[name] = value;
+  next();
+};
+
+// Read an optional integer from the query string, NaN when it is present but not an integer
+const parseQueryInt = (value) => {
+  if (value === undefined || value === '') return undefined;
+  const number = Number(value);
+  return Number.isInteger(number) ? number : NaN;
+};
+
+module.exports = {
+  projectSchema,
+  projectUpdateSchema,
+  studentSchema,
+  studentUpdateSchema,
+  studentBatchSchema,
+  institutionSchema,
+  departmentSchema,
+  metadataRevisionSchema,
+  accessRequestSchema,
+  accessDecisionSchema,
+  encryptionKeySchema,
+  validateBody,
+  parseIdParam,
+  parseQueryInt
+};
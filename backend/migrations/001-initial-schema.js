@@ -0,0 +1,85 @@
+// Tables behind the project, student and institution API
+
+exports.up = (db) => {
+  db.exec(`
+    CREATE TABLE institutions (
+      id INTEGER PRIMARY KEY,
+      name TEXT NOT NULL
+    );
+
+    CREATE TABLE departments (
+      id INTEGER PRIMARY KEY,
+      institution_id INTEGER NOT NULL REFERENCES institutions (id),
+      name TEXT NOT NULL
+    );
+    CREATE INDEX departments_institution ON departments (institution_id);
+
+    -- encryption and keywords hold JSON, the other optional fields are NULL when unset
+    CREATE TABLE projects (
+      id INTEGER PRIMARY KEY,
+      title TEXT NOT NULL,
+      description TEXT NOT NULL,
+      ipfs_hash TEXT NOT NULL,
+      department_id INTEGER NOT NULL REFERENCES departments (id),
+      institution_id INTEGER REFERENCES institutions (id),
+      year INTEGER NOT NULL,
+      upload_date INTEGER NOT NULL,
+      access_level INTEGER NOT NULL,
+      ai_summary TEXT,
+      creator_address TEXT,
+      transaction_hash TEXT,
+      embargo_until INTEGER,
+      encryption TEXT,
+      is_bundle INTEGER,
+      metadata_cid TEXT,
+      keywords TEXT,
+      license TEXT
+    );
+    CREATE INDEX projects_department ON projects (department_id);
+    CREATE INDEX projects_institution ON projects (institution_id);
+    CREATE INDEX projects_upload_date ON projects (upload_date);
+
+    -- Authors in the order they are credited
+    CREATE TABLE project_authors (
+      project_id INTEGER NOT NULL REFERENCES projects (id) ON DELETE CASCADE,
+      position INTEGER NOT NULL,
+      address TEXT NOT NULL COLLATE NOCASE,
+      PRIMARY KEY (project_id, position)
+    );
+    CREATE INDEX project_authors_address ON project_authors (address);
+
+    -- Wallets allowed to view an allowlist project
+    CREATE TABLE access_grants (
+      project_id INTEGER NOT NULL REFERENCES projects (id) ON DELETE CASCADE,
+      address TEXT NOT NULL COLLATE NOCASE,
+      granted_at INTEGER NOT NULL,
+      PRIMARY KEY (project_id, address)
+    );
+
+    CREATE TABLE students (
+      id TEXT PRIMARY KEY,
+      wallet_address TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      name TEXT NOT NULL,
+      email TEXT NOT NULL,
+      department_id INTEGER NOT NULL REFERENCES departments (id),
+      institution_id INTEGER NOT NULL REFERENCES institutions (id),
+      year INTEGER NOT NULL,
+      status TEXT NOT NULL CHECK (status IN ('active', 'inactive', 'graduated')),
+      date_added INTEGER NOT NULL
+    );
+    CREATE INDEX students_department ON students (department_id);
+    CREATE INDEX students_institution ON students (institution_id);
+
+    -- Every change made through the API, actor is the signed-in wallet
+    CREATE TABLE audit_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      action TEXT NOT NULL,
+      entity_type TEXT NOT NULL,
+      entity_id TEXT NOT NULL,
+      actor TEXT,
+      details TEXT,
+      created_at INTEGER NOT NULL
+    );
+    CREATE INDEX audit_events_entity ON audit_events (entity_type, entity_id);
+  `);
+};
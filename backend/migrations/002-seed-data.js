@@ -0,0 +1,116 @@
+const config = require('../lib/config');
+
+// Same institutions and departments as the frontend's mockInstitutions and mockDepartmentsByInstitution
+// (InstitutionEnum and DepartmentEnum), department IDs run on across institutions
+const INSTITUTIONS = [
+  { id: 0, name: 'University of Technology', departments: ['Computer Science', 'Electrical Engineering', 'Mechanical Engineering'] },
+  { id: 1, name: 'State University', departments: ['Business Administration', 'Economics', 'Law'] },
+  { id: 2, name: 'National College', departments: ['Mathematics', 'Physics', 'Chemistry'] },
+  { id: 3, name: 'Technical Institute', departments: ['Civil Engineering', 'Architecture', 'Urban Planning'] },
+  { id: 4, name: 'Medical University', departments: ['Medicine', 'Pharmacy', 'Nursing'] }
+];
+
+const DAY_MS = 86400000;
+
+// The frontend's mockProjects, upload dates are relative to when the database is created
+const DEMO_PROJECTS = [
+  {
+    id: 1,
+    title: 'Decentralized Identity Management System',
+    author: '0x1234567890123456789012345678901234567890',
+    ageDays: 5,
+    ipfsHash: 'QmT8TstX4ngjQwvQfS9ZnuXAT3Cmey1NefdRs5QXwXFiP7',
+    departmentId: 1,
+    institutionId: 1,
+    year: 2023,
+    description: 'A blockchain-based identity management system that allows users to control their personal data and share it securely with service providers.',
+    accessLevel: 0
+  },
+  {
+    id: 2,
+    title: 'Smart Grid Energy Distribution',
+    author: '0x2345678901234567890123456789012345678901',
+    ageDays: 10,
+    ipfsHash: 'QmUNLLsPACCz1vLxQVkXqqLX5R1X345qqfHbsf67hvA3Nn',
+    departmentId: 2,
+    institutionId: 1,
+    year: 2023,
+    description: 'An intelligent energy distribution system that uses IoT devices and blockchain to optimize energy consumption in smart buildings.',
+    accessLevel: 1
+  },
+  {
+    id: 3,
+    title: 'Blockchain-based Supply Chain Management',
+    author: '0x3456789012345678901234567890123456789012',
+    ageDays: 15,
+    ipfsHash: 'QmZMHCFoYMfxw7bUca4wRtmD8ubWxucJNAqjTgG5ATJLVd',
+    departmentId: 6,
+    institutionId: 2,
+    year: 2023,
+    description: 'A supply chain management system that uses blockchain to track products from manufacturer to consumer, ensuring authenticity and transparency.',
+    accessLevel: 0
+  },
+  {
+    id: 4,
+    title: 'Privacy-Preserving Machine Learning',
+    author: '0x4567890123456789012345678901234567890123',
+    ageDays: 20,
+    ipfsHash: 'QmSgvgwxZGMrjhpVNvKmh3mBJhgUVfhKhrSVnxKzCGNnxk',
+    departmentId: 1,
+    institutionId: 1,
+    year: 2023,
+    description: 'A machine learning framework that preserves data privacy by using federated learning and secure multi-party computation.',
+    accessLevel: 2
+  },
+  {
+    id: 5,
+    title: 'Sustainable Building Materials Analysis',
+    author: '0x5678901234567890123456789012345678901234',
+    ageDays: 25,
+    ipfsHash: 'QmW2WQi7j6c7UgJTarActp7tDNikE4B2qXtFCfLPdsgaTQ',
+    departmentId: 4,
+    institutionId: 2,
+    year: 2023,
+    description: 'Analysis of sustainable building materials and their impact on energy consumption and carbon footprint in modern construction.',
+    accessLevel: 0
+  },
+  {
+    id: 6,
+    title: 'Quantum Algorithm for Optimization Problems',
+    author: '0x6789012345678901234567890123456789012345',
+    ageDays: 30,
+    ipfsHash: 'QmTkzDwWqPbnAh5YiV5VwcTLnGdwSNsNTn2aDxdXBFca7D',
+    departmentId: 7,
+    institutionId: 3,
+    year: 2023,
+    description: 'A quantum computing algorithm designed to solve complex optimization problems more efficiently than classical approaches.',
+    accessLevel: 1
+  }
+];
+
+exports.up = (db) => {
+  const insertInstitution = db.prepare('INSERT INTO institutions (id, name) VALUES (?, ?)');
+  const insertDepartment = db.prepare('INSERT INTO departments (id, institution_id, name) VALUES (?, ?, ?)');
+
+  INSTITUTIONS.forEach((institution, index) => {
+    insertInstitution.run(institution.id, institution.name);
+    institution.departments.forEach((name, offset) => {
+      insertDepartment.run(index * 3 + offset, institution.id, name);
+    });
+  });
+
+  // Production databases start without projects when SEED_DEMO_DATA=false
+  if (!config.seedDemoData) return;
+
+  const insertProject = db.prepare(`
+    INSERT INTO projects (id, title, description, ipfs_hash, department_id, institution_id, year, upload_date, access_level, creator_address)
+    VALUES (@id, @title, @description, @ipfsHash, @departmentId, @institutionId, @year, @uploadDate, @accessLevel, @author)
+  `);
+  const insertAuthor = db.prepare('INSERT INTO project_authors (project_id, position, address) VALUES (?, 0, ?)');
+
+  const now = Date.now();
+  DEMO_PROJECTS.forEach(({ ageDays, ...project }) => {
+    insertProject.run({ ...project, uploadDate: now - DAY_MS * ageDays });
+    insertAuthor.run(project.id, project.author);
+  });
+};
@@ -0,0 +1,26 @@
+// Full-text index over projects, the rowid is the project ID.
+// Porter stemming lets "distributed" find "distribution", lib/search keeps the rows in step with the tables.
+
+exports.up = (db) => {
+  db.exec(`
+    CREATE VIRTUAL TABLE project_search USING fts5 (
+      title,
+      description,
+      ai_summary,
+      keywords,
+      authors,
+      tokenize = 'porter unicode61 remove_diacritics 2'
+    );
+
+    -- Indexed terms, for correcting misspelt query words
+    CREATE VIRTUAL TABLE project_search_vocab USING fts5vocab (project_search, 'row');
+
+    INSERT INTO project_search (rowid, title, description, ai_summary, keywords, authors)
+    SELECT p.id, p.title, p.description, COALESCE(p.ai_summary, ''),
+      COALESCE((SELECT group_concat(value, ' ') FROM json_each(p.keywords)), ''),
+      COALESCE((SELECT group_concat(COALESCE(s.name || ' ', '') || a.address, ' ')
+        FROM project_authors a LEFT JOIN students s ON s.wallet_address = a.address
+        WHERE a.project_id = p.id), '')
+    FROM projects p;
+  `);
+};
@@ -0,0 +1,13 @@
+// Newest metadata document of projects registered on the contract. The contract's IPFS field can't be
+// changed, so documents pinned after registration (e.g. for an access level change) are found through here.
+
+exports.up = (db) => {
+  db.exec(`
+    CREATE TABLE metadata_revisions (
+      project_id INTEGER PRIMARY KEY,
+      metadata_cid TEXT NOT NULL,
+      updated_by TEXT NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+  `);
+};
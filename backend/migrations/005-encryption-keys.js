@@ -0,0 +1,13 @@
+// Wallet encryption public keys readers published, authors wrap project content keys for them.
+// The signature is the wallet's over the publication message in routes/keys, kept so it can be checked again.
+
+exports.up = (db) => {
+  db.exec(`
+    CREATE TABLE encryption_keys (
+      address TEXT PRIMARY KEY COLLATE NOCASE,
+      public_key TEXT NOT NULL,
+      signature TEXT NOT NULL,
+      published_at INTEGER NOT NULL
+    );
+  `);
+};
@@ -0,0 +1,37 @@
+// Access requests readers send to a project's authors and institution admins. An approval is
+// written to access_grants next to the allowlist, tied to its request and with the request's expiry.
+// Requests can be for projects on the contract, so grants no longer reference the projects table.
+
+exports.up = (db) => {
+  db.exec(`
+    CREATE TABLE access_requests (
+      id TEXT PRIMARY KEY,
+      project_id INTEGER NOT NULL,
+      requester TEXT NOT NULL COLLATE NOCASE,
+      reason TEXT NOT NULL,
+      status TEXT NOT NULL CHECK (status IN ('pending', 'approved', 'denied')),
+      created_at INTEGER NOT NULL,
+      decided_at INTEGER,
+      decided_by TEXT,
+      expires_at INTEGER
+    );
+    CREATE INDEX access_requests_project ON access_requests (project_id);
+    CREATE INDEX access_requests_requester ON access_requests (requester);
+
+    -- Allowlist entries have no request, approvals one each
+    CREATE TABLE access_grants_new (
+      project_id INTEGER NOT NULL,
+      address TEXT NOT NULL COLLATE NOCASE,
+      granted_at INTEGER NOT NULL,
+      request_id TEXT UNIQUE REFERENCES access_requests (id) ON DELETE CASCADE,
+      expires_at INTEGER
+    );
+    INSERT INTO access_grants_new (project_id, address, granted_at)
+      SELECT project_id, address, granted_at FROM access_grants;
+    DROP TABLE access_grants;
+    ALTER TABLE access_grants_new RENAME TO access_grants;
+
+    CREATE UNIQUE INDEX access_grants_allowlist ON access_grants (project_id, address) WHERE request_id IS NULL;
+    CREATE INDEX access_grants_address ON access_grants (address);
+  `);
+};
@@ -0,0 +1,10 @@
+// A project's institution follows from its department, like on the contract. The demo projects of
+// 002-seed-data were stored with institutions their departments don't belong to, realign every row.
+
+exports.up = (db) => {
+  db.exec(`
+    UPDATE projects
+    SET institution_id = (SELECT institution_id FROM departments WHERE id = projects.department_id)
+    WHERE institution_id IS NOT (SELECT institution_id FROM departments WHERE id = projects.department_id)
+  `);
+};
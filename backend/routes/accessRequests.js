@@ -0,0 +1,85 @@
+const express = require('express');
+const config = require('../lib/config');
+const { requireSession, canManageInstitution, isAuthor } = require('../lib/auth');
+const { getChainProject } = require('../lib/contract');
+const { accessRequestSchema, accessDecisionSchema, validateBody } = require('../lib/validation');
+const {
+  listAccessRequests,
+  listRequestedProjectIds,
+  getAccessRequest,
+  getOpenAccessRequest,
+  createAccessRequest,
+  decideAccessRequest,
+  getProject,
+  getDepartment
+} = require('../lib/repository');
+
+const router = express.Router();
+
+// The project a request is for, from wherever the frontend keeps its projects
+const findProject = (projectId) => {
+  return config.projectSource === 'contract' ? getChainProject(projectId) : getProject(projectId);
+};
+
+// The same wallets that may change a project's access level decide on its requests:
+// its authors and the admins of its institution
+const canDecide = async (session, project) => {
+  const institutionId = (await getDepartment(project.departmentId))?.institutionId ?? project.institutionId;
+  return isAuthor(session, project) || canManageInstitution(session, institutionId);
+};
+
+// The signed-in wallet's own requests and every request for the projects it decides on
+router.get('/', requireSession, async (req, res) => {
+  const ids = await listRequestedProjectIds();
+  const projects = await Promise.all(ids.map(findProject));
+  const decided = await Promise.all(projects.map(project => !!project && canDecide(req.session, project)));
+  const projectIds = ids.filter((_, index) => decided[index]);
+
+  res.json({ requests: await listAccessRequests({ requester: req.session.address, projectIds }) });
+});
+
+// Ask the authors and institution admins of a project for access
+router.post('/', requireSession, validateBody(accessRequestSchema), async (req, res) => {
+  const { projectId, reason } = req.body;
+  if (!(await findProject(projectId))) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+
+  const open = await getOpenAccessRequest(projectId, req.session.address);
+  if (open) {
+    return res.status(409).json({
+      error: open.status === 'pending'
+        ? 'You already have a pending request for this project'
+        : 'You already have access to this project'
+    });
+  }
+
+  const request = await createAccessRequest({ projectId, requester: req.session.address, reason }, req.session.address);
+  res.status(201).json({ request });
+});
+
+// Approve or deny a pending request, an approval can end at expiresAt
+router.patch('/:id', requireSession, validateBody(accessDecisionSchema), async (req, res) => {
+  const request = await getAccessRequest(req.params.id);
+  if (!request) {
+    return res.status(404).json({ error: 'Access request not found' });
+  }
+
+  const project = await findProject(request.projectId);
+  if (!project || !(await canDecide(req.session, project))) {
+    return res.status(403).json({ error: 'Only the authors and institution admins can decide on access requests' });
+  }
+  if (req.body.status === 'approved' && req.body.expiresAt !== undefined && req.body.expiresAt <= Date.now()) {
+    return res.status(400).json({ error: 'The expiry date must be in the future' });
+  }
+
+  const decision = req.body.status === 'approved' ? req.body : { status: 'denied' };
+  const decided = await decideAccessRequest(request.id, decision, req.session.address);
+  if (!decided) {
+    return res.status(409).json({ error: 'This access request has already been decided' });
+  }
+
+  res.json({ request: decided });
+});
+
+module.exports = router;
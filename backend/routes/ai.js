@@ -0,0 +1,41 @@
+const express = require('express');
+const config = require('../lib/config');
+const { requireSession } = require('../lib/auth');
+const { consumeQuota, refundQuota } = require('../lib/quotas');
+const { generateContent } = require('../lib/gemini');
+
+const router = express.Router();
+
+router.use(requireSession);
+
+// Generate text for a prompt with Gemini, counted against the wallet's AI quota
+router.post('/generate', async (req, res) => {
+  const { prompt } = req.body || {};
+  if (typeof prompt !== 'string' || !prompt.trim()) {
+    return res.status(400).json({ error: 'prompt is required' });
+  }
+
+  if (prompt.length > config.maxPromptChars) {
+    return res.status(413).json({ error: `Prompts are limited to ${config.maxPromptChars} characters` });
+  }
+
+  if (!config.geminiApiKey) {
+    return res.status(503).json({ error: 'AI generation is not configured on this server' });
+  }
+
+  const { address } = req.session;
+  const quota = consumeQuota('aiRequests', address, 1);
+  if (!quota.allowed) {
+    return res.status(403).json({ error: 'AI request quota exceeded', quota });
+  }
+
+  try {
+    res.json({ text: await generateContent(prompt) });
+  } catch (error) {
+    console.error('Error generating content:', error);
+    refundQuota('aiRequests', address, 1);
+    res.status(502).json({ error: 'AI generation failed' });
+  }
+});
+
+module.exports = router;
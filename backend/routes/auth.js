@@ -0,0 +1,82 @@
+const express = require('express');
+const { SiweMessage } = require('siwe');
+const config = require('../lib/config');
+const { getUserRoles } = require('../lib/contract');
+const { createNonce, consumeNonce, createSession, deleteSession } = require('../lib/sessions');
+const { requireSession } = require('../lib/auth');
+
+const router = express.Router();
+
+const isSameHost = (uri, host) => {
+  try {
+    return new URL(uri).host === host;
+  } catch {
+    return false;
+  }
+};
+
+// Issue a nonce for the wallet to include in its sign-in message
+router.get('/nonce', (req, res) => {
+  res.json({ nonce: createNonce() });
+});
+
+// Verify a signed EIP-4361 message and start a session
+router.post('/verify', async (req, res) => {
+  const { message, signature } = req.body || {};
+  if (typeof message !== 'string' || typeof signature !== 'string') {
+    return res.status(400).json({ error: 'message and signature are required' });
+  }
+
+  let siweMessage;
+  try {
+    siweMessage = new SiweMessage(message);
+  } catch (error) {
+    return res.status(400).json({ error: 'Malformed sign-in message' });
+  }
+
+  if (siweMessage.chainId !== config.chainId) {
+    return res.status(400).json({ error: `Sign-in must be on chain ${config.chainId}` });
+  }
+
+  // A message signed for another site must not open a session here, verify checks the domain
+  if (!isSameHost(siweMessage.uri, config.siweDomain)) {
+    return res.status(400).json({ error: `Sign-in must be for ${config.siweDomain}` });
+  }
+
+  if (!consumeNonce(siweMessage.nonce)) {
+    return res.status(401).json({ error: 'Invalid or expired nonce' });
+  }
+
+  try {
+    await siweMessage.verify({
+      signature,
+      nonce: siweMessage.nonce,
+      domain: config.siweDomain
+    });
+  } catch (error) {
+    console.error('Sign-in verification failed:', error);
+    return res.status(401).json({ error: 'Invalid signature' });
+  }
+
+  // Admin rights come from the contract, not from anything the client sends
+  const roles = await getUserRoles(siweMessage.address);
+  const { token, session } = createSession({
+    address: siweMessage.address,
+    chainId: siweMessage.chainId,
+    ...roles
+  });
+
+  res.json({ token, session });
+});
+
+// Return the current session
+router.get('/session', requireSession, (req, res) => {
+  res.json({ session: req.session });
+});
+
+router.post('/logout', requireSession, (req, res) => {
+  deleteSession(req.sessionToken);
+  res.status(204).end();
+});
+
+module.exports = router;
@@ -0,0 +1,117 @@
+const express = require('express');
+const { requireSuperAdmin } = require('../lib/auth');
+const { institutionSchema, departmentSchema, validateBody, parseIdParam } = require('../lib/validation');
+const {
+  listInstitutions,
+  getInstitution,
+  createInstitution,
+  updateInstitution,
+  deleteInstitution,
+  listDepartments,
+  getDepartment,
+  createDepartment,
+  updateDepartment,
+  deleteDepartment,
+  listProjects,
+  listStudents
+} = require('../lib/repository');
+
+const router = express.Router();
+
+// Load the institution named in the URL
+const loadInstitution = async (req, res, next) => {
+  const institution = await getInstitution(req.params.id);
+  if (!institution) {
+    return res.status(404).json({ error: 'Institution not found' });
+  }
+
+  req.institution = institution;
+  next();
+};
+
+// Load a department of that institution
+const loadDepartment = async (req, res, next) => {
+  const department = await getDepartment(req.params.departmentId);
+  if (!department || department.institutionId !== req.institution.id) {
+    return res.status(404).json({ error: 'Department not found' });
+  }
+
+  req.department = department;
+  next();
+};
+
+router.get('/', async (req, res) => {
+  res.json({ institutions: await listInstitutions() });
+});
+
+router.get('/:id', parseIdParam('id'), loadInstitution, async (req, res) => {
+  res.json({ institution: { ...req.institution, departments: await listDepartments(req.institution.id) } });
+});
+
+// Institutions and departments are shared by everyone, only super admins change them
+router.post('/', requireSuperAdmin, validateBody(institutionSchema), async (req, res) => {
+  res.status(201).json({ institution: await createInstitution(req.body, req.session.address) });
+});
+
+router.patch('/:id', parseIdParam('id'), requireSuperAdmin, loadInstitution, validateBody(institutionSchema), async (req, res) => {
+  res.json({ institution: await updateInstitution(req.institution.id, req.body, req.session.address) });
+});
+
+router.delete('/:id', parseIdParam('id'), requireSuperAdmin, loadInstitution, async (req, res) => {
+  if ((await listDepartments(req.institution.id)).length > 0) {
+    return res.status(409).json({ error: 'Delete the departments of the institution first' });
+  }
+
+  await deleteInstitution(req.institution.id, req.session.address);
+  res.status(204).end();
+});
+
+router.get('/:id/departments', parseIdParam('id'), loadInstitution, async (req, res) => {
+  res.json({ departments: await listDepartments(req.institution.id) });
+});
+
+router.post(
+  '/:id/departments',
+  parseIdParam('id'),
+  requireSuperAdmin,
+  loadInstitution,
+  validateBody(departmentSchema),
+  async (req, res) => {
+    res.status(201).json({ department: await createDepartment(req.institution.id, req.body, req.session.address) });
+  }
+);
+
+router.patch(
+  '/:id/departments/:departmentId',
+  parseIdParam('id'),
+  parseIdParam('departmentId'),
+  requireSuperAdmin,
+  loadInstitution,
+  loadDepartment,
+  validateBody(departmentSchema),
+  async (req, res) => {
+    res.json({ department: await updateDepartment(req.department.id, req.body, req.session.address) });
+  }
+);
+
+// Departments that projects or students still belong to cannot be deleted
+router.delete(
+  '/:id/departments/:departmentId',
+  parseIdParam('id'),
+  parseIdParam('departmentId'),
+  requireSuperAdmin,
+  loadInstitution,
+  loadDepartment,
+  async (req, res) => {
+    const departmentId = req.department.id;
+    const [projects, students] = await Promise.all([listProjects({ departmentId }), listStudents({ departmentId })]);
+    if (projects.length > 0 || students.length > 0) {
+      return res.status(409).json({ error: 'Projects or students still belong to this department' });
+    }
+
+    await deleteDepartment(departmentId, req.session.address);
+    res.status(204).end();
+  }
+);
+
+module.exports = router;
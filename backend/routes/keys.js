@@ -0,0 +1,44 @@
+const express = require('express');
+const { ethers } = require('ethers');
+const { requireSession } = require('../lib/auth');
+const { encryptionKeySchema, validateBody } = require('../lib/validation');
+const { listEncryptionKeys, publishEncryptionKey } = require('../lib/repository');
+
+const router = express.Router();
+
+// The message a wallet signs to publish its encryption public key, the app builds the same one
+// (getKeyPublicationMessage in src/lib/encryption)
+const getKeyPublicationMessage = (address, publicKey) => {
+  return 'University Project Vault encryption key publication\n\n' +
+    `Wallet: ${address.toLowerCase()}\n` +
+    `Public key: ${publicKey.toLowerCase()}`;
+};
+
+const isSignedBy = (address, publicKey, signature) => {
+  try {
+    return ethers.verifyMessage(getKeyPublicationMessage(address, publicKey), signature).toLowerCase() === address.toLowerCase();
+  } catch {
+    return false;
+  }
+};
+
+// Every published key with its signature, so readers of the directory can check them as well
+router.get('/', async (req, res) => {
+  const keys = await listEncryptionKeys();
+  res.json({ keys: keys.map(({ address, publicKey, signature }) => ({ address, publicKey, signature })) });
+});
+
+// Publish the signed-in wallet's key, the wallet must have signed the publication message for it
+router.put('/', requireSession, validateBody(encryptionKeySchema), async (req, res) => {
+  const { publicKey, signature } = req.body;
+  const address = req.session.address;
+
+  if (!isSignedBy(address, publicKey, signature)) {
+    return res.status(400).json({ error: 'The key must be signed by the wallet that publishes it' });
+  }
+
+  await publishEncryptionKey(address, publicKey.toLowerCase(), signature, address);
+  res.status(204).end();
+});
+
+module.exports = router;
@@ -0,0 +1,39 @@
+const express = require('express');
+const { requireSession, canManageInstitution, isAuthor } = require('../lib/auth');
+const { getChainProject } = require('../lib/contract');
+const { metadataRevisionSchema, validateBody, parseIdParam } = require('../lib/validation');
+const { getMetadataRevisions, setMetadataRevision, getDepartment } = require('../lib/repository');
+
+const router = express.Router();
+
+const MAX_IDS = 100;
+
+// Newest metadata document of each listed contract project (?ids=1,2,3), projects without one are left out
+router.get('/', async (req, res) => {
+  const ids = typeof req.query.ids === 'string' && req.query.ids !== '' ? req.query.ids.split(',').map(Number) : [];
+  if (ids.length > MAX_IDS || ids.some(id => !Number.isInteger(id) || id < 0)) {
+    return res.status(400).json({ error: `ids must be up to ${MAX_IDS} comma separated project IDs` });
+  }
+
+  const revisions = await getMetadataRevisions(ids);
+  res.json({ revisions: Object.fromEntries(revisions.map(({ projectId, metadataCid }) => [projectId, metadataCid])) });
+});
+
+// Point a contract project at a newly pinned metadata document. The same wallets that may change the
+// project's access level on the contract may do this: its authors and the admins of its institution.
+router.put('/:projectId', parseIdParam('projectId'), requireSession, validateBody(metadataRevisionSchema), async (req, res) => {
+  const project = await getChainProject(req.params.projectId);
+  if (!project) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+
+  const institutionId = (await getDepartment(project.departmentId))?.institutionId;
+  if (!isAuthor(req.session, project) && !canManageInstitution(req.session, institutionId)) {
+    return res.status(403).json({ error: 'Only an author or an admin of the institution can change this project' });
+  }
+
+  await setMetadataRevision(req.params.projectId, req.body.metadataCid, req.session.address);
+  res.status(204).end();
+});
+
+module.exports = router;
@@ -0,0 +1,165 @@
+const express = require('express');
+const config = require('../lib/config');
+const { requireSession, requireSuperAdmin, requireUploadToken } = require('../lib/auth');
+const { UPLOAD_SCOPES, createUploadToken } = require('../lib/uploadTokens');
+const { consumeQuota, refundQuota, getQuotaStatus } = require('../lib/quotas');
+const { pinBlob, pinJson, pinDirectory, unpin, repin, getPinStatus, listPins } = require('../lib/ipfs');
+
+const router = express.Router();
+
+// Room for multipart boundaries and headers on top of the file bytes
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+// Parse a multipart body with the built-in Fetch API parser, after checking its declared size
+async function readFormData(req, maxBytes) {
+  const length = Number(req.get('content-length'));
+  if (!Number.isFinite(length) || length > maxBytes + MULTIPART_OVERHEAD_BYTES) {
+    return undefined;
+  }
+
+  return new Request('http://backend.local', {
+    method: 'POST',
+    headers: { 'content-type': req.get('content-type') || '' },
+    body: req,
+    duplex: 'half'
+  }).formData();
+}
+
+// Paths inside a directory must stay inside it
+const isSafePath = (path) => {
+  return typeof path === 'string' && path.length > 0 && !path.startsWith('/') &&
+    path.split('/').every(part => part && part !== '.' && part !== '..');
+};
+
+// Pin with the bytes reserved by the token, returning what wasn't used to the wallet's quota
+async function pinWithToken(req, res, bytes, pin) {
+  const { owner, maxBytes } = req.uploadToken;
+  if (bytes > maxBytes) {
+    refundQuota('uploadBytes', owner, maxBytes);
+    return res.status(413).json({ error: 'Upload is larger than its token allows' });
+  }
+
+  try {
+    const cid = await pin();
+    refundQuota('uploadBytes', owner, maxBytes - bytes);
+    res.json({ cid });
+  } catch (error) {
+    console.error('Error pinning upload:', error);
+    refundQuota('uploadBytes', owner, maxBytes);
+    res.status(502).json({ error: 'Failed to pin to IPFS' });
+  }
+}
+
+// Mint a single-use token for one pin request, reserving its bytes from the wallet's quota
+router.post('/tokens', requireSession, (req, res) => {
+  const { scope, size } = req.body || {};
+  if (!UPLOAD_SCOPES.includes(scope) || !Number.isInteger(size) || size <= 0) {
+    return res.status(400).json({ error: `scope (${UPLOAD_SCOPES.join(', ')}) and size are required` });
+  }
+
+  if (size > config.maxUploadBytes) {
+    return res.status(413).json({ error: `Uploads are limited to ${config.maxUploadBytes / (1024 * 1024)}MB` });
+  }
+
+  // 403 rather than 429, retrying will not help until the window moves on
+  const quota = consumeQuota('uploadBytes', req.session.address, size);
+  if (!quota.allowed) {
+    return res.status(403).json({ error: 'Upload quota exceeded', quota });
+  }
+
+  const { token, maxBytes, expiresAt } = createUploadToken({ owner: req.session.address, scope, maxBytes: size });
+  res.status(201).json({ token, scope, maxBytes, expiresAt });
+});
+
+// Usage and limits of the signed-in wallet
+router.get('/quota', requireSession, (req, res) => {
+  res.json(getQuotaStatus(req.session.address));
+});
+
+// Pin one file, the metadata field holds optional key-values for the pin
+router.post('/file', requireUploadToken('file'), async (req, res) => {
+  const formData = await readFormData(req, req.uploadToken.maxBytes);
+  const file = formData?.get('file');
+  if (!(file instanceof Blob)) {
+    refundQuota('uploadBytes', req.uploadToken.owner, req.uploadToken.maxBytes);
+    return res.status(400).json({ error: 'A file no larger than the token allows is required' });
+  }
+
+  let keyvalues;
+  try {
+    keyvalues = formData.has('metadata') ? JSON.parse(String(formData.get('metadata'))) : undefined;
+  } catch {
+    keyvalues = undefined;
+  }
+
+  await pinWithToken(req, res, file.size, () => pinBlob(file, file.name || 'file', keyvalues));
+});
+
+// Pin several files as one directory, each file's name is its path inside the directory
+router.post('/directory', requireUploadToken('directory'), async (req, res) => {
+  const formData = await readFormData(req, req.uploadToken.maxBytes);
+  const name = formData?.get('name');
+  const files = formData ? formData.getAll('file').filter(file => file instanceof Blob) : [];
+
+  if (typeof name !== 'string' || !isSafePath(name) || files.length === 0 || !files.every(file => isSafePath(file.name))) {
+    refundQuota('uploadBytes', req.uploadToken.owner, req.uploadToken.maxBytes);
+    return res.status(400).json({ error: 'A directory name and files with relative paths are required' });
+  }
+
+  const bytes = files.reduce((total, file) => total + file.size, 0);
+  const entries = files.map(file => ({ path: file.name, blob: file }));
+  await pinWithToken(req, res, bytes, () => pinDirectory(entries, name));
+});
+
+// Pin a JSON document
+router.post('/json', requireUploadToken('json'), async (req, res) => {
+  const { data, name } = req.body || {};
+  if (!data || typeof data !== 'object') {
+    refundQuota('uploadBytes', req.uploadToken.owner, req.uploadToken.maxBytes);
+    return res.status(400).json({ error: 'data must be a JSON object' });
+  }
+
+  const bytes = Buffer.byteLength(JSON.stringify(data));
+  await pinWithToken(req, res, bytes, () => pinJson(data, typeof name === 'string' ? name : 'project-metadata.json'));
+});
+
+router.get('/:cid/status', requireSession, async (req, res) => {
+  try {
+    res.json({ status: await getPinStatus(req.params.cid) });
+  } catch (error) {
+    console.error(`Error checking pin ${req.params.cid}:`, error);
+    res.status(502).json({ error: 'Failed to check the pin' });
+  }
+});
+
+// Pins are shared by every institution, so only super admins list and change them
+router.get('/', requireSuperAdmin, async (req, res) => {
+  try {
+    res.json({ pins: await listPins() });
+  } catch (error) {
+    console.error('Error listing pins:', error);
+    res.status(502).json({ error: 'Failed to list pins' });
+  }
+});
+
+router.delete('/:cid', requireSuperAdmin, async (req, res) => {
+  try {
+    await unpin(req.params.cid);
+    res.status(204).end();
+  } catch (error) {
+    console.error(`Error unpinning ${req.params.cid}:`, error);
+    res.status(502).json({ error: 'Failed to unpin' });
+  }
+});
+
+router.post('/:cid/repin', requireSuperAdmin, async (req, res) => {
+  try {
+    await repin(req.params.cid);
+    res.status(204).end();
+  } catch (error) {
+    console.error(`Error re-pinning ${req.params.cid}:`, error);
+    res.status(502).json({ error: 'Failed to pin' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,149 @@
+const express = require('express');
+const {
+  requireSession,
+  requireSuperAdmin,
+  attachSession,
+  canManageInstitution,
+  isAuthor,
+  getViewer,
+  redactProject
+} = require('../lib/auth');
+const { projectSchema, projectUpdateSchema, validateBody, parseIdParam, parseQueryInt } = require('../lib/validation');
+const {
+  listProjects,
+  listProjectSummaries,
+  getProject,
+  createProject,
+  updateProject,
+  deleteProject,
+  getDepartment
+} = require('../lib/repository');
+
+const router = express.Router();
+
+const MAX_PAGE_SIZE = 100;
+const MAX_IDS = 100;
+
+// Like the contract and PROJECT_INSTITUTION in lib/repository, the institution follows from the department
+const getProjectInstitutionId = async (project) => {
+  return (await getDepartment(project.departmentId))?.institutionId ?? project.institutionId;
+};
+
+// Check that the department exists and belongs to the given institution, returns an error message
+const checkDepartment = async (departmentId, institutionId) => {
+  const department = await getDepartment(departmentId);
+  if (!department) return 'Unknown department';
+  if (institutionId !== undefined && department.institutionId !== institutionId) {
+    return 'The department does not belong to the institution';
+  }
+  return undefined;
+};
+
+// List the projects the viewer may see, newest first, optionally filtered and paginated with a numeric cursor
+router.get('/', attachSession, async (req, res) => {
+  const filter = {
+    departmentId: parseQueryInt(req.query.departmentId),
+    institutionId: parseQueryInt(req.query.institutionId),
+    year: parseQueryInt(req.query.year),
+    author: typeof req.query.author === 'string' ? req.query.author : undefined
+  };
+  const cursor = parseQueryInt(req.query.cursor) ?? 0;
+  const limit = parseQueryInt(req.query.limit);
+
+  if ([filter.departmentId, filter.institutionId, filter.year, cursor, limit].some(Number.isNaN) ||
+    cursor < 0 || (limit !== undefined && (limit < 1 || limit > MAX_PAGE_SIZE))) {
+    return res.status(400).json({ error: `Filters must be integers and limit between 1 and ${MAX_PAGE_SIZE}` });
+  }
+
+  const projects = await listProjects(filter, getViewer(req.session));
+  const end = limit === undefined ? projects.length : cursor + limit;
+
+  res.json({
+    projects: projects.slice(cursor, end).map(project => redactProject(req.session, project)),
+    nextCursor: end < projects.length ? end : null,
+    total: projects.length
+  });
+});
+
+// Every project without access control, for super admins joining pins with the projects that use them
+router.get('/all', requireSuperAdmin, async (req, res) => {
+  res.json({ projects: await listProjects() });
+});
+
+// Summaries of the listed projects (?ids=1,2,3) whether or not the viewer may see them, so that
+// restricted projects can be told apart from missing ones and access to them requested
+router.get('/summaries', async (req, res) => {
+  const ids = typeof req.query.ids === 'string' && req.query.ids !== '' ? req.query.ids.split(',').map(Number) : [];
+  if (ids.length > MAX_IDS || ids.some(id => !Number.isInteger(id) || id < 0)) {
+    return res.status(400).json({ error: `ids must be up to ${MAX_IDS} comma separated project IDs` });
+  }
+
+  res.json({ projects: await listProjectSummaries(ids) });
+});
+
+// Projects the viewer may not see are reported as missing
+router.get('/:id', parseIdParam('id'), attachSession, async (req, res) => {
+  const project = await getProject(req.params.id, getViewer(req.session));
+  if (!project) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+  res.json({ project: redactProject(req.session, project) });
+});
+
+// Register a project, the signed-in wallet must be an author unless it administers the institution
+router.post('/', requireSession, validateBody(projectSchema), async (req, res) => {
+  const departmentError = await checkDepartment(req.body.departmentId, req.body.institutionId);
+  if (departmentError) {
+    return res.status(400).json({ error: departmentError });
+  }
+
+  const institutionId = await getProjectInstitutionId(req.body);
+  if (!isAuthor(req.session, req.body) && !canManageInstitution(req.session, institutionId)) {
+    return res.status(403).json({ error: 'Only an author or an admin of the institution can add this project' });
+  }
+
+  const project = await createProject({ ...req.body, institutionId }, req.session.address);
+  res.status(201).json({ project });
+});
+
+// Change a project, allowed to its authors and the admins of its institution
+router.patch('/:id', parseIdParam('id'), requireSession, validateBody(projectUpdateSchema), async (req, res) => {
+  const project = await getProject(req.params.id);
+  if (!project) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+
+  const institutionId = await getProjectInstitutionId(project);
+  if (!isAuthor(req.session, project) && !canManageInstitution(req.session, institutionId)) {
+    return res.status(403).json({ error: 'Only an author or an admin of the institution can change this project' });
+  }
+
+  const updates = req.body;
+  if (updates.departmentId !== undefined || updates.institutionId !== undefined) {
+    const departmentError = await checkDepartment(
+      updates.departmentId ?? project.departmentId,
+      updates.institutionId ?? institutionId
+    );
+    if (departmentError) {
+      return res.status(400).json({ error: departmentError });
+    }
+  }
+
+  res.json({ project: await updateProject(project.id, updates, req.session.address) });
+});
+
+router.delete('/:id', parseIdParam('id'), requireSession, async (req, res) => {
+  const project = await getProject(req.params.id);
+  if (!project) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+
+  if (!canManageInstitution(req.session, await getProjectInstitutionId(project))) {
+    return res.status(403).json({ error: 'Only an admin of the institution can delete this project' });
+  }
+
+  await deleteProject(project.id, req.session.address);
+  res.status(204).end();
+});
+
+module.exports = router;
@@ -0,0 +1,59 @@
+const express = require('express');
+const { attachSession, getViewer, redactProject } = require('../lib/auth');
+const { parseQueryInt } = require('../lib/validation');
+const { SORT_ORDERS, searchProjects } = require('../lib/search');
+const { getProject } = require('../lib/repository');
+
+const router = express.Router();
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_QUERY_LENGTH = 500;
+
+// Full-text search over the projects the viewer may see, see lib/search for the query syntax
+router.get('/', attachSession, async (req, res) => {
+  const query = typeof req.query.q === 'string' ? req.query.q : '';
+  const sort = typeof req.query.sort === 'string' ? req.query.sort : 'relevance';
+  const filter = {
+    departmentId: parseQueryInt(req.query.departmentId),
+    institutionId: parseQueryInt(req.query.institutionId),
+    year: parseQueryInt(req.query.year),
+    yearFrom: parseQueryInt(req.query.yearFrom),
+    yearTo: parseQueryInt(req.query.yearTo),
+    accessLevel: parseQueryInt(req.query.accessLevel)
+  };
+  const author = typeof req.query.author === 'string' && req.query.author !== '' ? req.query.author : undefined;
+  const cursor = parseQueryInt(req.query.cursor) ?? 0;
+  const limit = parseQueryInt(req.query.limit) ?? DEFAULT_PAGE_SIZE;
+
+  if ([...Object.values(filter), cursor, limit].some(Number.isNaN) ||
+    cursor < 0 || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return res.status(400).json({ error: `Filters must be integers and limit between 1 and ${MAX_PAGE_SIZE}` });
+  }
+  if (author !== undefined && !/^0x[0-9a-fA-F]{1,40}$/.test(author)) {
+    return res.status(400).json({ error: 'author must be a wallet address or its beginning' });
+  }
+  if (query.length > MAX_QUERY_LENGTH) {
+    return res.status(400).json({ error: `Queries are limited to ${MAX_QUERY_LENGTH} characters` });
+  }
+  if (!Object.hasOwn(SORT_ORDERS, sort)) {
+    return res.status(400).json({ error: `Sort must be one of ${Object.keys(SORT_ORDERS).join(', ')}` });
+  }
+
+  // The session decides what the viewer may find, guests only see public projects
+  const viewer = getViewer(req.session);
+  const result = await searchProjects({ query, filter: { ...filter, author }, viewer, sort, cursor, limit });
+  const projects = await Promise.all(result.hits.map(hit => getProject(hit.id, viewer)));
+
+  res.json({
+    results: result.hits.map((hit, index) => ({
+      project: redactProject(req.session, projects[index]),
+      score: hit.score, highlights: hit.highlights })),
+    total: result.total,
+    nextCursor: result.nextCursor,
+    facets: result.facets,
+    corrections: result.corrections
+  });
+});
+
+module.exports = router;
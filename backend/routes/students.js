@@ -0,0 +1,143 @@
+const express = require('express');
+const { attachSession, requireAdmin, canManageInstitution } = require('../lib/auth');
+const {
+  studentSchema,
+  studentUpdateSchema,
+  studentBatchSchema,
+  validateBody,
+  parseQueryInt
+} = require('../lib/validation');
+const {
+  listStudents,
+  getStudent,
+  getStudentByWallet,
+  createStudents,
+  updateStudent,
+  deleteStudent,
+  getDepartment
+} = require('../lib/repository');
+
+const router = express.Router();
+
+// Names and wallets are public (they appear as project authors), emails only for the student's admins
+const toPublicStudent = (session, student) => {
+  if (canManageInstitution(session, student.institutionId)) return student;
+
+  const { email, ...rest } = student;
+  return rest;
+};
+
+/**
+ * Check a student's institution, department and wallet, returns [status, message] on failure
+ * @returns {Promise<[number, string] | undefined>}
+ */
+const checkStudent = async (session, student, currentId) => {
+  if (!canManageInstitution(session, student.institutionId)) {
+    return [403, 'You can only manage students of your own institution'];
+  }
+
+  const department = await getDepartment(student.departmentId);
+  if (!department || department.institutionId !== student.institutionId) {
+    return [400, 'The department does not belong to the institution'];
+  }
+
+  const existing = await getStudentByWallet(student.walletAddress);
+  if (existing && existing.id !== currentId) {
+    return [409, `A student with wallet ${student.walletAddress} already exists`];
+  }
+
+  return undefined;
+};
+
+const loadStudent = async (req, res, next) => {
+  const student = await getStudent(req.params.id);
+  if (!student) {
+    return res.status(404).json({ error: 'Student not found' });
+  }
+
+  req.student = student;
+  next();
+};
+
+router.get('/', attachSession, async (req, res) => {
+  const filter = {
+    institutionId: parseQueryInt(req.query.institutionId),
+    departmentId: parseQueryInt(req.query.departmentId)
+  };
+  if (Number.isNaN(filter.institutionId) || Number.isNaN(filter.departmentId)) {
+    return res.status(400).json({ error: 'Filters must be integers' });
+  }
+
+  const students = await listStudents(filter);
+  res.json({ students: students.map(student => toPublicStudent(req.session, student)) });
+});
+
+router.get('/by-wallet/:address', attachSession, async (req, res) => {
+  const student = await getStudentByWallet(req.params.address);
+  if (!student) {
+    return res.status(404).json({ error: 'Student not found' });
+  }
+  res.json({ student: toPublicStudent(req.session, student) });
+});
+
+router.get('/:id', attachSession, loadStudent, (req, res) => {
+  res.json({ student: toPublicStudent(req.session, req.student) });
+});
+
+router.post('/', requireAdmin, validateBody(studentSchema), async (req, res) => {
+  const failure = await checkStudent(req.session, req.body);
+  if (failure) {
+    return res.status(failure[0]).json({ error: failure[1] });
+  }
+
+  const [student] = await createStudents([req.body], req.session.address);
+  res.status(201).json({ student });
+});
+
+// Add many students at once, nothing is added when any of them is rejected
+router.post('/batch', requireAdmin, validateBody(studentBatchSchema), async (req, res) => {
+  const details = [];
+  const wallets = new Set();
+
+  for (const [index, student] of req.body.entries()) {
+    const wallet = student.walletAddress.toLowerCase();
+    /** @type {[number, string] | undefined} */
+    const failure = wallets.has(wallet)
+      ? [409, `Wallet ${student.walletAddress} appears more than once`]
+      : await checkStudent(req.session, student);
+
+    wallets.add(wallet);
+    if (failure) details.push({ path: String(index), status: failure[0], message: failure[1] });
+  }
+
+  if (details.length > 0) {
+    const status = details.some(detail => detail.status === 403) ? 403 : details[0].status;
+    return res.status(status).json({ error: 'Some students were rejected, none were added', details });
+  }
+
+  res.status(201).json({ students: await createStudents(req.body, req.session.address) });
+});
+
+router.patch('/:id', requireAdmin, loadStudent, validateBody(studentUpdateSchema), async (req, res) => {
+  if (!canManageInstitution(req.session, req.student.institutionId)) {
+    return res.status(403).json({ error: 'You can only manage students of your own institution' });
+  }
+
+  const failure = await checkStudent(req.session, { ...req.student, ...req.body }, req.student.id);
+  if (failure) {
+    return res.status(failure[0]).json({ error: failure[1] });
+  }
+
+  res.json({ student: await updateStudent(req.student.id, req.body, req.session.address) });
+});
+
+router.delete('/:id', requireAdmin, loadStudent, async (req, res) => {
+  if (!canManageInstitution(req.session, req.student.institutionId)) {
+    return res.status(403).json({ error: 'You can only manage students of your own institution' });
+  }
+
+  await deleteStudent(req.student.id, req.session.address);
+  res.status(204).end();
+});
+
+module.exports = router;
@@ -0,0 +1,111 @@
+const express = require('express');
+const config = require('../lib/config');
+const { requireSession } = require('../lib/auth');
+const { pinFile } = require('../lib/ipfs');
+const { consumeQuota, refundQuota } = require('../lib/quotas');
+const {
+  createUpload,
+  getUpload,
+  getChunkLength,
+  writeChunk,
+  assembleUpload,
+  deleteUpload
+} = require('../lib/uploads');
+
+const router = express.Router();
+
+router.use(requireSession);
+
+// Public view of an upload session
+const toUploadStatus = (upload) => ({
+  uploadId: upload.uploadId,
+  fileName: upload.fileName,
+  size: upload.size,
+  chunkSize: upload.chunkSize,
+  chunkCount: upload.chunkCount,
+  receivedChunks: upload.receivedChunks
+});
+
+// Load the upload named in the URL, only its owner may touch it
+const loadUpload = (req, res, next) => {
+  const upload = getUpload(req.params.uploadId);
+  if (!upload || upload.owner !== req.session.address.toLowerCase()) {
+    return res.status(404).json({ error: 'Upload not found' });
+  }
+
+  req.upload = upload;
+  next();
+};
+
+// Start a chunked upload
+router.post('/', async (req, res) => {
+  const { fileName, size } = req.body || {};
+  if (typeof fileName !== 'string' || !fileName || !Number.isInteger(size) || size <= 0) {
+    return res.status(400).json({ error: 'fileName and size are required' });
+  }
+
+  if (size > config.maxUploadBytes) {
+    return res.status(413).json({ error: `Files are limited to ${config.maxUploadBytes / (1024 * 1024)}MB` });
+  }
+
+  const quota = consumeQuota('uploadBytes', req.session.address, size);
+  if (!quota.allowed) {
+    return res.status(403).json({ error: 'Upload quota exceeded', quota });
+  }
+
+  const upload = await createUpload({ owner: req.session.address, fileName, size });
+  res.status(201).json(toUploadStatus(upload));
+});
+
+// Which chunks have arrived, used to resume after a dropped connection
+router.get('/:uploadId', loadUpload, (req, res) => {
+  res.json(toUploadStatus(req.upload));
+});
+
+// Store one chunk, sending a chunk again overwrites it
+router.put(
+  '/:uploadId/chunks/:index',
+  loadUpload,
+  express.raw({ type: 'application/octet-stream', limit: config.uploadChunkBytes }),
+  async (req, res) => {
+    const index = Number(req.params.index);
+    if (!Number.isInteger(index) || index < 0 || index >= req.upload.chunkCount) {
+      return res.status(400).json({ error: 'Invalid chunk index' });
+    }
+
+    if (!Buffer.isBuffer(req.body) || req.body.length !== getChunkLength(req.upload, index)) {
+      return res.status(400).json({ error: 'Chunk has the wrong size' });
+    }
+
+    await writeChunk(req.upload, index, req.body);
+    res.json(toUploadStatus(req.upload));
+  }
+);
+
+// Assemble the chunks and pin the file to IPFS
+router.post('/:uploadId/complete', loadUpload, async (req, res) => {
+  const { upload } = req;
+  if (upload.receivedChunks.length !== upload.chunkCount) {
+    return res.status(409).json({ error: 'Some chunks are still missing', ...toUploadStatus(upload) });
+  }
+
+  try {
+    const filePath = await assembleUpload(upload);
+    const cid = await pinFile(filePath, upload.fileName);
+    deleteUpload(upload.uploadId);
+    res.json({ cid });
+  } catch (error) {
+    // Keep the chunks so the client can retry completing the upload
+    console.error(`Error pinning upload ${upload.uploadId}:`, error);
+    res.status(502).json({ error: 'Failed to pin the file to IPFS' });
+  }
+});
+
+// Abandon an upload, nothing was pinned so its bytes go back to the quota
+router.delete('/:uploadId', loadUpload, (req, res) => {
+  refundQuota('uploadBytes', req.upload.owner, req.upload.size);
+  deleteUpload(req.upload.uploadId);
+  res.status(204).end();
+});
+
+module.exports = router;
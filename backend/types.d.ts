@@ -0,0 +1,183 @@
+// Shapes of the records the API stores and serves, JSDoc in the modules refers to them as
+// import('../types').Name and `npm run typecheck` checks them. They match the frontend's ProjectData,
+// Student, Institution and Department.
+
+import type { Statement } from 'better-sqlite3';
+
+// A prepared statement whose rows have the shape T
+export type Query<T> = Statement<unknown[], T>;
+
+export interface Institution {
+  id: number;
+  name: string;
+}
+
+export interface Department {
+  id: number;
+  institutionId: number;
+  name: string;
+}
+
+export interface InstitutionWithDepartments extends Institution {
+  departments: Department[];
+}
+
+export interface WrappedKey {
+  ephemeralPublicKey: string;
+  iv: string;
+  ciphertext: string;
+}
+
+export interface Encryption {
+  algorithm: 'AES-GCM';
+  iv: string;
+  fileName: string;
+  mimeType: string;
+  wrappedKeys: Record<string, WrappedKey>;
+}
+
+export interface Project {
+  id: number;
+  title: string;
+  authors: string[];
+  uploadDate: number;
+  ipfsHash: string;
+  departmentId: number;
+  institutionId?: number;
+  year: number;
+  description: string;
+  accessLevel: number;
+  aiSummary?: string;
+  creatorAddress?: string;
+  transactionHash?: string;
+  allowlist?: string[];
+  embargoUntil?: number;
+  encryption?: Encryption;
+  isBundle?: boolean;
+  metadataCid?: string;
+  keywords?: string[];
+  license?: string;
+}
+
+export type ProjectSummary = Pick<
+  Project,
+  'id' | 'title' | 'authors' | 'departmentId' | 'institutionId' | 'year' | 'accessLevel' | 'embargoUntil'
+>;
+
+export interface ProjectFilter {
+  departmentId?: number;
+  institutionId?: number;
+  year?: number;
+  author?: string;
+}
+
+export interface SearchFilter extends ProjectFilter {
+  yearFrom?: number;
+  yearTo?: number;
+  accessLevel?: number;
+}
+
+export interface MetadataRevision {
+  projectId: number;
+  metadataCid: string;
+}
+
+export type AccessRequestStatus = 'pending' | 'approved' | 'denied';
+
+export interface AccessRequest {
+  id: string;
+  projectId: number;
+  requester: string;
+  reason: string;
+  status: AccessRequestStatus;
+  createdAt: number;
+  decidedAt?: number;
+  decidedBy?: string;
+  expiresAt?: number;
+}
+
+export interface EncryptionKey {
+  address: string;
+  publicKey: string;
+  signature: string;
+  publishedAt: number;
+}
+
+export type StudentStatus = 'active' | 'inactive' | 'graduated';
+
+export interface Student {
+  id: string;
+  walletAddress: string;
+  name: string;
+  email: string;
+  departmentId: number;
+  institutionId: number;
+  year: number;
+  status: StudentStatus;
+  dateAdded: number;
+}
+
+export interface StudentFilter {
+  institutionId?: number;
+  departmentId?: number;
+}
+
+// Roles of a wallet as read from the contract
+export interface UserRoles {
+  isRegistered: boolean;
+  isStudent: boolean;
+  isAdmin: boolean;
+  isInstitutionAdmin: boolean;
+  departmentId: number;
+  institutionId: number;
+}
+
+export interface Session extends UserRoles {
+  address: string;
+  chainId: number;
+  issuedAt: number;
+  rolesCheckedAt: number;
+  expiresAt: number;
+}
+
+// Who a project read is made for, null is a guest
+export interface Viewer {
+  address: string;
+  institutionId: number | null;
+  departmentId: number | null;
+}
+
+export type UploadScope = 'file' | 'directory' | 'json';
+
+export interface UploadToken {
+  owner: string;
+  scope: UploadScope;
+  maxBytes: number;
+  expiresAt: number;
+}
+
+export interface Upload {
+  uploadId: string;
+  owner: string;
+  fileName: string;
+  size: number;
+  chunkSize: number;
+  chunkCount: number;
+  receivedChunks: number[];
+  createdAt: number;
+  expiresAt: number;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      session?: Session;
+      sessionToken?: string;
+      uploadToken?: UploadToken;
+      upload?: Upload;
+      student?: Student;
+      institution?: Institution;
+      department?: Department;
+    }
+  }
+}
@@ -5,10 +5,14 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { WalletProvider } from "@/context/WalletContext";
 import { AdminAuthProvider, useAdminAuth } from "@/context/AdminAuthContext";
+import WalletPicker from "@/components/WalletPicker";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useEmbargoRelease } from "@/hooks/use-embargo-release";
 import Index from "./pages/Index";
 import SearchPage from "./pages/search";
 import UploadPage from "./pages/upload";
 import ProjectDetailsPage from "./pages/project/[id]";
+import AccessRequestsPage from "./pages/requests";
 import InstitutionsPage from "./pages/Institutions";
 import NotFound from "./pages/NotFound";
 
@@ -19,27 +23,42 @@ import AdminStudentsPage from "./pages/admin/students";
 import AdminBulkUploadPage from "./pages/admin/bulk-upload";
 import AdminAnalyticsPage from "./pages/admin/analytics";
 import AdminSettingsPage from "./pages/admin/settings";
+import AdminPinsPage from "./pages/admin/pins";
 
 const queryClient = new QueryClient();
 
-// Protected route component for admin routes
+// Protected route component for admin routes, requires a verified session with admin rights
 const ProtectedAdminRoute = ({ children }: { children: React.ReactNode }) => {
-  const { isAuthenticated } = useAdminAuth();
+  const { session, isLoading } = useAdminAuth();
+  const { canAccessAdmin } = usePermissions();
 
-  if (!isAuthenticated) {
+  // Wait for the stored session to be checked before redirecting
+  if (isLoading) {
+    return null;
+  }
+
+  if (!session || !canAccessAdmin) {
     return <Navigate to="/admin/login" replace />;
   }
 
   return <>{children}</>;
 };
 
+// Publishes the connected user's projects when their embargo ends
+const EmbargoRelease = () => {
+  useEmbargoRelease();
+  return null;
+};
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
       <Toaster />
       <Sonner />
-      <AdminAuthProvider>
-        <WalletProvider>
+      <WalletProvider>
+        <AdminAuthProvider>
+          <WalletPicker />
+          <EmbargoRelease />
           <BrowserRouter>
             <Routes>
               {/* Public routes */}
@@ -47,6 +66,7 @@ const App = () => (
               <Route path="/search" element={<SearchPage />} />
               <Route path="/upload" element={<UploadPage />} />
               <Route path="/project/:id" element={<ProjectDetailsPage />} />
+              <Route path="/requests" element={<AccessRequestsPage />} />
               <Route path="/institutions" element={<InstitutionsPage />} />
 
               {/* Admin routes */}
@@ -71,6 +91,11 @@ const App = () => (
                   <AdminAnalyticsPage />
                 </ProtectedAdminRoute>
               } />
+              <Route path="/admin/pins" element={
+                <ProtectedAdminRoute>
+                  <AdminPinsPage />
+                </ProtectedAdminRoute>
+              } />
               <Route path="/admin/settings" element={
                 <ProtectedAdminRoute>
                   <AdminSettingsPage />
@@ -82,8 +107,8 @@ const App = () => (
               <Route path="*" element={<NotFound />} />
             </Routes>
           </BrowserRouter>
-        </WalletProvider>
-      </AdminAuthProvider>
+        </AdminAuthProvider>
+      </WalletProvider>
     </TooltipProvider>
   </QueryClientProvider>
 );
@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowRight, ExternalLink, Hourglass, Loader2 } from 'lucide-react';
+import AccessLevelBadge from '@/components/AccessLevelBadge';
+import { AccessChange } from '@/models/AccessChange';
+import { ProjectData } from '@/lib/blockchain';
+import { getAccessLevelLabel } from '@/lib/accessPolicy';
+import { getExplorerUrl } from '@/lib/chains';
+import { useIndexerStore } from '@/lib/eventIndexer';
+import { getAccessHistory, useAccessAuditStore } from '@/services/accessHistoryService';
+
+interface AccessHistoryTimelineProps {
+  project: ProjectData;
+}
+
+const shortenAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+// Every access change of a project, newest first, with who made it and the transaction
+const AccessHistoryTimeline: React.FC<AccessHistoryTimelineProps> = ({ project }) => {
+  const [changes, setChanges] = useState<AccessChange[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const localChanges = useAccessAuditStore(state => state.changes);
+  const lastIndexedBlock = useIndexerStore(state => state.lastBlock);
+
+  // Reload when the project changes, a change is recorded or new blocks are indexed
+  useEffect(() => {
+    let isCancelled = false;
+
+    getAccessHistory(project.id)
+      .then(history => {
+        if (!isCancelled) setChanges(history);
+      })
+      .catch(error => console.error('Error loading access history:', error))
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [project, localChanges, lastIndexedBlock]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-university-blue" />
+      </div>
+    );
+  }
+
+  if (changes.length === 0) {
+    return (
+      <div className="bg-gray-50 p-6 rounded-lg text-center text-gray-600">
+        The access level of this project has not changed since it was registered.
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 bg-white">
+      {changes.map(change => {
+        const transactionUrl = change.transactionHash && getExplorerUrl('tx', change.transactionHash);
+        const changedByUrl = getExplorerUrl('address', change.changedBy);
+
+        return (
+          <li key={change.id} className="mb-6 ml-6">
+            <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-university-blue" />
+
+            <div className="flex flex-wrap items-center gap-2">
+              <AccessLevelBadge accessLevel={change.oldAccessLevel} />
+              <ArrowRight className="h-4 w-4 text-gray-400" />
+              <AccessLevelBadge accessLevel={change.newAccessLevel} />
+              {!change.onChain && (
+                <span className="text-xs text-gray-500">(off-chain)</span>
+              )}
+            </div>
+
+            {change.embargo && (
+              <p className="flex items-center text-sm text-gray-600 mt-1">
+                <Hourglass className="h-3 w-3 mr-1" />
+                Embargoed until {new Date(change.embargo.until).toLocaleDateString()}, then {getAccessLevelLabel(change.embargo.accessLevel)}
+              </p>
+            )}
+
+            <p className="text-sm text-gray-600 mt-1">
+              {new Date(change.timestamp).toLocaleString()} by{' '}
+              {changedByUrl ? (
+                <a href={changedByUrl} target="_blank" rel="noopener noreferrer" className="text-university-blue hover:underline">
+                  {shortenAddress(change.changedBy)}
+                </a>
+              ) : (
+                <span className="font-mono">{shortenAddress(change.changedBy)}</span>
+              )}
+            </p>
+
+            {transactionUrl && (
+              <a
+                href={transactionUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-sm text-university-blue hover:underline inline-flex items-center mt-1"
+              >
+                View transaction <ExternalLink className="h-3 w-3 ml-1" />
+              </a>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default AccessHistoryTimeline;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Building, Globe, Lock, UserCheck, Users } from 'lucide-react';
+import { AccessLevel } from '@/lib/blockchain';
+import { getAccessLevelLabel } from '@/lib/accessPolicy';
+
+interface AccessLevelBadgeProps {
+  accessLevel: AccessLevel;
+  className?: string;
+}
+
+const badgeStyles: Record<AccessLevel, { icon: React.ElementType; className: string }> = {
+  [AccessLevel.Public]: { icon: Globe, className: 'bg-green-100 text-green-700 border-green-300' },
+  [AccessLevel.Institution]: { icon: Users, className: 'bg-amber-100 text-amber-700 border-amber-300' },
+  [AccessLevel.Department]: { icon: Building, className: 'bg-blue-100 text-blue-700 border-blue-300' },
+  [AccessLevel.Allowlist]: { icon: UserCheck, className: 'bg-purple-100 text-purple-700 border-purple-300' },
+  [AccessLevel.Private]: { icon: Lock, className: 'bg-red-100 text-red-700 border-red-300' },
+};
+
+// Access level badge with the icon and color used across the app
+const AccessLevelBadge: React.FC<AccessLevelBadgeProps> = ({ accessLevel, className = '' }) => {
+  const style = badgeStyles[accessLevel];
+  if (!style) return null;
+
+  const Icon = style.icon;
+
+  return (
+    <Badge variant="outline" className={`flex items-center gap-1 ${style.className} ${className}`}>
+      <Icon className="h-3 w-3" />
+      {getAccessLevelLabel(accessLevel)}
+    </Badge>
+  );
+};
+
+export default AccessLevelBadge;
@@ -0,0 +1,85 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { AccessLevel } from '@/lib/blockchain';
+import { ACCESS_LEVELS } from '@/lib/accessPolicy';
+
+interface AccessLevelSelectorProps {
+  value: string;
+  onValueChange: (value: string) => void;
+  allowlist: string; // Addresses separated by commas or new lines
+  onAllowlistChange: (allowlist: string) => void;
+  embargoUntil?: string; // YYYY-MM-DD, empty for no embargo
+  onEmbargoUntilChange?: (embargoUntil: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Radio group with every access level the policy supports
+const AccessLevelSelector: React.FC<AccessLevelSelectorProps> = ({
+  value,
+  onValueChange,
+  allowlist,
+  onAllowlistChange,
+  embargoUntil,
+  onEmbargoUntilChange,
+  disabled = false,
+  className = 'flex flex-col space-y-3 mt-2'
+}) => {
+  return (
+    <>
+      <RadioGroup
+        value={value}
+        onValueChange={onValueChange}
+        className={className}
+        disabled={disabled}
+      >
+        {ACCESS_LEVELS.map(({ level, label, description }) => (
+          <div key={level} className="flex items-start space-x-3">
+            <RadioGroupItem value={level.toString()} id={`access-${label.toLowerCase()}`} />
+            <Label htmlFor={`access-${label.toLowerCase()}`} className="font-medium cursor-pointer">
+              {label}
+              <p className="font-normal text-gray-600 text-sm">
+                {description}
+              </p>
+            </Label>
+          </div>
+        ))}
+      </RadioGroup>
+
+      {value === AccessLevel.Allowlist.toString() && (
+        <div className="space-y-2 mt-3">
+          <Label htmlFor="access-allowlist-addresses">Allowed Wallet Addresses</Label>
+          <Textarea
+            id="access-allowlist-addresses"
+            placeholder="0x..., one per line or separated by commas"
+            value={allowlist}
+            onChange={(e) => onAllowlistChange(e.target.value)}
+            disabled={disabled}
+            rows={3}
+          />
+        </div>
+      )}
+
+      {onEmbargoUntilChange && (
+        <div className="space-y-2 mt-3">
+          <Label htmlFor="access-embargo-until">Embargo Until (optional)</Label>
+          <Input
+            id="access-embargo-until"
+            type="date"
+            value={embargoUntil ?? ''}
+            onChange={(e) => onEmbargoUntilChange(e.target.value)}
+            disabled={disabled}
+          />
+          <p className="text-sm text-gray-600">
+            The project stays private until this date and then switches to the access level above.
+          </p>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default AccessLevelSelector;
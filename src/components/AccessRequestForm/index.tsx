@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { Loader2, Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/components/ui/use-toast';
+import AccessRequestStatusBadge from '@/components/AccessRequestStatusBadge';
+import { useWallet } from '@/context/WalletContext';
+import { ProjectSummary } from '@/lib/blockchain';
+import {
+  getRequestStatus,
+  getRequestsByRequester,
+  submitAccessRequest,
+  useAccessRequestStore
+} from '@/services/accessRequestService';
+
+interface AccessRequestFormProps {
+  project: ProjectSummary;
+}
+
+// Lets a viewer without access ask the project's authors and institution admins for it
+const AccessRequestForm: React.FC<AccessRequestFormProps> = ({ project }) => {
+  const { address } = useWallet();
+  const requests = useAccessRequestStore(state => state.requests);
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  if (!address) return null;
+
+  // Most recent request for this project comes first in the store
+  const latestRequest = getRequestsByRequester(requests, address).find(r => r.projectId === project.id);
+  const canSubmit = !latestRequest || ['denied', 'expired'].includes(getRequestStatus(latestRequest));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) return;
+
+    setIsSubmitting(true);
+    try {
+      await submitAccessRequest(project.id, address, reason);
+      setReason('');
+      toast({
+        title: 'Access requested',
+        description: 'The project authors and institution admins have been asked for access.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Failed to request access',
+        description: error instanceof Error ? error.message : 'An unknown error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-md mx-auto text-left bg-white p-6 rounded-lg border border-gray-200 mb-6">
+      {latestRequest && (
+        <div className="flex items-center justify-between mb-4">
+          <span className="text-sm text-gray-600">
+            Requested on {new Date(latestRequest.createdAt).toLocaleDateString()}
+          </span>
+          <AccessRequestStatusBadge request={latestRequest} />
+        </div>
+      )}
+
+      {canSubmit ? (
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <Label htmlFor="access-request-reason">Why do you need access?</Label>
+          <Textarea
+            id="access-request-reason"
+            placeholder="e.g. I am researching a related topic for my thesis"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            disabled={isSubmitting}
+            rows={3}
+            required
+          />
+          <Button
+            type="submit"
+            className="w-full bg-university-blue hover:bg-university-blue/90 text-white"
+            disabled={isSubmitting || !reason.trim()}
+          >
+            {isSubmitting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Send className="mr-2 h-4 w-4" />
+            )}
+            Request Access
+          </Button>
+        </form>
+      ) : (
+        <p className="text-sm text-gray-600">
+          {getRequestStatus(latestRequest) === 'pending'
+            ? 'Your request is waiting for a decision from the project authors or institution admins.'
+            : 'Your request was approved.'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default AccessRequestForm;
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Check, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from '@/components/ui/use-toast';
+import { usePermissions } from '@/hooks/use-permissions';
+import { ProjectSummary } from '@/lib/blockchain';
+import { AccessRequest } from '@/models/AccessRequest';
+import { approveAccessRequest, denyAccessRequest } from '@/services/accessRequestService';
+
+interface AccessRequestQueueProps {
+  requests: AccessRequest[]; // Pending requests to decide on
+  projects: ProjectSummary[];
+  showProject?: boolean;
+}
+
+const shortenAddress = (address: string) => {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+};
+
+// Pending access requests with approve and deny actions
+const AccessRequestQueue: React.FC<AccessRequestQueueProps> = ({ requests, projects, showProject = false }) => {
+  const permissions = usePermissions();
+  const [expiryDates, setExpiryDates] = useState<Record<string, string>>({});
+  const [decidingId, setDecidingId] = useState<string | null>(null);
+
+  const decide = async (request: AccessRequest, approve: boolean) => {
+    const project = projects.find(p => p.id === request.projectId);
+    if (!project) return;
+
+    setDecidingId(request.id);
+    try {
+      if (approve) {
+        // Access ends at the end of the chosen day
+        const expiryDate = expiryDates[request.id];
+        const expiresAt = expiryDate ? new Date(`${expiryDate}T23:59:59`).getTime() : undefined;
+        await approveAccessRequest(request.id, project, permissions, expiresAt);
+      } else {
+        await denyAccessRequest(request.id, project, permissions);
+      }
+
+      toast({
+        title: approve ? 'Access approved' : 'Access denied',
+        description: `${shortenAddress(request.requester)} ${approve ? 'can now' : 'cannot'} view "${project.title}".`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Failed to update access request',
+        description: error instanceof Error ? error.message : 'An unknown error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  if (requests.length === 0) {
+    return (
+      <div className="bg-gray-50 p-6 rounded-lg text-center text-gray-600">
+        No pending access requests.
+      </div>
+    );
+  }
+
+  return (
+    <ul className="space-y-4">
+      {requests.map(request => {
+        const project = projects.find(p => p.id === request.projectId);
+
+        return (
+          <li key={request.id} className="bg-white p-4 rounded-lg border border-gray-200">
+            <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+              <div className="space-y-1">
+                {showProject && project && (
+                  <Link
+                    to={`/project/${project.id}`}
+                    className="font-semibold text-university-navy hover:text-university-blue"
+                  >
+                    {project.title}
+                  </Link>
+                )}
+                <p className="text-sm text-gray-600">
+                  <span className="font-mono">{shortenAddress(request.requester)}</span>
+                  {' '}requested access on {new Date(request.createdAt).toLocaleDateString()}
+                </p>
+                <p className="text-gray-700">{request.reason}</p>
+              </div>
+
+              <div className="flex flex-col gap-2 md:items-end">
+                <label className="text-xs text-gray-500" htmlFor={`expiry-${request.id}`}>
+                  Access until (optional)
+                </label>
+                <Input
+                  id={`expiry-${request.id}`}
+                  type="date"
+                  className="w-44"
+                  min={new Date().toISOString().split('T')[0]}
+                  value={expiryDates[request.id] || ''}
+                  onChange={(e) => setExpiryDates({ ...expiryDates, [request.id]: e.target.value })}
+                />
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    className="bg-green-600 hover:bg-green-700 text-white"
+                    onClick={() => decide(request, true)}
+                    disabled={decidingId === request.id}
+                  >
+                    <Check className="mr-1 h-4 w-4" />
+                    Approve
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="text-red-600 border-red-300 hover:bg-red-50"
+                    onClick={() => decide(request, false)}
+                    disabled={decidingId === request.id}
+                  >
+                    <X className="mr-1 h-4 w-4" />
+                    Deny
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default AccessRequestQueue;
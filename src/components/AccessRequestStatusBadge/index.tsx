@@ -0,0 +1,23 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { AccessRequest } from '@/models/AccessRequest';
+import { getRequestStatus } from '@/services/accessRequestService';
+
+const statusStyles = {
+  pending: { label: 'Pending', className: 'bg-amber-100 text-amber-700 border-amber-300' },
+  approved: { label: 'Approved', className: 'bg-green-100 text-green-700 border-green-300' },
+  denied: { label: 'Denied', className: 'bg-red-100 text-red-700 border-red-300' },
+  expired: { label: 'Expired', className: 'bg-gray-100 text-gray-600 border-gray-300' },
+};
+
+const AccessRequestStatusBadge: React.FC<{ request: AccessRequest }> = ({ request }) => {
+  const style = statusStyles[getRequestStatus(request)];
+
+  return (
+    <Badge variant="outline" className={style.className}>
+      {style.label}
+    </Badge>
+  );
+};
+
+export default AccessRequestStatusBadge;
@@ -12,7 +12,8 @@ import {
   Menu,
   X,
   ChevronDown,
-  Shield
+  Shield,
+  HardDrive
 } from 'lucide-react';
 import {
   DropdownMenu,
@@ -64,6 +65,11 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children }) => {
       icon: <BarChart className="h-5 w-5" />,
       href: '/admin/analytics',
     },
+    {
+      label: 'Storage',
+      icon: <HardDrive className="h-5 w-5" />,
+      href: '/admin/pins',
+    },
     {
       label: 'Settings',
       icon: <Settings className="h-5 w-5" />,
@@ -0,0 +1,141 @@
+import React, { ReactNode, useEffect, useState } from 'react';
+import { Download, Eye, File as FileIcon, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/components/ui/use-toast';
+import {
+  ArchiveEntry,
+  MAX_ENTRY_PREVIEW_BYTES,
+  extractArchiveEntry,
+  getPreviewKind,
+  listArchiveEntries
+} from '@/lib/preview';
+
+interface ArchiveViewerProps {
+  file: File;
+  renderPreview: (file: File) => ReactNode; // Viewer for an extracted entry
+}
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return bytes + ' bytes';
+  else if (bytes < 1048576) return (bytes / 1024).toFixed(1) + ' KB';
+  else return (bytes / 1048576).toFixed(1) + ' MB';
+};
+
+// Lists the files in a ZIP archive and extracts single entries in memory
+const ArchiveViewer: React.FC<ArchiveViewerProps> = ({ file, renderPreview }) => {
+  const [data, setData] = useState<Uint8Array | null>(null);
+  const [entries, setEntries] = useState<ArchiveEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<File | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setData(null);
+    setSelected(null);
+    setError(null);
+
+    file.arrayBuffer().then(buffer => {
+      if (cancelled) return;
+      const bytes = new Uint8Array(buffer);
+      try {
+        setEntries(listArchiveEntries(bytes));
+        setData(bytes);
+      } catch (err) {
+        setError(err instanceof Error ? `Failed to read the archive: ${err.message}` : 'Failed to read the archive');
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  const extract = (entry: ArchiveEntry): File | null => {
+    try {
+      return extractArchiveEntry(data, entry.path);
+    } catch (err) {
+      toast({
+        title: 'Failed to extract file',
+        description: err instanceof Error ? err.message : 'An unknown error occurred',
+        variant: 'destructive',
+      });
+      return null;
+    }
+  };
+
+  const handlePreview = (entry: ArchiveEntry) => {
+    const extracted = extract(entry);
+    if (extracted) setSelected(extracted);
+  };
+
+  const handleSave = (entry: ArchiveEntry) => {
+    const extracted = extract(entry);
+    if (!extracted) return;
+
+    const url = URL.createObjectURL(extracted);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = extracted.name;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (error) {
+    return <p className="p-4 text-sm text-red-500">{error}</p>;
+  }
+
+  if (!data) {
+    return (
+      <div className="flex items-center justify-center p-8 text-gray-500">
+        <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+        Reading archive...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <ul className="divide-y rounded-md border max-h-72 overflow-y-auto">
+        {entries.map(entry => {
+          const canPreview = getPreviewKind(entry.path) !== 'unsupported' && entry.size <= MAX_ENTRY_PREVIEW_BYTES;
+          return (
+            <li key={entry.path} className="flex items-center gap-2 px-3 py-1.5 text-sm">
+              <FileIcon className="h-4 w-4 text-gray-400 shrink-0" />
+              <span className="flex-1 truncate font-mono" title={entry.path}>{entry.path}</span>
+              <span className="w-20 text-right text-gray-500 whitespace-nowrap">{formatFileSize(entry.size)}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => handlePreview(entry)}
+                disabled={!canPreview}
+                title={canPreview ? `Preview ${entry.path}` : 'No preview available'}
+              >
+                <Eye className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => handleSave(entry)}
+                title={`Extract ${entry.path}`}
+              >
+                <Download className="h-4 w-4" />
+              </Button>
+            </li>
+          );
+        })}
+        {entries.length === 0 && <li className="px-3 py-2 text-sm text-gray-500">The archive is empty.</li>}
+      </ul>
+
+      {selected && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium font-mono">{selected.name}</p>
+          {renderPreview(selected)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ArchiveViewer;
@@ -0,0 +1,70 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import hljs from 'highlight.js/lib/common';
+import 'highlight.js/styles/github.css';
+import { Loader2 } from 'lucide-react';
+import { MAX_HIGHLIGHT_BYTES, getExtension, isProbablyText } from '@/lib/preview';
+
+interface CodeViewerProps {
+  file: File;
+}
+
+// Source and text files with syntax highlighting and line numbers
+const CodeViewer: React.FC<CodeViewerProps> = ({ file }) => {
+  const [text, setText] = useState<string | null>(null);
+  const [isBinary, setIsBinary] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setText(null);
+
+    file.arrayBuffer().then(data => {
+      if (cancelled) return;
+      setIsBinary(!isProbablyText(data));
+      setText(new TextDecoder().decode(data));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  const highlighted = useMemo(() => {
+    if (text === null || file.size > MAX_HIGHLIGHT_BYTES) return null;
+
+    // highlight.js knows most extensions as language aliases
+    const extension = getExtension(file.name);
+    return hljs.getLanguage(extension)
+      ? hljs.highlight(text, { language: extension }).value
+      : hljs.highlightAuto(text).value;
+  }, [text, file]);
+
+  if (text === null) {
+    return (
+      <div className="flex items-center justify-center p-8 text-gray-500">
+        <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+        Loading file...
+      </div>
+    );
+  }
+
+  if (isBinary) {
+    return <p className="p-4 text-sm text-gray-500">This file is binary and cannot be previewed as text.</p>;
+  }
+
+  const lineCount = text.split('\n').length;
+
+  return (
+    <div className="flex max-h-[70vh] overflow-auto rounded-md border bg-white text-sm font-mono">
+      <pre className="select-none border-r bg-gray-50 px-3 py-2 text-right text-gray-400">
+        {Array.from({ length: lineCount }, (_, i) => i + 1).join('\n')}
+      </pre>
+      {highlighted !== null ? (
+        <pre className="hljs flex-1 px-3 py-2" dangerouslySetInnerHTML={{ __html: highlighted }} />
+      ) : (
+        <pre className="flex-1 px-3 py-2">{text}</pre>
+      )}
+    </div>
+  );
+};
+
+export default CodeViewer;
@@ -2,14 +2,16 @@
 import React from 'react';
 import { useWallet } from '@/context/WalletContext';
 import { Button } from '@/components/ui/button';
-import { Loader2 } from 'lucide-react';
+import { Loader2, AlertTriangle } from 'lucide-react';
+import { getChainConfig, DEFAULT_CHAIN_ID } from '@/lib/chains';
 
 const shortenAddress = (address: string) => {
   return `${address.slice(0, 6)}...${address.slice(-4)}`;
 };
 
 const ConnectWalletButton: React.FC = () => {
-  const { address, isConnected, isConnecting, connect, disconnect, error } = useWallet();
+  const { address, isConnected, isConnecting, isSupportedChain, connect, disconnect, switchChain, error } = useWallet();
+  const defaultChain = getChainConfig(DEFAULT_CHAIN_ID);
 
   const handleConnectClick = async () => {
     if (isConnected) {
@@ -23,6 +25,27 @@ const ConnectWalletButton: React.FC = () => {
     }
   };
 
+  // The wallet is on a network without a deployed contract
+  if (isConnected && !isSupportedChain) {
+    return (
+      <div className="relative">
+        <Button
+          variant="destructive"
+          onClick={() => switchChain(DEFAULT_CHAIN_ID)}
+          className="flex items-center"
+        >
+          <AlertTriangle className="mr-2 h-4 w-4" />
+          Switch to {defaultChain?.name || 'a supported network'}
+        </Button>
+        {error && (
+          <div className="mt-2 text-red-500 text-sm">
+            {error}
+          </div>
+        )}
+      </div>
+    );
+  }
+
   return (
     <div className="relative">
       <Button
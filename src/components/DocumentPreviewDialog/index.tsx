@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import DocumentViewer from '@/components/DocumentViewer';
+import { getGatewayLabel } from '@/lib/gateway';
+
+interface DocumentPreviewDialogProps {
+  title: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Fetches (and decrypts) the file, only called while the dialog is open. Memoize it,
+  // the file is loaded again whenever it changes.
+  loadFile: () => Promise<{ file: File; gateway: string }>;
+}
+
+// Previews a project file in a dialog without saving it to disk
+const DocumentPreviewDialog: React.FC<DocumentPreviewDialogProps> = ({ title, open, onOpenChange, loadFile }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [gateway, setGateway] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setFile(null);
+    setError(null);
+
+    loadFile()
+      .then(result => {
+        if (cancelled) return;
+        setFile(result.file);
+        setGateway(result.gateway);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load the file');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, loadFile]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle className="truncate pr-6">{title}</DialogTitle>
+          {file && gateway && (
+            <p className="flex items-center text-xs text-green-700">
+              <ShieldCheck className="h-3.5 w-3.5 mr-1" />
+              Verified against its CID, served by {getGatewayLabel(gateway)}
+            </p>
+          )}
+        </DialogHeader>
+
+        {error ? (
+          <p className="text-sm text-red-500">{error}</p>
+        ) : file ? (
+          <DocumentViewer file={file} />
+        ) : (
+          <div className="flex items-center justify-center p-8 text-gray-500">
+            <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+            Loading file...
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DocumentPreviewDialog;
@@ -0,0 +1,39 @@
+import React, { useEffect, useState } from 'react';
+import ArchiveViewer from '@/components/ArchiveViewer';
+import CodeViewer from '@/components/CodeViewer';
+import PdfViewer from '@/components/PdfViewer';
+import { getPreviewKind } from '@/lib/preview';
+
+interface DocumentViewerProps {
+  file: File;
+}
+
+const ImageViewer: React.FC<DocumentViewerProps> = ({ file }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  return url ? <img src={url} alt={file.name} className="mx-auto max-h-[70vh] rounded-md border" /> : null;
+};
+
+// Picks the inline viewer for a file: PDF, ZIP archive, image or source/text
+const DocumentViewer: React.FC<DocumentViewerProps> = ({ file }) => {
+  switch (getPreviewKind(file.name, file.type)) {
+    case 'pdf':
+      return <PdfViewer file={file} />;
+    case 'archive':
+      return <ArchiveViewer file={file} renderPreview={(entry) => <DocumentViewer file={entry} />} />;
+    case 'image':
+      return <ImageViewer file={file} />;
+    case 'text':
+      return <CodeViewer file={file} />;
+    default:
+      return <p className="p-4 text-sm text-gray-500">No preview is available for this type of file.</p>;
+  }
+};
+
+export default DocumentViewer;
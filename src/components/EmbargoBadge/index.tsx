@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from 'react';
+import { Hourglass } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { ProjectData } from '@/lib/blockchain';
+import { getAccessLevelLabel, isEmbargoed } from '@/lib/accessPolicy';
+
+interface EmbargoBadgeProps {
+  project: ProjectData;
+  className?: string;
+}
+
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Largest two units of the time left, e.g. "3d 4h" or "12m"
+const formatTimeRemaining = (ms: number): string => {
+  const days = Math.floor(ms / DAY_MS);
+  const hours = Math.floor((ms % DAY_MS) / HOUR_MS);
+  const minutes = Math.max(1, Math.ceil((ms % HOUR_MS) / MINUTE_MS));
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+};
+
+// Countdown to the end of a project's embargo, renders nothing once it has passed
+const EmbargoBadge: React.FC<EmbargoBadgeProps> = ({ project, className = '' }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!isEmbargoed(project)) return;
+
+    const interval = setInterval(() => setNow(Date.now()), MINUTE_MS);
+    return () => clearInterval(interval);
+  }, [project]);
+
+  if (!isEmbargoed(project, now)) return null;
+
+  return (
+    <Badge
+      variant="outline"
+      className={`flex items-center gap-1 bg-slate-100 text-slate-700 border-slate-300 ${className}`}
+      title={`Embargoed until ${new Date(project.embargoUntil).toLocaleDateString()}`}
+    >
+      <Hourglass className="h-3 w-3" />
+      {getAccessLevelLabel(project.accessLevel)} in {formatTimeRemaining(project.embargoUntil - now)}
+    </Badge>
+  );
+};
+
+export default EmbargoBadge;
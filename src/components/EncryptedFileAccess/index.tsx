@@ -0,0 +1,196 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Download, Eye, KeyRound, Loader2, Lock, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import DocumentPreviewDialog from '@/components/DocumentPreviewDialog';
+import { toast } from '@/components/ui/use-toast';
+import { useWallet } from '@/context/WalletContext';
+import { ProjectData } from '@/lib/blockchain';
+import { getGatewayLabel } from '@/lib/gateway';
+import { updateProject } from '@/services/projectService';
+import { useAccessRequestStore } from '@/services/accessRequestService';
+import {
+  decryptProjectFile,
+  getPendingKeyReaders,
+  hasProjectKey,
+  publishEncryptionKey,
+  shareProjectKey,
+  useEncryptionKeyStore
+} from '@/services/encryptionService';
+import { fetchProjectFile } from '@/services/projectFileService';
+
+interface EncryptedFileAccessProps {
+  project: ProjectData;
+  onProjectUpdate: (project: ProjectData) => void;
+  hideDownload?: boolean; // Bundles download file by file from the file tree instead
+}
+
+// Decrypts an encrypted project file for readers holding a wrapped key,
+// and lets key holders share the key with newly authorized readers
+const EncryptedFileAccess: React.FC<EncryptedFileAccessProps> = ({ project, onProjectUpdate, hideDownload = false }) => {
+  const { address } = useWallet();
+  const publicKeys = useEncryptionKeyStore(state => state.publicKeys);
+  const loadPublicKeys = useEncryptionKeyStore(state => state.loadPublicKeys);
+  const accessRequests = useAccessRequestStore(state => state.requests);
+  const [pendingReaders, setPendingReaders] = useState<string[]>([]);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [isSharing, setIsSharing] = useState(false);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+
+  const loadPreview = useCallback(() => fetchProjectFile(project, address), [project, address]);
+
+  const canDecrypt = hasProjectKey(project, address);
+  const hasPublishedKey = !!address && !!publicKeys[address.toLowerCase()];
+
+  useEffect(() => {
+    loadPublicKeys().catch(error => console.error('Error loading published encryption keys:', error));
+  }, [loadPublicKeys]);
+
+  // Readers who were granted access or published a key since the key was last shared
+  useEffect(() => {
+    if (!canDecrypt) {
+      setPendingReaders([]);
+      return;
+    }
+
+    getPendingKeyReaders(project)
+      .then(setPendingReaders)
+      .catch(error => console.error('Error finding readers without a key:', error));
+  }, [project, canDecrypt, publicKeys, accessRequests]);
+
+  const handleDecrypt = async () => {
+    setIsDecrypting(true);
+    try {
+      const { file, gateway } = await decryptProjectFile(project, address);
+
+      // Hand the decrypted file to the browser as a download
+      const url = URL.createObjectURL(file);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.name;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: 'File decrypted',
+        description: `Verified against its CID, served by ${getGatewayLabel(gateway)}.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Failed to decrypt file',
+        description: error instanceof Error ? error.message : 'An unknown error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const handleShare = async () => {
+    setIsSharing(true);
+    try {
+      const encryption = await shareProjectKey(project, address);
+      if (encryption) {
+        const updatedProject = { ...project, encryption };
+        await updateProject(updatedProject);
+        onProjectUpdate(updatedProject);
+      }
+
+      toast({
+        title: 'Key shared',
+        description: `${pendingReaders.length} more reader(s) can now decrypt the project file.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Failed to share key',
+        description: error instanceof Error ? error.message : 'An unknown error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const handlePublish = async () => {
+    setIsPublishing(true);
+    try {
+      await publishEncryptionKey(address);
+      toast({
+        title: 'Encryption key published',
+        description: 'The authors can now share the file key with your wallet.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Failed to publish key',
+        description: error instanceof Error ? error.message : 'An unknown error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  if (!address) {
+    return (
+      <p className="flex items-center text-sm text-gray-600">
+        <Lock className="h-4 w-4 mr-2" />
+        This file is encrypted. Connect your wallet to decrypt it.
+      </p>
+    );
+  }
+
+  if (!canDecrypt) {
+    return (
+      <div className="flex flex-col items-start gap-2">
+        <p className="flex items-center text-sm text-gray-600">
+          <Lock className="h-4 w-4 mr-2" />
+          {hasPublishedKey
+            ? 'This file is encrypted and its key has not been shared with your wallet yet.'
+            : 'This file is encrypted. Publish your encryption key so the authors can share the file key with you.'}
+        </p>
+        {!hasPublishedKey && (
+          <Button variant="outline" size="sm" onClick={handlePublish} disabled={isPublishing}>
+            {isPublishing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <KeyRound className="h-4 w-4 mr-2" />}
+            Publish Encryption Key
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-2">
+      {!hideDownload && (
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setIsPreviewOpen(true)}>
+            <Eye className="h-4 w-4 mr-2" />
+            Preview
+          </Button>
+          <Button
+            onClick={handleDecrypt}
+            disabled={isDecrypting}
+            className="bg-university-blue hover:bg-university-blue/90 text-white"
+          >
+            {isDecrypting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            Decrypt & Download
+          </Button>
+          <DocumentPreviewDialog
+            title={project.encryption.fileName}
+            open={isPreviewOpen}
+            onOpenChange={setIsPreviewOpen}
+            loadFile={loadPreview}
+          />
+        </div>
+      )}
+
+      {pendingReaders.length > 0 && (
+        <Button variant="outline" size="sm" onClick={handleShare} disabled={isSharing}>
+          {isSharing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Users className="h-4 w-4 mr-2" />}
+          Share Key with {pendingReaders.length} Reader(s)
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default EncryptedFileAccess;
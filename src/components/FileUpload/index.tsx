@@ -2,40 +2,111 @@ import React, { useState, useRef, ChangeEvent } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
-import { Upload, File as FileIcon, X, Check, ExternalLink } from 'lucide-react';
-import { uploadFileToPinata, getIpfsGatewayUrl } from '@/lib/pinata';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Upload, File as FileIcon, Folder, X, Check, ExternalLink, Lock, RotateCcw, Plus } from 'lucide-react';
+import { getIpfsGatewayUrl } from '@/lib/storage';
+import { FileEncryption } from '@/lib/encryption';
+import { isAbortError } from '@/lib/retry';
+import { encryptFileForUpload } from '@/services/encryptionService';
+import { isChunkedUpload, uploadFile } from '@/services/uploadService';
+import { BundleEntryInput, uploadBundle } from '@/services/bundleService';
+import { FILE_ROLES, FileRole, guessFileRole } from '@/lib/bundle';
 import { useToast } from '@/components/ui/use-toast';
 
+// What the parent needs to store with the project besides the CID
+export interface UploadDetails {
+  encryption?: FileEncryption;
+  isBundle?: boolean; // The CID is a directory with a manifest
+  file: { name: string; size: number; mimeType?: string; fileCount?: number }; // Describes the original upload
+}
+
 interface FileUploadProps {
-  onUploadComplete: (ipfsHash: string) => void;
+  onUploadComplete: (ipfsHash: string, details: UploadDetails) => void;
+  onRemove?: () => void;
+  encryptFor?: string | null; // Uploader wallet, enables encrypting the file before it is pinned
   maxSizeMB?: number;
   acceptedFileTypes?: string[];
 }
 
 const FileUpload: React.FC<FileUploadProps> = ({
   onUploadComplete,
+  onRemove,
+  encryptFor,
   maxSizeMB = 100, // Default max size: 100MB
   acceptedFileTypes = ['application/pdf', 'application/zip', 'application/x-zip-compressed']
 }) => {
   const [file, setFile] = useState<File | null>(null);
+  const [bundleEntries, setBundleEntries] = useState<BundleEntryInput[]>([]);
+  const [bundleName, setBundleName] = useState('project-bundle');
   const [uploading, setUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [uploadedBytes, setUploadedBytes] = useState(0);
+  const [retryAttempt, setRetryAttempt] = useState(0);
+  const [uploadFailed, setUploadFailed] = useState(false);
   const [ipfsHash, setIpfsHash] = useState<string | null>(null);
+  const [encrypt, setEncrypt] = useState(true);
+  const [encrypted, setEncrypted] = useState(false);
   const { toast } = useToast();
 
   const maxSize = maxSizeMB * 1024 * 1024; // Convert MB to bytes
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // The encrypted copy is kept between attempts so a retry resumes the same upload
+  const preparedUploadRef = useRef<{ source: File; file: File; encryption?: FileEncryption } | null>(null);
   const [fileError, setFileError] = useState<string | null>(null);
 
+  const isBundle = bundleEntries.length > 0;
+  const bundleSize = bundleEntries.reduce((total, entry) => total + entry.file.size, 0);
+
+  // Several files, a folder or files added to an existing selection make a bundle
+  const addToBundle = (selected: File[]) => {
+    const existing = file ? [{ file, path: file.name, role: guessFileRole(file.name) }] : bundleEntries;
+
+    // Folder picks report paths like "my-project/code/main.py", the folder becomes the bundle name
+    const rootFolder = selected[0].webkitRelativePath.split('/')[0];
+    if (rootFolder && existing.length === 0) {
+      setBundleName(rootFolder);
+    }
+
+    const added = selected.map(selectedFile => {
+      const path = selectedFile.webkitRelativePath
+        ? selectedFile.webkitRelativePath.split('/').slice(1).join('/')
+        : selectedFile.name;
+      return { file: selectedFile, path, role: guessFileRole(path) };
+    });
+
+    const entries = [...existing, ...added.filter(entry => !existing.some(e => e.path === entry.path))];
+    const totalSize = entries.reduce((total, entry) => total + entry.file.size, 0);
+    if (totalSize > maxSize) {
+      setFileError(`Files are too large together. Maximum size is ${maxSizeMB}MB`);
+      return;
+    }
+
+    setFile(null);
+    setBundleEntries(entries);
+  };
+
   const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
     setFileError(null);
 
-    if (event.target.files && event.target.files.length > 0) {
-      const selectedFile = event.target.files[0];
+    const selected = Array.from(event.target.files ?? []);
+    event.target.value = ''; // Allow picking the same files again
+
+    if (selected.length > 1 || file || isBundle || selected[0]?.webkitRelativePath) {
+      if (selected.length > 0) addToBundle(selected);
+      return;
+    }
+
+    if (selected.length === 1) {
+      const selectedFile = selected[0];
 
-      // Validate file type
+      // Validate file type, bundles accept any type
       if (!acceptedFileTypes.includes(selectedFile.type)) {
-        setFileError(`File type not accepted. Please upload ${acceptedFileTypes.join(', ')}`);
+        setFileError(`File type not accepted. Please upload ${acceptedFileTypes.join(', ')}, or select several files to upload a bundle`);
         return;
       }
 
@@ -55,53 +126,144 @@ const FileUpload: React.FC<FileUploadProps> = ({
     }
   };
 
+  const handleBrowseFolderClick = () => {
+    folderInputRef.current?.click();
+  };
+
+  const handleRoleChange = (path: string, role: FileRole) => {
+    setBundleEntries(entries => entries.map(entry => (entry.path === path ? { ...entry, role } : entry)));
+  };
+
+  const handleRemoveEntry = (path: string) => {
+    setBundleEntries(entries => entries.filter(entry => entry.path !== path));
+  };
+
+  // Pin every file of the bundle as one directory with its manifest
+  const uploadBundleEntries = async (signal: AbortSignal) => {
+    const { cid, encryption } = await uploadBundle(bundleEntries, {
+      name: bundleName,
+      encryptFor: encryptFor && encrypt ? encryptFor : null,
+      signal,
+      onProgress: (loaded, total) => {
+        setUploadedBytes(loaded);
+        setUploadProgress(total > 0 ? (loaded / total) * 100 : 0);
+      },
+      onRetry: (attempt) => setRetryAttempt(attempt)
+    });
+
+    setUploadProgress(100);
+    setIpfsHash(cid);
+    setEncrypted(!!encryption);
+    onUploadComplete(cid, {
+      encryption,
+      isBundle: true,
+      file: { name: bundleName, size: bundleSize, fileCount: bundleEntries.length }
+    });
+    return encryption;
+  };
+
   const handleUpload = async () => {
-    if (!file) return;
+    if (!file && !isBundle) return;
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
 
     setUploading(true);
-    setUploadProgress(10); // Start progress
+    setUploadFailed(false);
+    setRetryAttempt(0);
+    setUploadProgress(0);
+    setUploadedBytes(0);
 
     try {
-      // Simulate progress updates
-      const progressInterval = setInterval(() => {
-        setUploadProgress(prev => {
-          const newProgress = prev + Math.random() * 10;
-          return newProgress < 90 ? newProgress : prev;
+      if (isBundle) {
+        const encryption = await uploadBundleEntries(abortController.signal);
+        toast({
+          title: "Upload successful",
+          description: `${bundleEntries.length} files have been ${encryption ? 'encrypted and ' : ''}uploaded to IPFS`,
         });
-      }, 500);
+        return;
+      }
+
+      // Encrypt in the browser first so only the ciphertext reaches IPFS
+      const shouldEncrypt = !!encryptFor && encrypt;
+      let prepared = preparedUploadRef.current;
+      if (!prepared || prepared.source !== file || !!prepared.encryption !== shouldEncrypt) {
+        if (shouldEncrypt) {
+          const { encryptedFile, encryption } = await encryptFileForUpload(file, encryptFor);
+          prepared = { source: file, file: encryptedFile, encryption };
+        } else {
+          prepared = { source: file, file };
+        }
+        preparedUploadRef.current = prepared;
+      }
+      const { encryption } = prepared;
 
-      // Upload file to Pinata
-      const hash = await uploadFileToPinata(file, {
-        projectName: file.name,
-        timestamp: new Date().toISOString()
+      // Pin the file with the configured storage provider, large files in resumable chunks
+      const hash = await uploadFile(prepared.file, {
+        metadata: {
+          projectName: prepared.file.name,
+          timestamp: new Date().toISOString()
+        },
+        signal: abortController.signal,
+        onProgress: (loaded, total) => {
+          setUploadedBytes(loaded);
+          setUploadProgress(total > 0 ? (loaded / total) * 100 : 0);
+        },
+        onRetry: (attempt) => setRetryAttempt(attempt)
       });
 
-      clearInterval(progressInterval);
       setUploadProgress(100);
       setIpfsHash(hash);
-      onUploadComplete(hash);
+      setEncrypted(!!encryption);
+      onUploadComplete(hash, {
+        encryption,
+        file: { name: file.name, size: file.size, mimeType: file.type || undefined }
+      });
 
       toast({
         title: "Upload successful",
-        description: "Your file has been uploaded to IPFS",
+        description: encryption
+          ? "Your file has been encrypted and uploaded to IPFS"
+          : "Your file has been uploaded to IPFS",
         variant: "default",
       });
     } catch (error) {
-      console.error('Error uploading file:', error);
-      toast({
-        title: "Upload failed",
-        description: error instanceof Error ? error.message : "Failed to upload file to IPFS",
-        variant: "destructive",
-      });
+      if (isAbortError(error)) {
+        toast({
+          title: "Upload cancelled",
+          description: file && isChunkedUpload(file)
+            ? "Uploading again resumes from the last finished chunk"
+            : "The file was not uploaded",
+        });
+      } else {
+        console.error('Error uploading file:', error);
+        toast({
+          title: "Upload failed",
+          description: error instanceof Error ? error.message : "Failed to upload file to IPFS",
+          variant: "destructive",
+        });
+      }
+      setUploadFailed(true);
     } finally {
+      abortControllerRef.current = null;
       setUploading(false);
     }
   };
 
+  const handleCancelUpload = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleRemoveFile = () => {
     setFile(null);
+    setBundleEntries([]);
     setIpfsHash(null);
+    setEncrypted(false);
     setUploadProgress(0);
+    setUploadedBytes(0);
+    setUploadFailed(false);
+    preparedUploadRef.current = null;
+    onRemove?.();
   };
 
   const formatFileSize = (bytes: number): string => {
@@ -112,30 +274,48 @@ const FileUpload: React.FC<FileUploadProps> = ({
 
   return (
     <div className="w-full space-y-4">
-      {!file ? (
+      <input
+        type="file"
+        ref={fileInputRef}
+        onChange={handleFileChange}
+        multiple
+        className="hidden"
+      />
+      <input
+        type="file"
+        ref={folderInputRef}
+        onChange={handleFileChange}
+        className="hidden"
+        {...{ webkitdirectory: '', directory: '' }}
+      />
+
+      {!file && !isBundle ? (
         <div className="border-2 border-dashed rounded-lg p-8 text-center transition-colors border-gray-300 hover:border-university-blue/50">
-          <input
-            type="file"
-            ref={fileInputRef}
-            onChange={handleFileChange}
-            accept={acceptedFileTypes.join(',')}
-            className="hidden"
-          />
           <div className="flex flex-col items-center justify-center space-y-2">
             <Upload className="h-10 w-10 text-gray-400" />
             <p className="text-lg font-medium">
               Upload your project file
             </p>
-            <Button
-              variant="ghost"
-              type="button"
-              onClick={handleBrowseClick}
-              className="text-university-blue hover:text-university-blue/80"
-            >
-              Browse files
-            </Button>
+            <div className="flex gap-2">
+              <Button
+                variant="ghost"
+                type="button"
+                onClick={handleBrowseClick}
+                className="text-university-blue hover:text-university-blue/80"
+              >
+                Browse files
+              </Button>
+              <Button
+                variant="ghost"
+                type="button"
+                onClick={handleBrowseFolderClick}
+                className="text-university-blue hover:text-university-blue/80"
+              >
+                Browse folder
+              </Button>
+            </div>
             <p className="text-xs text-gray-400 mt-2">
-              Accepted file types: PDF, ZIP (Max size: {maxSizeMB}MB)
+              A single PDF or ZIP, or several files and folders as a bundle (Max size: {maxSizeMB}MB)
             </p>
           </div>
         </div>
@@ -144,14 +324,22 @@ const FileUpload: React.FC<FileUploadProps> = ({
           <CardContent className="p-4">
             <div className="flex items-center justify-between">
               <div className="flex items-center space-x-3">
-                <FileIcon className="h-8 w-8 text-university-blue" />
+                {isBundle ? (
+                  <Folder className="h-8 w-8 text-university-blue" />
+                ) : (
+                  <FileIcon className="h-8 w-8 text-university-blue" />
+                )}
                 <div>
-                  <p className="font-medium truncate max-w-[200px] sm:max-w-xs">{file.name}</p>
-                  <p className="text-sm text-gray-500">{formatFileSize(file.size)}</p>
+                  <p className="font-medium truncate max-w-[200px] sm:max-w-xs">{isBundle ? bundleName : file.name}</p>
+                  <p className="text-sm text-gray-500">
+                    {isBundle
+                      ? `${bundleEntries.length} files, ${formatFileSize(bundleSize)}`
+                      : formatFileSize(file.size)}
+                  </p>
                 </div>
               </div>
 
-              {!ipfsHash && !uploading && (
+              {!uploading && (
                 <Button
                   variant="ghost"
                   size="icon"
@@ -163,13 +351,70 @@ const FileUpload: React.FC<FileUploadProps> = ({
               )}
             </div>
 
+            {isBundle && (
+              <div className="mt-4 space-y-2">
+                <ul className="divide-y border rounded-md max-h-64 overflow-y-auto">
+                  {bundleEntries.map(entry => (
+                    <li key={entry.path} className="flex items-center gap-2 px-3 py-2 text-sm">
+                      <span className="flex-1 truncate font-mono" title={entry.path}>{entry.path}</span>
+                      <span className="text-gray-500 whitespace-nowrap">{formatFileSize(entry.file.size)}</span>
+                      <Select
+                        value={entry.role}
+                        onValueChange={(role) => handleRoleChange(entry.path, role as FileRole)}
+                        disabled={uploading || !!ipfsHash}
+                      >
+                        <SelectTrigger className="w-36 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {FILE_ROLES.map(({ role, label }) => (
+                            <SelectItem key={role} value={role}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {!uploading && !ipfsHash && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleRemoveEntry(entry.path)}
+                          className="h-8 w-8 text-gray-500 hover:text-red-500"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {!ipfsHash && !uploading && (
+              <div className="flex gap-2 mt-3">
+                <Button type="button" variant="outline" size="sm" onClick={handleBrowseClick}>
+                  <Plus className="h-4 w-4 mr-1" /> Add files
+                </Button>
+                <Button type="button" variant="outline" size="sm" onClick={handleBrowseFolderClick}>
+                  <Folder className="h-4 w-4 mr-1" /> Add folder
+                </Button>
+              </div>
+            )}
+
             {uploading && (
               <div className="mt-4 space-y-2">
                 <div className="flex justify-between text-sm">
-                  <span>Uploading to IPFS...</span>
+                  <span>
+                    {retryAttempt > 0 ? `Connection problem, retrying (attempt ${retryAttempt})...` : 'Uploading to IPFS...'}
+                  </span>
                   <span>{Math.round(uploadProgress)}%</span>
                 </div>
                 <Progress value={uploadProgress} className="h-2" />
+                <div className="flex justify-between items-center text-xs text-gray-500">
+                  <span>{formatFileSize(uploadedBytes)} of {formatFileSize(isBundle ? bundleSize : preparedUploadRef.current?.file.size ?? file.size)}</span>
+                  <Button type="button" variant="ghost" size="sm" onClick={handleCancelUpload} className="text-gray-500 hover:text-red-500">
+                    Cancel
+                  </Button>
+                </div>
               </div>
             )}
 
@@ -177,7 +422,12 @@ const FileUpload: React.FC<FileUploadProps> = ({
               <div className="mt-4 space-y-2">
                 <div className="flex items-center text-green-600">
                   <Check className="h-4 w-4 mr-1" />
-                  <span className="text-sm">File uploaded successfully</span>
+                  <span className="text-sm">{isBundle ? 'Bundle' : 'File'} uploaded successfully</span>
+                  {encrypted && (
+                    <span className="flex items-center text-sm text-gray-600 ml-3">
+                      <Lock className="h-3 w-3 mr-1" /> Encrypted
+                    </span>
+                  )}
                 </div>
                 <div className="flex items-center justify-between bg-gray-50 p-2 rounded text-sm">
                   <span className="font-mono truncate max-w-[200px] sm:max-w-xs">{ipfsHash}</span>
@@ -193,12 +443,29 @@ const FileUpload: React.FC<FileUploadProps> = ({
               </div>
             )}
 
+            {!ipfsHash && !uploading && encryptFor && (
+              <div className="flex items-center justify-between mt-4">
+                <Label htmlFor="encrypt-file" className="flex items-center text-sm">
+                  <Lock className="h-4 w-4 mr-2 text-gray-500" />
+                  Encrypt before uploading (required for non-public projects)
+                </Label>
+                <Switch id="encrypt-file" checked={encrypt} onCheckedChange={setEncrypt} />
+              </div>
+            )}
+
             {!ipfsHash && !uploading && (
               <Button
                 onClick={handleUpload}
                 className="w-full mt-4 bg-university-blue hover:bg-university-blue/90"
               >
-                Upload to IPFS
+                {uploadFailed ? (
+                  <>
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Retry Upload
+                  </>
+                ) : (
+                  'Upload to IPFS'
+                )}
               </Button>
             )}
           </CardContent>
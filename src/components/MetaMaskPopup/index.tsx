@@ -2,6 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { X, ChevronRight, AlertCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import metamaskLogo from '@/assets/metamask-fox.svg';
+import { AccessLevel } from '@/lib/blockchain';
+import { ACCESS_LEVELS, toOnChainAccessLevel } from '@/lib/accessPolicy';
 
 interface MetaMaskPopupProps {
   isOpen: boolean;
@@ -12,7 +14,11 @@ interface MetaMaskPopupProps {
     title: string;
     department: string;
     accessLevel: string;
+    embargoUntil?: number; // Registered as private until then
     gasEstimate: string;
+    gasLimit?: string;
+    gasPrice?: string;
+    calldata?: string;
   };
 }
 
@@ -24,7 +30,12 @@ const MetaMaskPopup: React.FC<MetaMaskPopupProps> = ({
   data
 }) => {
   const [currentTab, setCurrentTab] = useState<'details' | 'data' | 'hex'>('details');
-  const [isLoading, setIsLoading] = useState(false);
+
+  // Level the contract will store, off-chain levels and embargoed projects are registered as private
+  const isEmbargoed = data.embargoUntil !== undefined && data.embargoUntil > Date.now();
+  const onChainAccessLevel = isEmbargoed ? AccessLevel.Private : toOnChainAccessLevel(
+    ACCESS_LEVELS.find(info => info.label === data.accessLevel)?.level ?? AccessLevel.Private
+  );
   
   // Close on escape key
   useEffect(() => {
@@ -43,15 +54,6 @@ const MetaMaskPopup: React.FC<MetaMaskPopupProps> = ({
   
   if (!isOpen) return null;
   
-  const handleConfirm = () => {
-    setIsLoading(true);
-    // Simulate a short delay before confirming
-    setTimeout(() => {
-      onConfirm();
-      setIsLoading(false);
-    }, 1000);
-  };
-  
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
       <div 
@@ -129,12 +131,21 @@ const MetaMaskPopup: React.FC<MetaMaskPopupProps> = ({
                 </div>
                 <div className="mb-3">
                   <p className="text-sm font-medium text-gray-700">Access Level</p>
-                  <p className="text-sm text-gray-900">{data.accessLevel}</p>
+                  <p className="text-sm text-gray-900">
+                    {data.accessLevel}
+                    {isEmbargoed && ` (private until ${new Date(data.embargoUntil).toLocaleDateString()})`}
+                  </p>
                 </div>
                 <div className="mb-3">
                   <p className="text-sm font-medium text-gray-700">Estimated Gas Fee</p>
                   <p className="text-sm text-gray-900">{data.gasEstimate}</p>
                 </div>
+                {data.gasLimit && data.gasPrice && (
+                  <div className="mb-3">
+                    <p className="text-sm font-medium text-gray-700">Gas Limit / Max Fee</p>
+                    <p className="text-sm text-gray-900">{data.gasLimit} @ {data.gasPrice}</p>
+                  </div>
+                )}
               </div>
             )}
             
@@ -166,7 +177,7 @@ const MetaMaskPopup: React.FC<MetaMaskPopupProps> = ({
   "message": {
     "title": "${data.title}",
     "department": ${data.department.split(' ')[0]},
-    "accessLevel": ${data.accessLevel === 'Public' ? 0 : data.accessLevel === 'Restricted' ? 1 : 2},
+    "accessLevel": ${onChainAccessLevel},
     "year": ${new Date().getFullYear()}
   }
 }`}
@@ -176,8 +187,8 @@ const MetaMaskPopup: React.FC<MetaMaskPopupProps> = ({
             
             {currentTab === 'hex' && (
               <div className="bg-[#F2F4F6] p-3 rounded-md">
-                <pre className="text-xs overflow-auto" style={{ maxHeight: '200px' }}>
-                  {`0x1901f1f3f34a1e4c772a3c5e5305a0a8cd0a64b1a834e9b95a5c8d59f5af49bc8a94092c5a042f7e4908c6e1781aaa8b196f0d29ae8b497c9c4a8633c3f96e91c${Math.random().toString(16).substring(2, 30)}${Math.random().toString(16).substring(2, 30)}${Math.random().toString(16).substring(2, 30)}`}
+                <pre className="text-xs overflow-auto whitespace-pre-wrap break-all" style={{ maxHeight: '200px' }}>
+                  {data.calldata || 'Calldata unavailable'}
                 </pre>
               </div>
             )}
@@ -198,25 +209,15 @@ const MetaMaskPopup: React.FC<MetaMaskPopupProps> = ({
             variant="outline"
             onClick={onReject}
             className="sm:w-auto w-full"
-            disabled={isLoading}
           >
             Reject
           </Button>
+          {/* The wallet itself prompts for the signature, so confirming hands over straight away */}
           <Button
-            onClick={handleConfirm}
+            onClick={onConfirm}
             className="bg-[#037DD6] hover:bg-[#0372c3] text-white sm:w-auto w-full flex items-center"
-            disabled={isLoading}
           >
-            {isLoading ? (
-              <span className="flex items-center">
-                <span className="animate-pulse">Processing</span>
-                <span className="ml-1 animate-bounce">...</span>
-              </span>
-            ) : (
-              <>
-                Sign <ChevronRight className="ml-1 h-4 w-4" />
-              </>
-            )}
+            Sign <ChevronRight className="ml-1 h-4 w-4" />
           </Button>
         </div>
       </div>
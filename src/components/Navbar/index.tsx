@@ -2,6 +2,7 @@
 import React, { useState } from 'react';
 import { Link } from 'react-router-dom';
 import { useWallet } from '@/context/WalletContext';
+import { usePermissions } from '@/hooks/use-permissions';
 import { Search, Menu, X, Shield } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import ConnectWalletButton from '@/components/ConnectWalletButton';
@@ -10,6 +11,7 @@ import logo from '../../../public/logo.png';
 const Navbar: React.FC = () => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const { isConnected } = useWallet();
+  const { canUpload, canAccessAdmin } = usePermissions();
 
   const toggleMenu = () => {
     setIsMenuOpen(!isMenuOpen);
@@ -38,15 +40,22 @@ const Navbar: React.FC = () => {
             {/* <Link to="/institutions" className="px-3 py-2 rounded-md text-white hover:text-university-gold transition-colors">
               Institutions
             </Link> */}
-            {isConnected && (
+            {canUpload && (
               <Link to="/upload" className="px-3 py-2 rounded-md text-white hover:text-university-gold transition-colors">
                 Upload Project
               </Link>
             )}
-            {/* <Link to="/admin/login" className="px-3 py-2 rounded-md text-white hover:text-university-gold transition-colors flex items-center">
-              <Shield className="h-4 w-4 mr-1" />
-              Admin
-            </Link> */}
+            {isConnected && (
+              <Link to="/requests" className="px-3 py-2 rounded-md text-white hover:text-university-gold transition-colors">
+                Requests
+              </Link>
+            )}
+            {canAccessAdmin && (
+              <Link to="/admin/login" className="px-3 py-2 rounded-md text-white hover:text-university-gold transition-colors flex items-center">
+                <Shield className="h-4 w-4 mr-1" />
+                Admin
+              </Link>
+            )}
             <div className="ml-4">
               <ConnectWalletButton />
             </div>
@@ -94,7 +103,7 @@ const Navbar: React.FC = () => {
             >
               Institutions
             </Link>
-            {isConnected && (
+            {canUpload && (
               <Link
                 to="/upload"
                 className="block px-3 py-2 rounded-md text-white hover:text-university-gold transition-colors"
@@ -103,14 +112,25 @@ const Navbar: React.FC = () => {
                 Upload Project
               </Link>
             )}
-            <Link
-              to="/admin/login"
-              className="block px-3 py-2 rounded-md text-white hover:text-university-gold transition-colors flex items-center"
-              onClick={() => setIsMenuOpen(false)}
-            >
-              <Shield className="h-4 w-4 mr-1" />
-              Admin Portal
-            </Link>
+            {isConnected && (
+              <Link
+                to="/requests"
+                className="block px-3 py-2 rounded-md text-white hover:text-university-gold transition-colors"
+                onClick={() => setIsMenuOpen(false)}
+              >
+                Access Requests
+              </Link>
+            )}
+            {canAccessAdmin && (
+              <Link
+                to="/admin/login"
+                className="block px-3 py-2 rounded-md text-white hover:text-university-gold transition-colors flex items-center"
+                onClick={() => setIsMenuOpen(false)}
+              >
+                <Shield className="h-4 w-4 mr-1" />
+                Admin Portal
+              </Link>
+            )}
             <div className="px-3 py-2">
               <ConnectWalletButton />
             </div>
@@ -0,0 +1,289 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { GlobalWorkerOptions, Util, getDocument } from 'pdfjs-dist';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { ChevronLeft, ChevronRight, Loader2, Search, ZoomIn, ZoomOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 3;
+const SCALE_STEP = 0.25;
+
+interface PdfViewerProps {
+  file: File;
+}
+
+// A search hit, matched per text run as pdf.js extracts them
+interface SearchMatch {
+  page: number;
+  itemIndex: number;
+}
+
+interface HighlightBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  current: boolean;
+}
+
+// Renders a PDF page by page with zoom and text search
+const PdfViewer: React.FC<PdfViewerProps> = ({ file }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const pageTextRef = useRef(new Map<number, TextItem[]>());
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [pageInput, setPageInput] = useState('1');
+  const [scale, setScale] = useState(1);
+  const [query, setQuery] = useState('');
+  const [matches, setMatches] = useState<SearchMatch[]>([]);
+  const [matchIndex, setMatchIndex] = useState(0);
+  const [isSearching, setIsSearching] = useState(false);
+  const [highlights, setHighlights] = useState<HighlightBox[]>([]);
+
+  // Load the document from memory, pdf.js never sees a URL
+  useEffect(() => {
+    let loaded: PDFDocumentProxy | null = null;
+    let cancelled = false;
+    setPdf(null);
+    setError(null);
+    setPageNumber(1);
+    setMatches([]);
+    pageTextRef.current.clear();
+
+    file.arrayBuffer()
+      .then(data => getDocument({ data: new Uint8Array(data) }).promise)
+      .then(document => {
+        loaded = document;
+        if (!cancelled) setPdf(document);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to open the PDF');
+      });
+
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [file]);
+
+  const getPageText = useCallback(async (page: number): Promise<TextItem[]> => {
+    if (!pageTextRef.current.has(page)) {
+      const content = await (await pdf.getPage(page)).getTextContent();
+      pageTextRef.current.set(page, content.items.filter((item): item is TextItem => 'str' in item));
+    }
+    return pageTextRef.current.get(page);
+  }, [pdf]);
+
+  // Render the current page and the search highlights on it
+  useEffect(() => {
+    if (!pdf || !canvasRef.current) return;
+
+    let renderTask: RenderTask | null = null;
+    let cancelled = false;
+
+    (async () => {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale });
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+
+      // Render at device resolution so text stays sharp on high-DPI screens
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = Math.floor(viewport.width * ratio);
+      canvas.height = Math.floor(viewport.height * ratio);
+      canvas.style.width = `${viewport.width}px`;
+      canvas.style.height = `${viewport.height}px`;
+
+      renderTask = page.render({
+        canvasContext: canvas.getContext('2d'),
+        viewport,
+        transform: ratio !== 1 ? [ratio, 0, 0, ratio, 0, 0] : undefined
+      });
+      await renderTask.promise.catch(() => undefined); // Cancelled when the page or zoom changes
+
+      const pageMatches = matches.filter(match => match.page === pageNumber);
+      const items = pageMatches.length > 0 ? await getPageText(pageNumber) : [];
+      if (cancelled) return;
+
+      setHighlights(pageMatches.map(match => {
+        const item = items[match.itemIndex];
+        const [, , c, d, left, baseline] = Util.transform(viewport.transform, item.transform);
+        const height = Math.hypot(c, d);
+        return {
+          left,
+          top: baseline - height,
+          width: item.width * scale,
+          height,
+          current: match === matches[matchIndex]
+        };
+      }));
+    })();
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, pageNumber, scale, matches, matchIndex, getPageText]);
+
+  const goToPage = (page: number) => {
+    if (!pdf) return;
+    const clamped = Math.min(Math.max(page, 1), pdf.numPages);
+    setPageNumber(clamped);
+    setPageInput(String(clamped));
+  };
+
+  const goToMatch = (index: number) => {
+    setMatchIndex(index);
+    goToPage(matches[index].page);
+  };
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const needle = query.trim().toLowerCase();
+    if (!pdf || !needle) {
+      setMatches([]);
+      return;
+    }
+
+    setIsSearching(true);
+    try {
+      const found: SearchMatch[] = [];
+      for (let page = 1; page <= pdf.numPages; page++) {
+        (await getPageText(page)).forEach((item, itemIndex) => {
+          if (item.str.toLowerCase().includes(needle)) found.push({ page, itemIndex });
+        });
+      }
+
+      setMatches(found);
+      setMatchIndex(0);
+      if (found.length > 0) goToPage(found[0].page);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  if (error) {
+    return <p className="p-4 text-sm text-red-500">{error}</p>;
+  }
+
+  if (!pdf) {
+    return (
+      <div className="flex items-center justify-center p-8 text-gray-500">
+        <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+        Loading PDF...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="icon" onClick={() => goToPage(pageNumber - 1)} disabled={pageNumber <= 1}>
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            goToPage(parseInt(pageInput) || pageNumber);
+          }}
+          className="flex items-center gap-1 text-sm"
+        >
+          <Input
+            value={pageInput}
+            onChange={(e) => setPageInput(e.target.value)}
+            onBlur={() => setPageInput(String(pageNumber))}
+            className="h-9 w-14 text-center"
+            aria-label="Page number"
+          />
+          <span className="text-gray-500">of {pdf.numPages}</span>
+        </form>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => goToPage(pageNumber + 1)}
+          disabled={pageNumber >= pdf.numPages}
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+
+        <div className="flex items-center gap-1 ml-2">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setScale(Math.max(MIN_SCALE, scale - SCALE_STEP))}
+            disabled={scale <= MIN_SCALE}
+          >
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <span className="w-12 text-center text-sm">{Math.round(scale * 100)}%</span>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setScale(Math.min(MAX_SCALE, scale + SCALE_STEP))}
+            disabled={scale >= MAX_SCALE}
+          >
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <form onSubmit={handleSearch} className="flex items-center gap-1 ml-auto">
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search in document"
+            className="h-9 w-48"
+          />
+          <Button type="submit" variant="outline" size="icon" disabled={isSearching}>
+            {isSearching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+          </Button>
+          {matches.length > 0 && (
+            <>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => goToMatch((matchIndex - 1 + matches.length) % matches.length)}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-sm text-gray-600 whitespace-nowrap">{matchIndex + 1} / {matches.length}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => goToMatch((matchIndex + 1) % matches.length)}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+        </form>
+      </div>
+
+      {!isSearching && query.trim() && matches.length === 0 && pageTextRef.current.size > 0 && (
+        <p className="text-sm text-gray-500">No matches found.</p>
+      )}
+
+      <div className="max-h-[70vh] overflow-auto rounded-md border bg-gray-100 p-4">
+        <div className="relative mx-auto w-fit shadow">
+          <canvas ref={canvasRef} className="block bg-white" />
+          {highlights.map((box, index) => (
+            <div
+              key={index}
+              className={`absolute pointer-events-none ${box.current ? 'bg-orange-400/50' : 'bg-yellow-300/40'}`}
+              style={{ left: box.left, top: box.top, width: box.width, height: box.height }}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PdfViewer;
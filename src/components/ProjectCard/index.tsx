@@ -2,22 +2,50 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
-import { useWallet } from '@/context/WalletContext';
+import { usePermissions } from '@/hooks/use-permissions';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Lock, Globe, Users, Sparkles, ExternalLink } from 'lucide-react';
+import AccessLevelBadge from '@/components/AccessLevelBadge';
+import EmbargoBadge from '@/components/EmbargoBadge';
+import { Lock, Sparkles } from 'lucide-react';
 import { AccessLevel, ProjectData } from '@/lib/blockchain';
+import { evaluateAccess, getEffectiveAccessLevel } from '@/lib/accessPolicy';
+import { getExplorerUrl } from '@/lib/chains';
+import { HighlightSegment, SearchHighlights } from '@/services/apiClient';
 
 interface ProjectCardProps {
   project: ProjectData;
+  highlights?: SearchHighlights; // Matches from a full-text search
 }
 
-const ProjectCard: React.FC<ProjectCardProps> = ({ project }) => {
-  const { id, title, authors, uploadDate, description, accessLevel, departmentId, year } = project;
-  const { address } = useWallet();
+const SNIPPET_LABELS: Record<SearchHighlights['snippetField'], string | null> = {
+  description: null,
+  aiSummary: 'AI summary',
+  keywords: 'Keywords',
+  authors: 'Authors'
+};
+
+// Text with the parts that matched the search marked
+const HighlightedText: React.FC<{ segments: HighlightSegment[] }> = ({ segments }) => (
+  <>
+    {segments.map((segment, index) => segment.match ? (
+      <mark key={index} className="bg-university-gold/30 text-inherit rounded px-0.5">{segment.text}</mark>
+    ) : (
+      <React.Fragment key={index}>{segment.text}</React.Fragment>
+    ))}
+  </>
+);
+
+const ProjectCard: React.FC<ProjectCardProps> = ({ project, highlights }) => {
+  const { id, title, authors, uploadDate, description, departmentId, year } = project;
+  const viewer = usePermissions();
+
+  // Embargoed projects count as private until their release date
+  const accessLevel = getEffectiveAccessLevel(project);
 
-  // Check if this is the user's own project
-  const isOwnProject = address && authors.some(author => author.toLowerCase() === address.toLowerCase());
+  // Check whether the viewer may open the project and if it is their own
+  const access = evaluateAccess(project, viewer);
+  const isOwnProject = access.reason === 'author';
 
   // Format date
   const formattedDate = new Date(uploadDate).toLocaleDateString('en-US', {
@@ -26,40 +54,13 @@ const ProjectCard: React.FC<ProjectCardProps> = ({ project }) => {
     day: 'numeric'
   });
 
-  // Truncate description if it's too long
-  const truncatedDescription = description.length > 150
+  // Truncate description if it's too long, hide it when the viewer has no access
+  const truncatedDescription = !access.allowed
+    ? 'You do not have access to this project.'
+    : description.length > 150
     ? `${description.substring(0, 150)}...`
     : description;
 
-  // Render the appropriate access level icon and color
-  const renderAccessLevel = () => {
-    switch(accessLevel) {
-      case AccessLevel.Public:
-        return (
-          <Badge variant="outline" className="flex items-center gap-1 bg-green-100 text-green-700 border-green-300">
-            <Globe className="h-3 w-3" />
-            Public
-          </Badge>
-        );
-      case AccessLevel.Restricted:
-        return (
-          <Badge variant="outline" className="flex items-center gap-1 bg-amber-100 text-amber-700 border-amber-300">
-            <Users className="h-3 w-3" />
-            Restricted
-          </Badge>
-        );
-      case AccessLevel.Private:
-        return (
-          <Badge variant="outline" className="flex items-center gap-1 bg-red-100 text-red-700 border-red-300">
-            <Lock className="h-3 w-3" />
-            Private
-          </Badge>
-        );
-      default:
-        return null;
-    }
-  };
-
   // Truncate author address
   const shortenAddress = (address: string) => {
     return `${address.slice(0, 6)}...${address.slice(-4)}`;
@@ -69,27 +70,32 @@ const ProjectCard: React.FC<ProjectCardProps> = ({ project }) => {
     <Card
       className={`h-full flex flex-col hover:shadow-lg transition-shadow duration-300 overflow-hidden
         ${accessLevel === AccessLevel.Private && isOwnProject ? 'border-red-300 bg-red-50/30' :
-          accessLevel === AccessLevel.Restricted && isOwnProject ? 'border-amber-300 bg-amber-50/30' :
+          accessLevel !== AccessLevel.Public && isOwnProject ? 'border-amber-300 bg-amber-50/30' :
           'border-university-blue/20'}`}
     >
       <CardHeader className="pb-4">
         <div className="flex justify-between items-start">
           <CardTitle className="text-xl text-university-navy hover:text-university-blue transition-colors">
-            <Link to={`/project/${id}`}>{title}</Link>
-            {isOwnProject && (accessLevel === AccessLevel.Private || accessLevel === AccessLevel.Restricted) && (
+            <Link to={`/project/${id}`}>
+              {highlights ? <HighlightedText segments={highlights.title} /> : title}
+            </Link>
+            {isOwnProject && accessLevel !== AccessLevel.Public && (
               <span className="ml-2 text-xs bg-university-gold text-white px-2 py-0.5 rounded-full">
                 Your Project
               </span>
             )}
           </CardTitle>
-          {renderAccessLevel()}
+          <div className="flex flex-col items-end gap-1">
+            <AccessLevelBadge accessLevel={accessLevel} />
+            <EmbargoBadge project={project} />
+          </div>
         </div>
         <CardDescription className="flex flex-wrap gap-1 items-center text-sm text-gray-600 mt-2">
           <span className="font-semibold">Authors:</span>
           {authors.slice(0, 2).map((author, index) => (
             <a
               key={index}
-              href={`https://etherscan.io/address/${author}`}
+              href={getExplorerUrl('address', author)}
               target="_blank"
               rel="noopener noreferrer"
               className="hover:text-university-blue transition-colors"
@@ -102,7 +108,17 @@ const ProjectCard: React.FC<ProjectCardProps> = ({ project }) => {
       </CardHeader>
 
       <CardContent className="pb-2 flex-grow">
-        <p className="text-gray-700">{truncatedDescription}</p>
+        <p className={access.allowed ? 'text-gray-700' : 'text-gray-500 italic flex items-center'}>
+          {!access.allowed && <Lock className="h-4 w-4 mr-1" />}
+          {access.allowed && highlights ? (
+            <>
+              {SNIPPET_LABELS[highlights.snippetField] && (
+                <span className="font-semibold">{SNIPPET_LABELS[highlights.snippetField]}: </span>
+              )}
+              <HighlightedText segments={highlights.snippet} />
+            </>
+          ) : truncatedDescription}
+        </p>
       </CardContent>
 
       <CardFooter className="pt-2 flex flex-col gap-3 border-t">
@@ -0,0 +1,221 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Download, Eye, File as FileIcon, Folder, Loader2, Lock, ShieldCheck } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import DocumentPreviewDialog from '@/components/DocumentPreviewDialog';
+import { toast } from '@/components/ui/use-toast';
+import { useWallet } from '@/context/WalletContext';
+import { ProjectData } from '@/lib/blockchain';
+import { getGatewayLabel } from '@/lib/gateway';
+import { getPreviewKind } from '@/lib/preview';
+import { BundleFile, BundleManifest, FileTreeNode, buildFileTree, getFileRoleLabel } from '@/lib/bundle';
+import { downloadBundleFile, loadBundleManifest } from '@/services/bundleService';
+import { hasProjectKey } from '@/services/encryptionService';
+
+interface ProjectFileTreeProps {
+  project: ProjectData;
+}
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return bytes + ' bytes';
+  else if (bytes < 1048576) return (bytes / 1024).toFixed(1) + ' KB';
+  else return (bytes / 1048576).toFixed(1) + ' MB';
+};
+
+interface TreeNodeProps {
+  node: FileTreeNode;
+  depth: number;
+  downloading: string | null;
+  onDownload: (file: BundleFile) => void;
+  onPreview: (file: BundleFile) => void;
+}
+
+const TreeNode: React.FC<TreeNodeProps> = ({ node, depth, downloading, onDownload, onPreview }) => {
+  const [open, setOpen] = useState(depth < 1);
+  const indent = { paddingLeft: `${depth * 1.25 + 0.75}rem` };
+
+  if (node.file) {
+    return (
+      <li className="flex items-center gap-2 py-1.5 pr-3 text-sm hover:bg-gray-50" style={indent}>
+        <FileIcon className="h-4 w-4 text-gray-400 shrink-0" />
+        <span className="flex-1 truncate" title={node.path}>{node.name}</span>
+        <Badge variant="outline" className="font-normal">{getFileRoleLabel(node.file.role)}</Badge>
+        <span className="w-20 text-right text-gray-500 whitespace-nowrap">{formatFileSize(node.file.size)}</span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => onPreview(node.file)}
+          disabled={getPreviewKind(node.file.path, node.file.mimeType) === 'unsupported'}
+          title={`Preview ${node.name}`}
+        >
+          <Eye className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => onDownload(node.file)}
+          disabled={downloading !== null}
+          title={`Download ${node.name}`}
+        >
+          {downloading === node.path ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+        </Button>
+      </li>
+    );
+  }
+
+  return (
+    <li>
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex w-full items-center gap-2 py-1.5 pr-3 text-sm font-medium hover:bg-gray-50"
+        style={indent}
+      >
+        {open ? <ChevronDown className="h-4 w-4 text-gray-400" /> : <ChevronRight className="h-4 w-4 text-gray-400" />}
+        <Folder className="h-4 w-4 text-university-blue" />
+        <span className="truncate">{node.name}</span>
+      </button>
+      {open && (
+        <ul>
+          {node.children.map(child => (
+            <TreeNode
+              key={child.path}
+              node={child}
+              depth={depth + 1}
+              downloading={downloading}
+              onDownload={onDownload}
+              onPreview={onPreview}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+// Browses the files of a multi-file project bundle and downloads them one by one
+const ProjectFileTree: React.FC<ProjectFileTreeProps> = ({ project }) => {
+  const { address } = useWallet();
+  const [manifest, setManifest] = useState<BundleManifest | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState<string | null>(null);
+  const [servedBy, setServedBy] = useState<string | null>(null);
+  const [previewFile, setPreviewFile] = useState<BundleFile | null>(null);
+
+  const isEncrypted = !!project.encryption;
+  const canUnlock = hasProjectKey(project, address);
+
+  const loadManifest = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setManifest(await loadBundleManifest(project, address));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the project files');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [project, address]);
+
+  // Plain bundles load right away, encrypted ones wait for the reader to sign
+  useEffect(() => {
+    setManifest(null);
+    if (!isEncrypted) {
+      loadManifest();
+    }
+  }, [isEncrypted, loadManifest]);
+
+  const loadPreview = useCallback(
+    () => downloadBundleFile(project, previewFile, address),
+    [project, previewFile, address]
+  );
+
+  const tree = useMemo(() => (manifest ? buildFileTree(manifest.files) : null), [manifest]);
+
+  const handleDownload = async (file: BundleFile) => {
+    setDownloading(file.path);
+    try {
+      const { file: downloaded, gateway } = await downloadBundleFile(project, file, address);
+      setServedBy(gateway);
+
+      const url = URL.createObjectURL(downloaded);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = downloaded.name;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      toast({
+        title: 'Failed to download file',
+        description: err instanceof Error ? err.message : 'An unknown error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center text-sm text-gray-600">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Loading project files...
+      </div>
+    );
+  }
+
+  if (!tree) {
+    if (isEncrypted && !canUnlock) return null;
+
+    return (
+      <div className="flex flex-col items-start gap-2">
+        {error && <p className="text-sm text-red-500">{error}</p>}
+        <Button variant="outline" size="sm" onClick={loadManifest}>
+          {isEncrypted && <Lock className="h-4 w-4 mr-2" />}
+          {isEncrypted ? 'Unlock Files' : 'Try Again'}
+        </Button>
+      </div>
+    );
+  }
+
+  const totalSize = manifest.files.reduce((total, file) => total + file.size, 0);
+
+  return (
+    <div className="border rounded-md">
+      <div className="flex items-center justify-between px-3 py-2 border-b bg-gray-50 text-sm">
+        <span className="font-medium">{manifest.name}</span>
+        <span className="text-gray-500">{manifest.files.length} files, {formatFileSize(totalSize)}</span>
+      </div>
+      {servedBy && (
+        <p className="flex items-center px-3 py-1.5 border-b text-xs text-green-700">
+          <ShieldCheck className="h-3.5 w-3.5 mr-1" />
+          Last download verified against its CID, served by {getGatewayLabel(servedBy)}
+        </p>
+      )}
+      <ul className="py-1">
+        {tree.children.map(child => (
+          <TreeNode
+            key={child.path}
+            node={child}
+            depth={0}
+            downloading={downloading}
+            onDownload={handleDownload}
+            onPreview={setPreviewFile}
+          />
+        ))}
+      </ul>
+
+      <DocumentPreviewDialog
+        title={previewFile?.path ?? ''}
+        open={!!previewFile}
+        onOpenChange={(open) => !open && setPreviewFile(null)}
+        loadFile={loadPreview}
+      />
+    </div>
+  );
+};
+
+export default ProjectFileTree;
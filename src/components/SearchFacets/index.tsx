@@ -0,0 +1,65 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { AccessLevel } from '@/lib/blockchain';
+import { getAccessLevelLabel } from '@/lib/accessPolicy';
+import { mockInstitutions, mockDepartmentsByInstitution } from '@/components/InstitutionData';
+import { SearchParams } from '@/components/SearchForm';
+import { SearchFacets as Facets } from '@/services/apiClient';
+
+export type FacetName = keyof Facets;
+
+interface SearchFacetsProps {
+  facets: Facets;
+  params: SearchParams;
+  onToggle: (facet: FacetName, value: number) => void;
+}
+
+const departments = Object.values(mockDepartmentsByInstitution).flat();
+
+const FACET_SECTIONS: { facet: FacetName; label: string; getName: (value: number) => string }[] = [
+  {
+    facet: 'institutionId',
+    label: 'Institution',
+    getName: value => mockInstitutions.find(institution => institution.id === value)?.name ?? `Institution ${value}`
+  },
+  {
+    facet: 'departmentId',
+    label: 'Department',
+    getName: value => departments.find(department => department.id === value)?.name ?? `Department ${value}`
+  },
+  { facet: 'year', label: 'Year', getName: value => value.toString() },
+  { facet: 'accessLevel', label: 'Access', getName: value => getAccessLevelLabel(value as AccessLevel) }
+];
+
+// Result counts per institution, department, year and access level, click a value to filter by it
+const SearchFacets: React.FC<SearchFacetsProps> = ({ facets, params, onToggle }) => {
+  const sections = FACET_SECTIONS.filter(({ facet }) => facets[facet].length > 0);
+  if (sections.length === 0) return null;
+
+  return (
+    <div className="mb-6 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 bg-white p-4 rounded-lg border border-university-blue/10">
+      {sections.map(({ facet, label, getName }) => (
+        <div key={facet}>
+          <div className="text-sm font-medium text-gray-700 mb-2">{label}</div>
+          <div className="flex flex-wrap gap-1">
+            {facets[facet].map(({ value, count }) => {
+              const isActive = params[facet] === value;
+              return (
+                <button key={value} type="button" onClick={() => onToggle(facet, value)}>
+                  <Badge
+                    variant={isActive ? 'default' : 'outline'}
+                    className={isActive ? 'bg-university-blue text-white' : 'text-gray-700 hover:bg-gray-50'}
+                  >
+                    {getName(value)} <span className="ml-1 opacity-70">{count}</span>
+                  </Badge>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SearchFacets;
@@ -1,91 +1,131 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Search, X } from 'lucide-react';
-import { useNavigate, useLocation } from 'react-router-dom';
+import { useNavigate } from 'react-router-dom';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { AccessLevel } from '@/lib/blockchain';
+import { ACCESS_LEVELS, getAccessLevelLabel } from '@/lib/accessPolicy';
+import {
+  FilterType,
+  SearchParams,
+  SearchQueryError,
+  formatFilter,
+  parseSearchQuery,
+  setQueryFilter,
+  toSearchParams
+} from '@/lib/searchQuery';
 import { mockInstitutions, mockDepartmentsByInstitution } from '@/components/InstitutionData';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 
+export type { SearchParams } from '@/lib/searchQuery';
+
 interface SearchFormProps {
   onSearch: (searchParams: SearchParams) => void;
-  initialValues?: SearchParams;
+  initialQuery?: string; // Query text as it appears in the URL q parameter
 }
 
-export interface SearchParams {
-  query: string;
-  institutionId?: number;
-  departmentId?: number;
-  year?: number;
-  accessLevel?: AccessLevel;
-}
+const FILTER_TYPES: FilterType[] = ['author', 'department', 'institution', 'year', 'access'];
+
+// Split the query text so the parts with errors can be underlined
+const getErrorSegments = (text: string, errors: SearchQueryError[]) => {
+  const segments: { text: string; error: boolean }[] = [];
+  let position = 0;
+
+  [...errors]
+    .sort((a, b) => a.span.start - b.span.start)
+    .forEach(({ span }) => {
+      if (span.start < position) return;
+      segments.push({ text: text.slice(position, span.start), error: false });
+      segments.push({ text: text.slice(span.start, span.end), error: true });
+      position = span.end;
+    });
+  segments.push({ text: text.slice(position), error: false });
+
+  return segments.filter(segment => segment.text);
+};
 
-const SearchForm: React.FC<SearchFormProps> = ({ onSearch, initialValues = { query: '' } }) => {
-  const [searchParams, setSearchParams] = useState<SearchParams>(initialValues);
+const SearchForm: React.FC<SearchFormProps> = ({ onSearch, initialQuery = '' }) => {
+  const [queryText, setQueryText] = useState(initialQuery);
   const [isAdvancedOpen, setIsAdvancedOpen] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
   const navigate = useNavigate();
 
+  // Follow the URL when the page changes the query, e.g. from a facet
+  useEffect(() => {
+    setQueryText(initialQuery);
+  }, [initialQuery]);
+
+  const parsed = useMemo(() => parseSearchQuery(queryText), [queryText]);
+  const searchParams = useMemo(() => toSearchParams(parsed.ast), [parsed]);
+
   // Generate year options (last 10 years)
   const currentYear = new Date().getFullYear();
   const years = Array.from({ length: 10 }, (_, i) => currentYear - i);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setSearchParams({ ...searchParams, query: e.target.value });
+    setQueryText(e.target.value);
+  };
+
+  // Keep the error underlines lined up with the text when the input scrolls
+  const syncOverlayScroll = () => {
+    if (overlayRef.current && inputRef.current) {
+      overlayRef.current.scrollLeft = inputRef.current.scrollLeft;
+    }
+  };
+
+  // The advanced options edit the filters in the query text
+  const setFilter = (text: string, type: FilterType, params: Omit<SearchParams, 'query'>) => {
+    return setQueryFilter(text, type, formatFilter(type, { query: '', ...params }));
   };
 
   const handleInstitutionChange = (value: string) => {
-    const institutionId = parseInt(value);
     // When institution changes, reset department
-    setSearchParams({
-      ...searchParams,
-      institutionId,
-      departmentId: undefined
-    });
+    const withoutDepartment = setQueryFilter(queryText, 'department', undefined);
+    setQueryText(setFilter(withoutDepartment, 'institution', { institutionId: parseInt(value) }));
   };
 
   const handleDepartmentChange = (value: string) => {
-    setSearchParams({ ...searchParams, departmentId: parseInt(value) });
+    setQueryText(setFilter(queryText, 'department', { departmentId: parseInt(value) }));
   };
 
   // Get available departments based on selected institution
   const getAvailableDepartments = () => {
-    if (!searchParams.institutionId) return [];
+    if (searchParams.institutionId === undefined) return [];
     return mockDepartmentsByInstitution[searchParams.institutionId] || [];
   };
 
   const handleYearChange = (value: string) => {
-    setSearchParams({ ...searchParams, year: parseInt(value) });
+    setQueryText(setFilter(queryText, 'year', { year: parseInt(value) }));
   };
 
   const handleAccessLevelChange = (value: string) => {
-    setSearchParams({ ...searchParams, accessLevel: parseInt(value) as AccessLevel });
+    setQueryText(setFilter(queryText, 'access', { accessLevel: parseInt(value) as AccessLevel }));
   };
 
-  const handleClearFilter = (filter: keyof SearchParams) => {
-    const newParams = { ...searchParams };
-    delete newParams[filter];
-    setSearchParams(newParams);
+  const handleClearFilter = (filter: FilterType) => {
+    // A department also picks its institution, so clearing the institution clears both
+    const text = filter === 'institution' ? setQueryFilter(queryText, 'department', undefined) : queryText;
+    setQueryText(setQueryFilter(text, filter, undefined));
   };
 
   const handleClearAll = () => {
-    setSearchParams({ query: searchParams.query });
+    setQueryText(FILTER_TYPES.reduce((text, type) => setQueryFilter(text, type, undefined), queryText));
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (parsed.errors.length > 0) return;
+
     onSearch(searchParams);
 
-    // Update URL with search parameters
+    // The query goes into the URL as typed, filters included
     const queryParams = new URLSearchParams();
 
-    if (searchParams.query) queryParams.set('q', searchParams.query);
-    if (searchParams.institutionId) queryParams.set('inst', searchParams.institutionId.toString());
-    if (searchParams.departmentId) queryParams.set('dept', searchParams.departmentId.toString());
-    if (searchParams.year) queryParams.set('year', searchParams.year.toString());
-    if (searchParams.accessLevel !== undefined) queryParams.set('access', searchParams.accessLevel.toString());
+    if (queryText.trim()) queryParams.set('q', queryText.trim());
 
     navigate({
       pathname: '/search',
@@ -97,10 +137,9 @@ const SearchForm: React.FC<SearchFormProps> = ({ onSearch, initialValues = { que
     setIsAdvancedOpen(!isAdvancedOpen);
   };
 
-  // Count active filters (excluding query)
-  const activeFilterCount = Object.keys(searchParams).filter(
-    key => key !== 'query' && searchParams[key as keyof SearchParams] !== undefined
-  ).length;
+  // Count the filters written in the query
+  const activeFilterCount = parsed.ast.nodes.filter(node => FILTER_TYPES.includes(node.type as FilterType)).length;
+  const hasYearRange = searchParams.yearFrom !== undefined || searchParams.yearTo !== undefined;
 
   return (
     <div className="bg-white p-6 rounded-lg shadow-md border border-university-blue/10">
@@ -108,17 +147,41 @@ const SearchForm: React.FC<SearchFormProps> = ({ onSearch, initialValues = { que
         <div className="flex flex-col sm:flex-row gap-2">
           <div className="relative flex-grow">
             <Input
+              ref={inputRef}
               type="text"
-              placeholder="Search for projects..."
-              value={searchParams.query}
+              placeholder='Search for projects, e.g. blockchain year:2021..2024 dept:"Computer Science"'
+              value={queryText}
               onChange={handleInputChange}
-              className="pl-10 pr-4 py-2 w-full border-university-blue/20 focus:border-university-blue focus:ring-university-blue"
+              onScroll={syncOverlayScroll}
+              onSelect={syncOverlayScroll}
+              aria-invalid={parsed.errors.length > 0}
+              aria-describedby={parsed.errors.length > 0 ? 'search-query-errors' : undefined}
+              className="pl-10 pr-10 py-2 w-full border-university-blue/20 focus:border-university-blue focus:ring-university-blue"
             />
+            {/* Transparent copy of the text on top of the input that underlines the invalid parts */}
+            {parsed.errors.length > 0 && (
+              <div
+                ref={overlayRef}
+                aria-hidden="true"
+                className="absolute inset-0 flex items-center overflow-hidden pl-10 pr-10 border border-transparent text-base md:text-sm text-transparent pointer-events-none"
+              >
+                <div className="whitespace-pre">
+                  {getErrorSegments(queryText, parsed.errors).map((segment, index) => (
+                    <span
+                      key={index}
+                      className={segment.error ? 'underline decoration-wavy decoration-red-500 underline-offset-4' : undefined}
+                    >
+                      {segment.text}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
-            {searchParams.query && (
+            {queryText && (
               <button
                 type="button"
-                onClick={() => setSearchParams({ ...searchParams, query: '' })}
+                onClick={() => setQueryText('')}
                 className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
               >
                 <X className="h-4 w-4" />
@@ -128,12 +191,23 @@ const SearchForm: React.FC<SearchFormProps> = ({ onSearch, initialValues = { que
 
           <Button
             type="submit"
+            disabled={parsed.errors.length > 0}
             className="bg-university-blue hover:bg-university-blue/90 text-white"
           >
             Search
           </Button>
         </div>
 
+        {parsed.errors.length > 0 && (
+          <ul id="search-query-errors" className="text-sm text-red-600 space-y-1">
+            {parsed.errors.map(({ message, span }) => (
+              <li key={`${span.start}-${message}`}>
+                <span className="font-mono">{queryText.slice(span.start, span.end)}</span>: {message}
+              </li>
+            ))}
+          </ul>
+        )}
+
         <div>
           <button
             type="button"
@@ -153,7 +227,7 @@ const SearchForm: React.FC<SearchFormProps> = ({ onSearch, initialValues = { que
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Institution</label>
                 <Select
-                  value={searchParams.institutionId?.toString()}
+                  value={searchParams.institutionId?.toString() ?? ''}
                   onValueChange={handleInstitutionChange}
                 >
                   <SelectTrigger className="w-full">
@@ -172,12 +246,12 @@ const SearchForm: React.FC<SearchFormProps> = ({ onSearch, initialValues = { que
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Department</label>
                 <Select
-                  value={searchParams.departmentId?.toString()}
+                  value={searchParams.departmentId?.toString() ?? ''}
                   onValueChange={handleDepartmentChange}
-                  disabled={!searchParams.institutionId}
+                  disabled={searchParams.institutionId === undefined}
                 >
                   <SelectTrigger className="w-full">
-                    <SelectValue placeholder={searchParams.institutionId ? "Select department" : "Select institution first"} />
+                    <SelectValue placeholder={searchParams.institutionId !== undefined ? "Select department" : "Select institution first"} />
                   </SelectTrigger>
                   <SelectContent>
                     {getAvailableDepartments().map(dept => (
@@ -192,7 +266,7 @@ const SearchForm: React.FC<SearchFormProps> = ({ onSearch, initialValues = { que
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Year</label>
                 <Select
-                  value={searchParams.year?.toString()}
+                  value={searchParams.year?.toString() ?? ''}
                   onValueChange={handleYearChange}
                 >
                   <SelectTrigger className="w-full">
@@ -211,16 +285,16 @@ const SearchForm: React.FC<SearchFormProps> = ({ onSearch, initialValues = { que
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Access Level</label>
                 <Select
-                  value={searchParams.accessLevel?.toString()}
+                  value={searchParams.accessLevel?.toString() ?? ''}
                   onValueChange={handleAccessLevelChange}
                 >
                   <SelectTrigger className="w-full">
                     <SelectValue placeholder="Select access level" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="0">Public</SelectItem>
-                    <SelectItem value="1">Restricted</SelectItem>
-                    <SelectItem value="2">Private</SelectItem>
+                    {ACCESS_LEVELS.map(({ level, label }) => (
+                      <SelectItem key={level} value={level.toString()}>{label}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -237,7 +311,7 @@ const SearchForm: React.FC<SearchFormProps> = ({ onSearch, initialValues = { que
                 {searchParams.institutionId !== undefined && (
                   <Badge variant="secondary" className="flex items-center gap-1">
                     Institution: {mockInstitutions.find(i => i.id === searchParams.institutionId)?.name}
-                    <button onClick={() => handleClearFilter('institutionId')}>
+                    <button type="button" onClick={() => handleClearFilter('institution')}>
                       <X className="h-3 w-3 ml-1" />
                     </button>
                   </Badge>
@@ -246,16 +320,25 @@ const SearchForm: React.FC<SearchFormProps> = ({ onSearch, initialValues = { que
                 {searchParams.departmentId !== undefined && (
                   <Badge variant="secondary" className="flex items-center gap-1">
                     Department: {getAvailableDepartments().find(d => d.id === searchParams.departmentId)?.name}
-                    <button onClick={() => handleClearFilter('departmentId')}>
+                    <button type="button" onClick={() => handleClearFilter('department')}>
+                      <X className="h-3 w-3 ml-1" />
+                    </button>
+                  </Badge>
+                )}
+
+                {(searchParams.year !== undefined || hasYearRange) && (
+                  <Badge variant="secondary" className="flex items-center gap-1">
+                    Year: {searchParams.year ?? `${searchParams.yearFrom ?? '…'}–${searchParams.yearTo ?? '…'}`}
+                    <button type="button" onClick={() => handleClearFilter('year')}>
                       <X className="h-3 w-3 ml-1" />
                     </button>
                   </Badge>
                 )}
 
-                {searchParams.year !== undefined && (
+                {searchParams.author !== undefined && (
                   <Badge variant="secondary" className="flex items-center gap-1">
-                    Year: {searchParams.year}
-                    <button onClick={() => handleClearFilter('year')}>
+                    Author: <span className="font-mono">{searchParams.author}</span>
+                    <button type="button" onClick={() => handleClearFilter('author')}>
                       <X className="h-3 w-3 ml-1" />
                     </button>
                   </Badge>
@@ -263,8 +346,8 @@ const SearchForm: React.FC<SearchFormProps> = ({ onSearch, initialValues = { que
 
                 {searchParams.accessLevel !== undefined && (
                   <Badge variant="secondary" className="flex items-center gap-1">
-                    Access: {AccessLevel[searchParams.accessLevel]}
-                    <button onClick={() => handleClearFilter('accessLevel')}>
+                    Access: {getAccessLevelLabel(searchParams.accessLevel)}
+                    <button type="button" onClick={() => handleClearFilter('access')}>
                       <X className="h-3 w-3 ml-1" />
                     </button>
                   </Badge>
@@ -272,6 +355,7 @@ const SearchForm: React.FC<SearchFormProps> = ({ onSearch, initialValues = { que
 
                 {activeFilterCount > 1 && (
                   <Button
+                    type="button"
                     variant="ghost"
                     size="sm"
                     onClick={handleClearAll}
@@ -1,21 +1,35 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { Loader2, CheckCircle2, ExternalLink } from 'lucide-react';
 import { useWallet } from '@/context/WalletContext';
-import { useAdminAuth } from '@/context/AdminAuthContext';
+import { usePermissions } from '@/hooks/use-permissions';
 import { getStudentByWallet } from '@/services/studentService';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
-import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import MetaMaskPopup from '@/components/MetaMaskPopup';
-import { AccessLevel, Institution, Department } from '@/lib/blockchain';
+import AccessLevelSelector from '@/components/AccessLevelSelector';
+import { AccessLevel, Institution, Department, ProjectData } from '@/lib/blockchain';
+import { getExplorerUrl } from '@/lib/chains';
+import { getAccessLevelLabel, parseAllowlist, parseEmbargoDate } from '@/lib/accessPolicy';
+import { FileEncryption } from '@/lib/encryption';
+import { DEFAULT_LICENSE, LICENSES, MetadataFile, parseKeywords } from '@/lib/projectMetadata';
 import { mockInstitutions, mockDepartmentsByInstitution } from '@/components/InstitutionData';
-import { createProject, addProject } from '@/services/projectService';
+import { addProject, createProject } from '@/services/projectService';
+import { PROJECT_SOURCE } from '@/services/projectRepository';
+import { shareProjectKey } from '@/services/encryptionService';
+import { pinProjectMetadata } from '@/services/metadataService';
+import {
+  REQUIRED_CONFIRMATIONS,
+  estimateRegisterProject,
+  getTransactionErrorMessage,
+  submitProjectRegistration,
+  useTransactionStore
+} from '@/services/transactionService';
 import { toast } from '@/components/ui/use-toast';
 import FileUpload from '@/components/FileUpload';
 
@@ -25,31 +39,47 @@ interface FormData {
   departmentId: string;
   year: string;
   accessLevel: string;
+  allowlist: string;
+  embargoUntil: string;
+  keywords: string;
+  license: string;
   ipfsHash: string;
 }
 
+// Only projects on the contract are registered through a transaction, the other sources assign the ID themselves
+const REGISTERS_ON_CHAIN = PROJECT_SOURCE === 'contract';
+
 interface FormErrors {
   title?: string;
   description?: string;
   departmentId?: string;
   year?: string;
+  allowlist?: string;
+  embargoUntil?: string;
+  file?: string;
 }
 
 const UploadForm: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
   const { isConnected, address } = useWallet();
-  const { isAuthenticated } = useAdminAuth();
+  const { canAccessAdmin } = usePermissions();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<'idle' | 'pending' | 'confirming' | 'ai-processing' | 'success' | 'error'>('idle');
   const [transactionHash, setTransactionHash] = useState<string>('');
   const [gasEstimate, setGasEstimate] = useState<{gas: string, price: string, total: string} | null>(null);
+  const [calldata, setCalldata] = useState('');
 
   // State for MetaMask popup
   const [showMetaMaskPopup, setShowMetaMaskPopup] = useState(false);
-  const [pendingProject, setPendingProject] = useState<any>(null);
+  const [pendingProject, setPendingProject] = useState<ProjectData | null>(null);
   const [estimatedGasFee, setEstimatedGasFee] = useState('');
 
+  // The registration transaction being tracked (persisted across reloads)
+  const trackedTransaction = useTransactionStore(state =>
+    state.transactions.find(t => t.hash === transactionHash)
+  );
+
   // Generate year options (last 10 years)
   const currentYear = new Date().getFullYear();
   const years = Array.from({ length: 10 }, (_, i) => currentYear - i);
@@ -60,6 +90,10 @@ const UploadForm: React.FC = () => {
     departmentId: '',
     year: currentYear.toString(),
     accessLevel: '0', // Default to public
+    allowlist: '',
+    embargoUntil: '',
+    keywords: '',
+    license: DEFAULT_LICENSE,
     ipfsHash: '',
   });
 
@@ -68,6 +102,13 @@ const UploadForm: React.FC = () => {
   const [departments, setDepartments] = useState<Department[]>([]);
   const [selectedInstitutionId, setSelectedInstitutionId] = useState<string>('');
 
+  // Wrapped keys of the uploaded file when it was encrypted before pinning
+  const [encryption, setEncryption] = useState<FileEncryption | null>(null);
+  const [isBundle, setIsBundle] = useState(false);
+  // Listed in the pinned metadata document
+  const [uploadedFile, setUploadedFile] = useState<MetadataFile | null>(null);
+  const [isPinningMetadata, setIsPinningMetadata] = useState(false);
+
   const [errors, setErrors] = useState<FormErrors>({});
   // No loading states needed for mock data
 
@@ -86,14 +127,7 @@ const UploadForm: React.FC = () => {
       // Check if user is on admin dashboard
       const isOnAdminDashboard = location.pathname.includes('/admin');
 
-      console.log('Connected wallet:', address);
-      console.log('Found student:', student);
-      console.log('Is authenticated:', isAuthenticated);
-      console.log('Is on admin dashboard:', isOnAdminDashboard);
-
-      if (student && (isAuthenticated || isOnAdminDashboard)) {
-        console.log('Auto-selecting institution:', student.institutionId, 'and department:', student.departmentId);
-
+      if (student && (canAccessAdmin || isOnAdminDashboard)) {
         // Auto-select the institution
         setSelectedInstitutionId(student.institutionId.toString());
 
@@ -104,7 +138,7 @@ const UploadForm: React.FC = () => {
         }));
       }
     }
-  }, [isConnected, address, isAuthenticated, location]);
+  }, [isConnected, address, canAccessAdmin, location]);
 
   // Load departments when institution is selected
   useEffect(() => {
@@ -138,6 +172,27 @@ const UploadForm: React.FC = () => {
       newErrors.year = 'Year is required';
     }
 
+    if (formData.accessLevel === AccessLevel.Allowlist.toString()) {
+      try {
+        if (parseAllowlist(formData.allowlist).length === 0) {
+          newErrors.allowlist = 'Add at least one wallet address';
+        }
+      } catch (error) {
+        newErrors.allowlist = error instanceof Error ? error.message : 'Invalid wallet address';
+      }
+    }
+
+    const embargoUntil = parseEmbargoDate(formData.embargoUntil);
+    if (embargoUntil !== undefined && embargoUntil <= Date.now()) {
+      newErrors.embargoUntil = 'The embargo date must be in the future';
+    }
+
+    // Anyone who sees the CID can read an unencrypted file, whatever the access level
+    const isPublic = formData.accessLevel === AccessLevel.Public.toString() && embargoUntil === undefined;
+    if (formData.ipfsHash && !encryption && !isPublic) {
+      newErrors.file = 'Files of non-public projects must be encrypted. Remove the file and upload it again with encryption turned on.';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -152,15 +207,70 @@ const UploadForm: React.FC = () => {
     }
   };
 
-  // Generate a random transaction hash
-  const generateTransactionHash = () => {
-    const characters = '0123456789abcdef';
-    let hash = '0x';
-    for (let i = 0; i < 64; i++) {
-      hash += characters.charAt(Math.floor(Math.random() * characters.length));
+  // Report the registered project and go back to the home page to see it
+  const finishUpload = useCallback((title: string, projectId: number) => {
+    setTransactionStatus('success');
+    toast({
+      title: "Project uploaded successfully!",
+      description: `Your project "${title}" has been registered with ID: ${projectId}`,
+      variant: "default",
+    });
+
+    // Wait a moment before redirecting
+    setTimeout(() => {
+      navigate('/');
+      setIsSubmitting(false);
+      setTransactionStatus('idle');
+    }, 1500);
+  }, [navigate]);
+
+  // Resume showing a registration that was still in flight when the page was reloaded
+  useEffect(() => {
+    if (!address) return;
+
+    const inFlight = useTransactionStore.getState().transactions.find(t =>
+      t.from.toLowerCase() === address.toLowerCase() &&
+      (t.status === 'pending' || t.status === 'confirming' || (t.status === 'confirmed' && !t.saved))
+    );
+
+    if (inFlight) {
+      setTransactionHash(inFlight.hash);
+      setIsSubmitting(true);
     }
-    return hash;
-  };
+  }, [address]);
+
+  // Mirror the tracked transaction into the form's status display
+  useEffect(() => {
+    if (!trackedTransaction) return;
+
+    switch (trackedTransaction.status) {
+      case 'pending':
+        setTransactionStatus('pending');
+        break;
+      case 'confirming':
+        setTransactionStatus('confirming');
+        break;
+      case 'confirmed':
+        if (!trackedTransaction.saved) {
+          setTransactionStatus(trackedTransaction.error ? 'error' : 'ai-processing');
+          break;
+        }
+
+        finishUpload(trackedTransaction.project.title, trackedTransaction.projectId);
+        break;
+      case 'failed':
+      case 'dropped':
+      case 'replaced':
+        setTransactionStatus('error');
+        setIsSubmitting(false);
+        toast({
+          title: "Failed to upload project",
+          description: trackedTransaction.error || "The transaction did not complete",
+          variant: "destructive",
+        });
+        break;
+    }
+  }, [trackedTransaction, finishUpload]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -189,18 +299,97 @@ const UploadForm: React.FC = () => {
       address // Use the connected wallet address as the author
     );
 
+    if (newProject.accessLevel === AccessLevel.Allowlist) {
+      newProject.allowlist = parseAllowlist(formData.allowlist);
+    }
+
+    newProject.embargoUntil = parseEmbargoDate(formData.embargoUntil);
+    newProject.keywords = parseKeywords(formData.keywords);
+    newProject.license = formData.license;
+    if (isBundle) {
+      newProject.isBundle = true;
+    }
+
+    if (encryption) {
+      newProject.encryption = encryption;
+
+      // Readers who already published an encryption key get the file key right away
+      try {
+        newProject.encryption = (await shareProjectKey(newProject, address)) ?? encryption;
+      } catch (error) {
+        console.error('Error sharing the file key:', error);
+      }
+    }
+
+    // Pin the metadata document first, its CID is registered on-chain with the file CID
+    setIsPinningMetadata(true);
+    try {
+      newProject.metadataCid = await pinProjectMetadata(newProject, uploadedFile ? [uploadedFile] : []);
+    } catch (error) {
+      toast({
+        title: "Failed to pin project metadata",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+      return;
+    } finally {
+      setIsPinningMetadata(false);
+    }
+
+    if (!REGISTERS_ON_CHAIN) {
+      await saveProject(newProject);
+      return;
+    }
+
     // Store the project for later use
     setPendingProject(newProject);
 
-    // Generate a random gas fee estimate
-    const gasEstimate = `${((Math.random() * 0.005) + 0.001).toFixed(6)} ETH`;
-    setEstimatedGasFee(gasEstimate);
+    // Estimate gas for the registration so the preview shows real fees
+    try {
+      const estimate = await estimateRegisterProject(newProject);
+      setGasEstimate({
+        gas: estimate.gasLimit,
+        price: `${estimate.gasPrice} Gwei`,
+        total: `${estimate.totalFee} ETH`
+      });
+      setEstimatedGasFee(`${estimate.totalFee} ETH`);
+      setCalldata(estimate.calldata);
+    } catch (error) {
+      console.error('Error estimating gas:', error);
+      toast({
+        title: "Transaction would fail",
+        description: getTransactionErrorMessage(error),
+        variant: "destructive",
+      });
+      return;
+    }
 
     // Show MetaMask popup
     setShowMetaMaskPopup(true);
   };
 
-  // Function to handle the actual transaction after wallet confirmation
+  // Save the project straight to the repository when there is no transaction to send
+  const saveProject = async (project: ProjectData) => {
+    setIsSubmitting(true);
+    setTransactionStatus('ai-processing');
+
+    try {
+      // The repository generates the AI summary and keeps or assigns the project's ID
+      const savedProject = await addProject(project);
+      finishUpload(savedProject.title, savedProject.id);
+    } catch (error) {
+      console.error('Error saving project:', error);
+      setTransactionStatus('error');
+      toast({
+        title: "Failed to upload project",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+      setIsSubmitting(false);
+    }
+  };
+
+  // Function to send the registration transaction after the preview is confirmed
   const handleConfirmTransaction = async () => {
     if (!pendingProject) return;
 
@@ -212,83 +401,21 @@ const UploadForm: React.FC = () => {
     setTransactionStatus('pending');
 
     try {
-      // Get the selected institution and department for the success message
-      const institution = institutions.find(inst => inst.id.toString() === selectedInstitutionId);
-      const department = departments.find(dept => dept.id.toString() === formData.departmentId);
-
-      // Use the pending project that was created earlier
-      const newProject = pendingProject;
-
-      // Simulate a blockchain transaction
-      const txHash = generateTransactionHash();
-      setTransactionHash(txHash);
-
-      // Simulate gas estimation
-      const gasLimit = Math.floor(Math.random() * 50000) + 150000; // Between 150,000 and 200,000
-      const gasPrice = (Math.random() * 20 + 30).toFixed(2); // Between 30 and 50 Gwei
-      const totalEth = ((gasLimit * parseFloat(gasPrice)) / 1e9).toFixed(6); // Convert to ETH
-
-      setGasEstimate({
-        gas: gasLimit.toLocaleString(),
-        price: `${gasPrice} Gwei`,
-        total: `${totalEth} ETH`
-      });
-
       // Show transaction pending toast
       toast({
         title: "Transaction Initiated",
-        description: "Your project is being submitted to the blockchain...",
-      });
-
-      // Simulate transaction confirmation delay (3 seconds)
-      await new Promise(resolve => setTimeout(resolve, 3000));
-      setTransactionStatus('confirming');
-
-      // Show transaction confirming toast
-      toast({
-        title: "Transaction Confirming",
-        description: "Waiting for blockchain confirmation...",
-      });
-
-      // Simulate block confirmations (2 seconds)
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      setTransactionStatus('success');
-
-      // Update status to AI processing
-      setTransactionStatus('ai-processing');
-
-      // Show AI generation toast
-      toast({
-        title: "Generating AI Summary",
-        description: "Creating an AI-powered summary of your project...",
-      });
-
-      // Add the project to our store (this will also generate the AI summary)
-      await addProject(newProject);
-
-      // Update status to success
-      setTransactionStatus('success');
-
-      // Show success toast
-      toast({
-        title: "Project uploaded successfully!",
-        description: `Your project "${formData.title}" has been registered with ID: ${newProject.id} in ${department?.name} at ${institution?.name}`,
-        variant: "default",
+        description: "Confirm the transaction in your wallet to submit your project to the blockchain...",
       });
 
-      // Wait a moment before redirecting
-      setTimeout(() => {
-        // Redirect to the home page to see the new project
-        navigate('/');
-        setIsSubmitting(false);
-        setTransactionStatus('idle');
-      }, 1500);
+      // Tracking continues in the transaction service and is mirrored by the effect above
+      const hash = await submitProjectRegistration(pendingProject);
+      setTransactionHash(hash);
     } catch (error) {
       console.error('Error submitting project:', error);
       setTransactionStatus('error');
       toast({
         title: "Failed to upload project",
-        description: error instanceof Error ? error.message : "An unknown error occurred",
+        description: getTransactionErrorMessage(error),
         variant: "destructive",
       });
       setIsSubmitting(false);
@@ -307,17 +434,37 @@ const UploadForm: React.FC = () => {
           data={{
             title: formData.title || '',
             department: departments.find(d => d.id.toString() === formData.departmentId)?.name || '',
-            accessLevel: AccessLevel[parseInt(formData.accessLevel) as AccessLevel],
-            gasEstimate: estimatedGasFee
+            accessLevel: getAccessLevelLabel(parseInt(formData.accessLevel) as AccessLevel),
+            embargoUntil: pendingProject?.embargoUntil,
+            gasEstimate: estimatedGasFee,
+            gasLimit: gasEstimate?.gas,
+            gasPrice: gasEstimate?.price,
+            calldata
           }}
         />
         <div className="space-y-4 mb-6">
           <h3 className="text-lg font-semibold">Project Files</h3>
           <FileUpload
-            onUploadComplete={(hash) => setFormData({ ...formData, ipfsHash: hash })}
+            onUploadComplete={(hash, details) => {
+              setFormData({ ...formData, ipfsHash: hash });
+              setEncryption(details.encryption ?? null);
+              setIsBundle(!!details.isBundle);
+              setUploadedFile({ cid: hash, kind: details.isBundle ? 'bundle' : 'file', ...details.file });
+              setErrors({ ...errors, file: undefined });
+            }}
+            onRemove={() => {
+              setFormData({ ...formData, ipfsHash: '' });
+              setEncryption(null);
+              setIsBundle(false);
+              setUploadedFile(null);
+            }}
+            encryptFor={address}
             maxSizeMB={50}
             acceptedFileTypes={['application/pdf', 'application/zip', 'application/x-zip-compressed']}
           />
+          {errors.file && (
+            <p className="text-red-500 text-sm">{errors.file}</p>
+          )}
         </div>
 
         <div className="space-y-2">
@@ -356,6 +503,45 @@ const UploadForm: React.FC = () => {
           )}
         </div>
 
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <Label htmlFor="keywords" className="text-lg font-medium">
+              Keywords
+            </Label>
+            <Input
+              id="keywords"
+              name="keywords"
+              placeholder="e.g. machine learning, robotics"
+              value={formData.keywords}
+              onChange={handleInputChange}
+              disabled={isSubmitting}
+            />
+            <p className="text-xs text-gray-500">Separate keywords with commas</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="license" className="text-lg font-medium">
+              License
+            </Label>
+            <Select
+              value={formData.license}
+              onValueChange={(value) => setFormData({ ...formData, license: value })}
+              disabled={isSubmitting}
+            >
+              <SelectTrigger id="license">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LICENSES.map(license => (
+                  <SelectItem key={license.id} value={license.id}>
+                    {license.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <div className="space-y-2">
             <Label htmlFor="institutionId" className="text-lg font-medium">
@@ -459,42 +645,31 @@ const UploadForm: React.FC = () => {
             Access Level
           </Label>
 
-          <RadioGroup
+          <AccessLevelSelector
             value={formData.accessLevel}
             onValueChange={(value) => setFormData({ ...formData, accessLevel: value })}
-            className="flex flex-col space-y-3 mt-2"
+            allowlist={formData.allowlist}
+            onAllowlistChange={(allowlist) => {
+              setFormData({ ...formData, allowlist });
+              if (errors.allowlist) {
+                setErrors({ ...errors, allowlist: undefined });
+              }
+            }}
+            embargoUntil={formData.embargoUntil}
+            onEmbargoUntilChange={(embargoUntil) => {
+              setFormData({ ...formData, embargoUntil });
+              if (errors.embargoUntil) {
+                setErrors({ ...errors, embargoUntil: undefined });
+              }
+            }}
             disabled={isSubmitting}
-          >
-            <div className="flex items-start space-x-3">
-              <RadioGroupItem value="0" id="access-public" />
-              <Label htmlFor="access-public" className="font-medium cursor-pointer">
-                Public
-                <p className="font-normal text-gray-600 text-sm">
-                  Anyone can view your project details and files
-                </p>
-              </Label>
-            </div>
-
-            <div className="flex items-start space-x-3">
-              <RadioGroupItem value="1" id="access-restricted" />
-              <Label htmlFor="access-restricted" className="font-medium cursor-pointer">
-                Restricted
-                <p className="font-normal text-gray-600 text-sm">
-                  Only users from your institution/department can view your project
-                </p>
-              </Label>
-            </div>
-
-            <div className="flex items-start space-x-3">
-              <RadioGroupItem value="2" id="access-private" />
-              <Label htmlFor="access-private" className="font-medium cursor-pointer">
-                Private
-                <p className="font-normal text-gray-600 text-sm">
-                  Only you (project author) can view your project
-                </p>
-              </Label>
-            </div>
-          </RadioGroup>
+          />
+          {errors.allowlist && (
+            <p className="text-red-500 text-sm">{errors.allowlist}</p>
+          )}
+          {errors.embargoUntil && (
+            <p className="text-red-500 text-sm">{errors.embargoUntil}</p>
+          )}
         </div>
 
         {/* Transaction Status Display */}
@@ -538,29 +713,38 @@ const UploadForm: React.FC = () => {
                 <p className="text-sm text-gray-600 mb-1">Transaction Hash:</p>
                 <div className="bg-white p-2 rounded border border-gray-200 overflow-x-auto flex justify-between items-center">
                   <code className="text-xs text-gray-800 truncate">{transactionHash}</code>
-                  <a
-                    href={`https://etherscan.io/tx/${transactionHash}`}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-university-blue hover:text-university-navy ml-2 flex-shrink-0"
-                    title="View on Etherscan"
-                  >
-                    <ExternalLink className="h-4 w-4" />
-                  </a>
-                </div>
-                {transactionStatus === 'success' && (
-                  <div className="flex justify-between items-center mt-1">
-                    <p className="text-xs text-green-600">
-                      ✓ Confirmed in block #{Math.floor(Math.random() * 1000000) + 15000000}
-                    </p>
+                  {getExplorerUrl('tx', transactionHash) && (
                     <a
-                      href="https://etherscan.io"
+                      href={getExplorerUrl('tx', transactionHash)}
                       target="_blank"
                       rel="noopener noreferrer"
-                      className="text-xs text-university-blue hover:underline"
+                      className="text-university-blue hover:text-university-navy ml-2 flex-shrink-0"
+                      title="View on block explorer"
                     >
-                      View on Etherscan
+                      <ExternalLink className="h-4 w-4" />
                     </a>
+                  )}
+                </div>
+                {transactionStatus === 'confirming' && trackedTransaction && (
+                  <p className="text-xs text-amber-600 mt-1">
+                    {trackedTransaction.confirmations} of {REQUIRED_CONFIRMATIONS} confirmations
+                  </p>
+                )}
+                {transactionStatus === 'success' && trackedTransaction?.blockNumber && (
+                  <div className="flex justify-between items-center mt-1">
+                    <p className="text-xs text-green-600">
+                      ✓ Confirmed in block #{trackedTransaction.blockNumber}
+                    </p>
+                    {getExplorerUrl('block', trackedTransaction.blockNumber) && (
+                      <a
+                        href={getExplorerUrl('block', trackedTransaction.blockNumber)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-xs text-university-blue hover:underline"
+                      >
+                        View on block explorer
+                      </a>
+                    )}
                   </div>
                 )}
               </div>
@@ -601,9 +785,14 @@ const UploadForm: React.FC = () => {
         <Button
           type="submit"
           className="w-full bg-university-blue hover:bg-university-blue/90 text-white"
-          disabled={isSubmitting || !isConnected}
+          disabled={isSubmitting || isPinningMetadata || !isConnected}
         >
-          {isSubmitting ? (
+          {isPinningMetadata ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Pinning Metadata...
+            </>
+          ) : isSubmitting ? (
             <>
               <Loader2 className="mr-2 h-4 w-4 animate-spin" />
               {transactionStatus === 'pending' ? 'Initiating Transaction...' :
@@ -0,0 +1,75 @@
+import React, { useCallback, useState } from 'react';
+import { Download, Eye, Loader2, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/components/ui/use-toast';
+import DocumentPreviewDialog from '@/components/DocumentPreviewDialog';
+import { ProjectData } from '@/lib/blockchain';
+import { getGatewayLabel } from '@/lib/gateway';
+import { fetchProjectFile } from '@/services/projectFileService';
+
+interface VerifiedDownloadProps {
+  project: ProjectData;
+}
+
+// Downloads or previews a project's file through the gateway list, checking it against its CID
+const VerifiedDownload: React.FC<VerifiedDownloadProps> = ({ project }) => {
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [servedBy, setServedBy] = useState<string | null>(null);
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+
+  const loadPreview = useCallback(() => fetchProjectFile(project), [project]);
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      const { file, gateway } = await fetchProjectFile(project);
+
+      const url = URL.createObjectURL(file);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.name;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      setServedBy(gateway);
+    } catch (error) {
+      toast({
+        title: 'Failed to download file',
+        description: error instanceof Error ? error.message : 'An unknown error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={() => setIsPreviewOpen(true)}>
+          <Eye className="h-4 w-4 mr-2" />
+          Preview
+        </Button>
+        <Button variant="outline" onClick={handleDownload} disabled={isDownloading}>
+          {isDownloading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+          Download
+        </Button>
+      </div>
+      {servedBy && (
+        <p className="flex items-center text-xs text-green-700">
+          <ShieldCheck className="h-3.5 w-3.5 mr-1" />
+          Verified, served by {getGatewayLabel(servedBy)}
+        </p>
+      )}
+
+      <DocumentPreviewDialog
+        title={project.title}
+        open={isPreviewOpen}
+        onOpenChange={setIsPreviewOpen}
+        loadFile={loadPreview}
+      />
+    </div>
+  );
+};
+
+export default VerifiedDownload;
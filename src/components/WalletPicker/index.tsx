@@ -0,0 +1,48 @@
+import React from 'react';
+import { useWallet } from '@/context/WalletContext';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Wallet } from 'lucide-react';
+
+// Lists the wallets discovered through EIP-6963 when more than one is installed
+const WalletPicker: React.FC = () => {
+  const { wallets, isWalletPickerOpen, setWalletPickerOpen, connect } = useWallet();
+
+  return (
+    <Dialog open={isWalletPickerOpen} onOpenChange={setWalletPickerOpen}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Connect a Wallet</DialogTitle>
+          <DialogDescription>
+            Choose which of your installed wallets to use.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          {wallets.map(wallet => (
+            <Button
+              key={wallet.info.uuid}
+              variant="outline"
+              className="w-full justify-start h-12"
+              onClick={() => connect(wallet.info.rdns)}
+            >
+              {wallet.info.icon ? (
+                <img src={wallet.info.icon} alt="" className="mr-3 h-6 w-6" />
+              ) : (
+                <Wallet className="mr-3 h-6 w-6" />
+              )}
+              {wallet.info.name}
+            </Button>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WalletPicker;
@@ -1,9 +1,19 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
+import { useWallet } from '@/context/WalletContext';
+import {
+  AuthSession,
+  getSession,
+  hasAdminRights,
+  signInWithEthereum,
+  signOut
+} from '@/services/authService';
 
 interface AdminAuthContextType {
-  isAuthenticated: boolean;
-  login: (username: string, password: string) => boolean;
-  logout: () => void;
+  session: AuthSession | null; // Verified Sign-In with Ethereum session
+  isAuthenticated: boolean; // Signed in with admin rights
+  isLoading: boolean; // Restoring the session from a previous visit
+  login: () => Promise<AuthSession>;
+  logout: () => Promise<void>;
 }
 
 const AdminAuthContext = createContext<AdminAuthContextType | undefined>(undefined);
@@ -17,33 +27,48 @@ export const useAdminAuth = () => {
 };
 
 export const AdminAuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
+  const { address } = useWallet();
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
 
-  // Check if user is already authenticated on mount
+  // Check if user is already signed in on mount
   useEffect(() => {
-    const adminAuth = localStorage.getItem('adminAuth');
-    if (adminAuth === 'true') {
-      setIsAuthenticated(true);
-    }
+    getSession()
+      .then(setSession)
+      .catch(error => {
+        console.error('Error restoring session:', error);
+      })
+      .finally(() => setIsLoading(false));
   }, []);
 
-  const login = (username: string, password: string): boolean => {
-    // Hardcoded credentials as requested
-    if (username === 'Tiisu' && password === 'Ghana') {
-      setIsAuthenticated(true);
-      localStorage.setItem('adminAuth', 'true');
-      return true;
+  // The session belongs to one wallet, end it when the user switches accounts
+  useEffect(() => {
+    if (session && address && session.address.toLowerCase() !== address.toLowerCase()) {
+      logout();
     }
-    return false;
+  }, [address, session]);
+
+  const login = async (): Promise<AuthSession> => {
+    const newSession = await signInWithEthereum();
+    setSession(newSession);
+    return newSession;
   };
 
-  const logout = () => {
-    setIsAuthenticated(false);
-    localStorage.removeItem('adminAuth');
+  const logout = async () => {
+    setSession(null);
+    await signOut();
   };
 
   return (
-    <AdminAuthContext.Provider value={{ isAuthenticated, login, logout }}>
+    <AdminAuthContext.Provider
+      value={{
+        session,
+        isAuthenticated: hasAdminRights(session),
+        isLoading,
+        login,
+        logout
+      }}
+    >
       {children}
     </AdminAuthContext.Provider>
   );
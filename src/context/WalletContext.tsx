@@ -1,14 +1,39 @@
 
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { ethers } from 'ethers';
-import { getProvider } from '@/lib/blockchain';
+import {
+  EIP1193Provider,
+  EIP6963ProviderDetail,
+  EIP6963ProviderInfo,
+  findInjectedProvider,
+  getRememberedProviderRdns,
+  setSelectedProvider,
+  subscribeProviders
+} from '@/lib/eip6963';
+import {
+  ChainConfig,
+  DEFAULT_CHAIN_ID,
+  getChainConfig,
+  setActiveChainId,
+  toHexChainId
+} from '@/lib/chains';
+import { startEventIndexer, stopEventIndexer } from '@/lib/eventIndexer';
+import { PROJECT_SOURCE } from '@/services/projectRepository';
+import { resumePendingTransactions } from '@/services/transactionService';
 
 interface WalletContextType {
   address: string | null;
   isConnecting: boolean;
   isConnected: boolean;
-  connect: () => Promise<void>;
+  chainId: number | null;
+  chain: ChainConfig | undefined; // Undefined while the wallet is on an unsupported network
+  isSupportedChain: boolean;
+  wallets: EIP6963ProviderDetail[]; // Wallets discovered through EIP-6963
+  selectedWallet: EIP6963ProviderInfo | null;
+  isWalletPickerOpen: boolean;
+  setWalletPickerOpen: (open: boolean) => void;
+  connect: (rdns?: string) => Promise<void>;
   disconnect: () => void;
+  switchChain: (chainId?: number) => Promise<void>;
   error: string | null;
 }
 
@@ -16,11 +41,22 @@ const WalletContext = createContext<WalletContextType>({
   address: null,
   isConnecting: false,
   isConnected: false,
+  chainId: null,
+  chain: undefined,
+  isSupportedChain: false,
+  wallets: [],
+  selectedWallet: null,
+  isWalletPickerOpen: false,
+  setWalletPickerOpen: () => {},
   connect: async () => {},
   disconnect: () => {},
+  switchChain: async () => {},
   error: null,
 });
 
+// Error code returned by wallet_switchEthereumChain when the wallet doesn't know the chain
+const UNRECOGNIZED_CHAIN_ERROR = 4902;
+
 export const useWallet = () => useContext(WalletContext);
 
 interface WalletProviderProps {
@@ -32,63 +68,151 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
   const [isConnecting, setIsConnecting] = useState(false);
   const [isConnected, setIsConnected] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [chainId, setChainId] = useState<number | null>(null);
+  const [wallets, setWallets] = useState<EIP6963ProviderDetail[]>([]);
+  const [wallet, setWallet] = useState<EIP6963ProviderDetail | null>(null);
+  const [isWalletPickerOpen, setWalletPickerOpen] = useState(false);
+
+  const chain = getChainConfig(chainId ?? DEFAULT_CHAIN_ID);
+  const isSupportedChain = chain !== undefined;
+
+  // Point the contract helpers at whichever network the wallet is on
+  const updateChainId = (hexChainId: string) => {
+    const newChainId = parseInt(hexChainId, 16);
+    setChainId(newChainId);
+    setActiveChainId(newChainId);
+  };
+
+  // Route every wallet request through the chosen provider
+  const selectWallet = (detail: EIP6963ProviderDetail | null) => {
+    setSelectedProvider(detail);
+    setWallet(detail);
+  };
+
+  // Discover installed wallets
+  useEffect(() => subscribeProviders(setWallets), []);
 
-  // Check for existing connection on component mount
+  // Reconnect to the wallet picked in a previous session once it announces itself
   useEffect(() => {
-    const checkConnection = async () => {
-      if (window.ethereum) {
-        try {
-          const accounts = await window.ethereum.request({ method: 'eth_accounts' });
-          if (accounts && accounts.length > 0) {
-            setAddress(accounts[0]);
-            setIsConnected(true);
-          }
-        } catch (error) {
-          console.error('Error checking for existing connection:', error);
-          setError('Failed to check wallet connection');
-        }
+    if (wallet) return;
+
+    const rememberedRdns = getRememberedProviderRdns();
+    if (rememberedRdns) {
+      const remembered = wallets.find(detail => detail.info.rdns === rememberedRdns);
+      if (remembered) {
+        selectWallet(remembered);
       }
-    };
+      return;
+    }
 
-    checkConnection();
-  }, []);
+    // Connected before the wallet was remembered: reuse window.ethereum if it is still connected,
+    // without choosing it for users who haven't connected yet
+    const injected = findInjectedProvider(wallets);
+    if (!injected) return;
 
-  // Listen for account changes
+    let isCancelled = false;
+    injected.provider.request<string[]>({ method: 'eth_accounts' })
+      .then(accounts => {
+        if (!isCancelled && accounts && accounts.length > 0) selectWallet(injected);
+      })
+      .catch(error => console.error('Error checking for an existing connection:', error));
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [wallet, wallets]);
+
+  // Check for existing connection whenever the selected wallet changes
   useEffect(() => {
-    if (window.ethereum) {
-      const handleAccountsChanged = (accounts: string[]) => {
-        if (accounts.length === 0) {
-          // User has disconnected
-          setAddress(null);
-          setIsConnected(false);
-        } else {
-          // User has switched accounts
+    if (!wallet) return;
+
+    const checkConnection = async (provider: EIP1193Provider) => {
+      try {
+        updateChainId(await provider.request<string>({ method: 'eth_chainId' }));
+
+        const accounts = await provider.request<string[]>({ method: 'eth_accounts' });
+        if (accounts && accounts.length > 0) {
           setAddress(accounts[0]);
           setIsConnected(true);
         }
-      };
+      } catch (error) {
+        console.error('Error checking for existing connection:', error);
+        setError('Failed to check wallet connection');
+      }
+    };
+
+    checkConnection(wallet.provider);
+  }, [wallet]);
+
+  // Listen for account changes
+  useEffect(() => {
+    if (!wallet) return;
+
+    const handleAccountsChanged = (accounts: string[]) => {
+      if (accounts.length === 0) {
+        // User has disconnected
+        setAddress(null);
+        setIsConnected(false);
+      } else {
+        // User has switched accounts
+        setAddress(accounts[0]);
+        setIsConnected(true);
+      }
+    };
+
+    wallet.provider.on('accountsChanged', handleAccountsChanged);
+    wallet.provider.on('chainChanged', updateChainId);
+
+    return () => {
+      wallet.provider.removeListener('accountsChanged', handleAccountsChanged);
+      wallet.provider.removeListener('chainChanged', updateChainId);
+    };
+  }, [wallet]);
+
+  // Pick up transactions that were still in flight when the page was last closed
+  useEffect(() => {
+    if (isConnected && address && isSupportedChain) {
+      resumePendingTransactions(address);
+    }
+  }, [isConnected, address, chainId, isSupportedChain]);
+
+  // Keep the contract event index up to date while using the on-chain repository
+  useEffect(() => {
+    if (!isConnected || !isSupportedChain || PROJECT_SOURCE !== 'contract') return;
 
-      window.ethereum.on('accountsChanged', handleAccountsChanged);
+    startEventIndexer().catch(error => {
+      console.error('Error starting event indexer:', error);
+    });
 
-      return () => {
-        window.ethereum.removeListener('accountsChanged', handleAccountsChanged);
-      };
+    return () => {
+      stopEventIndexer();
+    };
+  }, [isConnected, chainId, isSupportedChain]);
+
+  // Connect to the wallet with the given rdns, asks the user to pick one when several are installed
+  const connect = async (rdns?: string) => {
+    if (!rdns && !wallet && wallets.length > 1) {
+      setWalletPickerOpen(true);
+      return;
     }
-  }, []);
 
-  const connect = async () => {
-    if (!window.ethereum) {
+    const detail = rdns ? wallets.find(w => w.info.rdns === rdns) : wallet ?? wallets[0];
+    if (!detail) {
       setError('Please install MetaMask or a compatible wallet');
       return;
     }
 
+    setWalletPickerOpen(false);
+
     setIsConnecting(true);
     setError(null);
 
     try {
-      const provider = await getProvider();
-      const accounts = await window.ethereum.request({ method: 'eth_requestAccounts' });
-      
+      selectWallet(detail);
+
+      const accounts = await detail.provider.request<string[]>({ method: 'eth_requestAccounts' });
+      updateChainId(await detail.provider.request<string>({ method: 'eth_chainId' }));
+
       if (accounts && accounts.length > 0) {
         setAddress(accounts[0]);
         setIsConnected(true);
@@ -103,19 +227,66 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
     }
   };
 
+  // Forget the chosen wallet so the next connect shows the picker again
   const disconnect = () => {
+    selectWallet(null);
     setAddress(null);
     setIsConnected(false);
   };
 
+  // Ask the wallet to switch networks, adding the network first if it doesn't know it
+  const switchChain = async (targetChainId: number = DEFAULT_CHAIN_ID) => {
+    const target = getChainConfig(targetChainId);
+    if (!wallet || !target) return;
+
+    setError(null);
+
+    try {
+      await wallet.provider.request({
+        method: 'wallet_switchEthereumChain',
+        params: [{ chainId: toHexChainId(target.chainId) }],
+      });
+    } catch (switchError) {
+      if (switchError?.code !== UNRECOGNIZED_CHAIN_ERROR) {
+        console.error('Error switching network:', switchError);
+        setError(`Failed to switch to ${target.name}`);
+        return;
+      }
+
+      try {
+        await wallet.provider.request({
+          method: 'wallet_addEthereumChain',
+          params: [{
+            chainId: toHexChainId(target.chainId),
+            chainName: target.name,
+            rpcUrls: [target.rpcUrl],
+            blockExplorerUrls: target.explorerUrl ? [target.explorerUrl] : undefined,
+            nativeCurrency: target.nativeCurrency,
+          }],
+        });
+      } catch (addError) {
+        console.error('Error adding network:', addError);
+        setError(`Failed to add ${target.name} to your wallet`);
+      }
+    }
+  };
+
   return (
     <WalletContext.Provider
       value={{
         address,
         isConnecting,
         isConnected,
+        chainId,
+        chain,
+        isSupportedChain,
+        wallets,
+        selectedWallet: wallet?.info ?? null,
+        isWalletPickerOpen,
+        setWalletPickerOpen,
         connect,
         disconnect,
+        switchChain,
         error,
       }}
     >
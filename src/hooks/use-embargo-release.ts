@@ -0,0 +1,45 @@
+import * as React from "react"
+import { toast } from "@/components/ui/use-toast"
+import { usePermissions } from "@/hooks/use-permissions"
+import { releaseExpiredEmbargoes } from "@/services/projectService"
+
+const CHECK_INTERVAL_MS = 60_000
+
+// Publish the connected user's projects as soon as their embargo passes
+export function useEmbargoRelease() {
+  const permissions = usePermissions()
+  const { address, role, isLoading } = permissions
+  const permissionsRef = React.useRef(permissions)
+  permissionsRef.current = permissions
+
+  React.useEffect(() => {
+    if (!address || isLoading || role === "guest") return
+
+    let isRunning = false
+
+    const release = async () => {
+      // A contract release waits for the wallet, don't stack checks behind it
+      if (isRunning) return
+      isRunning = true
+
+      try {
+        const released = await releaseExpiredEmbargoes(permissionsRef.current)
+        released.forEach(project => {
+          toast({
+            title: "Embargo lifted",
+            description: `"${project.title}" is now available at its scheduled access level.`,
+          })
+        })
+      } catch (error) {
+        console.error("Error releasing embargoed projects:", error)
+      } finally {
+        isRunning = false
+      }
+    }
+
+    release()
+    const interval = setInterval(release, CHECK_INTERVAL_MS)
+
+    return () => clearInterval(interval)
+  }, [address, role, isLoading])
+}
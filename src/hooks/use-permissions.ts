@@ -0,0 +1,69 @@
+import * as React from "react"
+import { useWallet } from "@/context/WalletContext"
+import { useAdminAuth } from "@/context/AdminAuthContext"
+import { ProjectSummary } from "@/lib/blockchain"
+import {
+  GUEST_ROLES,
+  UserRoles,
+  canAccessAdmin,
+  canManagePins,
+  canChangeAccess,
+  canManageStudents,
+  canUpload,
+} from "@/lib/permissions"
+import { loadUserRoles, rolesFromSession } from "@/services/permissionService"
+import { getGrantedProjectIds, loadAccessRequests, useAccessRequestStore } from "@/services/accessRequestService"
+
+const isSameAddress = (a: string | null, b: string | null) =>
+  !!a && !!b && a.toLowerCase() === b.toLowerCase()
+
+// Roles and capabilities of the connected wallet
+export function usePermissions() {
+  const { address } = useWallet()
+  const { session } = useAdminAuth()
+  const [loadedRoles, setLoadedRoles] = React.useState<UserRoles>(GUEST_ROLES)
+  const requests = useAccessRequestStore(state => state.requests)
+
+  // A verified session for this wallet already carries its roles
+  const hasSession = !!session && (!address || isSameAddress(session.address, address))
+
+  React.useEffect(() => {
+    if (hasSession || !address) return
+
+    let isCancelled = false
+
+    loadUserRoles(address).then(userRoles => {
+      if (!isCancelled) setLoadedRoles(userRoles)
+    })
+
+    return () => {
+      isCancelled = true
+    }
+  }, [address, hasSession])
+
+  // Approvals of the wallet's access requests are kept by the backend
+  React.useEffect(() => {
+    if (!address) return
+
+    loadAccessRequests().catch(error => console.error("Error loading access requests:", error))
+  }, [address])
+
+  const isLoading = !hasSession && !!address && !isSameAddress(loadedRoles.address, address)
+
+  const roles: UserRoles = hasSession
+    ? rolesFromSession(session)
+    : address && !isLoading
+      ? loadedRoles
+      : { ...GUEST_ROLES, address }
+
+  return {
+    ...roles,
+    grantedProjectIds: getGrantedProjectIds(requests, roles.address),
+    isLoading,
+    canUpload: canUpload(roles),
+    canAccessAdmin: canAccessAdmin(roles),
+    canManagePins: canManagePins(roles),
+    canChangeAccess: (project: ProjectSummary) => canChangeAccess(roles, project),
+    canManageStudents: (institutionId: number) => canManageStudents(roles, institutionId),
+  }
+}
@@ -0,0 +1,129 @@
+import { createRequire } from 'node:module';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { AccessLevel, ProjectData } from '@/lib/blockchain';
+import { AccessViewer, GUEST_VIEWER, evaluateAccess, filterVisibleProjects } from '@/lib/accessPolicy';
+import { getGrantedProjectIds } from '@/services/accessRequestService';
+
+// The backend filters project reads with VISIBLE_TO_VIEWER (backend/lib/repository), which has to
+// give the same answers as evaluateAccess. Its repository runs here on an in-memory database
+// that is migrated and seeded with the demo data on load, so backend/ needs its dependencies installed.
+vi.stubEnv('DATABASE_PATH', ':memory:');
+vi.stubEnv('SIWE_DOMAIN', 'localhost');
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+const backendRequire = createRequire(import.meta.url);
+const repository = backendRequire('../../backend/lib/repository.js');
+
+const DAY_MS = 86400000;
+
+const AUTHOR = '0xAbCdEf0000000000000000000000000000000001';
+const ALLOWED = '0xAbCdEf0000000000000000000000000000000002';
+const REQUESTER = '0xAbCdEf0000000000000000000000000000000003';
+const STRANGER = '0xAbCdEf0000000000000000000000000000000004';
+
+// Computer Science (0) and Electrical Engineering (1) belong to University of Technology (0),
+// Business Administration (3) to State University (1)
+const VIEWERS: Record<string, AccessViewer> = {
+  guest: GUEST_VIEWER,
+  author: { address: AUTHOR.toLowerCase(), institutionId: null, departmentId: null },
+  allowlisted: { address: ALLOWED, institutionId: null, departmentId: null },
+  sameDepartment: { address: STRANGER, institutionId: 0, departmentId: 0 },
+  sameInstitution: { address: STRANGER, institutionId: 0, departmentId: 1 },
+  storedInstitution: { address: STRANGER, institutionId: 3, departmentId: 9 },
+  otherInstitution: { address: STRANGER, institutionId: 1, departmentId: 3 },
+  unregistered: { address: STRANGER, institutionId: null, departmentId: null },
+  requester: { address: REQUESTER, institutionId: null, departmentId: null }
+};
+
+// The backend's viewer from lib/auth's getViewer, it reads grants from the database instead
+const toBackendViewer = (viewer: AccessViewer) => {
+  if (!viewer.address) return null;
+  return { address: viewer.address, institutionId: viewer.institutionId, departmentId: viewer.departmentId };
+};
+
+const ACCESS_LEVELS = [
+  AccessLevel.Public,
+  AccessLevel.Institution,
+  AccessLevel.Private,
+  AccessLevel.Department,
+  AccessLevel.Allowlist
+];
+const EMBARGOES = { none: undefined, past: -DAY_MS, future: DAY_MS };
+
+let projects: ProjectData[] = [];
+
+beforeAll(async () => {
+  const now = Date.now();
+
+  for (const accessLevel of ACCESS_LEVELS) {
+    for (const [embargo, offset] of Object.entries(EMBARGOES)) {
+      // Stored with an institution its department does not belong to, the department decides
+      for (const institutionId of [0, 3]) {
+        await repository.createProject({
+          title: `Level ${accessLevel}, embargo ${embargo}, stored institution ${institutionId}`,
+          description: 'Access policy fixture',
+          ipfsHash: 'QmT8TstX4ngjQwvQfS9ZnuXAT3Cmey1NefdRs5QXwXFiP7',
+          authors: [AUTHOR],
+          allowlist: [ALLOWED],
+          departmentId: 0,
+          institutionId,
+          year: 2024,
+          uploadDate: now,
+          accessLevel,
+          embargoUntil: offset === undefined ? undefined : now + offset
+        }, AUTHOR);
+      }
+    }
+  }
+
+  projects = await repository.listProjects();
+
+  // The requester's requests were approved for every third project, approved with an expiry that has
+  // passed for the next one and are still pending for the one after that
+  for (const [index, project] of projects.entries()) {
+    const request = await repository.createAccessRequest(
+      { projectId: project.id, requester: REQUESTER, reason: 'Research' },
+      REQUESTER
+    );
+    if (index % 3 === 2) continue;
+
+    const expiresAt = index % 3 === 0 ? now + DAY_MS : now - 1;
+    await repository.decideAccessRequest(request.id, { status: 'approved', expiresAt }, AUTHOR);
+  }
+});
+
+// The frontend's viewer, with the grants of the wallet's requests as the app loads them
+const getPolicyViewer = async (name: string): Promise<AccessViewer> => {
+  const viewer = VIEWERS[name];
+  if (!viewer.address) return viewer;
+
+  const requests = await repository.listAccessRequests({ requester: viewer.address });
+  return { ...viewer, grantedProjectIds: getGrantedProjectIds(requests, viewer.address) };
+};
+
+describe('evaluateAccess and the backend', () => {
+  it.each(Object.keys(VIEWERS))('agree on every project for the %s viewer', async (name) => {
+    const viewer = await getPolicyViewer(name);
+    const backendViewer = toBackendViewer(viewer);
+
+    for (const project of projects) {
+      const visible = (await repository.getProject(project.id, backendViewer)) !== undefined;
+      expect({ title: project.title, visible }).toEqual({
+        title: project.title,
+        visible: evaluateAccess(project, viewer).allowed
+      });
+    }
+
+    const listed = await repository.listProjects({}, backendViewer);
+    expect(listed.map((project: ProjectData) => project.id)).toEqual(
+      filterVisibleProjects(projects, viewer).map(project => project.id)
+    );
+  });
+
+  it('cover every access reason', async () => {
+    const viewers = await Promise.all(Object.keys(VIEWERS).map(getPolicyViewer));
+    const reasons = new Set(viewers.flatMap(viewer => projects.map(project => evaluateAccess(project, viewer).reason)));
+
+    expect([...reasons].sort()).toEqual(['allowlist', 'author', 'denied', 'department', 'granted', 'institution', 'public']);
+  });
+});
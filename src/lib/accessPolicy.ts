@@ -0,0 +1,183 @@
+import { ethers } from 'ethers';
+import { AccessLevel, ProjectData, ProjectSummary } from '@/lib/blockchain';
+import { UserRoles, getProjectInstitutionId } from '@/lib/permissions';
+
+// Single source of truth for who may view a project.
+// Mirrors the contract's canUserViewProject: public projects are open to everyone,
+// authors always see their own projects and everything else depends on the viewer's
+// registered institution and department. Department and allowlist access, as well as
+// approved access requests, are kept off-chain, so those projects are registered as
+// private on the contract and their level is read from the metadata document. Embargoed projects are treated as private until the embargo
+// date and switch to their access level afterwards.
+
+// What the policy needs to know about the viewer
+export type AccessViewer = Pick<UserRoles, 'address' | 'institutionId' | 'departmentId'> & {
+  grantedProjectIds?: number[]; // Projects opened to the viewer through approved access requests
+};
+
+export const GUEST_VIEWER: AccessViewer = {
+  address: null,
+  institutionId: null,
+  departmentId: null
+};
+
+export type AccessReason = 'public' | 'author' | 'institution' | 'department' | 'allowlist' | 'granted' | 'denied';
+
+export interface AccessDecision {
+  allowed: boolean;
+  reason: AccessReason;
+}
+
+export interface AccessLevelInfo {
+  level: AccessLevel;
+  label: string;
+  description: string;
+  onChain: boolean; // Whether the contract can store this level
+}
+
+export const ACCESS_LEVELS: AccessLevelInfo[] = [
+  {
+    level: AccessLevel.Public,
+    label: 'Public',
+    description: 'Anyone can view the project details and files',
+    onChain: true
+  },
+  {
+    level: AccessLevel.Institution,
+    label: 'Institution',
+    description: 'Only users registered at the same institution can view the project',
+    onChain: true
+  },
+  {
+    level: AccessLevel.Department,
+    label: 'Department',
+    description: 'Only users registered in the same department can view the project',
+    onChain: false
+  },
+  {
+    level: AccessLevel.Allowlist,
+    label: 'Allowlist',
+    description: 'Only the wallet addresses you list can view the project',
+    onChain: false
+  },
+  {
+    level: AccessLevel.Private,
+    label: 'Private',
+    description: 'Only the authors can view the project',
+    onChain: true
+  }
+];
+
+export const getAccessLevelInfo = (level: AccessLevel): AccessLevelInfo | undefined => {
+  return ACCESS_LEVELS.find(info => info.level === level);
+};
+
+export const getAccessLevelLabel = (level: AccessLevel): string => {
+  return getAccessLevelInfo(level)?.label ?? `Level ${level}`;
+};
+
+// The level to register on the contract, off-chain levels fall back to private
+// so the contract never exposes more than the full policy allows
+export const toOnChainAccessLevel = (level: AccessLevel): AccessLevel => {
+  return getAccessLevelInfo(level)?.onChain ? level : AccessLevel.Private;
+};
+
+// Whether a project is still under embargo
+export const isEmbargoed = (project: ProjectSummary, now: number = Date.now()): boolean => {
+  return project.embargoUntil !== undefined && project.embargoUntil > now;
+};
+
+// The level in force right now, private while the embargo lasts
+export const getEffectiveAccessLevel = (project: ProjectSummary, now: number = Date.now()): AccessLevel => {
+  return isEmbargoed(project, now) ? AccessLevel.Private : project.accessLevel;
+};
+
+// Embargo dates are picked as calendar days and start at local midnight
+export const parseEmbargoDate = (value: string): number | undefined => {
+  if (!value) return undefined;
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day).getTime();
+};
+
+export const formatEmbargoDate = (timestamp?: number): string => {
+  if (timestamp === undefined) return '';
+  const date = new Date(timestamp);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// The level the contract should hold for a project at the given time
+export const getOnChainAccessLevel = (project: ProjectData, now: number = Date.now()): AccessLevel => {
+  return toOnChainAccessLevel(getEffectiveAccessLevel(project, now));
+};
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// Decide whether a viewer may see a project and why
+export const evaluateAccess = (
+  project: ProjectData,
+  viewer: AccessViewer = GUEST_VIEWER,
+  now: number = Date.now()
+): AccessDecision => {
+  const accessLevel = getEffectiveAccessLevel(project, now);
+
+  if (accessLevel === AccessLevel.Public) {
+    return { allowed: true, reason: 'public' };
+  }
+
+  // Everything below needs a connected wallet
+  if (!viewer.address) {
+    return { allowed: false, reason: 'denied' };
+  }
+
+  if (project.authors.some(author => sameAddress(author, viewer.address))) {
+    return { allowed: true, reason: 'author' };
+  }
+
+  if (viewer.grantedProjectIds?.includes(project.id)) {
+    return { allowed: true, reason: 'granted' };
+  }
+
+  switch (accessLevel) {
+    case AccessLevel.Institution:
+      if (viewer.institutionId !== null && viewer.institutionId === getProjectInstitutionId(project)) {
+        return { allowed: true, reason: 'institution' };
+      }
+      break;
+
+    case AccessLevel.Department:
+      if (viewer.departmentId !== null && viewer.departmentId === project.departmentId) {
+        return { allowed: true, reason: 'department' };
+      }
+      break;
+
+    case AccessLevel.Allowlist:
+      if (project.allowlist?.some(allowed => sameAddress(allowed, viewer.address))) {
+        return { allowed: true, reason: 'allowlist' };
+      }
+      break;
+  }
+
+  return { allowed: false, reason: 'denied' };
+};
+
+export const canViewProject = (project: ProjectData, viewer: AccessViewer = GUEST_VIEWER): boolean => {
+  return evaluateAccess(project, viewer).allowed;
+};
+
+// Keep only the projects a viewer may see
+export const filterVisibleProjects = (projects: ProjectData[], viewer: AccessViewer = GUEST_VIEWER): ProjectData[] => {
+  return projects.filter(project => canViewProject(project, viewer));
+};
+
+// Parse a list of wallet addresses separated by commas or new lines, throws on invalid entries
+export const parseAllowlist = (text: string): string[] => {
+  const entries = text.split(/[\s,]+/).map(entry => entry.trim()).filter(Boolean);
+
+  const invalid = entries.filter(entry => !ethers.isAddress(entry));
+  if (invalid.length > 0) {
+    throw new Error(`Invalid wallet address: ${invalid[0]}`);
+  }
+
+  return [...new Set(entries.map(entry => ethers.getAddress(entry)))];
+};
@@ -1,5 +1,8 @@
 
 import { ethers } from 'ethers';
+import { getActiveChain } from '@/lib/chains';
+import { FileEncryption } from '@/lib/encryption';
+import { getWalletProvider } from '@/lib/eip6963';
 
 // ABI for the University Project Repository contract
 const contractABI = [
@@ -35,11 +38,13 @@ const contractABI = [
   "event UserRegistered(address indexed user, uint256 indexed departmentId, uint256 indexed institutionId, bool isStudent, address registeredBy, uint256 timestamp)"
 ];
 
-// Access level enum mapping
+// Access level enum mapping (0-2 match the contract, the rest are enforced off-chain)
 export enum AccessLevel {
   Public = 0,
-  Restricted = 1,
-  Private = 2
+  Institution = 1,
+  Private = 2,
+  Department = 3,
+  Allowlist = 4
 }
 
 // Institution enum mapping
@@ -92,8 +97,22 @@ export interface ProjectData {
   accessLevel: AccessLevel;
   aiSummary?: string;
   creatorAddress?: string;
+  transactionHash?: string; // Registration transaction, set once the project is on-chain
+  allowlist?: string[]; // Wallets allowed to view an AccessLevel.Allowlist project
+  embargoUntil?: number; // Treated as private until this time (ms), then the access level applies
+  encryption?: FileEncryption; // Set when the pinned file is encrypted, holds the wrapped content keys
+  isBundle?: boolean; // The CID is a directory of files described by a manifest.json
+  metadataCid?: string; // Pinned metadata document, see lib/projectMetadata
+  keywords?: string[];
+  license?: string; // SPDX identifier
 }
 
+// What anyone may know about a project, including ones they can't view: enough to request access to it
+export type ProjectSummary = Pick<
+  ProjectData,
+  'id' | 'title' | 'authors' | 'departmentId' | 'institutionId' | 'year' | 'accessLevel' | 'embargoUntil'
+>;
+
 export interface Department {
   id: number;
   name: string;
@@ -112,18 +131,16 @@ export interface UserInfo {
   institutionId: number;
 }
 
-// The address of the deployed contract (from .env file)
-const CONTRACT_ADDRESS = import.meta.env.VITE_CONTRACT_ADDRESS || "0xaF7993E02C51cb2c40837eE8c58750490112d3AE";
-
-// Connect to the provider (injected provider like MetaMask)
+// Connect to the provider (the wallet picked by the user, or injected provider like MetaMask)
 export async function getProvider() {
-  // This is for connecting to the injected provider (MetaMask)
-  if (window.ethereum) {
+  const walletProvider = getWalletProvider();
+
+  if (walletProvider) {
     try {
       // Request account access if needed
-      await window.ethereum.request({ method: 'eth_requestAccounts' });
+      await walletProvider.request({ method: 'eth_requestAccounts' });
 
-      return new ethers.BrowserProvider(window.ethereum);
+      return new ethers.BrowserProvider(walletProvider);
     } catch (error) {
       console.error("User denied account access");
       throw error;
@@ -135,17 +152,53 @@ export async function getProvider() {
 
 // Get contract instance with signer
 export async function getContract() {
+  const chain = getActiveChain();
   const provider = await getProvider();
+
+  // Make sure transactions go to the network the app is configured for
+  const network = await provider.getNetwork();
+  if (Number(network.chainId) !== chain.chainId) {
+    throw new Error(`Wallet is connected to chain ${network.chainId}, please switch to ${chain.name}`);
+  }
+
   const signer = await provider.getSigner();
 
-  return new ethers.Contract(CONTRACT_ADDRESS, contractABI, signer);
+  return new ethers.Contract(chain.contractAddress, contractABI, signer);
+}
+
+const readOnlyProviders = new Map<number, ethers.JsonRpcProvider>();
+
+// Get a JSON-RPC provider for the active chain, no wallet needed
+export function getReadOnlyProvider(): ethers.JsonRpcProvider {
+  const chain = getActiveChain();
+
+  if (!readOnlyProviders.has(chain.chainId)) {
+    const network = ethers.Network.from(chain.chainId);
+    readOnlyProviders.set(chain.chainId, new ethers.JsonRpcProvider(chain.rpcUrl, network, { staticNetwork: network }));
+  }
+
+  return readOnlyProviders.get(chain.chainId);
 }
 
 // Get contract instance with provider (for read-only operations)
 export async function getContractReadOnly() {
-  const provider = await getProvider();
+  const chain = getActiveChain();
+
+  return new ethers.Contract(chain.contractAddress, contractABI, getReadOnlyProvider());
+}
+
+// Read the new project ID from the ProjectRegistered event in a registration receipt
+export function getRegisteredProjectId(contractInterface: ethers.Interface, receipt: ethers.TransactionReceipt): number {
+  // Find the ProjectRegistered event
+  const event = receipt.logs
+    .map(log => contractInterface.parseLog({ topics: [...log.topics], data: log.data }))
+    .find(decoded => decoded?.name === 'ProjectRegistered');
 
-  return new ethers.Contract(CONTRACT_ADDRESS, contractABI, provider);
+  if (event) {
+    return Number(event.args[0]);
+  }
+
+  throw new Error("Failed to register project: Event not emitted");
 }
 
 // Register a new project
@@ -170,21 +223,7 @@ export async function registerProject(
     );
 
     const receipt = await tx.wait();
-
-    // Find the ProjectRegistered event
-    const event = receipt.logs
-      .filter((log: any) => {
-        const decoded = contract.interface.parseLog(log);
-        return decoded?.name === 'ProjectRegistered';
-      })
-      .map((log: any) => contract.interface.parseLog(log))[0];
-
-    if (event) {
-      const projectId = event.args[0];
-      return projectId;
-    }
-
-    throw new Error("Failed to register project: Event not emitted");
+    return getRegisteredProjectId(contract.interface, receipt);
   } catch (error) {
     console.error("Error registering project:", error);
     throw error;
@@ -198,15 +237,17 @@ export async function getProjectById(projectId: number): Promise<ProjectData> {
   try {
     const project = await contract.getProjectById(projectId);
     return {
-      id: Number(project.id),
+      id: Number(project.projectId),
       title: project.title,
-      authors: project.authors,
-      uploadDate: Number(project.uploadDate),
+      authors: [...project.authors],
+      // The contract stores seconds, the UI works in milliseconds
+      uploadDate: Number(project.uploadDate) * 1000,
       ipfsHash: project.ipfsHash,
       departmentId: Number(project.departmentId),
       year: Number(project.year),
       description: project.description,
-      accessLevel: project.accessLevel
+      accessLevel: Number(project.accessLevel) as AccessLevel,
+      creatorAddress: project.authors[0]
     };
   } catch (error) {
     console.error(`Error getting project with ID ${projectId}:`, error);
@@ -214,45 +255,145 @@ export async function getProjectById(projectId: number): Promise<ProjectData> {
   }
 }
 
-// Get projects by department
-export async function getProjectsByDepartment(departmentId: number): Promise<number[]> {
+// Get the total number of registered projects
+export async function getTotalProjects(): Promise<number> {
   const contract = await getContractReadOnly();
 
   try {
-    const projectIds = await contract.getProjectsByDepartment(departmentId);
-    return projectIds.map((id: ethers.BigNumberish) => Number(id));
+    return Number(await contract.getTotalProjects());
+  } catch (error) {
+    console.error('Error getting total projects:', error);
+    throw error;
+  }
+}
+
+// A page of project IDs from one of the contract's paginated list queries
+export interface ProjectIdPage {
+  ids: number[];
+  nextCursor: number | null; // Start index of the next page, null on the last page
+  total: number | null;      // Total number of matches, known once the last page is reached
+}
+
+// Default page size for the contract list queries
+export const PROJECT_PAGE_SIZE = 9;
+
+// Build a page from the IDs returned for a (start, limit) query
+const toProjectIdPage = (projectIds: ethers.BigNumberish[], cursor: number, limit: number): ProjectIdPage => {
+  const ids = projectIds.map(id => Number(id));
+  const isLastPage = ids.length < limit;
+
+  return {
+    ids,
+    nextCursor: isLastPage ? null : cursor + ids.length,
+    total: isLastPage ? cursor + ids.length : null
+  };
+};
+
+// Follow the cursor through every page of a list query
+const collectAllIds = async (fetchPage: (cursor: number) => Promise<ProjectIdPage>): Promise<number[]> => {
+  const ids: number[] = [];
+  let cursor: number | null = 0;
+
+  while (cursor !== null) {
+    const page = await fetchPage(cursor);
+    ids.push(...page.ids);
+    cursor = page.nextCursor;
+  }
+
+  return ids;
+};
+
+// Get a page of project IDs for a department
+export async function getProjectIdsByDepartment(
+  departmentId: number,
+  cursor = 0,
+  limit = PROJECT_PAGE_SIZE
+): Promise<ProjectIdPage> {
+  const contract = await getContractReadOnly();
+
+  try {
+    const projectIds = await contract.getProjectsByDepartment(departmentId, cursor, limit);
+    return toProjectIdPage(projectIds, cursor, limit);
   } catch (error) {
     console.error(`Error getting projects for department ${departmentId}:`, error);
     throw error;
   }
 }
 
-// Get projects by year
-export async function getProjectsByYear(year: number): Promise<number[]> {
+// Get a page of project IDs for a year
+export async function getProjectIdsByYear(
+  year: number,
+  cursor = 0,
+  limit = PROJECT_PAGE_SIZE
+): Promise<ProjectIdPage> {
   const contract = await getContractReadOnly();
 
   try {
-    const projectIds = await contract.getProjectsByYear(year);
-    return projectIds.map((id: ethers.BigNumberish) => Number(id));
+    const projectIds = await contract.getProjectsByYear(year, cursor, limit);
+    return toProjectIdPage(projectIds, cursor, limit);
   } catch (error) {
     console.error(`Error getting projects for year ${year}:`, error);
     throw error;
   }
 }
 
-// Get projects by author
-export async function getProjectsByAuthor(author: string): Promise<number[]> {
+// Get a page of project IDs for an author
+export async function getProjectIdsByAuthor(
+  author: string,
+  cursor = 0,
+  limit = PROJECT_PAGE_SIZE
+): Promise<ProjectIdPage> {
   const contract = await getContractReadOnly();
 
   try {
-    const projectIds = await contract.getProjectsByAuthor(author);
-    return projectIds.map((id: ethers.BigNumberish) => Number(id));
+    const projectIds = await contract.getProjectsByAuthor(author, cursor, limit);
+    return toProjectIdPage(projectIds, cursor, limit);
   } catch (error) {
     console.error(`Error getting projects for author ${author}:`, error);
     throw error;
   }
 }
 
+// Get a page of all project IDs, newest first
+export async function getProjectIdsPage(cursor = 0, limit = PROJECT_PAGE_SIZE): Promise<ProjectIdPage> {
+  const total = await getTotalProjects();
+
+  // Project IDs on the contract are sequential and start at 1
+  const firstId = total - cursor;
+  const count = Math.max(Math.min(limit, firstId), 0);
+  const ids = Array.from({ length: count }, (_, i) => firstId - i);
+  const nextCursor = cursor + count < total ? cursor + count : null;
+
+  return { ids, nextCursor, total };
+}
+
+// Fetch the ProjectData for a list of IDs, a batch of requests at a time
+export async function getProjectsBatch(projectIds: number[], batchSize = PROJECT_PAGE_SIZE): Promise<ProjectData[]> {
+  const projects: ProjectData[] = [];
+
+  for (let i = 0; i < projectIds.length; i += batchSize) {
+    const batch = projectIds.slice(i, i + batchSize);
+    projects.push(...await Promise.all(batch.map(id => getProjectById(id))));
+  }
+
+  return projects;
+}
+
+// Get all project IDs for a department
+export async function getProjectsByDepartment(departmentId: number): Promise<number[]> {
+  return collectAllIds(cursor => getProjectIdsByDepartment(departmentId, cursor));
+}
+
+// Get all project IDs for a year
+export async function getProjectsByYear(year: number): Promise<number[]> {
+  return collectAllIds(cursor => getProjectIdsByYear(year, cursor));
+}
+
+// Get all project IDs for an author
+export async function getProjectsByAuthor(author: string): Promise<number[]> {
+  return collectAllIds(cursor => getProjectIdsByAuthor(author, cursor));
+}
+
 // Change project access level
 export async function setProjectAccessLevel(projectId: number, accessLevel: AccessLevel) {
   const contract = await getContract();
@@ -418,7 +559,7 @@ export const mockProjects: ProjectData[] = [
     uploadDate: Date.now() - 86400000 * 5, // 5 days ago
     ipfsHash: "QmT8TstX4ngjQwvQfS9ZnuXAT3Cmey1NefdRs5QXwXFiP7",
     departmentId: 1,
-    institutionId: 1,
+    institutionId: 0,
     year: 2023,
     description: "A blockchain-based identity management system that allows users to control their personal data and share it securely with service providers.",
     accessLevel: AccessLevel.Public,
@@ -431,10 +572,10 @@ export const mockProjects: ProjectData[] = [
     uploadDate: Date.now() - 86400000 * 10, // 10 days ago
     ipfsHash: "QmUNLLsPACCz1vLxQVkXqqLX5R1X345qqfHbsf67hvA3Nn",
     departmentId: 2,
-    institutionId: 1,
+    institutionId: 0,
     year: 2023,
     description: "An intelligent energy distribution system that uses IoT devices and blockchain to optimize energy consumption in smart buildings.",
-    accessLevel: AccessLevel.Restricted,
+    accessLevel: AccessLevel.Institution,
     creatorAddress: "0x2345678901234567890123456789012345678901"
   },
   {
@@ -457,7 +598,7 @@ export const mockProjects: ProjectData[] = [
     uploadDate: Date.now() - 86400000 * 20, // 20 days ago
     ipfsHash: "QmSgvgwxZGMrjhpVNvKmh3mBJhgUVfhKhrSVnxKzCGNnxk",
     departmentId: 1,
-    institutionId: 1,
+    institutionId: 0,
     year: 2023,
     description: "A machine learning framework that preserves data privacy by using federated learning and secure multi-party computation.",
     accessLevel: AccessLevel.Private,
@@ -470,7 +611,7 @@ export const mockProjects: ProjectData[] = [
     uploadDate: Date.now() - 86400000 * 25, // 25 days ago
     ipfsHash: "QmW2WQi7j6c7UgJTarActp7tDNikE4B2qXtFCfLPdsgaTQ",
     departmentId: 4,
-    institutionId: 2,
+    institutionId: 1,
     year: 2023,
     description: "Analysis of sustainable building materials and their impact on energy consumption and carbon footprint in modern construction.",
     accessLevel: AccessLevel.Public,
@@ -483,10 +624,10 @@ export const mockProjects: ProjectData[] = [
     uploadDate: Date.now() - 86400000 * 30, // 30 days ago
     ipfsHash: "QmTkzDwWqPbnAh5YiV5VwcTLnGdwSNsNTn2aDxdXBFca7D",
     departmentId: 7,
-    institutionId: 3,
+    institutionId: 2,
     year: 2023,
     description: "A quantum computing algorithm designed to solve complex optimization problems more efficiently than classical approaches.",
-    accessLevel: AccessLevel.Restricted,
+    accessLevel: AccessLevel.Institution,
     creatorAddress: "0x6789012345678901234567890123456789012345"
   }
 ];
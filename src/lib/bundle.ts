@@ -0,0 +1,108 @@
+import { ethers } from 'ethers';
+
+// Multi-file project bundles.
+// A bundle is pinned as one IPFS directory holding the files and a manifest.json
+// that lists every file's path, role, size and SHA-256 hash. Encrypted bundles
+// store each file under an opaque name and encrypt the manifest as well, so the
+// directory listing reveals nothing about the contents.
+
+export const MANIFEST_PATH = 'manifest.json';
+export const MANIFEST_VERSION = 1;
+
+export type FileRole = 'report' | 'code' | 'data' | 'media' | 'other';
+
+export const FILE_ROLES: { role: FileRole; label: string }[] = [
+  { role: 'report', label: 'Report' },
+  { role: 'code', label: 'Source Code' },
+  { role: 'data', label: 'Dataset' },
+  { role: 'media', label: 'Media' },
+  { role: 'other', label: 'Other' }
+];
+
+export interface BundleFile {
+  path: string; // Path shown to readers, e.g. "code/src/main.py"
+  storagePath: string; // Path inside the pinned directory
+  role: FileRole;
+  size: number;
+  mimeType: string;
+  sha256: string; // Hex hash of the original (unencrypted) content
+  iv?: string; // Set when the file is encrypted
+}
+
+export interface BundleManifest {
+  version: number;
+  name: string;
+  createdAt: number;
+  encrypted: boolean;
+  files: BundleFile[];
+}
+
+// A folder or file in the tree built from a manifest
+export interface FileTreeNode {
+  name: string;
+  path: string;
+  file?: BundleFile; // Set for files, folders have children instead
+  children: FileTreeNode[];
+}
+
+const ROLE_BY_EXTENSION: Record<string, FileRole> = {
+  pdf: 'report', doc: 'report', docx: 'report', odt: 'report', md: 'report', tex: 'report', txt: 'report',
+  ppt: 'media', pptx: 'media', key: 'media', png: 'media', jpg: 'media', jpeg: 'media', gif: 'media',
+  svg: 'media', mp4: 'media', mov: 'media', webm: 'media', mp3: 'media', wav: 'media',
+  csv: 'data', tsv: 'data', json: 'data', xlsx: 'data', xls: 'data', parquet: 'data', sqlite: 'data',
+  h5: 'data', npy: 'data', xml: 'data',
+  js: 'code', ts: 'code', tsx: 'code', jsx: 'code', py: 'code', java: 'code', c: 'code', cpp: 'code',
+  h: 'code', cs: 'code', go: 'code', rs: 'code', rb: 'code', php: 'code', sol: 'code', sh: 'code',
+  ipynb: 'code', html: 'code', css: 'code', sql: 'code', r: 'code', m: 'code', zip: 'code'
+};
+
+// Suggest a role from the file extension, students can change it before uploading
+export const guessFileRole = (path: string): FileRole => {
+  const extension = path.split('.').pop()?.toLowerCase() ?? '';
+  return ROLE_BY_EXTENSION[extension] ?? 'other';
+};
+
+export const getFileRoleLabel = (role: FileRole): string => {
+  return FILE_ROLES.find(info => info.role === role)?.label ?? role;
+};
+
+// Hex SHA-256 of some bytes, recorded in the manifest and checked on download
+export const sha256Hex = async (data: Blob | ArrayBuffer): Promise<string> => {
+  const bytes = data instanceof Blob ? await data.arrayBuffer() : data;
+  return ethers.hexlify(new Uint8Array(await crypto.subtle.digest('SHA-256', bytes))).slice(2);
+};
+
+// Normalize a relative path: forward slashes, no leading slash or dot segments
+export const normalizeBundlePath = (path: string): string => {
+  return path.split(/[\\/]+/).filter(part => part && part !== '.' && part !== '..').join('/');
+};
+
+// Build a folder tree from the flat file list of a manifest, folders first and sorted by name
+export const buildFileTree = (files: BundleFile[]): FileTreeNode => {
+  const root: FileTreeNode = { name: '', path: '', children: [] };
+
+  files.forEach(file => {
+    const parts = file.path.split('/');
+    let node = root;
+
+    parts.forEach((part, index) => {
+      const path = parts.slice(0, index + 1).join('/');
+      const isFile = index === parts.length - 1;
+      let child = node.children.find(c => c.name === part && !!c.file === isFile);
+
+      if (!child) {
+        child = { name: part, path, children: [], file: isFile ? file : undefined };
+        node.children.push(child);
+      }
+      node = child;
+    });
+  });
+
+  const sortTree = (node: FileTreeNode) => {
+    node.children.sort((a, b) => (!!a.file === !!b.file ? a.name.localeCompare(b.name) : a.file ? 1 : -1));
+    node.children.forEach(sortTree);
+  };
+  sortTree(root);
+
+  return root;
+};
@@ -0,0 +1,175 @@
+import { CODEC_DAG_PB, CODEC_RAW, Cid, multihashKey, readCid, readVarint, verifyMultihash } from '@/lib/cid';
+
+// Verified reads from CAR (content addressed archive) responses.
+// Trustless gateways return every block needed for a CID, or a path inside it,
+// when asked with ?format=car. Each block is hashed and checked against its CID,
+// then the UnixFS file is reassembled from the verified blocks, so the result
+// is exactly the content the requested CID commits to, whichever gateway sent it.
+
+// UnixFS node types (unixfs.proto)
+const UNIXFS_RAW = 0;
+const UNIXFS_DIRECTORY = 1;
+const UNIXFS_FILE = 2;
+const UNIXFS_HAMT_SHARD = 5;
+
+interface PbLink {
+  cid: Cid;
+  name: string;
+}
+
+interface PbNode {
+  data?: Uint8Array;
+  links: PbLink[];
+}
+
+// Read protobuf fields as [field number, value], varints as numbers and length-delimited fields as bytes
+const readProtobufFields = (bytes: Uint8Array): [number, number | Uint8Array][] => {
+  const fields: [number, number | Uint8Array][] = [];
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    const [tag, tagLength] = readVarint(bytes, offset);
+    offset += tagLength;
+    const field = Math.floor(tag / 8);
+    const wireType = tag % 8;
+
+    if (wireType === 0) {
+      const [value, length] = readVarint(bytes, offset);
+      offset += length;
+      fields.push([field, value]);
+    } else if (wireType === 2) {
+      const [length, prefixLength] = readVarint(bytes, offset);
+      offset += prefixLength;
+      fields.push([field, bytes.subarray(offset, offset + length)]);
+      offset += length;
+    } else if (wireType === 1 || wireType === 5) {
+      offset += wireType === 1 ? 8 : 4; // Fixed width fields, not used by dag-pb or UnixFS
+    } else {
+      throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+  }
+
+  return fields;
+};
+
+// dag-pb: PBNode { Data = 1; repeated PBLink Links = 2 }, PBLink { Hash = 1; Name = 2; Tsize = 3 }
+const decodePbNode = (bytes: Uint8Array): PbNode => {
+  const node: PbNode = { links: [] };
+
+  for (const [field, value] of readProtobufFields(bytes)) {
+    if (field === 1 && value instanceof Uint8Array) {
+      node.data = value;
+    } else if (field === 2 && value instanceof Uint8Array) {
+      const link: PbLink = { cid: undefined, name: '' };
+      for (const [linkField, linkValue] of readProtobufFields(value)) {
+        if (linkField === 1 && linkValue instanceof Uint8Array) link.cid = readCid(linkValue)[0];
+        if (linkField === 2 && linkValue instanceof Uint8Array) link.name = new TextDecoder().decode(linkValue);
+      }
+      if (!link.cid) throw new Error('dag-pb link without a hash');
+      node.links.push(link);
+    }
+  }
+
+  return node;
+};
+
+// UnixFS Data { Type = 1; Data = 2; ... }
+const decodeUnixFs = (bytes: Uint8Array): { type: number; data?: Uint8Array } => {
+  const unixfs: { type: number; data?: Uint8Array } = { type: UNIXFS_RAW };
+
+  for (const [field, value] of readProtobufFields(bytes)) {
+    if (field === 1 && typeof value === 'number') unixfs.type = value;
+    if (field === 2 && value instanceof Uint8Array) unixfs.data = value;
+  }
+
+  return unixfs;
+};
+
+// Parse a CARv1 archive and verify every block, returns the blocks by multihash
+export async function readVerifiedCar(car: Uint8Array): Promise<Map<string, Uint8Array>> {
+  const blocks = new Map<string, Uint8Array>();
+
+  // The header (dag-cbor roots and version) is skipped, the caller knows which CID it asked for
+  const [headerLength, headerPrefix] = readVarint(car, 0);
+  let offset = headerPrefix + headerLength;
+
+  while (offset < car.length) {
+    const [sectionLength, sectionPrefix] = readVarint(car, offset);
+    offset += sectionPrefix;
+
+    const section = car.subarray(offset, offset + sectionLength);
+    if (section.length !== sectionLength) throw new Error('Truncated CAR block');
+    offset += sectionLength;
+
+    const [cid, cidLength] = readCid(section);
+    const data = section.subarray(cidLength);
+    await verifyMultihash(data, cid.multihash);
+    blocks.set(multihashKey(cid.multihash), data);
+  }
+
+  return blocks;
+}
+
+const getBlock = (blocks: Map<string, Uint8Array>, cid: Cid): Uint8Array => {
+  const block = blocks.get(multihashKey(cid.multihash));
+  if (!block) throw new Error('The gateway response is missing a block');
+  return block;
+};
+
+// Concatenate the content of a UnixFS file from its verified blocks
+const readFile = (blocks: Map<string, Uint8Array>, cid: Cid, chunks: Uint8Array[]) => {
+  const block = getBlock(blocks, cid);
+  if (cid.codec === CODEC_RAW) {
+    chunks.push(block);
+    return;
+  }
+  if (cid.codec !== CODEC_DAG_PB) {
+    throw new Error(`Unsupported codec 0x${cid.codec.toString(16)}`);
+  }
+
+  const node = decodePbNode(block);
+  const unixfs = decodeUnixFs(node.data ?? new Uint8Array());
+  if (unixfs.type !== UNIXFS_FILE && unixfs.type !== UNIXFS_RAW) {
+    throw new Error('The CID does not point to a file');
+  }
+
+  if (unixfs.data) chunks.push(unixfs.data);
+  node.links.forEach(link => readFile(blocks, link.cid, chunks));
+};
+
+/**
+ * Read a file out of a verified CAR response
+ * @param car The CAR bytes returned by a trustless gateway
+ * @param root The CID that was requested
+ * @param path Optional path inside the root directory, e.g. "code/main.py"
+ * @returns The file content, every byte of it checked against the root CID
+ */
+export async function readFileFromCar(car: Uint8Array, root: Cid, path: string[] = []): Promise<Uint8Array> {
+  const blocks = await readVerifiedCar(car);
+
+  // Follow the path through the directories, each step is a link the parent block commits to
+  let cid = root;
+  for (const name of path) {
+    if (cid.codec !== CODEC_DAG_PB) throw new Error(`${name} is not inside a directory`);
+
+    const node = decodePbNode(getBlock(blocks, cid));
+    const unixfs = decodeUnixFs(node.data ?? new Uint8Array());
+    if (unixfs.type === UNIXFS_HAMT_SHARD) throw new Error('Sharded directories are not supported');
+    if (unixfs.type !== UNIXFS_DIRECTORY) throw new Error(`${name} is not inside a directory`);
+
+    const link = node.links.find(l => l.name === name);
+    if (!link) throw new Error(`${name} was not found in the directory`);
+    cid = link.cid;
+  }
+
+  const chunks: Uint8Array[] = [];
+  readFile(blocks, cid, chunks);
+
+  const output = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach(chunk => {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return output;
+}
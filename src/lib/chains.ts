@@ -0,0 +1,92 @@
+// Network configuration for every chain the contract is deployed on
+
+export interface ChainConfig {
+  chainId: number;
+  name: string;
+  rpcUrl: string;
+  explorerUrl?: string; // Local nodes have no block explorer
+  contractAddress: string;
+  deploymentBlock?: number; // Block the contract was deployed in, the event indexer starts there
+  nativeCurrency: {
+    name: string;
+    symbol: string;
+    decimals: number;
+  };
+}
+
+export const LOCAL_CHAIN_ID = 31337;
+export const SEPOLIA_CHAIN_ID = 11155111;
+
+// Chain used before a wallet is connected (from .env file)
+export const DEFAULT_CHAIN_ID = Number(import.meta.env.VITE_DEFAULT_CHAIN_ID || SEPOLIA_CHAIN_ID);
+
+// Contract address for the default chain, kept for existing .env files
+const LEGACY_CONTRACT_ADDRESS = import.meta.env.VITE_CONTRACT_ADDRESS || "0xaF7993E02C51cb2c40837eE8c58750490112d3AE";
+
+// Deployment blocks come from the .env file, unset when not configured
+const parseBlockNumber = (value: string | undefined): number | undefined => {
+  return value ? Number(value) : undefined;
+};
+
+const chainList: ChainConfig[] = [
+  {
+    // Local Hardhat or Anvil node, both use chain ID 31337
+    chainId: LOCAL_CHAIN_ID,
+    name: 'Localhost',
+    rpcUrl: import.meta.env.VITE_LOCAL_RPC_URL || 'http://127.0.0.1:8545',
+    contractAddress: import.meta.env.VITE_LOCAL_CONTRACT_ADDRESS ||
+      (DEFAULT_CHAIN_ID === LOCAL_CHAIN_ID ? LEGACY_CONTRACT_ADDRESS : ''),
+    // Local nodes start empty, so replaying from genesis only covers the test deployments
+    deploymentBlock: parseBlockNumber(import.meta.env.VITE_LOCAL_DEPLOYMENT_BLOCK) ?? 0,
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 }
+  },
+  {
+    chainId: SEPOLIA_CHAIN_ID,
+    name: 'Sepolia',
+    rpcUrl: import.meta.env.VITE_SEPOLIA_RPC_URL || 'https://rpc.sepolia.org',
+    explorerUrl: 'https://sepolia.etherscan.io',
+    contractAddress: import.meta.env.VITE_SEPOLIA_CONTRACT_ADDRESS ||
+      (DEFAULT_CHAIN_ID === SEPOLIA_CHAIN_ID ? LEGACY_CONTRACT_ADDRESS : ''),
+    deploymentBlock: parseBlockNumber(import.meta.env.VITE_SEPOLIA_DEPLOYMENT_BLOCK),
+    nativeCurrency: { name: 'Sepolia Ether', symbol: 'ETH', decimals: 18 }
+  }
+];
+
+// Only chains with a deployed contract are usable
+export const supportedChains: ChainConfig[] = chainList.filter(chain => chain.contractAddress);
+
+// Get the configuration for a chain, undefined when the chain is not supported
+export const getChainConfig = (chainId: number | null | undefined): ChainConfig | undefined => {
+  return supportedChains.find(chain => chain.chainId === chainId);
+};
+
+export const isSupportedChain = (chainId: number | null | undefined): boolean => {
+  return getChainConfig(chainId) !== undefined;
+};
+
+// Convert a chain ID to the hex form used by EIP-1193 requests
+export const toHexChainId = (chainId: number): string => `0x${chainId.toString(16)}`;
+
+// The chain the app currently talks to, follows the connected wallet
+let activeChainId = DEFAULT_CHAIN_ID;
+
+export const getActiveChainId = (): number => activeChainId;
+
+export const setActiveChainId = (chainId: number): void => {
+  activeChainId = chainId;
+};
+
+// Get the active chain's configuration, throws if the wallet is on an unsupported network
+export const getActiveChain = (): ChainConfig => {
+  const chain = getChainConfig(activeChainId);
+  if (!chain) {
+    throw new Error(`Unsupported network (chain ID ${activeChainId}). Please switch to ${supportedChains.map(c => c.name).join(' or ')}.`);
+  }
+  return chain;
+};
+
+// Build a block explorer link on the active chain, undefined when it has no explorer
+export const getExplorerUrl = (type: 'tx' | 'address' | 'block', value: string | number): string | undefined => {
+  const chain = getChainConfig(activeChainId);
+  return chain?.explorerUrl ? `${chain.explorerUrl}/${type}/${value}` : undefined;
+};
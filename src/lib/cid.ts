@@ -0,0 +1,149 @@
+import { ethers } from 'ethers';
+
+// Minimal CID and multihash handling, enough to check downloaded blocks against
+// the CIDs they were requested by. Only sha2-256 (and inline identity) hashes are
+// supported, which covers everything Pinata, Kubo and the memory provider produce.
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+export const CODEC_RAW = 0x55;
+export const CODEC_DAG_PB = 0x70;
+
+const HASH_IDENTITY = 0x00;
+const HASH_SHA2_256 = 0x12;
+
+export interface Multihash {
+  code: number;
+  digest: Uint8Array;
+}
+
+export interface Cid {
+  version: 0 | 1;
+  codec: number;
+  multihash: Multihash;
+}
+
+// RFC 4648 base32, lowercase and unpadded as used by multibase 'b'
+export const encodeBase32 = (bytes: Uint8Array): string => {
+  let output = '';
+  let buffer = 0;
+  let bits = 0;
+
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+const decodeBase32 = (value: string): Uint8Array => {
+  const output: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+
+  for (const char of value.toLowerCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character "${char}"`);
+
+    buffer = (buffer << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      output.push((buffer >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+
+  return new Uint8Array(output);
+};
+
+// Unsigned LEB128 varint as used by multiformats and protobuf, returns the value and the bytes read
+export const readVarint = (bytes: Uint8Array, offset: number): [number, number] => {
+  let value = 0;
+  let multiplier = 1;
+
+  for (let i = offset; i < bytes.length; i++) {
+    value += (bytes[i] & 0x7f) * multiplier;
+    if ((bytes[i] & 0x80) === 0) {
+      return [value, i - offset + 1];
+    }
+    multiplier *= 128;
+  }
+
+  throw new Error('Unexpected end of data while reading a varint');
+};
+
+// Parse a binary CID, returns the CID and the bytes it used
+export const readCid = (bytes: Uint8Array, offset = 0): [Cid, number] => {
+  // CIDv0 is a bare sha2-256 multihash
+  if (bytes[offset] === HASH_SHA2_256 && bytes[offset + 1] === 32) {
+    const digest = bytes.slice(offset + 2, offset + 34);
+    return [{ version: 0, codec: CODEC_DAG_PB, multihash: { code: HASH_SHA2_256, digest } }, 34];
+  }
+
+  let position = offset;
+  const next = () => {
+    const [value, length] = readVarint(bytes, position);
+    position += length;
+    return value;
+  };
+
+  const version = next();
+  if (version !== 1) throw new Error(`Unsupported CID version ${version}`);
+
+  const codec = next();
+  const code = next();
+  const length = next();
+  const digest = bytes.slice(position, position + length);
+  if (digest.length !== length) throw new Error('Truncated CID');
+  position += length;
+
+  return [{ version: 1, codec, multihash: { code, digest } }, position - offset];
+};
+
+// Parse a CID string: CIDv0 ("Qm...") or CIDv1 in base32 ("b...") or base58btc ("z...")
+export const parseCid = (value: string): Cid => {
+  let bytes: Uint8Array;
+
+  if (value.startsWith('Qm')) {
+    bytes = ethers.toBeArray(ethers.decodeBase58(value));
+  } else if (value.startsWith('b')) {
+    bytes = decodeBase32(value.slice(1));
+  } else if (value.startsWith('z')) {
+    bytes = ethers.toBeArray(ethers.decodeBase58(value.slice(1)));
+  } else {
+    throw new Error(`Unsupported CID encoding: ${value}`);
+  }
+
+  return readCid(bytes)[0];
+};
+
+// Key identifying a block by its content, the same bytes have the same key whatever the codec
+export const multihashKey = (multihash: Multihash): string => {
+  return `${multihash.code}:${ethers.hexlify(multihash.digest)}`;
+};
+
+// Check that bytes hash to a multihash, throws if they do not or the hash function is unsupported
+export async function verifyMultihash(data: Uint8Array, multihash: Multihash): Promise<void> {
+  let digest: Uint8Array;
+
+  if (multihash.code === HASH_SHA2_256) {
+    digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  } else if (multihash.code === HASH_IDENTITY) {
+    digest = data;
+  } else {
+    throw new Error(`Unsupported hash function 0x${multihash.code.toString(16)}`);
+  }
+
+  if (ethers.hexlify(digest) !== ethers.hexlify(multihash.digest)) {
+    throw new Error('Content does not match its CID');
+  }
+}
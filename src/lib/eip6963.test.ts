@@ -0,0 +1,150 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { LOCAL_CHAIN_ID, SEPOLIA_CHAIN_ID, toHexChainId } from '@/lib/chains';
+import {
+  EIP1193Provider,
+  EIP6963ProviderDetail,
+  LEGACY_INJECTED_RDNS,
+  announceProvider,
+  findInjectedProvider,
+  getDiscoveredProviders,
+  getRememberedProviderRdns,
+  getWalletProvider,
+  requestProviders,
+  setSelectedProvider,
+  subscribeProviders
+} from '@/lib/eip6963';
+import { MOCK_WALLET_RDNS, createMockWalletProvider } from '@/lib/mockWallet';
+
+// A contract on the local chain makes it a second supported chain to switch to
+vi.hoisted(() => {
+  vi.stubEnv('VITE_LOCAL_CONTRACT_ADDRESS', '0x5FbDB2315678afecb367f032d93F642f64180aa3');
+});
+
+// Same key as the mock wallet's default, the first Hardhat/Anvil test account
+const TEST_ACCOUNT = new ethers.Wallet('0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80').address;
+
+const mockWalletDetail = (provider: EIP1193Provider = createMockWalletProvider()): EIP6963ProviderDetail => ({
+  info: { uuid: crypto.randomUUID(), name: 'Mock Wallet', icon: '', rdns: MOCK_WALLET_RDNS },
+  provider
+});
+
+const findByRdns = (rdns: string) => getDiscoveredProviders().find(detail => detail.info.rdns === rdns);
+
+afterEach(() => {
+  delete window.ethereum;
+  setSelectedProvider(null);
+});
+
+describe('provider discovery', () => {
+  it('lists wallets that announce themselves, once per rdns', () => {
+    requestProviders();
+    const first = mockWalletDetail();
+    const second = mockWalletDetail();
+
+    announceProvider(first);
+    expect(findByRdns(MOCK_WALLET_RDNS)?.provider).toBe(first.provider);
+
+    announceProvider(second);
+    expect(getDiscoveredProviders().filter(detail => detail.info.rdns === MOCK_WALLET_RDNS)).toHaveLength(1);
+    expect(findByRdns(MOCK_WALLET_RDNS)?.provider).toBe(second.provider);
+  });
+
+  it('ignores announcements without an rdns or a provider', () => {
+    requestProviders();
+    const count = getDiscoveredProviders().length;
+
+    window.dispatchEvent(new CustomEvent('eip6963:announceProvider', { detail: { info: { rdns: '' }, provider: {} } }));
+    window.dispatchEvent(new CustomEvent('eip6963:announceProvider', { detail: { info: { rdns: 'io.example' } } }));
+
+    expect(getDiscoveredProviders()).toHaveLength(count);
+  });
+
+  it('tells subscribers about wallets announced later', () => {
+    const seen: string[][] = [];
+    const unsubscribe = subscribeProviders(providers => seen.push(providers.map(detail => detail.info.rdns)));
+
+    announceProvider({ ...mockWalletDetail(), info: { uuid: '1', name: 'Late Wallet', icon: '', rdns: 'io.example.late' } });
+    unsubscribe();
+    announceProvider({ ...mockWalletDetail(), info: { uuid: '2', name: 'Later Wallet', icon: '', rdns: 'io.example.later' } });
+
+    expect(seen[seen.length - 1]).toContain('io.example.late');
+    expect(seen.flat()).not.toContain('io.example.later');
+  });
+
+  it('lists a legacy window.ethereum next to announced wallets', () => {
+    requestProviders();
+    window.ethereum = createMockWalletProvider();
+
+    const legacy = findByRdns(LEGACY_INJECTED_RDNS);
+    expect(legacy?.provider).toBe(window.ethereum);
+    expect(legacy?.info.name).toBe('Browser Wallet');
+    expect(findInjectedProvider(getDiscoveredProviders())).toEqual(legacy);
+  });
+
+  it('does not list window.ethereum twice when an announced wallet injected it', () => {
+    requestProviders();
+    const detail = mockWalletDetail();
+    announceProvider(detail);
+    window.ethereum = detail.provider;
+
+    expect(findByRdns(LEGACY_INJECTED_RDNS)).toBeUndefined();
+    expect(findInjectedProvider(getDiscoveredProviders())?.info.rdns).toBe(MOCK_WALLET_RDNS);
+  });
+});
+
+describe('provider selection', () => {
+  it('routes requests through the picked wallet and remembers it', () => {
+    const injected = createMockWalletProvider();
+    window.ethereum = injected;
+    expect(getWalletProvider()).toBe(injected);
+
+    const detail = mockWalletDetail();
+    setSelectedProvider(detail);
+    expect(getWalletProvider()).toBe(detail.provider);
+    expect(getRememberedProviderRdns()).toBe(MOCK_WALLET_RDNS);
+
+    setSelectedProvider(null);
+    expect(getWalletProvider()).toBe(injected);
+    expect(getRememberedProviderRdns()).toBeNull();
+  });
+});
+
+describe('mock wallet provider', () => {
+  it('exposes its account only after the user connects', async () => {
+    const provider = createMockWalletProvider();
+    const changes: unknown[] = [];
+    provider.on('accountsChanged', accounts => changes.push(accounts));
+
+    expect(await provider.request({ method: 'eth_accounts' })).toEqual([]);
+    expect(await provider.request({ method: 'eth_requestAccounts' })).toEqual([TEST_ACCOUNT]);
+    expect(await provider.request({ method: 'eth_accounts' })).toEqual([TEST_ACCOUNT]);
+    expect(changes).toEqual([[TEST_ACCOUNT]]);
+  });
+
+  it('switches between supported chains only', async () => {
+    const provider = createMockWalletProvider({ chainId: SEPOLIA_CHAIN_ID });
+    const changes: unknown[] = [];
+    provider.on('chainChanged', chainId => changes.push(chainId));
+
+    await provider.request({ method: 'wallet_switchEthereumChain', params: [{ chainId: toHexChainId(LOCAL_CHAIN_ID) }] });
+    expect(await provider.request({ method: 'eth_chainId' })).toBe(toHexChainId(LOCAL_CHAIN_ID));
+    expect(changes).toEqual([toHexChainId(LOCAL_CHAIN_ID)]);
+
+    await expect(provider.request({ method: 'wallet_switchEthereumChain', params: [{ chainId: '0x1' }] }))
+      .rejects.toMatchObject({ code: 4902 });
+  });
+
+  it('signs messages with its key', async () => {
+    const provider = createMockWalletProvider();
+    const message = 'Sign in to Uni Vault';
+
+    const signature = await provider.request<string>({
+      method: 'personal_sign',
+      params: [ethers.hexlify(ethers.toUtf8Bytes(message)), TEST_ACCOUNT]
+    });
+
+    expect(ethers.verifyMessage(message, signature)).toBe(TEST_ACCOUNT);
+  });
+});
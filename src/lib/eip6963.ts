@@ -0,0 +1,139 @@
+// EIP-6963 multi injected provider discovery
+// https://eips.ethereum.org/EIPS/eip-6963
+
+export interface EIP1193RequestArguments {
+  method: string;
+  params?: unknown[] | Record<string, unknown>;
+}
+
+// Minimal EIP-1193 provider surface the app relies on
+export interface EIP1193Provider {
+  request<T = unknown>(args: EIP1193RequestArguments): Promise<T>;
+  on(event: string, listener: (...args: unknown[]) => void): void;
+  removeListener(event: string, listener: (...args: unknown[]) => void): void;
+}
+
+export interface EIP6963ProviderInfo {
+  uuid: string;
+  name: string;
+  icon: string; // Data URI
+  rdns: string; // Reverse DNS name, stable across sessions (e.g. io.metamask)
+}
+
+export interface EIP6963ProviderDetail {
+  info: EIP6963ProviderInfo;
+  provider: EIP1193Provider;
+}
+
+export interface EIP6963AnnounceProviderEvent extends CustomEvent<EIP6963ProviderDetail> {
+  type: 'eip6963:announceProvider';
+}
+
+// Key under which the chosen wallet's rdns is remembered between sessions
+const SELECTED_WALLET_KEY = 'selectedWalletRdns';
+
+// Identifier used for a legacy window.ethereum provider that doesn't announce itself
+export const LEGACY_INJECTED_RDNS = 'injected.legacy';
+
+const discoveredProviders = new Map<string, EIP6963ProviderDetail>();
+const listeners = new Set<(providers: EIP6963ProviderDetail[]) => void>();
+let selectedProvider: EIP6963ProviderDetail | null = null;
+let isListening = false;
+
+const notifyListeners = () => {
+  const providers = getDiscoveredProviders();
+  listeners.forEach(listener => listener(providers));
+};
+
+const handleAnnouncement = (event: Event) => {
+  const { detail } = event as EIP6963AnnounceProviderEvent;
+  if (!detail?.info?.rdns || !detail.provider) return;
+
+  // Wallets may re-announce, keep one entry per rdns
+  discoveredProviders.set(detail.info.rdns, Object.freeze({ ...detail }));
+  notifyListeners();
+};
+
+// Start listening for announcements and ask installed wallets to announce themselves
+export function requestProviders(): void {
+  if (!isListening) {
+    window.addEventListener('eip6963:announceProvider', handleAnnouncement);
+    isListening = true;
+  }
+
+  window.dispatchEvent(new Event('eip6963:requestProvider'));
+}
+
+// Get every discovered wallet. window.ethereum is listed as well unless one of them already
+// injected it, so a legacy wallet without EIP-6963 stays available next to announced ones.
+export function getDiscoveredProviders(): EIP6963ProviderDetail[] {
+  const providers = [...discoveredProviders.values()];
+
+  if (window.ethereum && !providers.some(detail => detail.provider === window.ethereum)) {
+    providers.push({
+      info: {
+        uuid: LEGACY_INJECTED_RDNS,
+        name: window.ethereum.isMetaMask ? 'MetaMask' : 'Browser Wallet',
+        icon: '',
+        rdns: LEGACY_INJECTED_RDNS
+      },
+      provider: window.ethereum
+    });
+  }
+
+  return providers;
+}
+
+// The discovered wallet behind window.ethereum, which connections from before wallets were
+// remembered by rdns went through
+export function findInjectedProvider(providers: EIP6963ProviderDetail[]): EIP6963ProviderDetail | undefined {
+  return window.ethereum ? providers.find(detail => detail.provider === window.ethereum) : undefined;
+}
+
+// Subscribe to changes in the discovered wallets, returns an unsubscribe function
+export function subscribeProviders(listener: (providers: EIP6963ProviderDetail[]) => void): () => void {
+  listeners.add(listener);
+  requestProviders();
+  listener(getDiscoveredProviders());
+
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Get the wallet the user picked, if any
+export function getSelectedProvider(): EIP6963ProviderDetail | null {
+  return selectedProvider;
+}
+
+// Route all wallet requests through the given provider and remember the choice
+export function setSelectedProvider(detail: EIP6963ProviderDetail | null): void {
+  selectedProvider = detail;
+
+  if (detail) {
+    localStorage.setItem(SELECTED_WALLET_KEY, detail.info.rdns);
+  } else {
+    localStorage.removeItem(SELECTED_WALLET_KEY);
+  }
+}
+
+// Get the provider wallet requests should go through, window.ethereum until a wallet is picked
+export function getWalletProvider(): EIP1193Provider | undefined {
+  return selectedProvider?.provider ?? window.ethereum;
+}
+
+// Announce a provider the way an injected wallet extension would
+export function announceProvider(detail: EIP6963ProviderDetail): void {
+  const announce = () => {
+    window.dispatchEvent(new CustomEvent('eip6963:announceProvider', { detail: Object.freeze({ ...detail }) }));
+  };
+
+  announce();
+  // Announce again whenever the app asks for providers
+  window.addEventListener('eip6963:requestProvider', announce);
+}
+
+// Get the rdns of the wallet chosen in a previous session
+export function getRememberedProviderRdns(): string | null {
+  return localStorage.getItem(SELECTED_WALLET_KEY);
+}
@@ -0,0 +1,155 @@
+import { ethers } from 'ethers';
+
+// Client-side encryption for project files.
+// Files are encrypted with a random AES-GCM content key before they are pinned, so the
+// CID alone reveals nothing. The content key is then wrapped for each reader: an ephemeral
+// secp256k1 key agrees on a secret with the reader's wallet encryption key (ECDH), HKDF
+// turns that secret into an AES-GCM key and the content key is encrypted with it.
+// Wallet encryption keys are derived from a signature over a fixed message, so every
+// wallet that can sign can recover its key on any device without storing it.
+
+// Message a wallet signs to derive its encryption key, changing it changes every key
+export const ENCRYPTION_KEY_MESSAGE =
+  'University Project Vault encryption key\n\n' +
+  'Sign this message to unlock the key that decrypts project files shared with this wallet. ' +
+  'This does not send a transaction or cost any gas.';
+
+// The message a wallet signs to publish its encryption public key, the backend checks the same one (routes/keys)
+export const getKeyPublicationMessage = (address: string, publicKey: string): string => {
+  return 'University Project Vault encryption key publication\n\n' +
+    `Wallet: ${address.toLowerCase()}\n` +
+    `Public key: ${publicKey.toLowerCase()}`;
+};
+
+// Whether a published key was signed by the wallet it is listed for
+export const isKeyPublicationValid = (address: string, publicKey: string, signature: string): boolean => {
+  try {
+    return ethers.verifyMessage(getKeyPublicationMessage(address, publicKey), signature).toLowerCase() === address.toLowerCase();
+  } catch (error) {
+    return false;
+  }
+};
+
+const CONTENT_ALGORITHM = 'AES-GCM';
+const WRAP_INFO = new TextEncoder().encode('uni-project-vault/key-wrap/v1');
+const IV_LENGTH = 12;
+
+// A content key encrypted for a single reader
+export interface WrappedKey {
+  ephemeralPublicKey: string; // Compressed secp256k1 public key (hex)
+  iv: string; // Base64
+  ciphertext: string; // Base64
+}
+
+// Stored in the project metadata next to the CID of the encrypted file.
+// For bundles the IV, name and type describe the encrypted manifest, which
+// holds the IV of every file in the bundle.
+export interface FileEncryption {
+  algorithm: 'AES-GCM';
+  iv: string; // Base64 IV the file was encrypted with
+  fileName: string; // Original name and type, the pinned file is opaque
+  mimeType: string;
+  wrappedKeys: Record<string, WrappedKey>; // Lowercase reader address -> wrapped content key
+}
+
+const randomIv = (): Uint8Array => crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+
+// Derive a wallet's encryption key from its signature over ENCRYPTION_KEY_MESSAGE
+export const deriveEncryptionKey = (signature: string): ethers.SigningKey => {
+  return new ethers.SigningKey(ethers.keccak256(signature));
+};
+
+// HKDF over the ECDH shared point, salted with the ephemeral public key
+const deriveWrappingKey = async (sharedSecret: string, ephemeralPublicKey: string): Promise<CryptoKey> => {
+  const secret = await crypto.subtle.importKey('raw', ethers.getBytes(sharedSecret), 'HKDF', false, ['deriveKey']);
+
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: ethers.getBytes(ephemeralPublicKey), info: WRAP_INFO },
+    secret,
+    { name: CONTENT_ALGORITHM, length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+// Generate a fresh content key for a file
+export const generateContentKey = (): Promise<CryptoKey> => {
+  return crypto.subtle.generateKey({ name: CONTENT_ALGORITHM, length: 256 }, true, ['encrypt', 'decrypt']);
+};
+
+// Encrypt a content key for the holder of a wallet encryption public key
+export const wrapContentKey = async (contentKey: CryptoKey, readerPublicKey: string): Promise<WrappedKey> => {
+  const ephemeral = new ethers.SigningKey(ethers.randomBytes(32));
+  const ephemeralPublicKey = ephemeral.compressedPublicKey;
+  const wrappingKey = await deriveWrappingKey(ephemeral.computeSharedSecret(readerPublicKey), ephemeralPublicKey);
+
+  const iv = randomIv();
+  const rawKey = await crypto.subtle.exportKey('raw', contentKey);
+  const ciphertext = await crypto.subtle.encrypt({ name: CONTENT_ALGORITHM, iv }, wrappingKey, rawKey);
+
+  return {
+    ephemeralPublicKey,
+    iv: ethers.encodeBase64(iv),
+    ciphertext: ethers.encodeBase64(new Uint8Array(ciphertext))
+  };
+};
+
+// Recover a content key with the reader's wallet encryption key, throws if it was wrapped for someone else
+export const unwrapContentKey = async (wrapped: WrappedKey, readerKey: ethers.SigningKey): Promise<CryptoKey> => {
+  const wrappingKey = await deriveWrappingKey(
+    readerKey.computeSharedSecret(wrapped.ephemeralPublicKey),
+    wrapped.ephemeralPublicKey
+  );
+
+  const rawKey = await crypto.subtle.decrypt(
+    { name: CONTENT_ALGORITHM, iv: ethers.decodeBase64(wrapped.iv) },
+    wrappingKey,
+    ethers.decodeBase64(wrapped.ciphertext)
+  );
+
+  return crypto.subtle.importKey('raw', rawKey, CONTENT_ALGORITHM, true, ['encrypt', 'decrypt']);
+};
+
+// Encrypt raw bytes with a content key and a fresh IV
+export const encryptBytes = async (
+  data: ArrayBuffer,
+  contentKey: CryptoKey
+): Promise<{ ciphertext: ArrayBuffer; iv: string }> => {
+  const iv = randomIv();
+  const ciphertext = await crypto.subtle.encrypt({ name: CONTENT_ALGORITHM, iv }, contentKey, data);
+  return { ciphertext, iv: ethers.encodeBase64(iv) };
+};
+
+// Decrypt bytes produced by encryptBytes, throws if they were tampered with
+export const decryptBytes = async (data: ArrayBuffer, iv: string, contentKey: CryptoKey): Promise<ArrayBuffer> => {
+  return crypto.subtle.decrypt({ name: CONTENT_ALGORITHM, iv: ethers.decodeBase64(iv) }, contentKey, data);
+};
+
+// Encrypt a file with a content key, the result is safe to pin publicly
+export const encryptFile = async (
+  file: File,
+  contentKey: CryptoKey
+): Promise<{ encryptedFile: File; encryption: FileEncryption }> => {
+  const { ciphertext, iv } = await encryptBytes(await file.arrayBuffer(), contentKey);
+
+  return {
+    encryptedFile: new File([ciphertext], `${file.name}.enc`, { type: 'application/octet-stream' }),
+    encryption: {
+      algorithm: CONTENT_ALGORITHM,
+      iv,
+      fileName: file.name,
+      mimeType: file.type,
+      wrappedKeys: {}
+    }
+  };
+};
+
+// Decrypt the pinned bytes of an encrypted file back into the original file
+export const decryptFile = async (
+  data: ArrayBuffer,
+  encryption: FileEncryption,
+  contentKey: CryptoKey
+): Promise<Blob> => {
+  const plaintext = await decryptBytes(data, encryption.iv, contentKey);
+  return new Blob([plaintext], { type: encryption.mimeType });
+};
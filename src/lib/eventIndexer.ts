@@ -0,0 +1,435 @@
+import { ethers } from 'ethers';
+import { create } from 'zustand';
+import { AccessLevel, getContractReadOnly } from '@/lib/blockchain';
+import { getActiveChainId, getChainConfig } from '@/lib/chains';
+
+// Maximum block range requested per eth_getLogs call
+const BATCH_SIZE = 2000;
+
+// Number of blocks to roll back when a reorg is detected
+const REORG_SAFE_DEPTH = 12;
+
+// One database per chain so switching networks never mixes indexes
+const DB_NAME_PREFIX = 'univault-event-index';
+const DB_VERSION = 1;
+
+export interface IndexedEventBase {
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  timestamp: number;
+}
+
+export interface IndexedProject extends IndexedEventBase {
+  projectId: number;
+  title: string;
+  uploader: string;
+  departmentId: number;
+  accessLevel: AccessLevel;
+}
+
+export interface IndexedAccessChange extends IndexedEventBase {
+  projectId: number;
+  oldAccessLevel: AccessLevel;
+  newAccessLevel: AccessLevel;
+  changedBy: string;
+}
+
+export interface IndexedDepartment extends IndexedEventBase {
+  departmentId: number;
+  name: string;
+  institutionId: number;
+  addedBy: string;
+}
+
+export interface IndexedInstitution extends IndexedEventBase {
+  institutionId: number;
+  name: string;
+  addedBy: string;
+}
+
+export interface IndexedUser extends IndexedEventBase {
+  user: string;
+  departmentId: number;
+  institutionId: number;
+  isStudent: boolean;
+  registeredBy: string;
+}
+
+// Object stores holding normalized event records, keyed by their position in the chain
+const EVENT_STORES = {
+  ProjectRegistered: 'projects',
+  AccessLevelChanged: 'accessChanges',
+  DepartmentAdded: 'departments',
+  InstitutionAdded: 'institutions',
+  UserRegistered: 'users'
+} as const;
+
+type EventStoreName = typeof EVENT_STORES[keyof typeof EVENT_STORES];
+
+interface IndexerMeta {
+  lastBlock: number;
+  // Hashes of the most recently indexed blocks, used to detect reorgs
+  recentBlocks: { number: number; hash: string }[];
+}
+
+interface IndexerStatus {
+  isSyncing: boolean;
+  lastBlock: number | null;
+  error: string | null;
+}
+
+// Status of the indexer for UI consumers
+export const useIndexerStore = create<IndexerStatus>()(() => ({
+  isSyncing: false,
+  lastBlock: null,
+  error: null
+}));
+
+const dbPromises = new Map<number, Promise<IDBDatabase>>();
+
+// Open (and create on first use) the IndexedDB database of a chain, the active one by default
+const openDatabase = (chainId: number = getActiveChainId()): Promise<IDBDatabase> => {
+  if (!dbPromises.has(chainId)) {
+    dbPromises.set(chainId, new Promise((resolve, reject) => {
+      const request = indexedDB.open(`${DB_NAME_PREFIX}-${chainId}`, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+
+        Object.values(EVENT_STORES).forEach(storeName => {
+          const store = db.createObjectStore(storeName, { keyPath: ['blockNumber', 'logIndex'] });
+          store.createIndex('blockNumber', 'blockNumber');
+        });
+
+        db.createObjectStore('meta');
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }));
+  }
+
+  return dbPromises.get(chainId);
+};
+
+// Wrap an IDBRequest in a promise
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Wait for a transaction to commit
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// The index starts at the block the chain's contract was deployed in. Without one every
+// block since genesis would be read, so the indexer refuses to run.
+const getStartBlock = (chainId: number = getActiveChainId()): number => {
+  const deploymentBlock = getChainConfig(chainId)?.deploymentBlock;
+  if (deploymentBlock === undefined) {
+    throw new Error(`No contract deployment block is configured for chain ${chainId}, the event index is not built`);
+  }
+  return deploymentBlock;
+};
+
+const readMeta = async (chainId?: number): Promise<IndexerMeta> => {
+  const db = await openDatabase(chainId);
+  const meta = await promisify(db.transaction('meta').objectStore('meta').get('state'));
+  return meta || { lastBlock: getStartBlock(chainId) - 1, recentBlocks: [] };
+};
+
+const readAll = async <T>(storeName: EventStoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(storeName).objectStore(storeName).getAll());
+};
+
+type IndexedRecord = IndexedProject | IndexedAccessChange | IndexedDepartment | IndexedInstitution | IndexedUser;
+
+// Convert a decoded event log into the record persisted for it
+const normalizeEvent = (log: ethers.EventLog): IndexedRecord | null => {
+  const { args } = log;
+  const base: IndexedEventBase = {
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    logIndex: log.index,
+    timestamp: Number(args.timestamp) * 1000
+  };
+
+  switch (log.eventName) {
+    case 'ProjectRegistered':
+      return {
+        ...base,
+        projectId: Number(args.projectId),
+        title: args.title,
+        uploader: args.uploader.toLowerCase(),
+        departmentId: Number(args.departmentId),
+        accessLevel: Number(args.accessLevel) as AccessLevel
+      };
+    case 'AccessLevelChanged':
+      return {
+        ...base,
+        projectId: Number(args.projectId),
+        oldAccessLevel: Number(args.oldAccessLevel) as AccessLevel,
+        newAccessLevel: Number(args.newAccessLevel) as AccessLevel,
+        changedBy: args.changedBy.toLowerCase()
+      };
+    case 'DepartmentAdded':
+      return {
+        ...base,
+        departmentId: Number(args.departmentId),
+        name: args.name,
+        institutionId: Number(args.institutionId),
+        addedBy: args.addedBy.toLowerCase()
+      };
+    case 'InstitutionAdded':
+      return {
+        ...base,
+        institutionId: Number(args.institutionId),
+        name: args.name,
+        addedBy: args.addedBy.toLowerCase()
+      };
+    case 'UserRegistered':
+      return {
+        ...base,
+        user: args.user.toLowerCase(),
+        departmentId: Number(args.departmentId),
+        institutionId: Number(args.institutionId),
+        isStudent: args.isStudent,
+        registeredBy: args.registeredBy.toLowerCase()
+      };
+    default:
+      return null;
+  }
+};
+
+// Persist a batch of events together with the new indexer head
+const writeBatch = async (logs: ethers.EventLog[], meta: IndexerMeta, chainId?: number): Promise<void> => {
+  const db = await openDatabase(chainId);
+  const storeNames = [...Object.values(EVENT_STORES), 'meta'];
+  const tx = db.transaction(storeNames, 'readwrite');
+
+  logs.forEach(log => {
+    const storeName = EVENT_STORES[log.eventName as keyof typeof EVENT_STORES];
+    const record = normalizeEvent(log);
+    if (storeName && record) {
+      tx.objectStore(storeName).put(record);
+    }
+  });
+
+  tx.objectStore('meta').put(meta, 'state');
+  await transactionDone(tx);
+};
+
+// Remove every record above the given block and move the head back to it
+const rollbackTo = async (blockNumber: number, meta: IndexerMeta, chainId?: number): Promise<IndexerMeta> => {
+  const db = await openDatabase(chainId);
+  const storeNames = [...Object.values(EVENT_STORES), 'meta'];
+  const tx = db.transaction(storeNames, 'readwrite');
+  const range = IDBKeyRange.lowerBound(blockNumber, true);
+
+  Object.values(EVENT_STORES).forEach(storeName => {
+    const index = tx.objectStore(storeName).index('blockNumber');
+    index.openCursor(range).onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue>).result;
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      }
+    };
+  });
+
+  const rolledBack: IndexerMeta = {
+    lastBlock: blockNumber,
+    recentBlocks: meta.recentBlocks.filter(block => block.number <= blockNumber)
+  };
+
+  tx.objectStore('meta').put(rolledBack, 'state');
+  await transactionDone(tx);
+
+  return rolledBack;
+};
+
+// Check the stored block hashes against the chain and roll back past any reorg
+const handleReorg = async (provider: ethers.Provider, meta: IndexerMeta, chainId?: number): Promise<IndexerMeta> => {
+  const head = meta.recentBlocks[meta.recentBlocks.length - 1];
+  if (!head) return meta;
+
+  const block = await provider.getBlock(head.number);
+  if (block && block.hash === head.hash) return meta;
+
+  // Find the most recent block we still agree with the chain on
+  for (let i = meta.recentBlocks.length - 2; i >= 0; i--) {
+    const candidate = meta.recentBlocks[i];
+    const chainBlock = await provider.getBlock(candidate.number);
+    if (chainBlock && chainBlock.hash === candidate.hash) {
+      console.warn(`Reorg detected, rolling back to block ${candidate.number}`);
+      return rollbackTo(candidate.number, meta, chainId);
+    }
+  }
+
+  // No common ancestor in the recent window, roll back by the safe depth
+  const safeBlock = Math.max(getStartBlock(chainId) - 1, head.number - REORG_SAFE_DEPTH);
+  console.warn(`Reorg deeper than tracked blocks, rolling back to block ${safeBlock}`);
+  return rollbackTo(safeBlock, meta, chainId);
+};
+
+// Chains with a sync in progress, a sync for a newly selected chain doesn't wait for the old one
+const syncingChains = new Set<number>();
+
+// Index all events between the stored head and the current chain head of the active chain.
+// The sync keeps to the chain it started on, and only reports its status while that chain is active.
+export async function syncEvents(): Promise<void> {
+  const chainId = getActiveChainId();
+  if (syncingChains.has(chainId)) return;
+  syncingChains.add(chainId);
+
+  const setStatus = (status: Partial<IndexerStatus>) => {
+    if (chainId === getActiveChainId()) useIndexerStore.setState(status);
+  };
+  setStatus({ isSyncing: true, error: null });
+
+  try {
+    const contract = await getContractReadOnly();
+    const provider = contract.runner.provider;
+
+    let meta = await handleReorg(provider, await readMeta(chainId), chainId);
+    const latestBlock = await provider.getBlockNumber();
+
+    while (meta.lastBlock < latestBlock) {
+      const fromBlock = meta.lastBlock + 1;
+      const toBlock = Math.min(fromBlock + BATCH_SIZE - 1, latestBlock);
+
+      const logs = (await contract.queryFilter('*', fromBlock, toBlock))
+        .filter((log): log is ethers.EventLog => log instanceof ethers.EventLog);
+      const block = await provider.getBlock(toBlock);
+
+      meta = {
+        lastBlock: toBlock,
+        recentBlocks: [...meta.recentBlocks, { number: toBlock, hash: block.hash }].slice(-REORG_SAFE_DEPTH)
+      };
+
+      await writeBatch(logs, meta, chainId);
+      setStatus({ lastBlock: toBlock });
+    }
+  } catch (error) {
+    console.error('Error syncing contract events:', error);
+    setStatus({ error: error instanceof Error ? error.message : 'Failed to sync events' });
+  } finally {
+    syncingChains.delete(chainId);
+    setStatus({ isSyncing: false });
+  }
+}
+
+// The current start, set before the first await so a stop in between is noticed
+let activeRun: object | null = null;
+let stopListening: (() => void) | null = null;
+
+// Backfill from the contract's deployment block and follow new blocks live
+export async function startEventIndexer(): Promise<void> {
+  if (activeRun) return;
+
+  try {
+    getStartBlock();
+  } catch (error) {
+    useIndexerStore.setState({ error: error.message });
+    throw error;
+  }
+
+  const run = {};
+  activeRun = run;
+
+  try {
+    const contract = await getContractReadOnly();
+    if (activeRun !== run) return;
+
+    const provider = contract.runner.provider;
+    const handleBlock = () => {
+      syncEvents();
+    };
+
+    await provider.on('block', handleBlock);
+    if (activeRun !== run) {
+      // Stopped while the listener was being added
+      provider.off('block', handleBlock);
+      return;
+    }
+    stopListening = () => {
+      provider.off('block', handleBlock);
+    };
+  } catch (error) {
+    if (activeRun === run) activeRun = null;
+    throw error;
+  }
+
+  await syncEvents();
+}
+
+// Stop following new blocks (the persisted index is kept)
+export function stopEventIndexer(): void {
+  activeRun = null;
+  if (stopListening) {
+    stopListening();
+    stopListening = null;
+  }
+}
+
+// Drop the whole index so the next sync replays from the deployment block
+export async function resetEventIndex(): Promise<void> {
+  const startBlock = getStartBlock();
+  await rollbackTo(startBlock - 1, { lastBlock: startBlock - 1, recentBlocks: [] });
+  useIndexerStore.setState({ lastBlock: null });
+}
+
+// Get all indexed projects with their current access level applied
+export async function getIndexedProjects(): Promise<IndexedProject[]> {
+  const [projects, accessChanges] = await Promise.all([
+    readAll<IndexedProject>('projects'),
+    readAll<IndexedAccessChange>('accessChanges')
+  ]);
+
+  // Records come back in chain order, so the last change per project wins
+  const currentAccess = new Map<number, AccessLevel>();
+  accessChanges.forEach(change => currentAccess.set(change.projectId, change.newAccessLevel));
+
+  return projects.map(project => ({
+    ...project,
+    accessLevel: currentAccess.get(project.projectId) ?? project.accessLevel
+  }));
+}
+
+// Get the access level history of a project, oldest first
+export async function getIndexedAccessChanges(projectId?: number): Promise<IndexedAccessChange[]> {
+  const changes = await readAll<IndexedAccessChange>('accessChanges');
+  return projectId === undefined ? changes : changes.filter(change => change.projectId === projectId);
+}
+
+// Get all indexed institutions
+export async function getIndexedInstitutions(): Promise<IndexedInstitution[]> {
+  return readAll<IndexedInstitution>('institutions');
+}
+
+// Get all indexed departments, optionally for a single institution
+export async function getIndexedDepartments(institutionId?: number): Promise<IndexedDepartment[]> {
+  const departments = await readAll<IndexedDepartment>('departments');
+  return institutionId === undefined
+    ? departments
+    : departments.filter(department => department.institutionId === institutionId);
+}
+
+// Get all indexed user registrations (latest registration per address)
+export async function getIndexedUsers(): Promise<IndexedUser[]> {
+  const users = await readAll<IndexedUser>('users');
+  const latest = new Map<string, IndexedUser>();
+  users.forEach(user => latest.set(user.user, user));
+  return [...latest.values()];
+}
@@ -0,0 +1,131 @@
+import { Cid, parseCid } from '@/lib/cid';
+import { readFileFromCar } from '@/lib/car';
+import { KUBO_GATEWAY_URL } from '@/lib/kubo';
+import { getMemoryContent } from '@/lib/memoryStorage';
+import { PINATA_GATEWAY_URL } from '@/lib/pinata';
+import { STORAGE_PROVIDER } from '@/lib/storage';
+
+// Verified IPFS downloads with gateway failover.
+// Gateways are tried in order until one returns content that matches the CID.
+// Content is requested as a CAR so every block can be checked in the browser,
+// a gateway that is down, slow or serves the wrong bytes is simply skipped.
+
+const PUBLIC_GATEWAYS = ['https://ipfs.io', 'https://dweb.link'];
+
+// Ordered gateway list (comma separated base URLs, from .env file), defaults to the
+// storage provider's own gateway, then a local node, then public gateways
+export const IPFS_GATEWAYS: string[] = (
+  import.meta.env.VITE_IPFS_GATEWAYS
+    ? import.meta.env.VITE_IPFS_GATEWAYS.split(',')
+    : STORAGE_PROVIDER === 'kubo'
+      ? [KUBO_GATEWAY_URL, PINATA_GATEWAY_URL, ...PUBLIC_GATEWAYS]
+      : [PINATA_GATEWAY_URL, KUBO_GATEWAY_URL, ...PUBLIC_GATEWAYS]
+).map((url: string) => url.trim().replace(/\/+$/, '')).filter(Boolean);
+
+// How long a single gateway may take to deliver the content (from .env file)
+export const GATEWAY_TIMEOUT_MS = Number(import.meta.env.VITE_GATEWAY_TIMEOUT_MS || 20000);
+
+// Reported for content this session pinned to the in-memory provider
+export const MEMORY_GATEWAY = 'memory';
+
+export interface GatewayAttempt {
+  gateway: string;
+  error: string;
+}
+
+export interface IpfsFetchResult {
+  data: ArrayBuffer;
+  gateway: string; // Gateway that served the content
+  failedAttempts: GatewayAttempt[]; // Gateways tried before it
+}
+
+export interface IpfsFetchOptions {
+  gateways?: string[];
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+// Short name of a gateway for the UI
+export const getGatewayLabel = (gateway: string): string => {
+  if (gateway === MEMORY_GATEWAY) return 'this browser';
+  try {
+    return new URL(gateway).host;
+  } catch {
+    return gateway;
+  }
+};
+
+// Download the CAR for a CID path from one gateway and read the verified file out of it
+async function fetchVerified(
+  gateway: string,
+  cid: string,
+  root: Cid,
+  path: string[],
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<ArrayBuffer> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(new Error(`Timed out after ${timeoutMs / 1000}s`)), timeoutMs);
+  const abort = () => controller.abort(signal.reason);
+  signal?.addEventListener('abort', abort);
+
+  try {
+    // A query parameter instead of an Accept header keeps this a simple CORS request
+    const encodedPath = path.map(encodeURIComponent).join('/');
+    const url = `${gateway}/ipfs/${cid}${encodedPath ? `/${encodedPath}` : ''}?format=car`;
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+    }
+
+    const car = new Uint8Array(await response.arrayBuffer());
+    const content = await readFileFromCar(car, root, path);
+    return content.buffer as ArrayBuffer;
+  } catch (error) {
+    // Report why the request was aborted rather than a generic AbortError
+    throw controller.signal.aborted && !signal?.aborted ? controller.signal.reason : error;
+  } finally {
+    clearTimeout(timeout);
+    signal?.removeEventListener('abort', abort);
+  }
+}
+
+/**
+ * Download content from IPFS and verify it against its CID
+ * @param cidPath A CID, optionally followed by a path inside a directory ("cid/code/main.py")
+ * @param options Gateways to try in order, per-gateway timeout and an abort signal
+ * @returns The verified content and the gateway that served it
+ */
+export async function fetchFromIpfs(cidPath: string, options: IpfsFetchOptions = {}): Promise<IpfsFetchResult> {
+  const { gateways = IPFS_GATEWAYS, timeoutMs = GATEWAY_TIMEOUT_MS, signal } = options;
+
+  // Content pinned to the in-memory provider never left the browser
+  if (STORAGE_PROVIDER === 'memory') {
+    const blob = getMemoryContent(cidPath);
+    if (blob) {
+      return { data: await blob.arrayBuffer(), gateway: MEMORY_GATEWAY, failedAttempts: [] };
+    }
+  }
+
+  const [cid, ...path] = cidPath.split('/').filter(Boolean);
+  const root = parseCid(cid);
+  const failedAttempts: GatewayAttempt[] = [];
+
+  for (const gateway of gateways) {
+    signal?.throwIfAborted();
+
+    try {
+      const data = await fetchVerified(gateway, cid, root, path, timeoutMs, signal);
+      return { data, gateway, failedAttempts };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`IPFS gateway ${gateway} failed for ${cidPath}:`, message);
+      failedAttempts.push({ gateway, error: message });
+    }
+  }
+
+  const summary = failedAttempts.map(attempt => `${getGatewayLabel(attempt.gateway)}: ${attempt.error}`).join('; ');
+  throw new Error(`Could not download ${cidPath} from any IPFS gateway (${summary})`);
+}
@@ -0,0 +1,189 @@
+import axios from 'axios';
+import type { DirectoryEntry, PinInfo, PinOptions, PinStatus, StorageProvider } from '@/lib/storage';
+
+// Kubo (go-ipfs) RPC API and gateway of a local IPFS daemon (from .env file).
+// The daemon must allow the app's origin, e.g.
+// ipfs config --json API.HTTPHeaders.Access-Control-Allow-Origin '["http://localhost:8080"]'
+const KUBO_API_URL = import.meta.env.VITE_KUBO_API_URL || 'http://127.0.0.1:5001';
+export const KUBO_GATEWAY_URL = import.meta.env.VITE_KUBO_GATEWAY_URL || 'http://127.0.0.1:8080';
+
+const RPC_URL = `${KUBO_API_URL}/api/v0`;
+
+/**
+ * Add and pin a file on the Kubo node
+ * @param file The file to add
+ * @param options Optional progress callback and abort signal
+ * @returns The IPFS hash (CID) of the file
+ */
+export async function addFileToKubo(file: Blob, fileName?: string, options: PinOptions = {}): Promise<string> {
+  try {
+    const formData = new FormData();
+    formData.append('file', file, fileName);
+
+    // CIDv0 to match what Pinata returns
+    const response = await axios.post(`${RPC_URL}/add`, formData, {
+      params: { pin: true, 'cid-version': 0 },
+      signal: options.signal,
+      onUploadProgress: (event) => options.onProgress?.(event.loaded, event.total ?? file.size)
+    });
+
+    return response.data.Hash;
+  } catch (error) {
+    console.error('Error adding file to Kubo:', error);
+    throw error;
+  }
+}
+
+/**
+ * Add and pin JSON data on the Kubo node
+ * @param jsonData The JSON data to add
+ * @param name Optional name for the JSON file
+ * @returns The IPFS hash (CID) of the JSON
+ */
+export async function addJsonToKubo(jsonData: Record<string, unknown>, name?: string): Promise<string> {
+  const blob = new Blob([JSON.stringify(jsonData)], { type: 'application/json' });
+  return addFileToKubo(blob, name || 'project-metadata.json');
+}
+
+/**
+ * Add and pin several files on the Kubo node as one directory
+ * @param entries The files and their paths inside the directory
+ * @param name Name of the directory
+ * @param options Optional progress callback and abort signal
+ * @returns The IPFS hash (CID) of the directory
+ */
+export async function addDirectoryToKubo(
+  entries: DirectoryEntry[],
+  name: string,
+  options: PinOptions = {}
+): Promise<string> {
+  try {
+    // Kubo needs every directory announced before the files inside it
+    const directories = new Set<string>([name]);
+    entries.forEach(entry => {
+      const parts = entry.path.split('/').slice(0, -1);
+      parts.forEach((_, index) => directories.add(`${name}/${parts.slice(0, index + 1).join('/')}`));
+    });
+
+    const formData = new FormData();
+    [...directories].sort().forEach(directory => {
+      formData.append('file', new Blob([], { type: 'application/x-directory' }), encodeURIComponent(directory));
+    });
+    entries.forEach(entry => {
+      formData.append('file', entry.content, encodeURIComponent(`${name}/${entry.path}`));
+    });
+
+    const totalSize = entries.reduce((total, entry) => total + entry.content.size, 0);
+    const response = await axios.post(`${RPC_URL}/add`, formData, {
+      params: { pin: true, 'cid-version': 0 },
+      responseType: 'text',
+      signal: options.signal,
+      onUploadProgress: (event) => options.onProgress?.(event.loaded, event.total ?? totalSize)
+    });
+
+    // One JSON object per added file and directory, the root directory is named after the bundle
+    const added: { Name: string; Hash: string }[] = String(response.data)
+      .split('\n')
+      .filter(Boolean)
+      .map(line => JSON.parse(line));
+    const root = added.find(item => item.Name === name);
+    if (!root) {
+      throw new Error('Kubo did not return the directory CID');
+    }
+
+    return root.Hash;
+  } catch (error) {
+    console.error('Error adding directory to Kubo:', error);
+    throw error;
+  }
+}
+
+/**
+ * Remove a recursive pin from the Kubo node
+ * @param cid The IPFS CID (hash) to unpin
+ */
+export async function unpinFromKubo(cid: string): Promise<void> {
+  try {
+    await axios.post(`${RPC_URL}/pin/rm`, null, { params: { arg: cid } });
+  } catch (error) {
+    // Kubo answers 500 with "not pinned" for content that has no pin
+    if (axios.isAxiosError(error) && /not pinned/.test(error.response?.data?.Message ?? '')) {
+      return;
+    }
+    console.error('Error unpinning from Kubo:', error);
+    throw error;
+  }
+}
+
+/**
+ * Check whether a CID is pinned on the Kubo node
+ * @param cid The IPFS CID (hash)
+ * @returns The pin status
+ */
+export async function getKuboPinStatus(cid: string): Promise<PinStatus> {
+  try {
+    const response = await axios.post(`${RPC_URL}/pin/ls`, null, { params: { arg: cid, type: 'recursive' } });
+    return response.data.Keys?.[cid] ? 'pinned' : 'unpinned';
+  } catch (error) {
+    if (axios.isAxiosError(error) && /not pinned/.test(error.response?.data?.Message ?? '')) {
+      return 'unpinned';
+    }
+    console.error('Error checking pin status on Kubo:', error);
+    throw error;
+  }
+}
+
+/**
+ * Pin content by its CID on the Kubo node, fetching it from the network if needed
+ * @param cid The IPFS CID (hash) to pin
+ */
+export async function repinOnKubo(cid: string): Promise<void> {
+  try {
+    await axios.post(`${RPC_URL}/pin/add`, null, { params: { arg: cid, recursive: true } });
+  } catch (error) {
+    console.error('Error pinning on Kubo:', error);
+    throw error;
+  }
+}
+
+/**
+ * List the recursive pins of the Kubo node
+ * @returns The pins with their cumulative size
+ */
+export async function listKuboPins(): Promise<PinInfo[]> {
+  try {
+    const response = await axios.post(`${RPC_URL}/pin/ls`, null, { params: { type: 'recursive' } });
+    const cids = Object.keys(response.data.Keys ?? {});
+
+    // Kubo does not store pin sizes, stat every pinned DAG (local, so this is quick)
+    return Promise.all(cids.map(async (cid): Promise<PinInfo> => {
+      const stat = await axios.post(`${RPC_URL}/files/stat`, null, { params: { arg: `/ipfs/${cid}` } });
+      return { cid, size: stat.data.CumulativeSize ?? 0, status: 'pinned' };
+    }));
+  } catch (error) {
+    console.error('Error listing pins on Kubo:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the Kubo gateway URL for a given CID
+ * @param cid The IPFS CID (hash)
+ * @returns The gateway URL
+ */
+export function getKuboGatewayUrl(cid: string): string {
+  return `${KUBO_GATEWAY_URL}/ipfs/${cid}`;
+}
+
+// Storage provider backed by a local Kubo daemon, for offline machines
+export const kuboStorageProvider: StorageProvider = {
+  name: 'kubo',
+  pinFile: (file, metadata, options) => addFileToKubo(file, file.name, options),
+  pinJson: addJsonToKubo,
+  pinDirectory: addDirectoryToKubo,
+  unpin: unpinFromKubo,
+  repin: repinOnKubo,
+  status: getKuboPinStatus,
+  listPins: listKuboPins,
+  gatewayUrl: getKuboGatewayUrl
+};
@@ -0,0 +1,107 @@
+import type { PinInfo, PinStatus, StorageProvider } from '@/lib/storage';
+import { encodeBase32 } from '@/lib/cid';
+
+// In-memory storage for development and tests, content is lost on reload.
+// CIDs are real CIDv1 (raw codec, sha2-256), so they match what an IPFS node
+// would return for the same bytes added with --raw-leaves and --cid-version 1.
+
+// Public gateway used for CIDs this session never stored
+const FALLBACK_GATEWAY_URL = 'https://ipfs.io/ipfs';
+
+const pinned = new Map<string, Blob>();
+const directories = new Map<string, Map<string, Blob>>(); // Directory CID -> path -> content
+const objectUrls = new Map<string, string>();
+const unpinned = new Map<string, Blob | Map<string, Blob>>(); // Kept so an unpinned CID can be pinned again
+
+// Compute the CIDv1 of a blob's bytes
+export async function computeRawCid(blob: Blob): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer()));
+
+  // <version 1><raw codec 0x55><sha2-256 0x12><32 byte digest>
+  const cid = new Uint8Array([0x01, 0x55, 0x12, 0x20, ...digest]);
+  return `b${encodeBase32(cid)}`;
+}
+
+async function pinBlob(blob: Blob): Promise<string> {
+  const cid = await computeRawCid(blob);
+  pinned.set(cid, blob);
+  return cid;
+}
+
+// Read content this session pinned, "cid/path" looks inside a pinned directory
+export function getMemoryContent(cidPath: string): Blob | undefined {
+  const [cid, ...path] = cidPath.split('/');
+  return path.length > 0 ? directories.get(cid)?.get(path.join('/')) : pinned.get(cid);
+}
+
+// Storage provider that keeps pinned content in memory
+export const memoryStorageProvider: StorageProvider = {
+  name: 'memory',
+
+  pinFile: async (file, metadata, options = {}) => {
+    options.signal?.throwIfAborted();
+    const cid = await pinBlob(file);
+    options.onProgress?.(file.size, file.size);
+    return cid;
+  },
+
+  pinJson: async (jsonData) => pinBlob(new Blob([JSON.stringify(jsonData)], { type: 'application/json' })),
+
+  // Directory CIDs here hash the sorted listing of file CIDs, they are stable but not UnixFS CIDs
+  pinDirectory: async (entries, name, options = {}) => {
+    options.signal?.throwIfAborted();
+
+    const listing = await Promise.all(entries.map(async entry => [entry.path, await computeRawCid(entry.content)]));
+    const cid = await computeRawCid(new Blob([JSON.stringify(listing.sort())]));
+    directories.set(cid, new Map(entries.map(entry => [entry.path, entry.content])));
+
+    const totalSize = entries.reduce((total, entry) => total + entry.content.size, 0);
+    options.onProgress?.(totalSize, totalSize);
+    return cid;
+  },
+
+  unpin: async (cid) => {
+    const content = pinned.get(cid) ?? directories.get(cid);
+    if (content) unpinned.set(cid, content);
+    pinned.delete(cid);
+    directories.delete(cid);
+    const url = objectUrls.get(cid);
+    if (url) {
+      URL.revokeObjectURL(url);
+      objectUrls.delete(cid);
+    }
+  },
+
+  // There is no network to fetch from, only content unpinned this session can come back
+  repin: async (cid) => {
+    const content = unpinned.get(cid);
+    if (!content) {
+      throw new Error(`${cid} is not available in memory storage`);
+    }
+
+    if (content instanceof Map) directories.set(cid, content);
+    else pinned.set(cid, content);
+    unpinned.delete(cid);
+  },
+
+  status: async (cid): Promise<PinStatus> => (pinned.has(cid) || directories.has(cid) ? 'pinned' : 'unpinned'),
+
+  listPins: async (): Promise<PinInfo[]> => [
+    ...[...pinned].map(([cid, blob]) => ({ cid, size: blob.size, status: 'pinned' as const })),
+    ...[...directories].map(([cid, files]) => ({
+      cid,
+      size: [...files.values()].reduce((total, blob) => total + blob.size, 0),
+      status: 'pinned' as const
+    }))
+  ],
+
+  gatewayUrl: (cid) => {
+    const blob = getMemoryContent(cid);
+    if (!blob) return `${FALLBACK_GATEWAY_URL}/${cid}`;
+
+    if (!objectUrls.has(cid)) {
+      objectUrls.set(cid, URL.createObjectURL(blob));
+    }
+    return objectUrls.get(cid);
+  }
+};
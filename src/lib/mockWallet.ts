@@ -0,0 +1,134 @@
+import { ethers } from 'ethers';
+import { DEFAULT_CHAIN_ID, getChainConfig, toHexChainId } from '@/lib/chains';
+import { EIP1193Provider, EIP1193RequestArguments, announceProvider } from '@/lib/eip6963';
+
+// Mock injected wallet for development and testing without a browser extension.
+// Enabled with VITE_MOCK_WALLET=true, signs with VITE_MOCK_WALLET_PRIVATE_KEY
+// (defaults to the first Hardhat/Anvil test account).
+
+export const MOCK_WALLET_RDNS = 'dev.univault.mockwallet';
+
+const HARDHAT_TEST_PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+const MOCK_WALLET_ICON = 'data:image/svg+xml;base64,' + btoa(
+  '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 32 32"><rect width="32" height="32" rx="6" fill="#1e3a8a"/>' +
+  '<text x="16" y="22" font-size="16" text-anchor="middle" fill="#facc15" font-family="sans-serif">M</text></svg>'
+);
+
+interface MockWalletOptions {
+  privateKey?: string;
+  chainId?: number;
+}
+
+interface TransactionRequestParams {
+  to?: string;
+  data?: string;
+  value?: string;
+  gas?: string;
+}
+
+// Error shape wallets use for EIP-1193 failures
+const providerError = (code: number, message: string) => Object.assign(new Error(message), { code });
+
+// Create an EIP-1193 provider that signs with a local key and forwards reads to the chain's RPC
+export function createMockWalletProvider(options: MockWalletOptions = {}): EIP1193Provider {
+  const wallet = new ethers.Wallet(options.privateKey || HARDHAT_TEST_PRIVATE_KEY);
+  const listeners = new Map<string, Set<(...args: unknown[]) => void>>();
+  let chainId = options.chainId ?? DEFAULT_CHAIN_ID;
+  let isAuthorized = false;
+
+  const emit = (event: string, ...args: unknown[]) => {
+    listeners.get(event)?.forEach(listener => listener(...args));
+  };
+
+  const getSigner = () => {
+    const chain = getChainConfig(chainId);
+    if (!chain) {
+      throw providerError(4901, `Mock wallet is not connected to a supported chain (${chainId})`);
+    }
+    const network = ethers.Network.from(chainId);
+    return wallet.connect(new ethers.JsonRpcProvider(chain.rpcUrl, network, { staticNetwork: network }));
+  };
+
+  const request = async ({ method, params = [] }: EIP1193RequestArguments) => {
+    const args = Array.isArray(params) ? params : [params];
+
+    switch (method) {
+      case 'eth_requestAccounts':
+        isAuthorized = true;
+        emit('accountsChanged', [wallet.address]);
+        return [wallet.address];
+
+      case 'eth_accounts':
+        return isAuthorized ? [wallet.address] : [];
+
+      case 'eth_chainId':
+        return toHexChainId(chainId);
+
+      case 'wallet_switchEthereumChain': {
+        const { chainId: hexChainId } = args[0] as { chainId: string };
+        const nextChainId = parseInt(hexChainId, 16);
+        if (!getChainConfig(nextChainId)) {
+          throw providerError(4902, `Unrecognized chain ID ${hexChainId}`);
+        }
+        if (nextChainId !== chainId) {
+          chainId = nextChainId;
+          emit('chainChanged', hexChainId);
+        }
+        return null;
+      }
+
+      case 'wallet_addEthereumChain':
+        return null;
+
+      case 'personal_sign': {
+        // Params are [message, address], message is hex encoded
+        const message = args[0] as string;
+        return wallet.signMessage(ethers.isHexString(message) ? ethers.getBytes(message) : message);
+      }
+
+      case 'eth_sendTransaction': {
+        const tx = args[0] as TransactionRequestParams;
+        const response = await getSigner().sendTransaction({
+          to: tx.to,
+          data: tx.data,
+          value: tx.value ? BigInt(tx.value) : undefined,
+          gasLimit: tx.gas ? BigInt(tx.gas) : undefined
+        });
+        return response.hash;
+      }
+
+      default:
+        // Everything else is a read, let the node answer it
+        return (getSigner().provider as ethers.JsonRpcProvider).send(method, args);
+    }
+  };
+
+  return {
+    request: request as EIP1193Provider['request'],
+    on: (event, listener) => {
+      if (!listeners.has(event)) listeners.set(event, new Set());
+      listeners.get(event).add(listener);
+    },
+    removeListener: (event, listener) => {
+      listeners.get(event)?.delete(listener);
+    }
+  };
+}
+
+// Announce the mock wallet through EIP-6963 when enabled in the .env file
+export function installMockWallet(): void {
+  if (import.meta.env.VITE_MOCK_WALLET !== 'true') return;
+
+  announceProvider({
+    info: {
+      uuid: crypto.randomUUID(),
+      name: 'Mock Wallet',
+      icon: MOCK_WALLET_ICON,
+      rdns: MOCK_WALLET_RDNS
+    },
+    provider: createMockWalletProvider({
+      privateKey: import.meta.env.VITE_MOCK_WALLET_PRIVATE_KEY
+    })
+  });
+}
@@ -0,0 +1,101 @@
+import { ProjectSummary } from '@/lib/blockchain';
+import { mockDepartmentsByInstitution } from '@/components/InstitutionData';
+
+// Roles a wallet can hold, derived from the contract's UserInfo
+export type Role = 'guest' | 'student' | 'institutionAdmin' | 'superAdmin';
+
+// Everything the permission checks need to know about the current user
+export interface UserRoles {
+  address: string | null;
+  role: Role; // Highest role held
+  isRegistered: boolean;
+  isStudent: boolean;
+  isInstitutionAdmin: boolean;
+  isSuperAdmin: boolean;
+  departmentId: number | null;
+  institutionId: number | null;
+}
+
+export const GUEST_ROLES: UserRoles = {
+  address: null,
+  role: 'guest',
+  isRegistered: false,
+  isStudent: false,
+  isInstitutionAdmin: false,
+  isSuperAdmin: false,
+  departmentId: null,
+  institutionId: null
+};
+
+// Build the role set for a wallet from its on-chain user info
+export const resolveRoles = (
+  address: string,
+  info: { isRegistered: boolean; isStudent: boolean; isAdmin: boolean; departmentId: number; institutionId: number },
+  isInstitutionAdmin: boolean
+): UserRoles => {
+  const role: Role = info.isAdmin
+    ? 'superAdmin'
+    : isInstitutionAdmin
+      ? 'institutionAdmin'
+      : info.isRegistered && info.isStudent
+        ? 'student'
+        : 'guest';
+
+  return {
+    address,
+    role,
+    isRegistered: info.isRegistered,
+    isStudent: info.isRegistered && info.isStudent,
+    isInstitutionAdmin,
+    isSuperAdmin: info.isAdmin,
+    departmentId: info.isRegistered ? info.departmentId : null,
+    institutionId: info.isRegistered ? info.institutionId : null
+  };
+};
+
+// Find the institution a department belongs to
+export const getInstitutionIdForDepartment = (departmentId: number): number | undefined => {
+  const entry = Object.entries(mockDepartmentsByInstitution)
+    .find(([, departments]) => departments.some(department => department.id === departmentId));
+  return entry ? Number(entry[0]) : undefined;
+};
+
+// Like the contract, a project's institution follows from its department. The stored institutionId
+// only counts for departments missing from the list, the backend's PROJECT_INSTITUTION does the same.
+export const getProjectInstitutionId = (project: ProjectSummary): number | undefined => {
+  return getInstitutionIdForDepartment(project.departmentId) ?? project.institutionId;
+};
+
+const isAuthorOf = (user: UserRoles, project: ProjectSummary): boolean => {
+  return !!user.address && project.authors.some(
+    author => author.toLowerCase() === user.address.toLowerCase()
+  );
+};
+
+// Registered students and admins can register projects
+export const canUpload = (user: UserRoles): boolean => {
+  return !!user.address && (user.isStudent || user.isInstitutionAdmin || user.isSuperAdmin);
+};
+
+// Authors, admins of the project's institution and super admins can change its access level
+export const canChangeAccess = (user: UserRoles, project: ProjectSummary): boolean => {
+  if (!project || !user.address) return false;
+  if (user.isSuperAdmin || isAuthorOf(user, project)) return true;
+
+  return user.isInstitutionAdmin && getProjectInstitutionId(project) === user.institutionId;
+};
+
+// Super admins manage every institution, institution admins only their own
+export const canManageStudents = (user: UserRoles, institutionId: number): boolean => {
+  if (user.isSuperAdmin) return true;
+  return user.isInstitutionAdmin && user.institutionId === institutionId;
+};
+
+export const canAccessAdmin = (user: UserRoles): boolean => {
+  return user.isSuperAdmin || user.isInstitutionAdmin;
+};
+
+// Pins are shared by every institution and orphans belong to none, so only super admins manage them
+export const canManagePins = (user: UserRoles): boolean => {
+  return user.isSuperAdmin;
+};
@@ -1,51 +1,57 @@
 import axios from 'axios';
+import type { DirectoryEntry, PinInfo, PinOptions, PinStatus, StorageProvider } from '@/lib/storage';
+import { API_URL, ensureSession, getAuthHeaders } from '@/services/authService';
 
-// Pinata API endpoints
-const PINATA_API_URL = 'https://api.pinata.cloud';
-const PIN_FILE_ENDPOINT = `${PINATA_API_URL}/pinning/pinFileToIPFS`;
-const PIN_JSON_ENDPOINT = `${PINATA_API_URL}/pinning/pinJSONToIPFS`;
+// Pinata is reached through the backend (see backend/routes/pins.js), which holds the API keys.
+// Uploads need a single-use token minted for the signed-in wallet, listing and unpinning
+// need a super admin session.
+const PINS_URL = `${API_URL}/pins`;
 
-// In Vite, environment variables are exposed through import.meta.env instead of process.env
-const PINATA_API_KEY = import.meta.env.VITE_PINATA_API_KEY || '';
-const PINATA_API_SECRET = import.meta.env.VITE_PINATA_API_SECRET || '';
+// Pinata's dedicated gateway
+export const PINATA_GATEWAY_URL = 'https://gateway.pinata.cloud';
+
+type UploadScope = 'file' | 'directory' | 'json';
+
+// Ask the backend for a token that allows one upload of this size, counted against the wallet's quota
+async function requestUploadToken(scope: UploadScope, size: number, signal?: AbortSignal): Promise<string> {
+  await ensureSession();
+
+  const response = await axios.post<{ token: string }>(
+    `${PINS_URL}/tokens`,
+    { scope, size },
+    { headers: getAuthHeaders(), signal }
+  );
+  return response.data.token;
+}
 
 /**
  * Upload a file to IPFS via Pinata
  * @param file The file to upload
  * @param metadata Optional metadata for the file
+ * @param options Optional progress callback and abort signal
  * @returns The IPFS hash (CID) of the uploaded file
  */
-export async function uploadFileToPinata(file: File, metadata?: Record<string, any>): Promise<string> {
+export async function uploadFileToPinata(
+  file: File,
+  metadata?: Record<string, string>,
+  options: PinOptions = {}
+): Promise<string> {
   try {
+    const token = await requestUploadToken('file', file.size, options.signal);
+
     const formData = new FormData();
     formData.append('file', file);
-
-    // Add metadata if provided
     if (metadata) {
-      formData.append('pinataMetadata', JSON.stringify({
-        name: metadata.name || file.name,
-        keyvalues: metadata
-      }));
+      formData.append('metadata', JSON.stringify(metadata));
     }
 
-    // Add options for pinning
-    formData.append('pinataOptions', JSON.stringify({
-      cidVersion: 0
-    }));
-
-    const response = await axios.post(PIN_FILE_ENDPOINT, formData, {
-      headers: {
-        'Content-Type': `multipart/form-data;`,
-        pinata_api_key: PINATA_API_KEY,
-        pinata_secret_api_key: PINATA_API_SECRET
-      }
+    const response = await axios.post<{ cid: string }>(`${PINS_URL}/file`, formData, {
+      headers: { 'X-Upload-Token': token },
+      signal: options.signal,
+      onUploadProgress: (event) => options.onProgress?.(event.loaded, event.total ?? file.size)
     });
 
-    if (response.status === 200) {
-      return response.data.IpfsHash;
-    } else {
-      throw new Error(`Failed to upload file to Pinata: ${response.statusText}`);
-    }
+    return response.data.cid;
   } catch (error) {
     console.error('Error uploading to Pinata:', error);
     throw error;
@@ -58,31 +64,18 @@ export async function uploadFileToPinata(file: File, metadata?: Record<string, a
  * @param name Optional name for the JSON file
  * @returns The IPFS hash (CID) of the uploaded JSON
  */
-export async function uploadJsonToPinata(jsonData: Record<string, any>, name?: string): Promise<string> {
+export async function uploadJsonToPinata(jsonData: Record<string, unknown>, name?: string): Promise<string> {
   try {
-    const data = {
-      pinataContent: jsonData,
-      pinataMetadata: {
-        name: name || 'project-metadata.json'
-      },
-      pinataOptions: {
-        cidVersion: 0
-      }
-    };
-
-    const response = await axios.post(PIN_JSON_ENDPOINT, data, {
-      headers: {
-        'Content-Type': 'application/json',
-        pinata_api_key: PINATA_API_KEY,
-        pinata_secret_api_key: PINATA_API_SECRET
-      }
-    });
+    const size = new Blob([JSON.stringify(jsonData)]).size;
+    const token = await requestUploadToken('json', size);
 
-    if (response.status === 200) {
-      return response.data.IpfsHash;
-    } else {
-      throw new Error(`Failed to upload JSON to Pinata: ${response.statusText}`);
-    }
+    const response = await axios.post<{ cid: string }>(
+      `${PINS_URL}/json`,
+      { data: jsonData, name: name || 'project-metadata.json' },
+      { headers: { 'X-Upload-Token': token } }
+    );
+
+    return response.data.cid;
   } catch (error) {
     console.error('Error uploading JSON to Pinata:', error);
     throw error;
@@ -90,20 +83,115 @@ export async function uploadJsonToPinata(jsonData: Record<string, any>, name?: s
 }
 
 /**
- * Get the IPFS gateway URL for a given CID
+ * Upload several files to IPFS via Pinata as one directory
+ * @param entries The files and their paths inside the directory
+ * @param name Name of the directory
+ * @param options Optional progress callback and abort signal
+ * @returns The IPFS hash (CID) of the directory
+ */
+export async function uploadDirectoryToPinata(
+  entries: DirectoryEntry[],
+  name: string,
+  options: PinOptions = {}
+): Promise<string> {
+  try {
+    const totalSize = entries.reduce((total, entry) => total + entry.content.size, 0);
+    const token = await requestUploadToken('directory', totalSize, options.signal);
+
+    // Each file is named after its path inside the directory
+    const formData = new FormData();
+    formData.append('name', name);
+    entries.forEach(entry => formData.append('file', entry.content, entry.path));
+
+    const response = await axios.post<{ cid: string }>(`${PINS_URL}/directory`, formData, {
+      headers: { 'X-Upload-Token': token },
+      signal: options.signal,
+      onUploadProgress: (event) => options.onProgress?.(event.loaded, event.total ?? totalSize)
+    });
+
+    return response.data.cid;
+  } catch (error) {
+    console.error('Error uploading directory to Pinata:', error);
+    throw error;
+  }
+}
+
+/**
+ * Remove a pin from Pinata
+ * @param cid The IPFS CID (hash) to unpin
+ */
+export async function unpinFromPinata(cid: string): Promise<void> {
+  try {
+    await axios.delete(`${PINS_URL}/${cid}`, { headers: getAuthHeaders() });
+  } catch (error) {
+    console.error('Error unpinning from Pinata:', error);
+    throw error;
+  }
+}
+
+/**
+ * Check whether a CID is pinned on Pinata
  * @param cid The IPFS CID (hash)
- * @returns The gateway URL
+ * @returns The pin status
+ */
+export async function getPinataPinStatus(cid: string): Promise<PinStatus> {
+  try {
+    const response = await axios.get<{ status: PinStatus }>(`${PINS_URL}/${cid}/status`, {
+      headers: getAuthHeaders()
+    });
+
+    return response.data.status;
+  } catch (error) {
+    console.error('Error checking pin status on Pinata:', error);
+    throw error;
+  }
+}
+
+/**
+ * Ask Pinata to pin content that is already on the IPFS network
+ * @param cid The IPFS CID (hash) to pin
  */
-export function getIpfsGatewayUrl(cid: string): string {
-  // Using Pinata's dedicated gateway
-  return `https://gateway.pinata.cloud/ipfs/${cid}`;
+export async function repinOnPinata(cid: string): Promise<void> {
+  try {
+    await axios.post(`${PINS_URL}/${cid}/repin`, null, { headers: getAuthHeaders() });
+  } catch (error) {
+    console.error('Error pinning by hash on Pinata:', error);
+    throw error;
+  }
+}
+
+/**
+ * List every active pin of the Pinata account
+ * @returns The pins with their size and pin date
+ */
+export async function listPinataPins(): Promise<PinInfo[]> {
+  try {
+    const response = await axios.get<{ pins: PinInfo[] }>(PINS_URL, { headers: getAuthHeaders() });
+    return response.data.pins;
+  } catch (error) {
+    console.error('Error listing pins on Pinata:', error);
+    throw error;
+  }
 }
 
 /**
- * Get the IPFS URL for a given CID
+ * Get the Pinata gateway URL for a given CID
  * @param cid The IPFS CID (hash)
- * @returns The IPFS URL
+ * @returns The gateway URL
  */
-export function getIpfsUrl(cid: string): string {
-  return `ipfs://${cid}`;
+export function getPinataGatewayUrl(cid: string): string {
+  return `${PINATA_GATEWAY_URL}/ipfs/${cid}`;
 }
+
+// Storage provider backed by the Pinata pinning service, through the backend
+export const pinataStorageProvider: StorageProvider = {
+  name: 'pinata',
+  pinFile: uploadFileToPinata,
+  pinJson: uploadJsonToPinata,
+  pinDirectory: uploadDirectoryToPinata,
+  unpin: unpinFromPinata,
+  repin: repinOnPinata,
+  status: getPinataPinStatus,
+  listPins: listPinataPins,
+  gatewayUrl: getPinataGatewayUrl
+};
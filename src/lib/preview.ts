@@ -0,0 +1,86 @@
+import { unzipSync } from 'fflate';
+
+// In-browser previews of project files.
+// Everything is rendered from bytes already in memory (verified, and decrypted for
+// restricted projects), so previewing never writes a file to the reader's disk.
+
+export type PreviewKind = 'pdf' | 'archive' | 'image' | 'text' | 'unsupported';
+
+// Larger archive entries are listed but not extracted for preview
+export const MAX_ENTRY_PREVIEW_BYTES = 20 * 1024 * 1024;
+
+// Text above this size is shown without syntax highlighting
+export const MAX_HIGHLIGHT_BYTES = 512 * 1024;
+
+const IMAGE_EXTENSIONS = new Set(['png', 'jpg', 'jpeg', 'gif', 'svg', 'webp', 'bmp']);
+
+const TEXT_EXTENSIONS = new Set([
+  'txt', 'md', 'markdown', 'rst', 'tex', 'bib', 'csv', 'tsv', 'log', 'json', 'xml', 'yaml', 'yml', 'toml', 'ini', 'cfg',
+  'js', 'jsx', 'ts', 'tsx', 'mjs', 'cjs', 'py', 'java', 'kt', 'c', 'h', 'cpp', 'hpp', 'cc', 'cs', 'go', 'rs', 'rb',
+  'php', 'swift', 'scala', 'sol', 'sh', 'bash', 'zsh', 'ps1', 'sql', 'r', 'm', 'lua', 'pl', 'html', 'htm', 'css',
+  'scss', 'less', 'vue', 'svelte', 'gradle', 'makefile', 'dockerfile', 'gitignore', 'env', 'ipynb'
+]);
+
+export interface ArchiveEntry {
+  path: string;
+  size: number; // Uncompressed
+  compressedSize: number;
+}
+
+export const getExtension = (name: string): string => {
+  const fileName = name.split('/').pop().toLowerCase();
+  // Files like "Makefile" or ".gitignore" are named by their type
+  return fileName.includes('.') ? fileName.split('.').pop() : fileName;
+};
+
+// Pick a viewer from the file name, falling back to the MIME type
+export const getPreviewKind = (name: string, mimeType = ''): PreviewKind => {
+  const extension = getExtension(name);
+
+  if (extension === 'pdf' || mimeType === 'application/pdf') return 'pdf';
+  if (extension === 'zip' || mimeType === 'application/zip' || mimeType === 'application/x-zip-compressed') {
+    return 'archive';
+  }
+  if (IMAGE_EXTENSIONS.has(extension) || mimeType.startsWith('image/')) return 'image';
+  if (TEXT_EXTENSIONS.has(extension) || mimeType.startsWith('text/') || mimeType === 'application/json') return 'text';
+  return 'unsupported';
+};
+
+// Single project files are PDFs or ZIPs, recognised by their first bytes
+export const detectFileType = (data: ArrayBuffer): { extension: string; mimeType: string } => {
+  const header = new TextDecoder().decode(data.slice(0, 4));
+  if (header === '%PDF') return { extension: '.pdf', mimeType: 'application/pdf' };
+  if (header.startsWith('PK')) return { extension: '.zip', mimeType: 'application/zip' };
+  return { extension: '', mimeType: 'application/octet-stream' };
+};
+
+// Binary files almost always contain NUL bytes near the start, text files never do
+export const isProbablyText = (data: ArrayBuffer): boolean => {
+  return !new Uint8Array(data.slice(0, 8192)).includes(0);
+};
+
+// List the files in a ZIP archive without decompressing them
+export const listArchiveEntries = (data: Uint8Array): ArchiveEntry[] => {
+  const entries: ArchiveEntry[] = [];
+
+  unzipSync(data, {
+    filter: (file) => {
+      if (!file.name.endsWith('/')) {
+        entries.push({ path: file.name, size: file.originalSize, compressedSize: file.size });
+      }
+      return false;
+    }
+  });
+
+  return entries.sort((a, b) => a.path.localeCompare(b.path));
+};
+
+// Decompress a single archive entry in memory
+export const extractArchiveEntry = (data: Uint8Array, path: string): File => {
+  const extracted = unzipSync(data, { filter: (file) => file.name === path })[path];
+  if (!extracted) {
+    throw new Error(`${path} was not found in the archive`);
+  }
+
+  return new File([extracted], path.split('/').pop());
+};
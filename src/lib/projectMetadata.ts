@@ -0,0 +1,193 @@
+import { z } from 'zod';
+import { AccessLevel, ProjectData } from '@/lib/blockchain';
+import { FileEncryption } from '@/lib/encryption';
+import { getAccessLevelInfo } from '@/lib/accessPolicy';
+
+// Versioned project metadata document.
+// The contract only stores the title, description, department, year and access level,
+// so everything else about a project is pinned to IPFS as one JSON document when it is
+// registered. The contract's single IPFS field then carries both CIDs, which lets the
+// catalogue be rebuilt from the chain and IPFS alone.
+
+export const PROJECT_METADATA_SCHEMA = 'uni-project-vault/project-metadata';
+export const PROJECT_METADATA_VERSION = 1;
+
+// Separates the file CID from the metadata CID in the on-chain IPFS field, CIDs never contain it
+const CONTENT_REFERENCE_SEPARATOR = ',';
+
+// SPDX identifiers offered when uploading
+export const LICENSES: { id: string; label: string }[] = [
+  { id: 'LicenseRef-All-Rights-Reserved', label: 'All rights reserved' },
+  { id: 'CC-BY-4.0', label: 'Creative Commons Attribution 4.0' },
+  { id: 'CC-BY-SA-4.0', label: 'Creative Commons Attribution-ShareAlike 4.0' },
+  { id: 'CC-BY-NC-4.0', label: 'Creative Commons Attribution-NonCommercial 4.0' },
+  { id: 'CC0-1.0', label: 'Public Domain (CC0 1.0)' },
+  { id: 'MIT', label: 'MIT License' },
+  { id: 'Apache-2.0', label: 'Apache License 2.0' },
+  { id: 'GPL-3.0-only', label: 'GNU GPL v3.0' }
+];
+
+export const DEFAULT_LICENSE = LICENSES[0].id;
+
+export const getLicenseLabel = (id: string): string => {
+  return LICENSES.find(license => license.id === id)?.label ?? id;
+};
+
+const addressSchema = z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'Expected a wallet address');
+
+const wrappedKeySchema = z.object({
+  ephemeralPublicKey: z.string(),
+  iv: z.string(),
+  ciphertext: z.string()
+});
+
+const encryptionSchema = z.object({
+  algorithm: z.literal('AES-GCM'),
+  iv: z.string(),
+  fileName: z.string(),
+  mimeType: z.string(),
+  wrappedKeys: z.record(wrappedKeySchema)
+});
+
+const metadataFileSchema = z.object({
+  cid: z.string().min(1),
+  kind: z.enum(['file', 'bundle']), // Bundles are directories described by their own manifest.json
+  name: z.string(),
+  size: z.number().int().nonnegative(),
+  mimeType: z.string().optional(),
+  fileCount: z.number().int().positive().optional()
+});
+
+const projectMetadataV1Schema = z.object({
+  schema: z.literal(PROJECT_METADATA_SCHEMA),
+  version: z.literal(1),
+  title: z.string().min(1),
+  abstract: z.string(),
+  authors: z.array(z.object({
+    address: addressSchema,
+    name: z.string().optional()
+  })).min(1),
+  keywords: z.array(z.string().min(1)),
+  license: z.string().min(1),
+  institutionId: z.number().int().optional(),
+  departmentId: z.number().int().nonnegative(),
+  year: z.number().int(),
+  accessLevel: z.nativeEnum(AccessLevel), // Intended level, the chain holds Private while embargoed
+  createdAt: z.number(),
+  files: z.array(metadataFileSchema),
+  encryption: encryptionSchema.optional(),
+  allowlist: z.array(addressSchema).optional(),
+  embargoUntil: z.number().optional(),
+  aiSummary: z.string().optional()
+});
+
+// Every supported version, new versions are added to the union so old documents still load
+export const projectMetadataSchema = z.discriminatedUnion('version', [projectMetadataV1Schema]);
+
+export type ProjectMetadata = z.infer<typeof projectMetadataSchema>;
+export type MetadataFile = z.infer<typeof metadataFileSchema>;
+
+// Build the metadata document for a project about to be registered
+export const buildProjectMetadata = (
+  project: ProjectData,
+  files: MetadataFile[],
+  authorNames: Record<string, string> = {}
+): ProjectMetadata => {
+  const metadata: ProjectMetadata = {
+    schema: PROJECT_METADATA_SCHEMA,
+    version: PROJECT_METADATA_VERSION,
+    title: project.title,
+    abstract: project.description,
+    authors: project.authors.map(address => ({
+      address,
+      name: authorNames[address.toLowerCase()]
+    })),
+    keywords: project.keywords ?? [],
+    license: project.license ?? DEFAULT_LICENSE,
+    institutionId: project.institutionId,
+    departmentId: project.departmentId,
+    year: project.year,
+    accessLevel: project.accessLevel,
+    createdAt: project.uploadDate,
+    files,
+    encryption: project.encryption,
+    allowlist: project.allowlist,
+    embargoUntil: project.embargoUntil,
+    aiSummary: project.aiSummary
+  };
+
+  // Validate before pinning, a document that fails here would never load again
+  return projectMetadataSchema.parse(metadata);
+};
+
+// A later revision of a document with the project's current access settings, pinned when they change
+// because the contract can only store on-chain levels and its IPFS field never changes
+export const reviseProjectMetadata = (metadata: ProjectMetadata, project: ProjectData): ProjectMetadata => {
+  return projectMetadataSchema.parse({
+    ...metadata,
+    accessLevel: project.accessLevel,
+    allowlist: project.allowlist,
+    embargoUntil: project.embargoUntil,
+    encryption: project.encryption
+  });
+};
+
+// Validate a fetched document, throws with the first problem found
+export const parseProjectMetadata = (data: unknown): ProjectMetadata => {
+  const result = projectMetadataSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid project metadata at ${issue.path.join('.') || 'root'}: ${issue.message}`);
+  }
+  return result.data;
+};
+
+// Value written to the contract's IPFS field
+export const formatContentReference = (fileCid: string, metadataCid?: string): string => {
+  return metadataCid ? `${fileCid}${CONTENT_REFERENCE_SEPARATOR}${metadataCid}` : fileCid;
+};
+
+// Split the contract's IPFS field, projects registered before metadata documents only hold the file CID
+export const parseContentReference = (value: string): { fileCid: string; metadataCid?: string } => {
+  const [fileCid, metadataCid] = value.split(CONTENT_REFERENCE_SEPARATOR);
+  return { fileCid, metadataCid: metadataCid || undefined };
+};
+
+// Combine a project read from the chain with its metadata document.
+// The chain is authoritative for what it stores, the document fills in the rest.
+export const applyProjectMetadata = (
+  chainProject: ProjectData,
+  metadataCid: string,
+  metadata: ProjectMetadata
+): ProjectData => {
+  const hasEmbargo = metadata.embargoUntil !== undefined;
+  const isOffChainLevel = !getAccessLevelInfo(metadata.accessLevel)?.onChain;
+  const file = metadata.files.find(f => f.cid === chainProject.ipfsHash);
+
+  return {
+    ...chainProject,
+    // The chain holds Private while embargoed, until the release is sent, and for department and
+    // allowlist projects, the document knows the level meant
+    accessLevel: (hasEmbargo || isOffChainLevel) && chainProject.accessLevel === AccessLevel.Private
+      ? metadata.accessLevel
+      : chainProject.accessLevel,
+    institutionId: metadata.institutionId ?? chainProject.institutionId,
+    metadataCid,
+    keywords: metadata.keywords,
+    license: metadata.license,
+    aiSummary: metadata.aiSummary,
+    allowlist: metadata.allowlist,
+    // Kept after the date passes, releasing the embargo pins a revision without it
+    embargoUntil: metadata.embargoUntil,
+    // Without strictNullChecks zod infers every field as optional, the schema has checked them
+    encryption: metadata.encryption as FileEncryption,
+    isBundle: file?.kind === 'bundle' || undefined
+  };
+};
+
+// Keywords typed as a comma separated list, trimmed and without duplicates
+export const parseKeywords = (value: string): string[] => {
+  const keywords = value.split(',').map(keyword => keyword.trim()).filter(Boolean);
+  return [...new Set(keywords.map(keyword => keyword.toLowerCase()))]
+    .map(lower => keywords.find(keyword => keyword.toLowerCase() === lower));
+};
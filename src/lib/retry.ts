@@ -0,0 +1,68 @@
+import axios from 'axios';
+
+export interface RetryOptions {
+  retries?: number; // Attempts after the first one
+  baseDelayMs?: number; // Doubled after every failed attempt
+  signal?: AbortSignal;
+  shouldRetry?: (error: unknown) => boolean;
+  onRetry?: (attempt: number, error: unknown) => void;
+}
+
+// Network errors, timeouts, rate limits and server errors are worth another try
+export const isTransientError = (error: unknown): boolean => {
+  if (axios.isCancel(error)) return false;
+  if (!axios.isAxiosError(error)) return false;
+  if (!error.response) return true;
+
+  const { status } = error.response;
+  return status === 408 || status === 429 || status >= 500;
+};
+
+export const isAbortError = (error: unknown): boolean => {
+  return axios.isCancel(error) || (error instanceof DOMException && error.name === 'AbortError');
+};
+
+// Wait for a delay unless the signal aborts first
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', handleAbort);
+      resolve();
+    }, ms);
+
+    const handleAbort = () => {
+      clearTimeout(timeout);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  });
+};
+
+// Run an operation, retrying transient failures with exponential backoff and jitter
+export async function retryWithBackoff<T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const {
+    retries = 3,
+    baseDelayMs = 1000,
+    signal,
+    shouldRetry = isTransientError,
+    onRetry
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= retries || signal?.aborted || !shouldRetry(error)) {
+        throw error;
+      }
+
+      onRetry?.(attempt + 1, error);
+      await sleep(baseDelayMs * 2 ** attempt * (0.5 + Math.random() / 2), signal);
+    }
+  }
+}
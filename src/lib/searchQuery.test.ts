@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { AccessLevel } from '@/lib/blockchain';
+import { formatFilter, parseSearchQuery, setQueryFilter, toSearchParams } from '@/lib/searchQuery';
+
+const parse = (input: string) => parseSearchQuery(input);
+const toParams = (input: string) => toSearchParams(parse(input).ast);
+
+describe('parseSearchQuery', () => {
+  it('keeps words, phrases and exclusions with their positions', () => {
+    const { ast, errors } = parse('ledger "smart grid" -energy');
+
+    expect(errors).toEqual([]);
+    expect(ast.nodes).toEqual([
+      { type: 'term', text: 'ledger', phrase: false, negated: false, span: { start: 0, end: 6 } },
+      { type: 'term', text: 'smart grid', phrase: true, negated: false, span: { start: 7, end: 19 } },
+      { type: 'term', text: 'energy', phrase: false, negated: true, span: { start: 20, end: 27 } }
+    ]);
+  });
+
+  it('joins the neighbours of OR into one node', () => {
+    const { ast, errors } = parse('identity OR privacy OR "supply chain"');
+
+    expect(errors).toEqual([]);
+    expect(ast.nodes).toHaveLength(1);
+    expect(ast.nodes[0]).toMatchObject({
+      type: 'or',
+      terms: [{ text: 'identity' }, { text: 'privacy' }, { text: 'supply chain', phrase: true }],
+      span: { start: 0, end: 37 }
+    });
+  });
+
+  it('reports an OR without a word on both sides', () => {
+    expect(parse('OR ledger').errors).toEqual([
+      { message: 'OR needs a word or phrase on both sides', span: { start: 0, end: 2 } }
+    ]);
+    expect(parse('ledger OR').errors).toHaveLength(1);
+    expect(parse('ledger OR -energy').errors).toHaveLength(1);
+  });
+
+  it('reports an unclosed quote and skips it', () => {
+    const { ast, errors } = parse('ledger "smart grid');
+
+    expect(ast.nodes).toHaveLength(1);
+    expect(errors).toEqual([{ message: 'Missing closing quote', span: { start: 7, end: 18 } }]);
+  });
+
+  it('parses every filter', () => {
+    const { ast, errors } = parse('author:0x12AB dept:"Computer Science" inst:0 year:2021..2024 access:department');
+
+    expect(errors).toEqual([]);
+    expect(ast.nodes.map(node => node.type)).toEqual(['author', 'department', 'institution', 'year', 'access']);
+    expect(ast.nodes[0]).toMatchObject({ address: '0x12ab' });
+    expect(ast.nodes[3]).toMatchObject({ from: 2021, to: 2024 });
+    expect(ast.nodes[4]).toMatchObject({ accessLevel: AccessLevel.Department });
+  });
+
+  it('accepts open-ended year ranges', () => {
+    expect(parse('year:2021..').ast.nodes[0]).toMatchObject({ from: 2021, to: undefined });
+    expect(parse('year:..2024').ast.nodes[0]).toMatchObject({ from: undefined, to: 2024 });
+    expect(parse('year:2022').ast.nodes[0]).toMatchObject({ from: 2022, to: 2022 });
+  });
+
+  it('rejects invalid filters and keeps the rest of the query', () => {
+    const { ast, errors } = parse('ledger color:red year:2024..2021 author:bob -dept:Law dept:Astrology year:2020 year:2021');
+
+    expect(ast.nodes.map(node => node.type)).toEqual(['term', 'year']);
+    expect(errors.map(error => error.message)).toEqual([
+      'Unknown filter color: (use author:, dept:, inst:, year:, access:)',
+      'The year range starts after it ends',
+      'author: expects a wallet address such as 0x12ab',
+      'Filters cannot be excluded',
+      'Unknown department "Astrology"',
+      'Only one year: filter is allowed'
+    ]);
+  });
+
+  it('drops a department that is not part of the chosen institution', () => {
+    const { ast, errors } = parse('dept:Law inst:"University of Technology"');
+
+    expect(ast.nodes.map(node => node.type)).toEqual(['institution']);
+    expect(errors).toEqual([{ message: 'The department is not part of that institution', span: { start: 0, end: 8 } }]);
+  });
+});
+
+describe('toSearchParams', () => {
+  it('maps filters to search parameters and keeps the free text', () => {
+    expect(toParams('ledger OR chain -energy author:0x12ab access:public year:2023')).toEqual({
+      query: 'ledger OR chain -energy',
+      author: '0x12ab',
+      accessLevel: AccessLevel.Public,
+      year: 2023
+    });
+  });
+
+  it('takes the institution from the department when none is given', () => {
+    expect(toParams('dept:Law')).toMatchObject({ departmentId: 5, institutionId: 1 });
+  });
+
+  it('keeps institution 0', () => {
+    expect(toParams('inst:0')).toEqual({ query: '', institutionId: 0 });
+  });
+
+  it('uses a range for open-ended years', () => {
+    expect(toParams('year:2021..')).toEqual({ query: '', yearFrom: 2021, yearTo: undefined });
+  });
+});
+
+describe('formatFilter', () => {
+  it('writes filters the way they are typed', () => {
+    expect(formatFilter('department', { query: '', departmentId: 0 })).toBe('dept:"Computer Science"');
+    expect(formatFilter('institution', { query: '', institutionId: 0 })).toBe('inst:"University of Technology"');
+    expect(formatFilter('year', { query: '', yearFrom: 2021 })).toBe('year:2021..');
+    expect(formatFilter('access', { query: '', accessLevel: AccessLevel.Allowlist })).toBe('access:allowlist');
+    expect(formatFilter('author', { query: '' })).toBeUndefined();
+  });
+
+  it('reads back as the same parameters', () => {
+    const params = { query: '', departmentId: 4, institutionId: 1, yearFrom: 2020, yearTo: 2022 };
+    const input = (['department', 'institution', 'year'] as const).map(type => formatFilter(type, params)).join(' ');
+
+    expect(toParams(input)).toEqual(params);
+  });
+});
+
+describe('setQueryFilter', () => {
+  it('adds, replaces and removes a filter without touching the rest', () => {
+    const added = setQueryFilter('ledger "smart grid"', 'year', 'year:2023');
+    expect(added).toBe('ledger "smart grid" year:2023');
+
+    const replaced = setQueryFilter(added, 'year', 'year:2020..2021');
+    expect(replaced).toBe('ledger "smart grid" year:2020..2021');
+
+    expect(setQueryFilter('ledger year:2023 "smart grid"', 'year', undefined)).toBe('ledger "smart grid"');
+  });
+});
@@ -0,0 +1,379 @@
+import { AccessLevel, ProjectData } from '@/lib/blockchain';
+import { ACCESS_LEVELS, getAccessLevelLabel } from '@/lib/accessPolicy';
+import { getInstitutionIdForDepartment } from '@/lib/permissions';
+import { mockInstitutions, mockDepartmentsByInstitution } from '@/components/InstitutionData';
+
+// Query language of the search box.
+// Free text is words and "quoted phrases" that must all match, OR between two of them accepts
+// either and a leading - excludes one. Filters are written field:value:
+//   author:0x12ab            wallet address or its beginning
+//   dept:"Computer Science"  department name or ID, inst: the same for institutions
+//   year:2021..2024          single year or range, either end may be left open (year:2021..)
+//   access:public            access level label
+// The query goes into the URL q parameter as typed, so a search can be reloaded and shared.
+
+export interface SearchParams {
+  query: string; // Free text in the query language, without filters
+  institutionId?: number;
+  departmentId?: number;
+  year?: number;
+  yearFrom?: number;
+  yearTo?: number;
+  author?: string;
+  accessLevel?: AccessLevel;
+}
+
+// Position in the query text, end is exclusive
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+export interface TermNode {
+  type: 'term';
+  text: string;
+  phrase: boolean;
+  negated: boolean;
+  span: SourceSpan;
+}
+
+export interface OrNode {
+  type: 'or';
+  terms: TermNode[];
+  span: SourceSpan;
+}
+
+export type FilterNode =
+  | { type: 'author'; address: string; span: SourceSpan }
+  | { type: 'department'; departmentId: number; span: SourceSpan }
+  | { type: 'institution'; institutionId: number; span: SourceSpan }
+  | { type: 'year'; from?: number; to?: number; span: SourceSpan }
+  | { type: 'access'; accessLevel: AccessLevel; span: SourceSpan };
+
+export type QueryNode = TermNode | OrNode | FilterNode;
+export type FilterType = FilterNode['type'];
+
+// Every node must match, in the order they were written
+export interface SearchQueryAst {
+  nodes: QueryNode[];
+}
+
+export interface SearchQueryError {
+  message: string;
+  span: SourceSpan;
+}
+
+export interface ParsedSearchQuery {
+  ast: SearchQueryAst;
+  errors: SearchQueryError[]; // Invalid parts are left out of the AST
+}
+
+const KEY_OF_FILTER: Record<FilterType, string> = {
+  author: 'author',
+  department: 'dept',
+  institution: 'inst',
+  year: 'year',
+  access: 'access'
+};
+
+const FILTER_KEYS = new Map(Object.entries(KEY_OF_FILTER).map(([type, key]) => [key, type as FilterType]));
+
+const departments = Object.values(mockDepartmentsByInstitution).flat();
+
+interface Token {
+  text: string;
+  span: SourceSpan;
+  unclosedQuote: boolean;
+}
+
+// Split on whitespace outside of quotes, a quote may also start inside a token (dept:"...")
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let inQuote = false;
+    while (i < input.length && (inQuote || !/\s/.test(input[i]))) {
+      if (input[i] === '"') inQuote = !inQuote;
+      i++;
+    }
+
+    tokens.push({ text: input.slice(start, i), span: { start, end: i }, unclosedQuote: inQuote });
+  }
+
+  return tokens;
+};
+
+const unquote = (value: string): string => value.replace(/^"/, '').replace(/"$/, '');
+
+// Find a department or institution by ID or case-insensitive name
+const findByName = <T extends { id: number; name: string }>(items: T[], value: string): T | undefined => {
+  if (/^\d+$/.test(value)) return items.find(item => item.id === Number(value));
+  return items.find(item => item.name.toLowerCase() === value.toLowerCase());
+};
+
+const parseYearRange = (value: string): { from?: number; to?: number } | string => {
+  const match = value.match(/^(\d{4})?(?:(\.\.)(\d{4})?)?$/);
+  if (!match || (!match[1] && !match[3])) {
+    return 'year: expects a year or a range such as 2021..2024';
+  }
+
+  const from = match[1] ? Number(match[1]) : undefined;
+  const to = match[2] ? (match[3] ? Number(match[3]) : undefined) : from;
+  if (from !== undefined && to !== undefined && from > to) {
+    return 'The year range starts after it ends';
+  }
+  return { from, to };
+};
+
+// Turn a field:value token into a filter node, or an error message
+const parseFilter = (type: FilterType, key: string, value: string, span: SourceSpan): FilterNode | string => {
+  if (!value) return `${key}: needs a value`;
+
+  switch (type) {
+    case 'author':
+      if (!/^0x[0-9a-fA-F]{1,40}$/.test(value)) return 'author: expects a wallet address such as 0x12ab';
+      return { type, address: value.toLowerCase(), span };
+
+    case 'department': {
+      const department = findByName(departments, value);
+      return department ? { type, departmentId: department.id, span } : `Unknown department "${value}"`;
+    }
+
+    case 'institution': {
+      const institution = findByName(mockInstitutions, value);
+      return institution ? { type, institutionId: institution.id, span } : `Unknown institution "${value}"`;
+    }
+
+    case 'year': {
+      const range = parseYearRange(value);
+      return typeof range === 'string' ? range : { type, ...range, span };
+    }
+
+    case 'access': {
+      const level = ACCESS_LEVELS.find(info => info.label.toLowerCase() === value.toLowerCase());
+      if (!level) {
+        return `access: expects one of ${ACCESS_LEVELS.map(info => info.label.toLowerCase()).join(', ')}`;
+      }
+      return { type, accessLevel: level.level, span };
+    }
+  }
+};
+
+// Parse the search box text, invalid parts are reported with their position and skipped
+export const parseSearchQuery = (input: string): ParsedSearchQuery => {
+  const nodes: QueryNode[] = [];
+  const errors: SearchQueryError[] = [];
+  const seenFilters = new Set<FilterType>();
+  let pendingOr: Token | null = null;
+
+  const addError = (message: string, span: SourceSpan) => errors.push({ message, span });
+
+  for (const token of tokenize(input)) {
+    if (token.unclosedQuote) {
+      addError('Missing closing quote', token.span);
+      continue;
+    }
+
+    if (token.text === 'OR') {
+      const previous = nodes[nodes.length - 1];
+      if (pendingOr || !previous || !(previous.type === 'or' || (previous.type === 'term' && !previous.negated))) {
+        addError('OR needs a word or phrase on both sides', token.span);
+      } else {
+        pendingOr = token;
+      }
+      continue;
+    }
+
+    const negated = token.text.length > 1 && token.text.startsWith('-');
+    const body = negated ? token.text.slice(1) : token.text;
+    const field = body.startsWith('"') ? null : body.match(/^([A-Za-z]+):(.*)$/s);
+
+    let node: QueryNode | undefined;
+    if (field) {
+      const key = field[1].toLowerCase();
+      const type = FILTER_KEYS.get(key);
+
+      if (!type) {
+        addError(`Unknown filter ${field[1]}: (use ${[...FILTER_KEYS.keys()].map(name => `${name}:`).join(', ')})`, token.span);
+      } else if (negated) {
+        addError('Filters cannot be excluded', token.span);
+      } else if (seenFilters.has(type)) {
+        addError(`Only one ${key}: filter is allowed`, token.span);
+      } else {
+        const result = parseFilter(type, key, unquote(field[2]), token.span);
+        if (typeof result === 'string') {
+          addError(result, token.span);
+        } else {
+          seenFilters.add(type);
+          node = result;
+        }
+      }
+    } else {
+      const text = unquote(body).trim();
+      if (text) {
+        node = { type: 'term', text, phrase: body.startsWith('"'), negated, span: token.span };
+      }
+    }
+
+    if (pendingOr) {
+      const previous = nodes[nodes.length - 1] as TermNode | OrNode;
+      if (node?.type === 'term' && !node.negated) {
+        const terms = previous.type === 'or' ? [...previous.terms, node] : [previous, node];
+        nodes[nodes.length - 1] = { type: 'or', terms, span: { start: previous.span.start, end: node.span.end } };
+        pendingOr = null;
+        continue;
+      }
+
+      addError('OR needs a word or phrase on both sides', pendingOr.span);
+      pendingOr = null;
+    }
+
+    if (node) nodes.push(node);
+  }
+
+  if (pendingOr) {
+    addError('OR needs a word or phrase on both sides', pendingOr.span);
+  }
+
+  // A department outside the chosen institution could never match
+  const department = nodes.find(node => node.type === 'department');
+  const institution = nodes.find(node => node.type === 'institution');
+  if (department?.type === 'department' && institution?.type === 'institution' &&
+    getInstitutionIdForDepartment(department.departmentId) !== institution.institutionId) {
+    addError('The department is not part of that institution', department.span);
+    nodes.splice(nodes.indexOf(department), 1);
+  }
+
+  return { ast: { nodes }, errors };
+};
+
+// Formatting
+
+const formatValue = (value: string): string => (/[\s"]/.test(value) ? `"${value}"` : value);
+
+const formatTerm = (term: TermNode): string => {
+  return `${term.negated ? '-' : ''}${term.phrase ? `"${term.text}"` : term.text}`;
+};
+
+const formatYear = (from?: number, to?: number): string => {
+  return from !== undefined && from === to ? `${from}` : `${from ?? ''}..${to ?? ''}`;
+};
+
+const formatFilterValue = (type: FilterType, params: SearchParams): string | undefined => {
+  switch (type) {
+    case 'author':
+      return params.author;
+    case 'department':
+      return params.departmentId === undefined
+        ? undefined
+        : formatValue(departments.find(department => department.id === params.departmentId)?.name ?? `${params.departmentId}`);
+    case 'institution':
+      return params.institutionId === undefined
+        ? undefined
+        : formatValue(mockInstitutions.find(institution => institution.id === params.institutionId)?.name ?? `${params.institutionId}`);
+    case 'year':
+      if (params.year !== undefined) return formatYear(params.year, params.year);
+      if (params.yearFrom === undefined && params.yearTo === undefined) return undefined;
+      return formatYear(params.yearFrom, params.yearTo);
+    case 'access':
+      return params.accessLevel === undefined ? undefined : getAccessLevelLabel(params.accessLevel).toLowerCase();
+  }
+};
+
+// Write a filter the way it is typed, e.g. dept:"Computer Science"
+export const formatFilter = (type: FilterType, params: SearchParams): string | undefined => {
+  const value = formatFilterValue(type, params);
+  return value === undefined ? undefined : `${KEY_OF_FILTER[type]}:${value}`;
+};
+
+const isTextNode = (node: QueryNode): node is TermNode | OrNode => node.type === 'term' || node.type === 'or';
+
+// The free text of a query, in the same syntax
+const formatText = (nodes: QueryNode[]): string => {
+  return nodes
+    .filter(isTextNode)
+    .map(node => (node.type === 'or' ? node.terms.map(formatTerm).join(' OR ') : formatTerm(node)))
+    .join(' ');
+};
+
+// Mapping to and from SearchParams
+
+// The filters and free text a query stands for
+export const toSearchParams = (ast: SearchQueryAst): SearchParams => {
+  const params: SearchParams = { query: formatText(ast.nodes) };
+
+  ast.nodes.forEach(node => {
+    switch (node.type) {
+      case 'author':
+        params.author = node.address;
+        break;
+      case 'department':
+        params.departmentId = node.departmentId;
+        // The department lists are picked per institution
+        if (params.institutionId === undefined) {
+          params.institutionId = getInstitutionIdForDepartment(node.departmentId);
+        }
+        break;
+      case 'institution':
+        params.institutionId = node.institutionId;
+        break;
+      case 'year':
+        if (node.from !== undefined && node.from === node.to) {
+          params.year = node.from;
+        } else {
+          params.yearFrom = node.from;
+          params.yearTo = node.to;
+        }
+        break;
+      case 'access':
+        params.accessLevel = node.accessLevel;
+        break;
+    }
+  });
+
+  return params;
+};
+
+// Set, replace or (with undefined) remove one filter in the query text, keeping the rest as typed
+export const setQueryFilter = (input: string, type: FilterType, filter: string | undefined): string => {
+  const existing = parseSearchQuery(input).ast.nodes.find(node => node.type === type);
+
+  if (existing) {
+    const before = input.slice(0, existing.span.start);
+    const after = input.slice(existing.span.end);
+    return filter ? `${before}${filter}${after}` : `${before.trimEnd()} ${after.trimStart()}`.trim();
+  }
+
+  return filter ? `${input.trim()} ${filter}`.trim() : input;
+};
+
+// Matching, for sources that are searched in the browser
+
+const includesText = (project: ProjectData, text: string): boolean => {
+  const needle = text.toLowerCase();
+  return project.title.toLowerCase().includes(needle) || project.description.toLowerCase().includes(needle);
+};
+
+// Whether a project's title or description matches the free text of a query
+export const matchesSearchText = (project: ProjectData, query: string): boolean => {
+  return parseSearchQuery(query).ast.nodes.every(node => {
+    if (node.type === 'or') return node.terms.some(term => includesText(project, term.text));
+    if (node.type === 'term') return includesText(project, node.text) !== node.negated;
+    return true;
+  });
+};
+
+// Whether a project matches the author and year range filters, which the list queries don't cover
+export const matchesSearchFilters = (project: ProjectData, params: SearchParams): boolean => {
+  return (params.author === undefined ||
+      project.authors.some(author => author.toLowerCase().startsWith(params.author.toLowerCase()))) &&
+    (params.yearFrom === undefined || project.year >= params.yearFrom) &&
+    (params.yearTo === undefined || project.year <= params.yearTo);
+};
@@ -0,0 +1,74 @@
+import { pinataStorageProvider } from '@/lib/pinata';
+import { kuboStorageProvider } from '@/lib/kubo';
+import { memoryStorageProvider } from '@/lib/memoryStorage';
+
+export type StorageProviderName = 'pinata' | 'kubo' | 'memory';
+
+export type PinStatus = 'pinned' | 'pinning' | 'unpinned' | 'unknown';
+
+// Progress reporting and cancellation for a pin request
+export interface PinOptions {
+  onProgress?: (loadedBytes: number, totalBytes: number) => void;
+  signal?: AbortSignal;
+}
+
+// A pin as listed by the storage provider
+export interface PinInfo {
+  cid: string;
+  name?: string;
+  size: number; // Bytes, 0 when the provider does not report it
+  status: PinStatus;
+  pinnedAt?: number; // Timestamp (ms)
+}
+
+// A file placed at a path inside a pinned directory
+export interface DirectoryEntry {
+  path: string; // Relative to the directory root, e.g. "code/main.py"
+  content: Blob;
+}
+
+// Common interface for every service that can pin content to IPFS
+export interface StorageProvider {
+  name: StorageProviderName;
+  pinFile: (file: File, metadata?: Record<string, string>, options?: PinOptions) => Promise<string>; // Resolves to the CID
+  pinJson: (jsonData: Record<string, unknown>, name?: string) => Promise<string>;
+  pinDirectory: (entries: DirectoryEntry[], name: string, options?: PinOptions) => Promise<string>; // CID of the directory
+  unpin: (cid: string) => Promise<void>;
+  repin: (cid: string) => Promise<void>; // Pin content that is already on the network by its CID
+  status: (cid: string) => Promise<PinStatus>;
+  listPins: () => Promise<PinInfo[]>;
+  gatewayUrl: (cid: string) => string;
+}
+
+const providers: Record<StorageProviderName, StorageProvider> = {
+  pinata: pinataStorageProvider,
+  kubo: kuboStorageProvider,
+  memory: memoryStorageProvider
+};
+
+// The configured storage provider (from .env file), defaults to Pinata
+export const STORAGE_PROVIDER: StorageProviderName =
+  import.meta.env.VITE_STORAGE_PROVIDER in providers ? import.meta.env.VITE_STORAGE_PROVIDER : 'pinata';
+
+// Get the provider for the configured storage backend
+export const getStorageProvider = (name: StorageProviderName = STORAGE_PROVIDER): StorageProvider => {
+  return providers[name];
+};
+
+/**
+ * Get the gateway URL for a given CID on the configured provider
+ * @param cid The IPFS CID (hash), optionally followed by a path inside a directory
+ * @returns The gateway URL
+ */
+export function getIpfsGatewayUrl(cid: string): string {
+  return getStorageProvider().gatewayUrl(cid);
+}
+
+/**
+ * Get the IPFS URL for a given CID
+ * @param cid The IPFS CID (hash)
+ * @returns The IPFS URL
+ */
+export function getIpfsUrl(cid: string): string {
+  return `ipfs://${cid}`;
+}
@@ -1,5 +1,8 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { installMockWallet } from './lib/mockWallet'
+
+installMockWallet()
 
 createRoot(document.getElementById("root")!).render(<App />);
@@ -0,0 +1,19 @@
+import { AccessLevel } from '@/lib/blockchain';
+
+// One entry in a project's access history
+export interface AccessChange {
+  id: string;
+  projectId: number;
+  oldAccessLevel: AccessLevel; // Levels in force before and after, private while embargoed
+  newAccessLevel: AccessLevel;
+  changedBy: string;
+  timestamp: number;
+  transactionHash?: string; // Set for changes read from contract events
+  embargo?: { until: number; accessLevel: AccessLevel }; // Embargo scheduled by this change
+  onChain: boolean; // Whether the change was also sent to the contract
+}
+
+// Generate a unique ID for locally recorded access changes
+export const generateAccessChangeId = (): string => {
+  return `ACC-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 7)}`.toUpperCase();
+};
@@ -0,0 +1,13 @@
+export type AccessRequestStatus = 'pending' | 'approved' | 'denied' | 'expired';
+
+export interface AccessRequest {
+  id: string;
+  projectId: number;
+  requester: string; // Wallet address asking for access
+  reason: string;
+  status: Exclude<AccessRequestStatus, 'expired'>; // Expiry is derived from expiresAt
+  createdAt: number;
+  decidedAt?: number;
+  decidedBy?: string;
+  expiresAt?: number; // Approved access ends at this time, open-ended when unset
+}
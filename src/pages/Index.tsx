@@ -15,15 +15,20 @@ const Index: React.FC = () => {
   const { address } = useWallet();
 
   // Function to load projects
-  const loadProjects = () => {
+  const loadProjects = async () => {
     setIsLoading(true);
-    // Get projects from our project service with access control
-    const projects = getAllProjects(address);
-    // Sort projects by upload date (newest first)
-    const sortedProjects = [...projects].sort((a, b) => b.uploadDate - a.uploadDate);
-    setFeaturedProjects(sortedProjects);
 
-    setIsLoading(false);
+    try {
+      // Get projects from our project service with access control
+      const projects = await getAllProjects(address);
+      // Sort projects by upload date (newest first)
+      const sortedProjects = [...projects].sort((a, b) => b.uploadDate - a.uploadDate);
+      setFeaturedProjects(sortedProjects);
+    } catch (error) {
+      console.error('Error loading projects:', error);
+    } finally {
+      setIsLoading(false);
+    }
   };
 
   // Load projects when component mounts or when address changes
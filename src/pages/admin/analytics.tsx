@@ -3,6 +3,7 @@ import AdminLayout from '@/components/AdminLayout';
 import { useStudentStore } from '@/services/studentService';
 import { useProjectStore } from '@/services/projectService';
 import { mockDepartmentsByInstitution, mockInstitutions } from '@/components/InstitutionData';
+import { ACCESS_LEVELS, GUEST_VIEWER, filterVisibleProjects, getAccessLevelLabel } from '@/lib/accessPolicy';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -243,7 +244,7 @@ const AdminAnalyticsPage: React.FC = () => {
   // Projects by access level
   const projectsByAccessLevel = filteredProjects.reduce((acc: any, project) => {
     const accessLevel = project.accessLevel;
-    const accessLevelName = accessLevel === 0 ? 'Public' : accessLevel === 1 ? 'Institution' : 'Private';
+    const accessLevelName = getAccessLevelLabel(accessLevel);
 
     if (!acc[accessLevel]) {
       acc[accessLevel] = {
@@ -385,25 +386,20 @@ const AdminAnalyticsPage: React.FC = () => {
                       </div>
 
                       <div className="bg-gray-50 p-4 rounded-lg">
-                        <p className="text-sm text-gray-500">Public Projects</p>
+                        <p className="text-sm text-gray-500">Visible to Everyone</p>
                         <p className="text-2xl font-bold text-university-navy">
-                          {filteredProjects.filter(p => p.accessLevel === 0).length}
+                          {filterVisibleProjects(filteredProjects, GUEST_VIEWER).length}
                         </p>
                       </div>
 
-                      <div className="bg-gray-50 p-4 rounded-lg">
-                        <p className="text-sm text-gray-500">Institution Projects</p>
-                        <p className="text-2xl font-bold text-university-navy">
-                          {filteredProjects.filter(p => p.accessLevel === 1).length}
-                        </p>
-                      </div>
-
-                      <div className="bg-gray-50 p-4 rounded-lg">
-                        <p className="text-sm text-gray-500">Private Projects</p>
-                        <p className="text-2xl font-bold text-university-navy">
-                          {filteredProjects.filter(p => p.accessLevel === 2).length}
-                        </p>
-                      </div>
+                      {ACCESS_LEVELS.map(({ level, label }) => (
+                        <div key={level} className="bg-gray-50 p-4 rounded-lg">
+                          <p className="text-sm text-gray-500">{label} Projects</p>
+                          <p className="text-2xl font-bold text-university-navy">
+                            {filteredProjects.filter(p => p.accessLevel === level).length}
+                          </p>
+                        </div>
+                      ))}
                     </div>
 
                     <div className="bg-gray-50 p-4 rounded-lg">
@@ -2,6 +2,8 @@ import React, { useState } from 'react';
 import AdminLayout from '@/components/AdminLayout';
 import { useStudentStore } from '@/services/studentService';
 import { parseExcelData } from '@/services/studentService';
+import { clearUserRoles } from '@/services/permissionService';
+import { usePermissions } from '@/hooks/use-permissions';
 import { Student } from '@/models/Student';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -16,6 +18,7 @@ import { mockDepartmentsByInstitution } from '@/components/InstitutionData';
 
 const AdminBulkUploadPage: React.FC = () => {
   const { addStudents } = useStudentStore();
+  const { canManageStudents } = usePermissions();
   const [file, setFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
@@ -74,15 +77,23 @@ const AdminBulkUploadPage: React.FC = () => {
   };
   
   // Handle bulk upload
-  const handleBulkUpload = () => {
+  const handleBulkUpload = async () => {
     try {
       if (previewData.length === 0) {
         setUploadError('No data to upload');
         return;
       }
+
+      // Institution admins may only register students of their own institution
+      const outsideInstitution = previewData.filter(student => !canManageStudents(student.institutionId));
+      if (outsideInstitution.length > 0) {
+        setUploadError(`${outsideInstitution.length} student(s) belong to institutions you don't manage`);
+        return;
+      }
       
       // Add students to the store
-      addStudents(previewData);
+      await addStudents(previewData);
+      previewData.forEach(student => clearUserRoles(student.walletAddress));
       
       // Show success message
       setUploadSuccess(true);
@@ -94,7 +105,7 @@ const AdminBulkUploadPage: React.FC = () => {
         description: `${previewData.length} students have been added to the system.`,
       });
     } catch (error) {
-      setUploadError('Failed to upload students. Please try again.');
+      setUploadError(error instanceof Error ? error.message : 'Failed to upload students. Please try again.');
       
       toast({
         title: 'Upload Failed',
@@ -1,19 +1,22 @@
 import React, { useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAdminAuth } from '@/context/AdminAuthContext';
+import { useWallet } from '@/context/WalletContext';
+import { hasAdminRights } from '@/services/authService';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Shield, AlertCircle } from 'lucide-react';
+import { Shield, AlertCircle, Loader2 } from 'lucide-react';
 import ThreeBackground from '@/components/ThreeBackground';
 
+const shortenAddress = (address: string) => {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+};
+
 const AdminLoginPage: React.FC = () => {
   const navigate = useNavigate();
   const { login, isAuthenticated } = useAdminAuth();
-  const [username, setUsername] = useState('');
-  const [password, setPassword] = useState('');
+  const { address, isConnected, isConnecting, connect } = useWallet();
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
 
@@ -24,23 +27,24 @@ const AdminLoginPage: React.FC = () => {
     }
   }, [isAuthenticated, navigate]);
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
+  const handleSignIn = async () => {
     setError('');
     setIsLoading(true);
 
-    // Simulate network delay
-    setTimeout(() => {
-      const success = login(username, password);
-      
-      if (success) {
+    try {
+      const session = await login();
+
+      if (hasAdminRights(session)) {
         navigate('/admin/dashboard');
       } else {
-        setError('Invalid username or password');
+        setError('This wallet is not registered as a platform or institution admin');
       }
-      
+    } catch (error) {
+      console.error('Error signing in:', error);
+      setError(error instanceof Error ? error.message : 'Sign-in failed');
+    } finally {
       setIsLoading(false);
-    }, 1000);
+    }
   };
 
   return (
@@ -60,7 +64,7 @@ const AdminLoginPage: React.FC = () => {
           </div>
           <CardTitle className="text-2xl font-bold">Admin Login</CardTitle>
           <CardDescription>
-            Enter your credentials to access the admin dashboard
+            Sign a message with an admin wallet to access the admin dashboard
           </CardDescription>
         </CardHeader>
         
@@ -72,40 +76,35 @@ const AdminLoginPage: React.FC = () => {
             </Alert>
           )}
           
-          <form onSubmit={handleSubmit}>
+          {isConnected && address ? (
             <div className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="username">Username</Label>
-                <Input
-                  id="username"
-                  placeholder="Enter your username"
-                  value={username}
-                  onChange={(e) => setUsername(e.target.value)}
-                  required
-                />
-              </div>
-              
-              <div className="space-y-2">
-                <Label htmlFor="password">Password</Label>
-                <Input
-                  id="password"
-                  type="password"
-                  placeholder="Enter your password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  required
-                />
-              </div>
+              <p className="text-sm text-gray-600 text-center">
+                Connected as <span className="font-mono">{shortenAddress(address)}</span>
+              </p>
+              <Button
+                className="w-full bg-university-blue hover:bg-university-navy"
+                onClick={handleSignIn}
+                disabled={isLoading}
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Waiting for signature...
+                  </>
+                ) : (
+                  'Sign In with Ethereum'
+                )}
+              </Button>
             </div>
-            
+          ) : (
             <Button
-              type="submit"
-              className="w-full mt-6 bg-university-blue hover:bg-university-navy"
-              disabled={isLoading}
+              className="w-full bg-university-blue hover:bg-university-navy"
+              onClick={() => connect()}
+              disabled={isConnecting}
             >
-              {isLoading ? 'Logging in...' : 'Login'}
+              {isConnecting ? 'Connecting...' : 'Connect Wallet'}
             </Button>
-          </form>
+          )}
         </CardContent>
         
         <CardFooter className="flex justify-center border-t pt-4">
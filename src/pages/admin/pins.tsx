@@ -0,0 +1,432 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import AdminLayout from '@/components/AdminLayout';
+import { getAllProjectsAdmin } from '@/services/projectService';
+import { BulkPinResult, PinRecord, loadPinRecords, repinCids, summarizeStorageUsage, unpinCids } from '@/services/pinService';
+import { usePermissions } from '@/hooks/use-permissions';
+import { mockDepartmentsByInstitution, mockInstitutions } from '@/components/InstitutionData';
+import { STORAGE_PROVIDER } from '@/lib/storage';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toast } from '@/components/ui/use-toast';
+import { HardDrive, Loader2, Pin, PinOff, RefreshCw, Search } from 'lucide-react';
+
+type PinFilter = 'all' | 'referenced' | 'orphaned' | 'missing';
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return bytes + ' bytes';
+  else if (bytes < 1048576) return (bytes / 1024).toFixed(1) + ' KB';
+  else if (bytes < 1073741824) return (bytes / 1048576).toFixed(1) + ' MB';
+  else return (bytes / 1073741824).toFixed(2) + ' GB';
+};
+
+const getInstitutionName = (institutionId: number | null): string => {
+  return mockInstitutions.find(institution => institution.id === institutionId)?.name || 'Unknown institution';
+};
+
+const getDepartmentName = (institutionId: number | null, departmentId: number): string => {
+  return mockDepartmentsByInstitution[institutionId]?.find(department => department.id === departmentId)?.name ||
+    `Department ${departmentId}`;
+};
+
+const shortenCid = (cid: string): string => {
+  return cid.length > 20 ? `${cid.substring(0, 10)}...${cid.substring(cid.length - 6)}` : cid;
+};
+
+const AdminPinsPage: React.FC = () => {
+  const { canManagePins, isLoading: isLoadingRoles } = usePermissions();
+  const [records, setRecords] = useState<PinRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filter, setFilter] = useState<PinFilter>('all');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isUnpinDialogOpen, setIsUnpinDialogOpen] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+
+  // Pins are only joined with a complete project list: while it loads or after it failed to,
+  // every pin would look orphaned and be offered for unpinning, so none are listed
+  const loadRecords = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    setRecords([]);
+    setSelected(new Set());
+    try {
+      const projects = await getAllProjectsAdmin();
+      setRecords(await loadPinRecords(projects));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load pins');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (canManagePins) loadRecords();
+  }, [canManagePins, loadRecords]);
+
+  const usage = summarizeStorageUsage(records);
+  const pinnedRecords = records.filter(record => !record.isMissing);
+  const totalBytes = pinnedRecords.reduce((total, record) => total + record.size, 0);
+  const orphanCount = records.filter(record => record.isOrphan).length;
+  const missingCount = records.filter(record => record.isMissing).length;
+
+  // Filter pins by their state and by CID, name or project title
+  const filteredRecords = records.filter(record => {
+    if (filter === 'referenced' && (record.isOrphan || record.isMissing)) return false;
+    if (filter === 'orphaned' && !record.isOrphan) return false;
+    if (filter === 'missing' && !record.isMissing) return false;
+
+    const searchLower = searchTerm.toLowerCase();
+    return (
+      record.cid.toLowerCase().includes(searchLower) ||
+      (record.name ?? '').toLowerCase().includes(searchLower) ||
+      record.references.some(reference => reference.project.title.toLowerCase().includes(searchLower))
+    );
+  });
+
+  const selectedRecords = records.filter(record => selected.has(record.cid));
+  const selectedPinned = selectedRecords.filter(record => !record.isMissing);
+  const selectedReferenced = selectedPinned.filter(record => !record.isOrphan);
+  const allFilteredSelected = filteredRecords.length > 0 && filteredRecords.every(record => selected.has(record.cid));
+
+  const toggleSelected = (cid: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(cid)) next.delete(cid);
+      else next.add(cid);
+      return next;
+    });
+  };
+
+  const toggleAllFiltered = () => {
+    setSelected(allFilteredSelected ? new Set() : new Set(filteredRecords.map(record => record.cid)));
+  };
+
+  // Report a bulk operation and reload the list
+  const finishBulk = async (action: string, result: BulkPinResult) => {
+    if (result.failed.length > 0) {
+      toast({
+        title: `${action} failed for ${result.failed.length} CID(s)`,
+        description: result.failed.map(failure => `${shortenCid(failure.cid)}: ${failure.error}`).join('\n'),
+        variant: 'destructive',
+      });
+    }
+    if (result.succeeded.length > 0) {
+      toast({
+        title: `${action} complete`,
+        description: `${result.succeeded.length} CID(s) updated on ${STORAGE_PROVIDER}.`,
+      });
+    }
+    await loadRecords();
+  };
+
+  const handleUnpin = async () => {
+    setIsWorking(true);
+    try {
+      await finishBulk('Unpin', await unpinCids(selectedPinned.map(record => record.cid)));
+      setIsUnpinDialogOpen(false);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRepin = async () => {
+    setIsWorking(true);
+    try {
+      await finishBulk('Re-pin', await repinCids(selectedRecords.filter(record => record.isMissing).map(record => record.cid)));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (!canManagePins) {
+    return (
+      <AdminLayout>
+        <Card>
+          <CardContent className="p-6 text-gray-500">
+            {isLoadingRoles ? 'Checking permissions...' : 'Only super administrators can manage pinned storage.'}
+          </CardContent>
+        </Card>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Pinned Storage</h1>
+            <p className="text-gray-500 mt-1">
+              Pins on the {STORAGE_PROVIDER} provider and the projects that use them
+            </p>
+          </div>
+
+          <Button variant="outline" onClick={loadRecords} disabled={isLoading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        {/* Summary */}
+        <div className="grid gap-4 md:grid-cols-4">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Pins</CardDescription>
+              <CardTitle className="text-2xl">{pinnedRecords.length}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Storage Used</CardDescription>
+              <CardTitle className="text-2xl">{formatFileSize(totalBytes)}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Orphaned Pins</CardDescription>
+              <CardTitle className={`text-2xl ${orphanCount > 0 ? 'text-amber-600' : ''}`}>{orphanCount}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Missing Pins</CardDescription>
+              <CardTitle className={`text-2xl ${missingCount > 0 ? 'text-red-600' : ''}`}>{missingCount}</CardTitle>
+            </CardHeader>
+          </Card>
+        </div>
+
+        {/* Usage per institution and department */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <HardDrive className="mr-2 h-5 w-5" />
+              Storage by Institution
+            </CardTitle>
+            <CardDescription>Pinned bytes of the projects each institution and department registered</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {usage.length > 0 ? (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Institution / Department</TableHead>
+                      <TableHead className="text-right">Pins</TableHead>
+                      <TableHead className="text-right">Size</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {usage.map(institution => (
+                      <React.Fragment key={institution.institutionId ?? 'unknown'}>
+                        <TableRow className="bg-gray-50">
+                          <TableCell className="font-medium">{getInstitutionName(institution.institutionId)}</TableCell>
+                          <TableCell className="text-right font-medium">{institution.pinCount}</TableCell>
+                          <TableCell className="text-right font-medium">{formatFileSize(institution.totalBytes)}</TableCell>
+                        </TableRow>
+                        {institution.departments.map(department => (
+                          <TableRow key={department.departmentId}>
+                            <TableCell className="pl-8 text-gray-600">
+                              {getDepartmentName(institution.institutionId, department.departmentId)}
+                            </TableCell>
+                            <TableCell className="text-right text-gray-600">{department.pinCount}</TableCell>
+                            <TableCell className="text-right text-gray-600">{formatFileSize(department.totalBytes)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </React.Fragment>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No pinned project content yet.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Pin list */}
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle>Pins</CardTitle>
+
+            <div className="flex flex-wrap items-center gap-4 mt-4">
+              <div className="relative flex-1 min-w-[200px]">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-500" />
+                <Input
+                  placeholder="Search by CID, name or project..."
+                  className="pl-8"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                />
+              </div>
+
+              <Select value={filter} onValueChange={(value) => setFilter(value as PinFilter)}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Pins</SelectItem>
+                  <SelectItem value="referenced">Referenced</SelectItem>
+                  <SelectItem value="orphaned">Orphaned</SelectItem>
+                  <SelectItem value="missing">Missing</SelectItem>
+                </SelectContent>
+              </Select>
+
+              <Button
+                variant="outline"
+                onClick={() => setIsUnpinDialogOpen(true)}
+                disabled={selectedPinned.length === 0 || isWorking || isLoading}
+                className="text-red-600 border-red-200 hover:bg-red-50 hover:text-red-700"
+              >
+                <PinOff className="mr-2 h-4 w-4" />
+                Unpin ({selectedPinned.length})
+              </Button>
+              <Button
+                variant="outline"
+                onClick={handleRepin}
+                disabled={selectedRecords.length === selectedPinned.length || isWorking}
+              >
+                {isWorking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Pin className="mr-2 h-4 w-4" />}
+                Re-pin ({selectedRecords.length - selectedPinned.length})
+              </Button>
+            </div>
+          </CardHeader>
+
+          <CardContent>
+            {error ? (
+              <p className="text-sm text-red-500">{error}</p>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10">
+                        <Checkbox checked={allFilteredSelected} onCheckedChange={toggleAllFiltered} aria-label="Select all" />
+                      </TableHead>
+                      <TableHead>CID</TableHead>
+                      <TableHead>Projects</TableHead>
+                      <TableHead className="text-right">Size</TableHead>
+                      <TableHead>Pinned</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {isLoading ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-6 text-gray-500">
+                          <Loader2 className="inline h-4 w-4 mr-2 animate-spin" />
+                          Loading pins...
+                        </TableCell>
+                      </TableRow>
+                    ) : filteredRecords.length > 0 ? (
+                      filteredRecords.map(record => (
+                        <TableRow key={record.cid}>
+                          <TableCell>
+                            <Checkbox
+                              checked={selected.has(record.cid)}
+                              onCheckedChange={() => toggleSelected(record.cid)}
+                              aria-label={`Select ${record.cid}`}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <div className="font-mono text-sm" title={record.cid}>{shortenCid(record.cid)}</div>
+                            {record.name && <div className="text-xs text-gray-500">{record.name}</div>}
+                          </TableCell>
+                          <TableCell>
+                            {record.references.length > 0 ? (
+                              <div className="space-y-1">
+                                {record.references.map(reference => (
+                                  <div key={`${reference.project.id}-${reference.role}`} className="text-sm">
+                                    <Link to={`/project/${reference.project.id}`} className="text-university-blue hover:underline">
+                                      {reference.project.title}
+                                    </Link>
+                                    <span className="ml-1 text-xs text-gray-500">({reference.role})</span>
+                                  </div>
+                                ))}
+                              </div>
+                            ) : (
+                              <span className="text-sm text-gray-400">None</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            {record.isMissing ? '-' : formatFileSize(record.size)}
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap text-sm text-gray-600">
+                            {record.pinnedAt ? new Date(record.pinnedAt).toLocaleDateString() : '-'}
+                          </TableCell>
+                          <TableCell>
+                            {record.isMissing ? (
+                              <Badge variant="destructive">Missing</Badge>
+                            ) : record.isOrphan ? (
+                              <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100">Orphaned</Badge>
+                            ) : (
+                              <Badge className="bg-green-100 text-green-800 hover:bg-green-100 capitalize">{record.status}</Badge>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-6 text-gray-500">
+                          No pins found.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={isUnpinDialogOpen} onOpenChange={setIsUnpinDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Unpin {selectedPinned.length} CID(s)?</DialogTitle>
+            <DialogDescription>
+              Unpinned content can be garbage collected and may become unavailable.
+              {selectedReferenced.length > 0 && (
+                <span className="block mt-2 font-medium text-red-600">
+                  {selectedReferenced.length} of the selected pins are still used by projects.
+                </span>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsUnpinDialogOpen(false)} disabled={isWorking}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleUnpin} disabled={isWorking}>
+              {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Unpin
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </AdminLayout>
+  );
+};
+
+export default AdminPinsPage;
@@ -1,6 +1,8 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import AdminLayout from '@/components/AdminLayout';
 import { useStudentStore } from '@/services/studentService';
+import { clearUserRoles } from '@/services/permissionService';
+import { usePermissions } from '@/hooks/use-permissions';
 import { mockDepartmentsByInstitution, mockInstitutions } from '@/components/InstitutionData';
 import { Student } from '@/models/Student';
 import { Button } from '@/components/ui/button';
@@ -43,13 +45,26 @@ import { Plus, MoreHorizontal, Search, Edit, Trash2, UserPlus } from 'lucide-rea
 import { toast } from '@/components/ui/use-toast';
 
 const AdminStudentsPage: React.FC = () => {
-  const { students, addStudent, updateStudent, deleteStudent } = useStudentStore();
+  const { students, loadStudents, addStudent, updateStudent, deleteStudent } = useStudentStore();
+  const { canManageStudents } = usePermissions();
   const [searchTerm, setSearchTerm] = useState('');
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [selectedStudent, setSelectedStudent] = useState<Student | null>(null);
 
+  // Pick up students other admins added since the last visit
+  useEffect(() => {
+    loadStudents().catch(error => {
+      console.error('Error loading students:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load students.',
+        variant: 'destructive',
+      });
+    });
+  }, [loadStudents]);
+
   // Form state for adding/editing students
   const [formData, setFormData] = useState({
     name: '',
@@ -61,16 +76,18 @@ const AdminStudentsPage: React.FC = () => {
     status: 'active',
   });
 
-  // Get all institutions and departments
+  // Get the institutions and departments this admin manages
   // Convert mockDepartmentsByInstitution from Record<number, Department[]> to an array format
   const institutions = Object.entries(mockDepartmentsByInstitution).map(([id, departments]) => ({
     id: parseInt(id),
     name: mockInstitutions.find(inst => inst.id === parseInt(id))?.name || `Institution ${id}`,
     departments
-  }));
+  })).filter(institution => canManageStudents(institution.id));
 
-  // Filter students based on search term
+  // Filter students based on search term, institution admins only see their own institution
   const filteredStudents = students.filter(student => {
+    if (!canManageStudents(student.institutionId)) return false;
+
     const searchLower = searchTerm.toLowerCase();
     return (
       student.name.toLowerCase().includes(searchLower) ||
@@ -103,10 +120,24 @@ const AdminStudentsPage: React.FC = () => {
     setFormData(prev => ({ ...prev, [name]: value }));
   };
 
+  // Reject changes to students of institutions this admin doesn't manage
+  const checkCanManage = (institutionId: number): boolean => {
+    if (canManageStudents(institutionId)) return true;
+
+    toast({
+      title: 'Not Allowed',
+      description: 'You can only manage students of your own institution.',
+      variant: 'destructive',
+    });
+    return false;
+  };
+
   // Handle add student
-  const handleAddStudent = () => {
+  const handleAddStudent = async () => {
+    if (!checkCanManage(parseInt(formData.institutionId))) return;
+
     try {
-      addStudent({
+      await addStudent({
         walletAddress: formData.walletAddress,
         name: formData.name,
         email: formData.email,
@@ -115,6 +146,7 @@ const AdminStudentsPage: React.FC = () => {
         year: parseInt(formData.year),
         status: formData.status as 'active' | 'inactive' | 'graduated'
       });
+      clearUserRoles(formData.walletAddress);
 
       setIsAddDialogOpen(false);
       resetFormData();
@@ -126,18 +158,19 @@ const AdminStudentsPage: React.FC = () => {
     } catch (error) {
       toast({
         title: 'Error',
-        description: 'Failed to add student. Please try again.',
+        description: error instanceof Error ? error.message : 'Failed to add student. Please try again.',
         variant: 'destructive',
       });
     }
   };
 
   // Handle edit student
-  const handleEditStudent = () => {
+  const handleEditStudent = async () => {
     if (!selectedStudent) return;
+    if (!checkCanManage(selectedStudent.institutionId) || !checkCanManage(parseInt(formData.institutionId))) return;
 
     try {
-      updateStudent(selectedStudent.id, {
+      await updateStudent(selectedStudent.id, {
         name: formData.name,
         email: formData.email,
         walletAddress: formData.walletAddress,
@@ -146,6 +179,8 @@ const AdminStudentsPage: React.FC = () => {
         year: parseInt(formData.year),
         status: formData.status as 'active' | 'inactive' | 'graduated',
       });
+      clearUserRoles(selectedStudent.walletAddress);
+      clearUserRoles(formData.walletAddress);
 
       setIsEditDialogOpen(false);
       setSelectedStudent(null);
@@ -157,18 +192,19 @@ const AdminStudentsPage: React.FC = () => {
     } catch (error) {
       toast({
         title: 'Error',
-        description: 'Failed to update student. Please try again.',
+        description: error instanceof Error ? error.message : 'Failed to update student. Please try again.',
         variant: 'destructive',
       });
     }
   };
 
   // Handle delete student
-  const handleDeleteStudent = () => {
-    if (!selectedStudent) return;
+  const handleDeleteStudent = async () => {
+    if (!selectedStudent || !checkCanManage(selectedStudent.institutionId)) return;
 
     try {
-      deleteStudent(selectedStudent.id);
+      await deleteStudent(selectedStudent.id);
+      clearUserRoles(selectedStudent.walletAddress);
 
       setIsDeleteDialogOpen(false);
       setSelectedStudent(null);
@@ -180,7 +216,7 @@ const AdminStudentsPage: React.FC = () => {
     } catch (error) {
       toast({
         title: 'Error',
-        description: 'Failed to delete student. Please try again.',
+        description: error instanceof Error ? error.message : 'Failed to delete student. Please try again.',
         variant: 'destructive',
       });
     }
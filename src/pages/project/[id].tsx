@@ -1,44 +1,89 @@
 
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import Layout from '@/components/Layout';
 import ProjectCard from '@/components/ProjectCard';
 import { useWallet } from '@/context/WalletContext';
+import { usePermissions } from '@/hooks/use-permissions';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Dialog, DialogTrigger, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
-import { Label } from '@/components/ui/label';
-import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import { Loader2, Lock, Globe, Users, ExternalLink, Calendar, Building, Bookmark, Clock, Share2, Sparkles } from 'lucide-react';
+import { Loader2, ExternalLink, Calendar, Building, Bookmark, Clock, Share2, Sparkles, Scale } from 'lucide-react';
 import { toast } from '@/components/ui/use-toast';
-import { AccessLevel, ProjectData } from '@/lib/blockchain';
-import { getProjectById, updateProject, getAllProjects, getAllProjectsAdmin } from '@/services/projectService';
+import { AccessLevel, ProjectData, ProjectSummary } from '@/lib/blockchain';
+import { getExplorerUrl } from '@/lib/chains';
+import {
+  formatEmbargoDate,
+  getAccessLevelInfo,
+  getAccessLevelLabel,
+  getEffectiveAccessLevel,
+  parseAllowlist,
+  parseEmbargoDate
+} from '@/lib/accessPolicy';
+import AccessLevelBadge from '@/components/AccessLevelBadge';
+import EmbargoBadge from '@/components/EmbargoBadge';
+import AccessLevelSelector from '@/components/AccessLevelSelector';
+import AccessRequestForm from '@/components/AccessRequestForm';
+import AccessRequestQueue from '@/components/AccessRequestQueue';
+import EncryptedFileAccess from '@/components/EncryptedFileAccess';
+import ProjectFileTree from '@/components/ProjectFileTree';
+import VerifiedDownload from '@/components/VerifiedDownload';
+import AccessHistoryTimeline from '@/components/AccessHistoryTimeline';
+import { recordAccessChange } from '@/services/accessHistoryService';
+import { getRequestsForProject, useAccessRequestStore } from '@/services/accessRequestService';
+import { getProjectById, updateProject, getAllProjects, getProjectSummaries } from '@/services/projectService';
 import AIExplanation from '@/components/AIExplanation';
 import AIChat from '@/components/AIChat';
 import ReactMarkdown from 'react-markdown';
 import { mockDepartmentsByInstitution, mockInstitutions } from '@/components/InstitutionData';
-import { getIpfsGatewayUrl } from '@/lib/pinata';
+import { getIpfsGatewayUrl } from '@/lib/storage';
+import { getLicenseLabel } from '@/lib/projectMetadata';
 
 const ProjectDetailsPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const [project, setProject] = useState<ProjectData | null>(null);
+  const [restrictedProject, setRestrictedProject] = useState<ProjectSummary | null>(null);
+  const [relatedProjects, setRelatedProjects] = useState<ProjectData[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [newAccessLevel, setNewAccessLevel] = useState<string>('');
+  const [newAllowlist, setNewAllowlist] = useState('');
+  const [newEmbargoUntil, setNewEmbargoUntil] = useState('');
   const [isUpdating, setIsUpdating] = useState(false);
   const { address } = useWallet();
+  const { canChangeAccess, grantedProjectIds } = usePermissions();
+  const accessRequests = useAccessRequestStore(state => state.requests);
+
+  // Approving this wallet's request opens the project, so it is loaded again
+  const isGranted = grantedProjectIds.includes(parseInt(id || '0'));
 
   // Function to load project data
-  const loadProject = () => {
+  const loadProject = useCallback(async () => {
     setIsLoading(true);
 
     try {
       const projectId = parseInt(id || '0');
-      const foundProject = getProjectById(projectId, address);
+      const foundProject = await getProjectById(projectId, address);
 
       if (foundProject) {
         setProject(foundProject);
+        setRestrictedProject(null);
         setNewAccessLevel(foundProject.accessLevel.toString());
+        setNewAllowlist((foundProject.allowlist || []).join('\n'));
+        setNewEmbargoUntil(formatEmbargoDate(foundProject.embargoUntil));
+
+        // Get all projects from the same department (with access control)
+        const allProjects = await getAllProjects(address);
+        setRelatedProjects(
+          allProjects
+            .filter(p => p.departmentId === foundProject.departmentId && p.id !== foundProject.id)
+            .slice(0, 3) // Limit to 3 related projects
+        );
+      } else {
+        // Check if the project exists but user doesn't have access
+        setProject(null);
+        const [summary] = await getProjectSummaries([projectId]);
+        setRestrictedProject(summary || null);
       }
     } catch (error) {
       console.error('Error fetching project:', error);
@@ -50,39 +95,54 @@ const ProjectDetailsPage: React.FC = () => {
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [id, address]);
 
-  // Load project when component mounts, ID changes, or address changes
+  // Load project when component mounts, ID changes, address changes or access is granted
   useEffect(() => {
     loadProject();
-  }, [id, address]);
+  }, [loadProject, isGranted]);
 
   // Check if the current user is an author of the project
   const isAuthor = address && project?.authors.some(
     author => author.toLowerCase() === address.toLowerCase()
   );
+  const canChangeProjectAccess = !!project && canChangeAccess(project);
+  const pendingRequests = project
+    ? getRequestsForProject(accessRequests, project.id).filter(r => r.status === 'pending')
+    : [];
 
   const handleAccessLevelChange = async () => {
-    if (!project) return;
+    if (!project || !canChangeProjectAccess) return;
 
     setIsUpdating(true);
 
     try {
       // Create updated project with new access level
+      const accessLevel = parseInt(newAccessLevel) as AccessLevel;
+      const embargoUntil = parseEmbargoDate(newEmbargoUntil);
+      if (embargoUntil !== undefined && embargoUntil <= Date.now()) {
+        throw new Error('The embargo date must be in the future');
+      }
+
       const updatedProject = {
         ...project,
-        accessLevel: parseInt(newAccessLevel) as AccessLevel
+        accessLevel,
+        allowlist: accessLevel === AccessLevel.Allowlist ? parseAllowlist(newAllowlist) : undefined,
+        embargoUntil
       };
 
-      // Update the project in our store
-      updateProject(updatedProject);
+      // Update the project in the repository and keep the change in the access history
+      await updateProject(updatedProject);
+      recordAccessChange(project, updatedProject, address);
 
       // Update local state
       setProject(updatedProject);
 
       toast({
         title: "Access level updated",
-        description: `Project access level has been changed to ${AccessLevel[parseInt(newAccessLevel)]}`,
+        description: embargoUntil
+          ? `Project will become ${getAccessLevelLabel(accessLevel)} on ${new Date(embargoUntil).toLocaleDateString()}`
+          : `Project access level has been changed to ${getAccessLevelLabel(accessLevel)}`,
       });
     } catch (error) {
       console.error('Error updating access level:', error);
@@ -96,35 +156,6 @@ const ProjectDetailsPage: React.FC = () => {
     }
   };
 
-  // Render access level badge with appropriate icon and color
-  const renderAccessLevelBadge = (accessLevel: AccessLevel) => {
-    switch(accessLevel) {
-      case AccessLevel.Public:
-        return (
-          <Badge variant="outline" className="flex items-center gap-1 bg-green-100 text-green-700 border-green-300 px-3 py-1">
-            <Globe className="h-3 w-3" />
-            Public
-          </Badge>
-        );
-      case AccessLevel.Restricted:
-        return (
-          <Badge variant="outline" className="flex items-center gap-1 bg-amber-100 text-amber-700 border-amber-300 px-3 py-1">
-            <Users className="h-3 w-3" />
-            Restricted
-          </Badge>
-        );
-      case AccessLevel.Private:
-        return (
-          <Badge variant="outline" className="flex items-center gap-1 bg-red-100 text-red-700 border-red-300 px-3 py-1">
-            <Lock className="h-3 w-3" />
-            Private
-          </Badge>
-        );
-      default:
-        return null;
-    }
-  };
-
   if (isLoading) {
     return (
       <Layout>
@@ -136,8 +167,7 @@ const ProjectDetailsPage: React.FC = () => {
   }
 
   if (!project) {
-    // Check if the project exists but user doesn't have access
-    const projectExists = getAllProjectsAdmin().find(p => p.id === parseInt(id || '0'));
+    const projectExists = restrictedProject;
 
     return (
       <Layout>
@@ -146,13 +176,22 @@ const ProjectDetailsPage: React.FC = () => {
             <>
               <h1 className="text-2xl font-bold mb-4 text-gray-800">Access Restricted</h1>
               <p className="text-gray-600 mb-6">
-                This project is {projectExists.accessLevel === AccessLevel.Private ? 'private' : 'restricted'} and you don't have permission to view it.
+                This project is {getEffectiveAccessLevel(projectExists) === AccessLevel.Private ? 'private' : 'restricted'} and you don't have permission to view it.
+                <span className="block mt-2">
+                  {getAccessLevelInfo(getEffectiveAccessLevel(projectExists))?.description}.
+                </span>
+                {projectExists.embargoUntil > Date.now() && (
+                  <span className="block mt-2">
+                    It is under embargo until {new Date(projectExists.embargoUntil).toLocaleDateString()}.
+                  </span>
+                )}
                 {!address && (
                   <span className="block mt-2">
-                    Please connect your wallet if you are the author of this project.
+                    Please connect your wallet if you are the author of this project or to request access.
                   </span>
                 )}
               </p>
+              <AccessRequestForm project={projectExists} />
             </>
           ) : (
             <>
@@ -206,7 +245,8 @@ const ProjectDetailsPage: React.FC = () => {
               <Share2 className="h-4 w-4" />
               Share
             </Button>
-            {renderAccessLevelBadge(project.accessLevel)}
+            <AccessLevelBadge accessLevel={getEffectiveAccessLevel(project)} className="px-3 py-1" />
+            <EmbargoBadge project={project} className="px-3 py-1" />
           </div>
         </div>
 
@@ -248,8 +288,24 @@ const ProjectDetailsPage: React.FC = () => {
             <span className="text-gray-600 font-medium">Project ID:</span>
             <span>#{project.id}</span>
           </div>
+
+          {project.license && (
+            <div className="flex items-center gap-2">
+              <Scale className="h-5 w-5 text-university-blue" />
+              <span className="text-gray-600 font-medium">License:</span>
+              <span>{getLicenseLabel(project.license)}</span>
+            </div>
+          )}
         </div>
 
+        {project.keywords && project.keywords.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-8">
+            {project.keywords.map(keyword => (
+              <Badge key={keyword} variant="secondary">{keyword}</Badge>
+            ))}
+          </div>
+        )}
+
         <Separator className="my-6" />
 
         {/* Project description */}
@@ -286,19 +342,45 @@ const ProjectDetailsPage: React.FC = () => {
                   <code className="bg-gray-100 px-2 py-1 rounded text-gray-800">
                     {project.ipfsHash}
                   </code>
+                  {project.metadataCid && (
+                    <p className="mt-2 text-sm text-gray-600">
+                      Metadata:{' '}
+                      <a
+                        href={getIpfsGatewayUrl(project.metadataCid)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-mono text-university-blue hover:underline"
+                      >
+                        {project.metadataCid}
+                      </a>
+                    </p>
+                  )}
                 </div>
 
-                <a
-                  href={getIpfsGatewayUrl(project.ipfsHash)}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="inline-flex items-center px-4 py-2 rounded-md bg-university-blue text-white hover:bg-university-blue/90 transition-colors"
-                >
-                  View on IPFS
-                  <ExternalLink className="h-4 w-4 ml-2" />
-                </a>
+                {project.encryption ? (
+                  <EncryptedFileAccess project={project} onProjectUpdate={setProject} hideDownload={project.isBundle} />
+                ) : (
+                  <div className="flex items-start gap-2">
+                    {!project.isBundle && <VerifiedDownload project={project} />}
+                    <a
+                      href={getIpfsGatewayUrl(project.ipfsHash)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center px-4 py-2 rounded-md bg-university-blue text-white hover:bg-university-blue/90 transition-colors"
+                    >
+                      {project.isBundle ? 'Browse on IPFS' : 'View on IPFS'}
+                      <ExternalLink className="h-4 w-4 ml-2" />
+                    </a>
+                  </div>
+                )}
               </div>
 
+              {project.isBundle && (
+                <div className="mt-4">
+                  <ProjectFileTree project={project} />
+                </div>
+              )}
+
               <div className="mt-4 bg-blue-50 p-4 rounded-md">
                 <p className="text-sm text-blue-800">
                   <strong>What is IPFS?</strong> The InterPlanetary File System is a distributed system for storing and accessing files.
@@ -332,7 +414,7 @@ const ProjectDetailsPage: React.FC = () => {
               {project.authors.map((author, index) => (
                 <li key={index} className="flex items-center">
                   <a
-                    href={`https://etherscan.io/address/${author}`}
+                    href={getExplorerUrl('address', author)}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="text-university-blue hover:underline flex items-center"
@@ -350,13 +432,15 @@ const ProjectDetailsPage: React.FC = () => {
           </div>
         </div>
 
-        {/* Access control (for authors only) */}
-        {isAuthor && (
+        {/* Access control (for authors and admins) */}
+        {canChangeProjectAccess && (
           <div className="mb-8">
             <h2 className="text-2xl font-bold mb-4 text-university-navy">Access Control</h2>
             <div className="bg-white p-6 rounded-lg border border-gray-200">
               <p className="mb-4">
-                As an author of this project, you can change who has access to view it.
+                {isAuthor
+                  ? 'As an author of this project, you can change who has access to view it.'
+                  : 'As an admin of this project\'s institution, you can change who has access to view it.'}
               </p>
 
               <Dialog>
@@ -372,48 +456,24 @@ const ProjectDetailsPage: React.FC = () => {
                   </DialogHeader>
 
                   <div className="py-4">
-                    <RadioGroup
+                    <AccessLevelSelector
                       value={newAccessLevel}
                       onValueChange={setNewAccessLevel}
+                      allowlist={newAllowlist}
+                      onAllowlistChange={setNewAllowlist}
+                      embargoUntil={newEmbargoUntil}
+                      onEmbargoUntilChange={setNewEmbargoUntil}
                       className="flex flex-col space-y-4"
-                    >
-                      <div className="flex items-start space-x-3">
-                        <RadioGroupItem value="0" id="access-public" />
-                        <Label htmlFor="access-public" className="font-medium cursor-pointer">
-                          Public
-                          <p className="font-normal text-gray-600 text-sm">
-                            Anyone can view your project details and files
-                          </p>
-                        </Label>
-                      </div>
-
-                      <div className="flex items-start space-x-3">
-                        <RadioGroupItem value="1" id="access-restricted" />
-                        <Label htmlFor="access-restricted" className="font-medium cursor-pointer">
-                          Restricted
-                          <p className="font-normal text-gray-600 text-sm">
-                            Only users from your institution/department can view your project
-                          </p>
-                        </Label>
-                      </div>
-
-                      <div className="flex items-start space-x-3">
-                        <RadioGroupItem value="2" id="access-private" />
-                        <Label htmlFor="access-private" className="font-medium cursor-pointer">
-                          Private
-                          <p className="font-normal text-gray-600 text-sm">
-                            Only you (project author) can view your project
-                          </p>
-                        </Label>
-                      </div>
-                    </RadioGroup>
+                    />
                   </div>
 
                   <DialogFooter>
                     <Button
                       variant="outline"
                       onClick={handleAccessLevelChange}
-                      disabled={isUpdating || newAccessLevel === project.accessLevel.toString()}
+                      disabled={isUpdating || (newAccessLevel === project.accessLevel.toString() &&
+                        newAccessLevel !== AccessLevel.Allowlist.toString() &&
+                        newEmbargoUntil === formatEmbargoDate(project.embargoUntil))}
                     >
                       {isUpdating ? (
                         <>
@@ -428,9 +488,21 @@ const ProjectDetailsPage: React.FC = () => {
                 </DialogContent>
               </Dialog>
             </div>
+
+            <h3 className="text-xl font-semibold mt-6 mb-3 text-university-navy">
+              Access Requests
+            </h3>
+            <AccessRequestQueue requests={pendingRequests} projects={[project]} />
           </div>
         )}
 
+        {/* Access history */}
+        <div className="mb-8">
+          <h2 className="text-2xl font-bold mb-4 text-university-navy">Access History</h2>
+          <div className="bg-white p-6 rounded-lg border border-gray-200">
+            <AccessHistoryTimeline project={project} />
+          </div>
+        </div>
 
         {/* AI Explanations */}
         <div id="ai-insights" className="mb-8 scroll-mt-20">
@@ -445,29 +517,17 @@ const ProjectDetailsPage: React.FC = () => {
         <div className="mb-8">
           <h2 className="text-2xl font-bold mb-4 text-university-navy">Related Projects</h2>
 
-          {(() => {
-            // Get all projects from the same department (with access control)
-            const allProjects = getAllProjects(address);
-            const relatedProjects = allProjects
-              .filter(p => p.departmentId === project.departmentId && p.id !== project.id)
-              .slice(0, 3); // Limit to 3 related projects
-
-            if (relatedProjects.length === 0) {
-              return (
-                <div className="bg-gray-50 p-6 rounded-lg text-center">
-                  <p className="text-gray-600">No related projects found from this department.</p>
-                </div>
-              );
-            }
-
-            return (
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                {relatedProjects.map(relatedProject => (
-                  <ProjectCard key={relatedProject.id} project={relatedProject} />
-                ))}
-              </div>
-            );
-          })()}
+          {relatedProjects.length === 0 ? (
+            <div className="bg-gray-50 p-6 rounded-lg text-center">
+              <p className="text-gray-600">No related projects found from this department.</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {relatedProjects.map(relatedProject => (
+                <ProjectCard key={relatedProject.id} project={relatedProject} />
+              ))}
+            </div>
+          )}
         </div>
       </div>
       {project && <AIChat project={project} />}
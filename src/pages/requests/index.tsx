@@ -0,0 +1,125 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import Layout from '@/components/Layout';
+import AccessRequestQueue from '@/components/AccessRequestQueue';
+import AccessRequestStatusBadge from '@/components/AccessRequestStatusBadge';
+import { useWallet } from '@/context/WalletContext';
+import { usePermissions } from '@/hooks/use-permissions';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { toast } from '@/components/ui/use-toast';
+import { ProjectSummary } from '@/lib/blockchain';
+import { getProjectSummaries } from '@/services/projectService';
+import { getRequestsByRequester, useAccessRequestStore } from '@/services/accessRequestService';
+
+const AccessRequestsPage: React.FC = () => {
+  const { address, isConnected } = useWallet();
+  const { canChangeAccess } = usePermissions();
+  const requests = useAccessRequestStore(state => state.requests);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const projectIds = useMemo(() => [...new Set(requests.map(request => request.projectId))], [requests]);
+
+  // Requests reference projects the viewer may not see, so only their summaries are looked up
+  useEffect(() => {
+    const loadProjects = async () => {
+      try {
+        setProjects(await getProjectSummaries(projectIds));
+      } catch (error) {
+        console.error('Error loading projects:', error);
+        toast({
+          title: 'Error loading projects',
+          description: 'Failed to load the projects for your access requests',
+          variant: 'destructive',
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadProjects();
+  }, [projectIds]);
+
+  // Pending requests for projects the user is an author or institution admin of
+  const incomingRequests = requests.filter(request => {
+    const project = projects.find(p => p.id === request.projectId);
+    return request.status === 'pending' && project && canChangeAccess(project);
+  });
+
+  const myRequests = getRequestsByRequester(requests, address);
+
+  return (
+    <Layout>
+      <div className="max-w-4xl mx-auto">
+        <h1 className="text-3xl font-bold mb-6 text-university-navy">Access Requests</h1>
+
+        {!isConnected ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Wallet not connected</AlertTitle>
+            <AlertDescription>
+              Connect your wallet to see your access requests.
+            </AlertDescription>
+          </Alert>
+        ) : isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-university-blue" />
+          </div>
+        ) : (
+          <Tabs defaultValue={incomingRequests.length > 0 ? 'incoming' : 'mine'}>
+            <TabsList>
+              <TabsTrigger value="incoming">To Review ({incomingRequests.length})</TabsTrigger>
+              <TabsTrigger value="mine">My Requests ({myRequests.length})</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="incoming" className="mt-4">
+              <AccessRequestQueue requests={incomingRequests} projects={projects} showProject />
+            </TabsContent>
+
+            <TabsContent value="mine" className="mt-4">
+              {myRequests.length === 0 ? (
+                <div className="bg-gray-50 p-6 rounded-lg text-center text-gray-600">
+                  You haven't requested access to any projects yet.
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Project</TableHead>
+                      <TableHead>Requested</TableHead>
+                      <TableHead>Access Until</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {myRequests.map(request => (
+                      <TableRow key={request.id}>
+                        <TableCell>
+                          <Link to={`/project/${request.projectId}`} className="text-university-blue hover:underline">
+                            {projects.find(p => p.id === request.projectId)?.title || `Project #${request.projectId}`}
+                          </Link>
+                        </TableCell>
+                        <TableCell>{new Date(request.createdAt).toLocaleDateString()}</TableCell>
+                        <TableCell>
+                          {request.expiresAt ? new Date(request.expiresAt).toLocaleDateString() : '—'}
+                        </TableCell>
+                        <TableCell>
+                          <AccessRequestStatusBadge request={request} />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default AccessRequestsPage;
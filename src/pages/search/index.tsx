@@ -6,84 +6,224 @@ import { useWallet } from '@/context/WalletContext';
 import Layout from '@/components/Layout';
 import SearchForm, { SearchParams } from '@/components/SearchForm';
 import ProjectCard from '@/components/ProjectCard';
+import SearchFacets, { FacetName } from '@/components/SearchFacets';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { ProjectData, AccessLevel } from '@/lib/blockchain';
-import { getAllProjects } from '@/services/projectService';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from '@/components/ui/pagination';
+import { ProjectData, PROJECT_PAGE_SIZE } from '@/lib/blockchain';
+import { getEffectiveAccessLevel } from '@/lib/accessPolicy';
+import {
+  FilterType,
+  formatFilter,
+  matchesSearchFilters,
+  matchesSearchText,
+  parseSearchQuery,
+  setQueryFilter,
+  toSearchParams
+} from '@/lib/searchQuery';
+import { getAllProjects, getProjectsPage } from '@/services/projectService';
+import {
+  USE_API,
+  SearchCorrection,
+  SearchFacets as Facets,
+  SearchHighlights,
+  SearchSort,
+  searchProjects
+} from '@/services/apiClient';
 import { mockDepartmentsByInstitution } from '@/components/InstitutionData';
 
+const PAGE_SIZE = PROJECT_PAGE_SIZE;
+
+// Query filter of each facet
+const FACET_FILTER_TYPES: Record<FacetName, FilterType> = {
+  institutionId: 'institution',
+  departmentId: 'department',
+  year: 'year',
+  accessLevel: 'access'
+};
+
+// URL parameters of the filters from before they were part of q, still read so old links keep working
+const LEGACY_URL_KEYS: [string, FacetName][] = [
+  ['inst', 'institutionId'],
+  ['dept', 'departmentId'],
+  ['year', 'year'],
+  ['access', 'accessLevel']
+];
+
+// The query text from the URL, with any legacy filter parameters folded in
+const readQueryText = (queryParams: URLSearchParams): string => {
+  return LEGACY_URL_KEYS.reduce((text, [key, facet]) => {
+    const value = parseInt(queryParams.get(key) ?? '');
+    if (Number.isNaN(value)) return text;
+
+    const type = FACET_FILTER_TYPES[facet];
+    return setQueryFilter(text, type, formatFilter(type, { query: '', [facet]: value }));
+  }, queryParams.get('q') || '');
+};
+
+const hasSearchCriteria = (params: SearchParams): boolean => {
+  return Boolean(params.query) || Object.keys(params).some(
+    key => key !== 'query' && params[key as keyof SearchParams] !== undefined
+  );
+};
+
+// Sort a list of projects by one of the sort options
+const sortProjects = (projects: ProjectData[], sortOption: string): ProjectData[] => {
+  const results = [...projects];
+
+  switch (sortOption) {
+    case 'recent':
+      results.sort((a, b) => b.uploadDate - a.uploadDate);
+      break;
+    case 'oldest':
+      results.sort((a, b) => a.uploadDate - b.uploadDate);
+      break;
+    case 'title_asc':
+      results.sort((a, b) => a.title.localeCompare(b.title));
+      break;
+    case 'title_desc':
+      results.sort((a, b) => b.title.localeCompare(a.title));
+      break;
+  }
+
+  return results;
+};
+
+// Department and year filters map onto the repository's paginated list queries,
+// anything else needs the full result set to filter and sort. A department implies its
+// institution (toSearchParams fills it in), so only an institution on its own rules paging out.
+const canUseListPaging = (params: SearchParams, sortOption: string): boolean => {
+  return !params.query &&
+    (params.institutionId === undefined || params.departmentId !== undefined) &&
+    params.accessLevel === undefined &&
+    params.author === undefined &&
+    params.yearFrom === undefined &&
+    params.yearTo === undefined &&
+    sortOption === 'recent';
+};
+
 const SearchPage: React.FC = () => {
   const location = useLocation();
   const navigate = useNavigate();
   const { address } = useWallet();
   const [searchResults, setSearchResults] = useState<ProjectData[]>([]);
-  const [filteredResults, setFilteredResults] = useState<ProjectData[]>([]);
+  const [pageResults, setPageResults] = useState<ProjectData[]>([]);
+  const [totalResults, setTotalResults] = useState<number | null>(0);
+  const [hasNextPage, setHasNextPage] = useState(false);
+  const [isListPaging, setIsListPaging] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [queryText, setQueryText] = useState('');
   const [searchParams, setSearchParams] = useState<SearchParams>({ query: '' });
-  const [sortOption, setSortOption] = useState<string>('recent');
+  const [currentPage, setCurrentPage] = useState(1);
+  // The backend ranks text matches, local and contract sources sort by date
+  const [sortOption, setSortOption] = useState<string>(USE_API ? 'relevance' : 'recent');
+  const [highlights, setHighlights] = useState<Map<number, SearchHighlights>>(new Map());
+  const [facets, setFacets] = useState<Facets | null>(null);
+  const [corrections, setCorrections] = useState<SearchCorrection[]>([]);
 
-  // Function to load projects
-  const loadProjects = () => {
+  // Function to load projects, either one page at a time or the full set
+  const loadProjects = async (params: SearchParams, page: number) => {
     setIsLoading(true);
-    const projects = getAllProjects(address);
-    setSearchResults(projects);
-    setIsLoading(false);
-  };
 
-  // Parse query parameters from URL and load projects when URL changes
-  useEffect(() => {
-    const queryParams = new URLSearchParams(location.search);
+    try {
+      if (USE_API) {
+        // The backend searches, filters, ranks and pages, keeping to what the viewer may see
+        const result = await searchProjects({
+          q: params.query || undefined,
+          institutionId: params.institutionId,
+          departmentId: params.departmentId,
+          year: params.year,
+          yearFrom: params.yearFrom,
+          yearTo: params.yearTo,
+          author: params.author,
+          accessLevel: params.accessLevel,
+          sort: sortOption as SearchSort,
+          cursor: (page - 1) * PAGE_SIZE,
+          limit: PAGE_SIZE
+        });
 
-    const newSearchParams: SearchParams = {
-      query: queryParams.get('q') || '',
-    };
+        setIsListPaging(true);
+        setPageResults(result.results.map(({ project }) => project));
+        setHighlights(new Map(result.results
+          .filter(({ highlights }) => highlights)
+          .map(({ project, highlights }) => [project.id, highlights])));
+        setTotalResults(result.total);
+        setHasNextPage(result.nextCursor !== null);
+        setFacets(result.facets);
+        setCorrections(result.corrections);
+      } else if (canUseListPaging(params, sortOption)) {
+        const result = await getProjectsPage(
+          { departmentId: params.departmentId, year: params.year },
+          (page - 1) * PAGE_SIZE,
+          PAGE_SIZE,
+          address
+        );
 
-    if (queryParams.has('inst')) {
-      newSearchParams.institutionId = parseInt(queryParams.get('inst')!);
+        setIsListPaging(true);
+        setPageResults(sortProjects(result.projects, sortOption));
+        setTotalResults(result.total);
+        setHasNextPage(result.nextCursor !== null);
+      } else {
+        setIsListPaging(false);
+        setSearchResults(await getAllProjects(address));
+      }
+    } catch (error) {
+      console.error('Error loading projects:', error);
+    } finally {
+      setIsLoading(false);
     }
+  };
 
-    if (queryParams.has('dept')) {
-      newSearchParams.departmentId = parseInt(queryParams.get('dept')!);
-    }
+  // Parse query parameters from URL and load projects when URL changes
+  useEffect(() => {
+    const queryParams = new URLSearchParams(location.search);
 
-    if (queryParams.has('year')) {
-      newSearchParams.year = parseInt(queryParams.get('year')!);
-    }
+    // Invalid parts of the query are left out here, the form points them out
+    const newQueryText = readQueryText(queryParams);
+    const newSearchParams = toSearchParams(parseSearchQuery(newQueryText).ast);
 
-    if (queryParams.has('access')) {
-      newSearchParams.accessLevel = parseInt(queryParams.get('access')!) as AccessLevel;
-    }
+    const page = Math.max(parseInt(queryParams.get('page') || '1') || 1, 1);
 
+    setQueryText(newQueryText);
     setSearchParams(newSearchParams);
+    setCurrentPage(page);
 
     // Load projects
-    loadProjects();
-  }, [location.search]);
+    loadProjects(newSearchParams, page);
+  }, [location.search, address, sortOption]);
 
   // Also load projects when the component is focused (e.g., after navigation)
   useEffect(() => {
     // This will refresh the projects when the user navigates back to this page
-    const handleFocus = () => loadProjects();
+    const handleFocus = () => loadProjects(searchParams, currentPage);
     window.addEventListener('focus', handleFocus);
 
     return () => {
       window.removeEventListener('focus', handleFocus);
     };
-  }, [address]);
+  }, [address, searchParams, currentPage, sortOption]);
 
-  // Apply filters and sort results
+  // Apply filters, sort and page the full result set
   useEffect(() => {
+    if (isListPaging) return;
+
     let results = [...searchResults];
 
     // Filter by search query
     if (searchParams.query) {
-      const query = searchParams.query.toLowerCase();
-      results = results.filter(project =>
-        project.title.toLowerCase().includes(query) ||
-        project.description.toLowerCase().includes(query)
-      );
+      results = results.filter(project => matchesSearchText(project, searchParams.query));
     }
 
+    // Filter by author and year range
+    results = results.filter(project => matchesSearchFilters(project, searchParams));
+
     // Filter by institution (if department is not specified)
     if (searchParams.institutionId !== undefined && searchParams.departmentId === undefined) {
       // Get all departments for this institution
@@ -104,27 +244,16 @@ const SearchPage: React.FC = () => {
 
     // Filter by access level
     if (searchParams.accessLevel !== undefined) {
-      results = results.filter(project => project.accessLevel === searchParams.accessLevel);
+      results = results.filter(project => getEffectiveAccessLevel(project) === searchParams.accessLevel);
     }
 
-    // Sort results
-    switch (sortOption) {
-      case 'recent':
-        results.sort((a, b) => b.uploadDate - a.uploadDate);
-        break;
-      case 'oldest':
-        results.sort((a, b) => a.uploadDate - b.uploadDate);
-        break;
-      case 'title_asc':
-        results.sort((a, b) => a.title.localeCompare(b.title));
-        break;
-      case 'title_desc':
-        results.sort((a, b) => b.title.localeCompare(a.title));
-        break;
-    }
+    results = sortProjects(results, sortOption);
 
-    setFilteredResults(results);
-  }, [searchResults, searchParams, sortOption]);
+    const start = (currentPage - 1) * PAGE_SIZE;
+    setPageResults(results.slice(start, start + PAGE_SIZE));
+    setTotalResults(results.length);
+    setHasNextPage(start + PAGE_SIZE < results.length);
+  }, [searchResults, searchParams, sortOption, currentPage, isListPaging]);
 
   const handleSearch = (params: SearchParams) => {
     setSearchParams(params);
@@ -135,16 +264,53 @@ const SearchPage: React.FC = () => {
     navigate('/search');
   };
 
+  // Keep the current page in the URL so it survives reloads and can be shared
+  const handlePageChange = (page: number) => {
+    const queryParams = new URLSearchParams(location.search);
+
+    if (page > 1) {
+      queryParams.set('page', page.toString());
+    } else {
+      queryParams.delete('page');
+    }
+
+    navigate({ pathname: '/search', search: queryParams.toString() });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // Filter by a facet value, or drop the filter when it is already applied
+  const handleFacetToggle = (facet: FacetName, value: number) => {
+    const queryParams = new URLSearchParams(location.search);
+    const type = FACET_FILTER_TYPES[facet];
+    const filter = searchParams[facet] === value ? undefined : formatFilter(type, { query: '', [facet]: value });
+
+    // A department also picks its institution, so a different institution drops it
+    const text = facet === 'institutionId' ? setQueryFilter(queryText, 'department', undefined) : queryText;
+    const newQueryText = setQueryFilter(text, type, filter);
+
+    if (newQueryText) {
+      queryParams.set('q', newQueryText);
+    } else {
+      queryParams.delete('q');
+    }
+    LEGACY_URL_KEYS.forEach(([key]) => queryParams.delete(key));
+    queryParams.delete('page');
+
+    navigate({ pathname: '/search', search: queryParams.toString() });
+  };
+
+  const pageStart = (currentPage - 1) * PAGE_SIZE;
+  const totalPages = totalResults !== null ? Math.max(Math.ceil(totalResults / PAGE_SIZE), 1) : null;
+
   return (
     <Layout>
       <h1 className="text-3xl font-bold mb-6 text-university-navy">Search Projects</h1>
 
       <div className="mb-8">
-        <SearchForm onSearch={handleSearch} initialValues={searchParams} />
+        <SearchForm onSearch={handleSearch} initialQuery={queryText} />
 
         {/* Show clear search button if there are any search parameters */}
-        {(searchParams.query || searchParams.institutionId || searchParams.departmentId ||
-          searchParams.year || searchParams.accessLevel !== undefined) && (
+        {hasSearchCriteria(searchParams) && (
           <div className="mt-4 flex justify-end">
             <Button
               variant="outline"
@@ -161,7 +327,9 @@ const SearchPage: React.FC = () => {
       {!isLoading && (
         <div className="mb-6 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
           <div className="text-gray-600">
-            Found {filteredResults.length} {filteredResults.length === 1 ? 'project' : 'projects'}
+            {totalResults !== null
+              ? `Found ${totalResults} ${totalResults === 1 ? 'project' : 'projects'}`
+              : `Showing projects ${pageStart + 1}-${pageStart + pageResults.length}`}
           </div>
 
           <div className="flex items-center">
@@ -171,6 +339,7 @@ const SearchPage: React.FC = () => {
                 <SelectValue placeholder="Sort by" />
               </SelectTrigger>
               <SelectContent>
+                {USE_API && <SelectItem value="relevance">Relevance</SelectItem>}
                 <SelectItem value="recent">Most Recent</SelectItem>
                 <SelectItem value="oldest">Oldest</SelectItem>
                 <SelectItem value="title_asc">Title (A-Z)</SelectItem>
@@ -181,6 +350,22 @@ const SearchPage: React.FC = () => {
         </div>
       )}
 
+      {!isLoading && corrections.length > 0 && (
+        <p className="mb-4 text-sm text-gray-600">
+          Also showing results for{' '}
+          {corrections.map(({ term, suggestion }, index) => (
+            <React.Fragment key={term}>
+              {index > 0 && ', '}
+              <span className="font-semibold">{suggestion}</span> (instead of "{term}")
+            </React.Fragment>
+          ))}
+        </p>
+      )}
+
+      {!isLoading && facets && (
+        <SearchFacets facets={facets} params={searchParams} onToggle={handleFacetToggle} />
+      )}
+
       {isLoading ? (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 animate-pulse">
           {[1, 2, 3, 4, 5, 6].map((i) => (
@@ -190,18 +375,78 @@ const SearchPage: React.FC = () => {
             ></div>
           ))}
         </div>
-      ) : filteredResults.length > 0 ? (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredResults.map((project) => (
-            <ProjectCard key={project.id} project={project} />
-          ))}
-        </div>
+      ) : pageResults.length > 0 || currentPage > 1 || hasNextPage ? (
+        <>
+          {pageResults.length > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {pageResults.map((project) => (
+                <ProjectCard key={project.id} project={project} highlights={highlights.get(project.id)} />
+              ))}
+            </div>
+          ) : (
+            // Every project on the page is hidden from the viewer, or the page is past the last one
+            // (e.g. from an old link), the pagination still leads on
+            <p className="text-center py-12 bg-gray-50 rounded-lg text-gray-600">
+              There are no projects you can view on page {currentPage}.
+            </p>
+          )}
+
+          {(currentPage > 1 || hasNextPage) && (
+            <Pagination className="mt-8">
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious
+                    href="#"
+                    onClick={(e) => {
+                      e.preventDefault();
+                      if (currentPage > 1) handlePageChange(currentPage - 1);
+                    }}
+                    className={currentPage <= 1 ? 'pointer-events-none opacity-50' : ''}
+                  />
+                </PaginationItem>
+
+                {totalPages !== null ? (
+                  Array.from({ length: totalPages }, (_, i) => i + 1).map(page => (
+                    <PaginationItem key={page}>
+                      <PaginationLink
+                        href="#"
+                        isActive={page === currentPage}
+                        onClick={(e) => {
+                          e.preventDefault();
+                          handlePageChange(page);
+                        }}
+                      >
+                        {page}
+                      </PaginationLink>
+                    </PaginationItem>
+                  ))
+                ) : (
+                  <PaginationItem>
+                    <PaginationLink href="#" isActive onClick={(e) => e.preventDefault()}>
+                      {currentPage}
+                    </PaginationLink>
+                  </PaginationItem>
+                )}
+
+                <PaginationItem>
+                  <PaginationNext
+                    href="#"
+                    onClick={(e) => {
+                      e.preventDefault();
+                      if (hasNextPage) handlePageChange(currentPage + 1);
+                    }}
+                    className={!hasNextPage ? 'pointer-events-none opacity-50' : ''}
+                  />
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
+          )}
+        </>
       ) : (
         <div className="text-center py-12 bg-gray-50 rounded-lg">
           <h3 className="text-xl font-semibold mb-2 text-university-navy">No projects found</h3>
 
-          {searchParams.query || searchParams.institutionId || searchParams.departmentId ||
-           searchParams.year || searchParams.accessLevel !== undefined ? (
+          {hasSearchCriteria(searchParams) ? (
             <>
               <p className="text-gray-600 mb-4">
                 No projects match your search criteria. Try adjusting your filters.
@@ -3,19 +3,33 @@ import React from 'react';
 import Layout from '@/components/Layout';
 import UploadForm from '@/components/UploadForm';
 import { useWallet } from '@/context/WalletContext';
+import { usePermissions } from '@/hooks/use-permissions';
 import { Button } from '@/components/ui/button';
 import { AlertCircle, Loader2 } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 
 const UploadPage: React.FC = () => {
   const { isConnected, isConnecting, connect } = useWallet();
+  const { canUpload, isLoading: isLoadingRoles } = usePermissions();
 
   return (
     <Layout>
       <div className="max-w-3xl mx-auto">
         <h1 className="text-3xl font-bold mb-6 text-university-navy">Upload Your Project</h1>
 
-        {isConnected ? (
+        {isConnected && isLoadingRoles ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-university-blue" />
+          </div>
+        ) : isConnected && !canUpload ? (
+          <Alert variant="destructive" className="mb-6">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Wallet not registered</AlertTitle>
+            <AlertDescription>
+              Only registered students and institution admins can upload projects. Ask your institution admin to register this wallet.
+            </AlertDescription>
+          </Alert>
+        ) : isConnected ? (
           <>
             <div className="mb-6">
               <p className="text-gray-600">
@@ -35,7 +49,7 @@ const UploadPage: React.FC = () => {
               </p>
               <Button
                 className="bg-university-gold text-university-navy hover:bg-university-gold/90"
-                onClick={connect}
+                onClick={() => connect()}
                 disabled={isConnecting}
               >
                 {isConnecting ? (
@@ -0,0 +1,97 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { AccessChange, generateAccessChangeId } from '@/models/AccessChange';
+import { ProjectData } from '@/lib/blockchain';
+import { getEffectiveAccessLevel, getOnChainAccessLevel, isEmbargoed } from '@/lib/accessPolicy';
+import { getIndexedAccessChanges } from '@/lib/eventIndexer';
+import { PROJECT_SOURCE } from './projectRepository';
+
+interface AccessAuditStore {
+  changes: AccessChange[];
+  addChange: (change: AccessChange) => void;
+}
+
+// Local audit record of access changes, the only history when projects live in the local store
+export const useAccessAuditStore = create<AccessAuditStore>()(
+  persist(
+    (set) => ({
+      changes: [],
+
+      addChange: (change) => {
+        set((state) => ({
+          changes: [...state.changes, change]
+        }));
+      }
+    }),
+    {
+      name: 'access-audit-storage'
+    }
+  )
+);
+
+const sameAllowlist = (a: string[] = [], b: string[] = []) => a.join(',') === b.join(',');
+
+// Record an access change made through the app, skipped when nothing visible changed
+export const recordAccessChange = (
+  previous: ProjectData,
+  updated: ProjectData,
+  changedBy: string,
+  now: number = Date.now()
+): AccessChange | null => {
+  const oldAccessLevel = getEffectiveAccessLevel(previous, now);
+  const newAccessLevel = getEffectiveAccessLevel(updated, now);
+
+  if (
+    oldAccessLevel === newAccessLevel &&
+    previous.accessLevel === updated.accessLevel &&
+    previous.embargoUntil === updated.embargoUntil &&
+    sameAllowlist(previous.allowlist, updated.allowlist)
+  ) {
+    return null;
+  }
+
+  const change: AccessChange = {
+    id: generateAccessChangeId(),
+    projectId: updated.id,
+    oldAccessLevel,
+    newAccessLevel,
+    changedBy: changedBy.toLowerCase(),
+    timestamp: now,
+    embargo: isEmbargoed(updated, now)
+      ? { until: updated.embargoUntil, accessLevel: updated.accessLevel }
+      : undefined,
+    onChain: PROJECT_SOURCE === 'contract' &&
+      getOnChainAccessLevel(previous, now) !== getOnChainAccessLevel(updated, now)
+  };
+
+  useAccessAuditStore.getState().addChange(change);
+  return change;
+};
+
+// Access history of a project, newest first. On the contract the emitted
+// AccessLevelChanged events are the record; changes that stayed off-chain
+// (department, allowlist and embargo edits) come from the local audit record.
+export async function getAccessHistory(projectId: number): Promise<AccessChange[]> {
+  const localChanges = useAccessAuditStore.getState().changes
+    .filter(change => change.projectId === projectId);
+
+  let changes = localChanges;
+  if (PROJECT_SOURCE === 'contract') {
+    const events = await getIndexedAccessChanges(projectId);
+    changes = [
+      ...events.map(event => ({
+        id: `${event.transactionHash}-${event.logIndex}`,
+        projectId: event.projectId,
+        oldAccessLevel: event.oldAccessLevel,
+        newAccessLevel: event.newAccessLevel,
+        changedBy: event.changedBy,
+        timestamp: event.timestamp,
+        transactionHash: event.transactionHash,
+        onChain: true
+      })),
+      ...localChanges.filter(change => !change.onChain)
+    ];
+  }
+
+  return changes.sort((a, b) => b.timestamp - a.timestamp);
+}
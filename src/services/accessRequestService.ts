@@ -0,0 +1,137 @@
+import { create } from 'zustand';
+import { AccessRequest, AccessRequestStatus } from '@/models/AccessRequest';
+import { ProjectSummary } from '@/lib/blockchain';
+import { UserRoles, canChangeAccess } from '@/lib/permissions';
+import { getSessionToken } from './authService';
+import * as api from './apiClient';
+
+interface AccessRequestStore {
+  requests: AccessRequest[]; // Newest first
+  mergeRequests: (requests: AccessRequest[]) => void;
+}
+
+// Requests loaded from the backend: the signed-in wallet's own and those for the projects it decides on
+export const useAccessRequestStore = create<AccessRequestStore>()((set) => ({
+  requests: [],
+
+  mergeRequests: (requests) => {
+    set((state) => {
+      const byId = new Map(state.requests.map(r => [r.id, r]));
+      requests.forEach(r => byId.set(r.id, r));
+      return { requests: [...byId.values()].sort((a, b) => b.createdAt - a.createdAt) };
+    });
+  }
+}));
+
+// Callers mounting together share one request
+let pendingLoad: Promise<void> | null = null;
+
+// Refresh the store from the backend, requests are only listed for a signed-in wallet
+export const loadAccessRequests = (): Promise<void> => {
+  if (!getSessionToken()) return Promise.resolve();
+
+  if (!pendingLoad) {
+    pendingLoad = api.listAccessRequests()
+      .then(requests => useAccessRequestStore.getState().mergeRequests(requests))
+      .finally(() => {
+        pendingLoad = null;
+      });
+  }
+  return pendingLoad;
+};
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const findRequest = (id: string): AccessRequest => {
+  const request = useAccessRequestStore.getState().requests.find(r => r.id === id);
+  if (!request) {
+    throw new Error('Access request not found');
+  }
+  return request;
+};
+
+// Status including approvals that have run out
+export const getRequestStatus = (request: AccessRequest, now: number = Date.now()): AccessRequestStatus => {
+  if (request.status === 'approved' && request.expiresAt !== undefined && request.expiresAt <= now) {
+    return 'expired';
+  }
+  return request.status;
+};
+
+// Projects a wallet was granted access to through an approved request
+export const getGrantedProjectIds = (requests: AccessRequest[], address: string | null): number[] => {
+  if (!address) return [];
+
+  return requests
+    .filter(r => sameAddress(r.requester, address) && getRequestStatus(r) === 'approved')
+    .map(r => r.projectId);
+};
+
+export const getRequestsForProject = (requests: AccessRequest[], projectId: number): AccessRequest[] => {
+  return requests.filter(r => r.projectId === projectId);
+};
+
+export const getRequestsByRequester = (requests: AccessRequest[], address: string | null): AccessRequest[] => {
+  return address ? requests.filter(r => sameAddress(r.requester, address)) : [];
+};
+
+// Ask the authors and institution admins of a project for access, as the signed-in wallet
+export const submitAccessRequest = async (projectId: number, requester: string, reason: string): Promise<AccessRequest> => {
+  const { requests } = useAccessRequestStore.getState();
+
+  const open = requests.find(r =>
+    r.projectId === projectId &&
+    sameAddress(r.requester, requester) &&
+    (getRequestStatus(r) === 'pending' || getRequestStatus(r) === 'approved')
+  );
+  if (open) {
+    throw new Error(open.status === 'pending'
+      ? 'You already have a pending request for this project'
+      : 'You already have access to this project');
+  }
+
+  const request = await api.createAccessRequest(projectId, reason.trim());
+  useAccessRequestStore.getState().mergeRequests([request]);
+  return request;
+};
+
+// Only those who can change a project's access level may decide on its requests
+const decideRequest = async (
+  id: string,
+  project: ProjectSummary,
+  approver: UserRoles,
+  status: 'approved' | 'denied',
+  expiresAt?: number
+): Promise<void> => {
+  const request = findRequest(id);
+
+  if (request.projectId !== project.id) {
+    throw new Error('Access request belongs to a different project');
+  }
+  if (!canChangeAccess(approver, project)) {
+    throw new Error('Only the authors and institution admins can decide on access requests');
+  }
+  if (request.status !== 'pending') {
+    throw new Error('This access request has already been decided');
+  }
+
+  const decided = await api.decideAccessRequest(id, status, expiresAt);
+  useAccessRequestStore.getState().mergeRequests([decided]);
+};
+
+export const approveAccessRequest = async (
+  id: string,
+  project: ProjectSummary,
+  approver: UserRoles,
+  expiresAt?: number
+): Promise<void> => {
+  if (expiresAt !== undefined && expiresAt <= Date.now()) {
+    throw new Error('The expiry date must be in the future');
+  }
+
+  await decideRequest(id, project, approver, 'approved', expiresAt);
+};
+
+export const denyAccessRequest = async (id: string, project: ProjectSummary, approver: UserRoles): Promise<void> => {
+  await decideRequest(id, project, approver, 'denied');
+};
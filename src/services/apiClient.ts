@@ -0,0 +1,329 @@
+import axios, { AxiosRequestConfig } from 'axios';
+import { Department, Institution, ProjectData, ProjectSummary } from '@/lib/blockchain';
+import { AccessRequest } from '@/models/AccessRequest';
+import { Student } from '@/models/Student';
+import { API_URL, ensureSession, getAuthHeaders } from './authService';
+
+// Typed client for the backend's /projects, /search, /metadata, /keys, /access-requests, /students and /institutions endpoints
+
+// Projects and students are shared through the backend when VITE_PROJECT_SOURCE is 'api'
+export const USE_API = import.meta.env.VITE_PROJECT_SOURCE === 'api';
+
+export interface ApiProjectFilter {
+  departmentId?: number;
+  institutionId?: number;
+  year?: number;
+  author?: string;
+}
+
+export interface ApiProjectPage {
+  projects: ProjectData[];
+  nextCursor: number | null;
+  total: number;
+}
+
+export interface ApiStudentFilter {
+  departmentId?: number;
+  institutionId?: number;
+}
+
+export interface InstitutionWithDepartments extends Institution {
+  departments: (Department & { institutionId: number })[];
+}
+
+export type NewStudent = Omit<Student, 'id' | 'dateAdded'>;
+
+export type SearchSort = 'relevance' | 'recent' | 'oldest' | 'title_asc' | 'title_desc';
+
+export interface ApiSearchParams extends ApiProjectFilter {
+  q?: string;
+  yearFrom?: number;
+  yearTo?: number;
+  accessLevel?: number;
+  sort?: SearchSort;
+  cursor?: number;
+  limit?: number;
+}
+
+// A piece of highlighted text, match is set on the parts that matched the query
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchHighlights {
+  title: HighlightSegment[];
+  snippet: HighlightSegment[];
+  snippetField: 'description' | 'aiSummary' | 'keywords' | 'authors';
+}
+
+export interface SearchResult {
+  project: ProjectData;
+  score: number | null; // Higher is more relevant, null without a text query
+  highlights?: SearchHighlights;
+}
+
+export interface FacetCount {
+  value: number;
+  count: number;
+}
+
+export interface SearchFacets {
+  departmentId: FacetCount[];
+  institutionId: FacetCount[];
+  year: FacetCount[];
+  accessLevel: FacetCount[];
+}
+
+// A query word that matched nothing and the indexed term searched for as well
+export interface SearchCorrection {
+  term: string;
+  suggestion: string;
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+  total: number;
+  nextCursor: number | null;
+  facets: SearchFacets;
+  corrections: SearchCorrection[];
+}
+
+// A wallet's encryption public key and its signature over the publication message
+export interface PublishedEncryptionKey {
+  address: string;
+  publicKey: string;
+  signature: string;
+}
+
+// A field the backend rejected, path is the dotted field name (or the index in a batch)
+interface ApiErrorDetail {
+  path: string;
+  message: string;
+}
+
+// Build a readable message from a failed API response
+export const getApiErrorMessage = (error: unknown): string => {
+  if (!axios.isAxiosError(error)) {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  const body = error.response?.data as { error?: string; details?: ApiErrorDetail[] } | undefined;
+  if (!body?.error) return error.message;
+
+  const details = body.details?.map(detail => detail.path ? `${detail.path}: ${detail.message}` : detail.message);
+  return details?.length ? `${body.error} (${details.join('; ')})` : body.error;
+};
+
+// Send a request with the session token, writes sign in first
+const request = async <T>(config: AxiosRequestConfig): Promise<T> => {
+  if (config.method && config.method !== 'get') {
+    await ensureSession();
+  }
+
+  try {
+    const response = await axios.request<T>({ ...config, baseURL: API_URL, headers: getAuthHeaders() });
+    return response.data;
+  } catch (error) {
+    throw new Error(getApiErrorMessage(error));
+  }
+};
+
+// The backend assigns project IDs, so they are never part of a request body
+const toProjectBody = ({ id, ...project }: Partial<ProjectData>) => project;
+
+// Projects
+
+export const listProjects = (filter: ApiProjectFilter = {}, cursor?: number, limit?: number) => {
+  return request<ApiProjectPage>({ method: 'get', url: '/projects', params: { ...filter, cursor, limit } });
+};
+
+// Every project without access control, only super admins may list them
+export const listAllProjects = async (): Promise<ProjectData[]> => {
+  const data = await request<{ projects: ProjectData[] }>({ method: 'get', url: '/projects/all' });
+  return data.projects;
+};
+
+// Summaries of the listed projects, restricted ones included, unknown IDs are left out
+export const getProjectSummaries = async (projectIds: number[]): Promise<ProjectSummary[]> => {
+  const summaries: ProjectSummary[] = [];
+  // The backend takes up to 100 IDs per request
+  for (let i = 0; i < projectIds.length; i += 100) {
+    const data = await request<{ projects: ProjectSummary[] }>({
+      method: 'get',
+      url: '/projects/summaries',
+      params: { ids: projectIds.slice(i, i + 100).join(',') }
+    });
+    summaries.push(...data.projects);
+  }
+  return summaries;
+};
+
+export const getProject = async (id: number): Promise<ProjectData | undefined> => {
+  try {
+    // Restricted projects are only returned to viewers who may see them
+    const response = await axios.get<{ project: ProjectData }>(`${API_URL}/projects/${id}`, {
+      headers: getAuthHeaders()
+    });
+    return response.data.project;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) return undefined;
+    throw new Error(getApiErrorMessage(error));
+  }
+};
+
+export const createProject = async (project: ProjectData): Promise<ProjectData> => {
+  const data = await request<{ project: ProjectData }>({ method: 'post', url: '/projects', data: toProjectBody(project) });
+  return data.project;
+};
+
+export const updateProject = async (id: number, updates: Partial<ProjectData>): Promise<ProjectData> => {
+  const data = await request<{ project: ProjectData }>({ method: 'patch', url: `/projects/${id}`, data: toProjectBody(updates) });
+  return data.project;
+};
+
+export const deleteProject = async (id: number): Promise<void> => {
+  await request({ method: 'delete', url: `/projects/${id}` });
+};
+
+// Full-text search, limited to what the signed-in wallet may see (only public projects without a session)
+export const searchProjects = (params: ApiSearchParams) => {
+  return request<SearchResponse>({ method: 'get', url: '/search', params });
+};
+
+// Metadata documents pinned for contract projects after registration, by project ID
+export const getMetadataRevisions = async (projectIds: number[]): Promise<Record<number, string>> => {
+  if (projectIds.length === 0) return {};
+  const data = await request<{ revisions: Record<number, string> }>({
+    method: 'get',
+    url: '/metadata',
+    params: { ids: projectIds.join(',') }
+  });
+  return data.revisions;
+};
+
+export const setMetadataRevision = async (projectId: number, metadataCid: string): Promise<void> => {
+  await request({ method: 'put', url: `/metadata/${projectId}`, data: { metadataCid } });
+};
+
+// Access requests
+
+// The signed-in wallet's own requests and every request for the projects it decides on
+export const listAccessRequests = async (): Promise<AccessRequest[]> => {
+  const data = await request<{ requests: AccessRequest[] }>({ method: 'get', url: '/access-requests' });
+  return data.requests;
+};
+
+// Ask for access as the signed-in wallet
+export const createAccessRequest = async (projectId: number, reason: string): Promise<AccessRequest> => {
+  const data = await request<{ request: AccessRequest }>({ method: 'post', url: '/access-requests', data: { projectId, reason } });
+  return data.request;
+};
+
+export const decideAccessRequest = async (
+  id: string,
+  status: 'approved' | 'denied',
+  expiresAt?: number
+): Promise<AccessRequest> => {
+  const data = await request<{ request: AccessRequest }>({
+    method: 'patch',
+    url: `/access-requests/${id}`,
+    data: { status, expiresAt }
+  });
+  return data.request;
+};
+
+// Encryption keys
+
+// The directory of reader encryption keys authors wrap project content keys for
+export const listEncryptionKeys = async (): Promise<PublishedEncryptionKey[]> => {
+  const data = await request<{ keys: PublishedEncryptionKey[] }>({ method: 'get', url: '/keys' });
+  return data.keys;
+};
+
+// Publish the signed-in wallet's key, signature is the wallet's over the publication message
+export const publishEncryptionKey = async (publicKey: string, signature: string): Promise<void> => {
+  await request({ method: 'put', url: '/keys', data: { publicKey, signature } });
+};
+
+// Students
+
+export const listStudents = async (filter: ApiStudentFilter = {}): Promise<Student[]> => {
+  const data = await request<{ students: Student[] }>({ method: 'get', url: '/students', params: filter });
+  return data.students;
+};
+
+export const getStudentByWallet = async (walletAddress: string): Promise<Student | undefined> => {
+  try {
+    const response = await axios.get<{ student: Student }>(`${API_URL}/students/by-wallet/${walletAddress}`, {
+      headers: getAuthHeaders()
+    });
+    return response.data.student;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) return undefined;
+    throw new Error(getApiErrorMessage(error));
+  }
+};
+
+export const createStudent = async (student: NewStudent): Promise<Student> => {
+  const data = await request<{ student: Student }>({ method: 'post', url: '/students', data: student });
+  return data.student;
+};
+
+// Add many students in one request, the backend adds all of them or none
+export const createStudents = async (students: NewStudent[]): Promise<Student[]> => {
+  const data = await request<{ students: Student[] }>({ method: 'post', url: '/students/batch', data: students });
+  return data.students;
+};
+
+export const updateStudent = async (id: string, updates: Partial<NewStudent>): Promise<Student> => {
+  const data = await request<{ student: Student }>({ method: 'patch', url: `/students/${id}`, data: updates });
+  return data.student;
+};
+
+export const deleteStudent = async (id: string): Promise<void> => {
+  await request({ method: 'delete', url: `/students/${id}` });
+};
+
+// Institutions and departments
+
+export const listInstitutions = async (): Promise<InstitutionWithDepartments[]> => {
+  const data = await request<{ institutions: InstitutionWithDepartments[] }>({ method: 'get', url: '/institutions' });
+  return data.institutions;
+};
+
+export const createInstitution = async (name: string): Promise<Institution> => {
+  const data = await request<{ institution: Institution }>({ method: 'post', url: '/institutions', data: { name } });
+  return data.institution;
+};
+
+export const updateInstitution = async (id: number, name: string): Promise<Institution> => {
+  const data = await request<{ institution: Institution }>({ method: 'patch', url: `/institutions/${id}`, data: { name } });
+  return data.institution;
+};
+
+export const deleteInstitution = async (id: number): Promise<void> => {
+  await request({ method: 'delete', url: `/institutions/${id}` });
+};
+
+export const createDepartment = async (institutionId: number, name: string): Promise<Department> => {
+  const data = await request<{ department: Department }>({
+    method: 'post',
+    url: `/institutions/${institutionId}/departments`,
+    data: { name }
+  });
+  return data.department;
+};
+
+export const updateDepartment = async (institutionId: number, id: number, name: string): Promise<Department> => {
+  const data = await request<{ department: Department }>({
+    method: 'patch',
+    url: `/institutions/${institutionId}/departments/${id}`,
+    data: { name }
+  });
+  return data.department;
+};
+
+export const deleteDepartment = async (institutionId: number, id: number): Promise<void> => {
+  await request({ method: 'delete', url: `/institutions/${institutionId}/departments/${id}` });
+};
@@ -0,0 +1,122 @@
+import { SiweMessage } from 'siwe';
+import { getProvider } from '@/lib/blockchain';
+import { getActiveChainId } from '@/lib/chains';
+
+// Base URL of the backend API (from .env file), proxied to the backend in development
+export const API_URL = import.meta.env.VITE_API_URL || '/api';
+
+// Key under which the session token is kept between page loads
+const SESSION_TOKEN_KEY = 'siweSessionToken';
+
+// A session the backend issued after verifying a Sign-In with Ethereum signature
+export interface AuthSession {
+  address: string;
+  chainId: number;
+  isRegistered: boolean;
+  isStudent: boolean;
+  isAdmin: boolean;
+  isInstitutionAdmin: boolean;
+  departmentId: number;
+  institutionId: number;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export const getSessionToken = (): string | null => localStorage.getItem(SESSION_TOKEN_KEY);
+
+// Headers for requests that need the signed-in session
+export const getAuthHeaders = (): Record<string, string> => {
+  const token = getSessionToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+// Read the error message from a failed API response
+const getResponseError = async (response: Response, fallback: string): Promise<string> => {
+  try {
+    const body = await response.json();
+    return body.error || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// Sign an EIP-4361 message with the connected wallet and exchange it for a session
+export async function signInWithEthereum(): Promise<AuthSession> {
+  const nonceResponse = await fetch(`${API_URL}/auth/nonce`);
+  if (!nonceResponse.ok) {
+    throw new Error(await getResponseError(nonceResponse, 'Failed to start sign-in'));
+  }
+  const { nonce } = await nonceResponse.json();
+
+  const provider = await getProvider();
+  const signer = await provider.getSigner();
+
+  const message = new SiweMessage({
+    domain: window.location.host,
+    address: await signer.getAddress(),
+    statement: 'Sign in to University Project Vault.',
+    uri: window.location.origin,
+    version: '1',
+    chainId: getActiveChainId(),
+    nonce,
+    issuedAt: new Date().toISOString()
+  }).prepareMessage();
+
+  const signature = await signer.signMessage(message);
+
+  const verifyResponse = await fetch(`${API_URL}/auth/verify`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ message, signature })
+  });
+  if (!verifyResponse.ok) {
+    throw new Error(await getResponseError(verifyResponse, 'Sign-in failed'));
+  }
+
+  const { token, session } = await verifyResponse.json();
+  localStorage.setItem(SESSION_TOKEN_KEY, token);
+
+  return session;
+}
+
+// Sign in first if there is no session, for requests the backend ties to a wallet
+export async function ensureSession(): Promise<void> {
+  if (!getSessionToken()) {
+    await signInWithEthereum();
+  }
+}
+
+// Get the current session from the backend, null when signed out or expired
+export async function getSession(): Promise<AuthSession | null> {
+  if (!getSessionToken()) return null;
+
+  const response = await fetch(`${API_URL}/auth/session`, { headers: getAuthHeaders() });
+  if (response.status === 401) {
+    localStorage.removeItem(SESSION_TOKEN_KEY);
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(await getResponseError(response, 'Failed to load session'));
+  }
+
+  const { session } = await response.json();
+  return session;
+}
+
+export async function signOut(): Promise<void> {
+  if (!getSessionToken()) return;
+
+  try {
+    await fetch(`${API_URL}/auth/logout`, { method: 'POST', headers: getAuthHeaders() });
+  } catch (error) {
+    // The local token is dropped either way
+    console.error('Error signing out:', error);
+  } finally {
+    localStorage.removeItem(SESSION_TOKEN_KEY);
+  }
+}
+
+// Super admins and institution admins may use the admin dashboard
+export const hasAdminRights = (session: AuthSession | null): boolean => {
+  return !!session && (session.isAdmin || session.isInstitutionAdmin);
+};
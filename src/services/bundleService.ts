@@ -0,0 +1,147 @@
+import { ProjectData } from '@/lib/blockchain';
+import {
+  BundleFile,
+  BundleManifest,
+  FileRole,
+  MANIFEST_PATH,
+  MANIFEST_VERSION,
+  normalizeBundlePath,
+  sha256Hex
+} from '@/lib/bundle';
+import { FileEncryption, decryptBytes, encryptBytes } from '@/lib/encryption';
+import { DirectoryEntry, PinOptions, getStorageProvider } from '@/lib/storage';
+import { fetchFromIpfs } from '@/lib/gateway';
+import { retryWithBackoff } from '@/lib/retry';
+import { createUploadContentKey, unlockContentKey } from './encryptionService';
+
+// A file picked for a bundle with the role the student gave it
+export interface BundleEntryInput {
+  file: File;
+  path: string;
+  role: FileRole;
+}
+
+export interface BundleUploadOptions extends PinOptions {
+  name: string;
+  encryptFor?: string | null; // Encrypt every file for this uploader
+  onRetry?: (attempt: number, error: unknown) => void;
+}
+
+export interface BundleUploadResult {
+  cid: string;
+  manifest: BundleManifest;
+  encryption?: FileEncryption;
+}
+
+const jsonBlob = (data: unknown) => new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+
+// Pin several files as one IPFS directory with a manifest describing them
+export async function uploadBundle(entries: BundleEntryInput[], options: BundleUploadOptions): Promise<BundleUploadResult> {
+  const { name, encryptFor, signal, onProgress, onRetry } = options;
+
+  const paths = entries.map(entry => normalizeBundlePath(entry.path));
+  if (paths.some(path => !path || path === MANIFEST_PATH)) {
+    throw new Error(`Bundles cannot contain a file named ${MANIFEST_PATH}`);
+  }
+  if (new Set(paths).size !== paths.length) {
+    throw new Error('Two files in the bundle have the same path');
+  }
+
+  const uploadKey = encryptFor ? await createUploadContentKey(encryptFor) : null;
+  const directory: DirectoryEntry[] = [];
+  const files: BundleFile[] = [];
+
+  for (const [index, entry] of entries.entries()) {
+    const data = await entry.file.arrayBuffer();
+    const file: BundleFile = {
+      path: paths[index],
+      storagePath: paths[index],
+      role: entry.role,
+      size: entry.file.size,
+      mimeType: entry.file.type || 'application/octet-stream',
+      sha256: await sha256Hex(data)
+    };
+
+    if (uploadKey) {
+      // Opaque names keep the real file names inside the encrypted manifest
+      const { ciphertext, iv } = await encryptBytes(data, uploadKey.contentKey);
+      file.storagePath = `files/${index}`;
+      file.iv = iv;
+      directory.push({ path: file.storagePath, content: new Blob([ciphertext]) });
+    } else {
+      directory.push({ path: file.storagePath, content: entry.file });
+    }
+
+    files.push(file);
+  }
+
+  const manifest: BundleManifest = {
+    version: MANIFEST_VERSION,
+    name,
+    createdAt: Date.now(),
+    encrypted: !!uploadKey,
+    files
+  };
+
+  let encryption: FileEncryption | undefined;
+  if (uploadKey) {
+    const manifestBytes = await jsonBlob(manifest).arrayBuffer();
+    const { ciphertext, iv } = await encryptBytes(manifestBytes, uploadKey.contentKey);
+    directory.push({ path: MANIFEST_PATH, content: new Blob([ciphertext]) });
+    encryption = {
+      algorithm: 'AES-GCM',
+      iv,
+      fileName: MANIFEST_PATH,
+      mimeType: 'application/json',
+      wrappedKeys: uploadKey.wrappedKeys
+    };
+  } else {
+    directory.push({ path: MANIFEST_PATH, content: jsonBlob(manifest) });
+  }
+
+  const cid = await retryWithBackoff(
+    () => getStorageProvider().pinDirectory(directory, name, { signal, onProgress }),
+    { signal, onRetry }
+  );
+
+  return { cid, manifest, encryption };
+}
+
+// Load the manifest of a bundle project, decrypting it for the reader when needed
+export async function loadBundleManifest(project: ProjectData, address?: string | null): Promise<BundleManifest> {
+  try {
+    let { data } = await fetchFromIpfs(`${project.ipfsHash}/${MANIFEST_PATH}`);
+
+    if (project.encryption) {
+      const contentKey = await unlockContentKey(project, address);
+      data = await decryptBytes(data, project.encryption.iv, contentKey);
+    }
+
+    return JSON.parse(new TextDecoder().decode(data)) as BundleManifest;
+  } catch (error) {
+    console.error('Error loading bundle manifest:', error);
+    throw error;
+  }
+}
+
+// Download one file of a bundle, decrypted and checked against the manifest hash,
+// also returns the gateway that served it
+export async function downloadBundleFile(
+  project: ProjectData,
+  file: BundleFile,
+  address?: string | null
+): Promise<{ file: File; gateway: string }> {
+  const fetched = await fetchFromIpfs(`${project.ipfsHash}/${file.storagePath}`);
+  let data = fetched.data;
+
+  if (file.iv) {
+    const contentKey = await unlockContentKey(project, address);
+    data = await decryptBytes(data, file.iv, contentKey);
+  }
+
+  if (await sha256Hex(data) !== file.sha256) {
+    throw new Error(`${file.path} does not match the hash in the manifest`);
+  }
+
+  return { file: new File([data], file.path.split('/').pop(), { type: file.mimeType }), gateway: fetched.gateway };
+}
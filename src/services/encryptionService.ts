@@ -0,0 +1,181 @@
+import { create } from 'zustand';
+import { ethers } from 'ethers';
+import { ProjectData, getProvider } from '@/lib/blockchain';
+import { canViewProject } from '@/lib/accessPolicy';
+import {
+  ENCRYPTION_KEY_MESSAGE,
+  FileEncryption,
+  decryptFile,
+  deriveEncryptionKey,
+  encryptFile,
+  generateContentKey,
+  getKeyPublicationMessage,
+  isKeyPublicationValid,
+  unwrapContentKey,
+  wrapContentKey
+} from '@/lib/encryption';
+import { fetchFromIpfs } from '@/lib/gateway';
+import { getViewer } from './projectService';
+import * as api from './apiClient';
+
+interface EncryptionKeyStore {
+  publicKeys: Record<string, string>; // Lowercase address -> compressed wallet encryption public key
+  loadPublicKeys: () => Promise<Record<string, string>>;
+}
+
+// Directory of wallet encryption public keys kept by the backend, authors wrap content keys for these readers.
+// Only keys the listed wallet signed are taken, so the backend can't slip in a key of its own.
+export const useEncryptionKeyStore = create<EncryptionKeyStore>()((set, get) => ({
+  publicKeys: {},
+
+  loadPublicKeys: async () => {
+    const published = await api.listEncryptionKeys();
+    const publicKeys = Object.fromEntries(
+      published
+        .filter(({ address, publicKey, signature }) => isKeyPublicationValid(address, publicKey, signature))
+        .map(({ address, publicKey }) => [address.toLowerCase(), publicKey])
+    );
+
+    // Keep the same object when nothing changed, components re-run their effects on it
+    if (JSON.stringify(publicKeys) !== JSON.stringify(get().publicKeys)) {
+      set({ publicKeys });
+    }
+    return get().publicKeys;
+  }
+}));
+
+// Unlocked wallet keys for this page session, so the wallet is only asked to sign once
+const unlockedKeys = new Map<string, ethers.SigningKey>();
+
+export const getPublishedKey = (address: string): string | undefined => {
+  return useEncryptionKeyStore.getState().publicKeys[address.toLowerCase()];
+};
+
+export const isEncryptionKeyUnlocked = (address: string): boolean => {
+  return unlockedKeys.has(address.toLowerCase());
+};
+
+// Ask the connected wallet to sign the key message and derive its encryption key
+export async function unlockEncryptionKey(address: string): Promise<ethers.SigningKey> {
+  const key = address.toLowerCase();
+  if (unlockedKeys.has(key)) {
+    return unlockedKeys.get(key);
+  }
+
+  const provider = await getProvider();
+  const signer = await provider.getSigner();
+  if ((await signer.getAddress()).toLowerCase() !== key) {
+    throw new Error('Switch to the wallet the key belongs to before unlocking it');
+  }
+
+  const encryptionKey = deriveEncryptionKey(await signer.signMessage(ENCRYPTION_KEY_MESSAGE));
+  unlockedKeys.set(key, encryptionKey);
+
+  return encryptionKey;
+}
+
+// Publish the wallet's encryption public key to the backend directory, signed by the wallet.
+// Nothing is sent when the directory already holds the same key.
+export async function publishEncryptionKey(address: string): Promise<void> {
+  const encryptionKey = await unlockEncryptionKey(address);
+  const publicKey = encryptionKey.compressedPublicKey;
+
+  const { loadPublicKeys } = useEncryptionKeyStore.getState();
+  if ((await loadPublicKeys())[address.toLowerCase()] === publicKey) return;
+
+  const provider = await getProvider();
+  const signer = await provider.getSigner();
+  const signature = await signer.signMessage(getKeyPublicationMessage(address, publicKey));
+
+  await api.publishEncryptionKey(publicKey, signature);
+  await loadPublicKeys();
+}
+
+// Whether a wallet holds a wrapped key for an encrypted project
+export const hasProjectKey = (project: ProjectData, address: string | null): boolean => {
+  return !!address && !!project.encryption?.wrappedKeys[address.toLowerCase()];
+};
+
+// Generate a content key for new uploads, already wrapped for the uploader
+export async function createUploadContentKey(
+  uploader: string
+): Promise<{ contentKey: CryptoKey; wrappedKeys: FileEncryption['wrappedKeys'] }> {
+  const encryptionKey = await unlockEncryptionKey(uploader);
+  const contentKey = await generateContentKey();
+
+  return {
+    contentKey,
+    wrappedKeys: {
+      [uploader.toLowerCase()]: await wrapContentKey(contentKey, encryptionKey.compressedPublicKey)
+    }
+  };
+}
+
+// Encrypt a file before pinning it, the content key is wrapped for the uploader
+export async function encryptFileForUpload(
+  file: File,
+  uploader: string
+): Promise<{ encryptedFile: File; encryption: FileEncryption }> {
+  const { contentKey, wrappedKeys } = await createUploadContentKey(uploader);
+  const { encryptedFile, encryption } = await encryptFile(file, contentKey);
+
+  return { encryptedFile, encryption: { ...encryption, wrappedKeys } };
+}
+
+// Recover a project's content key with the reader's wallet
+export const unlockContentKey = async (project: ProjectData, address: string): Promise<CryptoKey> => {
+  const wrapped = project.encryption?.wrappedKeys[address.toLowerCase()];
+  if (!wrapped) {
+    throw new Error('The decryption key for this file has not been shared with your wallet yet');
+  }
+
+  return unwrapContentKey(wrapped, await unlockEncryptionKey(address));
+};
+
+// Readers with a published key who may view the project but have no wrapped key yet
+export async function getPendingKeyReaders(project: ProjectData): Promise<string[]> {
+  if (!project.encryption) return [];
+
+  const publicKeys = await useEncryptionKeyStore.getState().loadPublicKeys();
+  const candidates = Object.keys(publicKeys)
+    .filter(address => !project.encryption.wrappedKeys[address]);
+
+  const allowed = await Promise.all(
+    candidates.map(async address => canViewProject(project, await getViewer(address)))
+  );
+
+  return candidates.filter((_, index) => allowed[index]);
+}
+
+// Wrap the content key for every authorized reader who is still missing it.
+// The file itself is untouched, only the project metadata gains wrapped keys.
+// Returns the updated encryption metadata, or null when nothing changed.
+export async function shareProjectKey(project: ProjectData, holder: string): Promise<FileEncryption | null> {
+  const readers = await getPendingKeyReaders(project);
+  if (readers.length === 0) return null;
+
+  const contentKey = await unlockContentKey(project, holder);
+  const { publicKeys } = useEncryptionKeyStore.getState(); // Loaded by getPendingKeyReaders
+
+  const wrappedKeys = { ...project.encryption.wrappedKeys };
+  for (const reader of readers) {
+    wrappedKeys[reader] = await wrapContentKey(contentKey, publicKeys[reader]);
+  }
+
+  return { ...project.encryption, wrappedKeys };
+}
+
+// Download a project's encrypted file from IPFS and decrypt it for the reader,
+// also returns the gateway that served the (verified) ciphertext
+export async function decryptProjectFile(project: ProjectData, address: string): Promise<{ file: File; gateway: string }> {
+  try {
+    const contentKey = await unlockContentKey(project, address);
+    const { data, gateway } = await fetchFromIpfs(project.ipfsHash);
+
+    const blob = await decryptFile(data, project.encryption, contentKey);
+    return { file: new File([blob], project.encryption.fileName, { type: project.encryption.mimeType }), gateway };
+  } catch (error) {
+    console.error('Error decrypting project file:', error);
+    throw error;
+  }
+}
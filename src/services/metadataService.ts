@@ -0,0 +1,113 @@
+import { AccessLevel, ProjectData } from '@/lib/blockchain';
+import { getEffectiveAccessLevel } from '@/lib/accessPolicy';
+import {
+  MetadataFile,
+  ProjectMetadata,
+  applyProjectMetadata,
+  buildProjectMetadata,
+  parseContentReference,
+  parseProjectMetadata,
+  reviseProjectMetadata
+} from '@/lib/projectMetadata';
+import { getStorageProvider } from '@/lib/storage';
+import { fetchFromIpfs } from '@/lib/gateway';
+import { retryWithBackoff } from '@/lib/retry';
+import { generateProjectSummary } from './geminiService';
+import { getStudentByWallet } from './studentService';
+import { getMetadataRevisions } from './apiClient';
+
+// The backend takes this many project IDs per revision lookup
+const REVISION_BATCH_SIZE = 100;
+
+// Pinned documents never change, so each CID is fetched once per page session
+const metadataCache = new Map<string, Promise<ProjectMetadata>>();
+
+// Pin the metadata document of a project about to be registered, resolves to its CID
+export async function pinProjectMetadata(project: ProjectData, files: MetadataFile[]): Promise<string> {
+  const isPublic = getEffectiveAccessLevel(project) === AccessLevel.Public;
+
+  // The summary describes the file contents, so it is only published for public projects
+  let aiSummary = isPublic ? project.aiSummary : undefined;
+  if (isPublic && !aiSummary) {
+    try {
+      aiSummary = await generateProjectSummary(project) || undefined;
+      project.aiSummary = aiSummary;
+    } catch (error) {
+      console.error('Error generating AI summary:', error);
+    }
+  }
+
+  const authorNames: Record<string, string> = {};
+  project.authors.forEach(author => {
+    const student = getStudentByWallet(author);
+    if (student) authorNames[author.toLowerCase()] = student.name;
+  });
+
+  const metadata = buildProjectMetadata({ ...project, aiSummary }, files, authorNames);
+
+  try {
+    return await retryWithBackoff(() => getStorageProvider().pinJson(metadata, `${project.title} metadata.json`));
+  } catch (error) {
+    console.error('Error pinning project metadata:', error);
+    throw error;
+  }
+}
+
+// Fetch and validate a metadata document from IPFS
+export function loadProjectMetadata(cid: string): Promise<ProjectMetadata> {
+  if (!metadataCache.has(cid)) {
+    const request = fetchFromIpfs(cid)
+      .then(({ data }) => parseProjectMetadata(JSON.parse(new TextDecoder().decode(data))));
+
+    // Failed fetches are retried on the next call
+    request.catch(() => metadataCache.delete(cid));
+    metadataCache.set(cid, request);
+  }
+
+  return metadataCache.get(cid);
+}
+
+// Pin a new revision of a contract project's metadata document with its current access settings,
+// resolves to its CID. The contract's IPFS field keeps pointing at the first document, so the
+// revision is recorded with the backend (setMetadataRevision) once the change is on-chain.
+export async function pinMetadataRevision(project: ProjectData): Promise<string> {
+  if (!project.metadataCid) {
+    throw new Error('This project was registered without a metadata document, so only the access levels the contract stores can be used');
+  }
+
+  const metadata = reviseProjectMetadata(await loadProjectMetadata(project.metadataCid), project);
+  return retryWithBackoff(() => getStorageProvider().pinJson(metadata, `${project.title} metadata.json`));
+}
+
+// Newest metadata document of each project that has been revised since registration.
+// Without the backend the documents the projects were registered with are used.
+export async function loadMetadataRevisions(projectIds: number[]): Promise<Record<number, string>> {
+  const batches: number[][] = [];
+  for (let i = 0; i < projectIds.length; i += REVISION_BATCH_SIZE) {
+    batches.push(projectIds.slice(i, i + REVISION_BATCH_SIZE));
+  }
+
+  try {
+    return Object.assign({}, ...await Promise.all(batches.map(getMetadataRevisions)));
+  } catch (error) {
+    console.error('Error loading metadata revisions:', error);
+    return {};
+  }
+}
+
+// Rebuild a full project from what the chain returned and its pinned metadata document, or the
+// newer revision given. Projects without a document, or whose document cannot be loaded, keep the chain fields only.
+export async function withProjectMetadata(chainProject: ProjectData, revisionCid?: string): Promise<ProjectData> {
+  const reference = parseContentReference(chainProject.ipfsHash);
+  const fileCid = reference.fileCid;
+  const metadataCid = revisionCid ?? reference.metadataCid;
+  const project = { ...chainProject, ipfsHash: fileCid };
+  if (!metadataCid) return project;
+
+  try {
+    return applyProjectMetadata(project, metadataCid, await loadProjectMetadata(metadataCid));
+  } catch (error) {
+    console.error(`Error loading metadata for project ${chainProject.id}:`, error);
+    return { ...project, metadataCid };
+  }
+}
@@ -0,0 +1,80 @@
+import { getUserInfo, isInstitutionAdmin } from '@/lib/blockchain';
+import { GUEST_ROLES, UserRoles, resolveRoles } from '@/lib/permissions';
+import { AuthSession } from './authService';
+import { PROJECT_SOURCE } from './projectRepository';
+import { useStudentStore } from './studentService';
+import { USE_API, getStudentByWallet } from './apiClient';
+
+// Role lookups per wallet, shared by every component using usePermissions
+const rolesCache = new Map<string, Promise<UserRoles>>();
+
+const fetchUserRoles = async (address: string): Promise<UserRoles> => {
+  try {
+    const info = await getUserInfo(address);
+    const isAdminOfInstitution = info.isRegistered
+      ? await isInstitutionAdmin(address, info.institutionId)
+      : false;
+
+    const roles = resolveRoles(address, info, isAdminOfInstitution);
+    if (roles.role !== 'guest' || PROJECT_SOURCE === 'contract') {
+      return roles;
+    }
+  } catch (error) {
+    console.error(`Error loading roles for ${address}:`, error);
+    if (PROJECT_SOURCE === 'contract') {
+      return { ...GUEST_ROLES, address };
+    }
+  }
+
+  // Wallets added through the admin student pages count as students
+  let student = useStudentStore.getState().getStudentByWallet(address);
+  if (USE_API) {
+    try {
+      student = await getStudentByWallet(address);
+    } catch (error) {
+      console.error(`Error loading student ${address}:`, error);
+    }
+  }
+  if (!student || student.status !== 'active') {
+    return { ...GUEST_ROLES, address };
+  }
+
+  return resolveRoles(address, {
+    isRegistered: true,
+    isStudent: true,
+    isAdmin: false,
+    departmentId: student.departmentId,
+    institutionId: student.institutionId
+  }, false);
+};
+
+// Get the roles held by a wallet
+export function loadUserRoles(address: string): Promise<UserRoles> {
+  const key = address.toLowerCase();
+
+  if (!rolesCache.has(key)) {
+    rolesCache.set(key, fetchUserRoles(address));
+  }
+
+  return rolesCache.get(key);
+}
+
+// Forget cached roles, e.g. after registering students or changing admins
+export function clearUserRoles(address?: string): void {
+  if (address) {
+    rolesCache.delete(address.toLowerCase());
+  } else {
+    rolesCache.clear();
+  }
+}
+
+// The backend already looked the roles up when it verified the session
+export const rolesFromSession = (session: AuthSession): UserRoles => {
+  return resolveRoles(session.address, {
+    isRegistered: session.isRegistered,
+    isStudent: session.isStudent,
+    isAdmin: session.isAdmin,
+    departmentId: session.departmentId,
+    institutionId: session.institutionId
+  }, session.isInstitutionAdmin);
+};
@@ -0,0 +1,147 @@
+import { ProjectData } from '@/lib/blockchain';
+import { getProjectInstitutionId } from '@/lib/permissions';
+import { PinInfo, PinStatus, getStorageProvider } from '@/lib/storage';
+
+// What a project keeps behind a CID
+export type PinRole = 'file' | 'metadata';
+
+export interface PinReference {
+  project: ProjectData;
+  role: PinRole;
+}
+
+// A pin joined with the projects that reference its CID
+export interface PinRecord {
+  cid: string;
+  name?: string;
+  size: number;
+  status: PinStatus;
+  pinnedAt?: number;
+  references: PinReference[];
+  isOrphan: boolean; // Pinned, but no project references it
+  isMissing: boolean; // Referenced by a project, but not pinned
+}
+
+export interface DepartmentUsage {
+  departmentId: number;
+  pinCount: number;
+  totalBytes: number;
+}
+
+export interface InstitutionUsage {
+  institutionId: number | null; // null for departments no institution lists
+  pinCount: number;
+  totalBytes: number;
+  departments: DepartmentUsage[];
+}
+
+// Outcome of a bulk pin operation, one entry per CID
+export interface BulkPinResult {
+  succeeded: string[];
+  failed: { cid: string; error: string }[];
+}
+
+// Every CID a project needs pinned
+const getProjectCids = (project: ProjectData): { cid: string; role: PinRole }[] => {
+  const cids: { cid: string; role: PinRole }[] = [];
+  if (project.ipfsHash) cids.push({ cid: project.ipfsHash, role: 'file' });
+  if (project.metadataCid) cids.push({ cid: project.metadataCid, role: 'metadata' });
+  return cids;
+};
+
+// Join the provider's pins with the projects, adding a record for every referenced CID that is not pinned
+export const buildPinRecords = (pins: PinInfo[], projects: ProjectData[]): PinRecord[] => {
+  const references = new Map<string, PinReference[]>();
+  projects.forEach(project => {
+    getProjectCids(project).forEach(({ cid, role }) => {
+      references.set(cid, [...(references.get(cid) ?? []), { project, role }]);
+    });
+  });
+
+  const pinned = new Set(pins.map(pin => pin.cid));
+  const records: PinRecord[] = pins.map(pin => ({
+    ...pin,
+    references: references.get(pin.cid) ?? [],
+    isOrphan: !references.has(pin.cid),
+    isMissing: false
+  }));
+
+  references.forEach((projectReferences, cid) => {
+    if (pinned.has(cid)) return;
+    records.push({
+      cid,
+      size: 0,
+      status: 'unpinned',
+      references: projectReferences,
+      isOrphan: false,
+      isMissing: true
+    });
+  });
+
+  return records;
+};
+
+// Sum pinned bytes per institution and department. A CID shared by several projects
+// is counted once, for the project that was uploaded first.
+export const summarizeStorageUsage = (records: PinRecord[]): InstitutionUsage[] => {
+  const usage = new Map<number | null, InstitutionUsage>();
+
+  records
+    .filter(record => !record.isMissing && record.references.length > 0)
+    .forEach(record => {
+      const { project } = [...record.references].sort((a, b) => a.project.uploadDate - b.project.uploadDate)[0];
+      const institutionId = getProjectInstitutionId(project) ?? null;
+
+      if (!usage.has(institutionId)) {
+        usage.set(institutionId, { institutionId, pinCount: 0, totalBytes: 0, departments: [] });
+      }
+      const institution = usage.get(institutionId);
+      institution.pinCount++;
+      institution.totalBytes += record.size;
+
+      let department = institution.departments.find(entry => entry.departmentId === project.departmentId);
+      if (!department) {
+        department = { departmentId: project.departmentId, pinCount: 0, totalBytes: 0 };
+        institution.departments.push(department);
+      }
+      department.pinCount++;
+      department.totalBytes += record.size;
+    });
+
+  return [...usage.values()].sort((a, b) => b.totalBytes - a.totalBytes);
+};
+
+// Load the pins of the configured provider joined with the given projects
+export async function loadPinRecords(projects: ProjectData[]): Promise<PinRecord[]> {
+  try {
+    return buildPinRecords(await getStorageProvider().listPins(), projects);
+  } catch (error) {
+    console.error('Error loading pins:', error);
+    throw error;
+  }
+}
+
+// Run a pin operation for every CID, one failure does not stop the others
+const runBulk = async (cids: string[], operation: (cid: string) => Promise<void>): Promise<BulkPinResult> => {
+  const results = await Promise.allSettled(cids.map(cid => operation(cid)));
+
+  return results.reduce<BulkPinResult>((result, outcome, index) => {
+    if (outcome.status === 'fulfilled') {
+      result.succeeded.push(cids[index]);
+    } else {
+      const error = outcome.reason instanceof Error ? outcome.reason.message : 'Unknown error';
+      result.failed.push({ cid: cids[index], error });
+    }
+    return result;
+  }, { succeeded: [], failed: [] });
+};
+
+// Remove the pins of several CIDs from the configured provider
+export const unpinCids = (cids: string[]): Promise<BulkPinResult> => {
+  return runBulk(cids, cid => getStorageProvider().unpin(cid));
+};
+
+// Pin several CIDs again on the configured provider, the content must still be reachable
+export const repinCids = (cids: string[]): Promise<BulkPinResult> => {
+  return runBulk(cids, cid => getStorageProvider().repin(cid));
+};
@@ -0,0 +1,19 @@
+import { ProjectData } from '@/lib/blockchain';
+import { fetchFromIpfs } from '@/lib/gateway';
+import { detectFileType } from '@/lib/preview';
+import { decryptProjectFile } from './encryptionService';
+
+// Fetch the single file of a project for download or preview, decrypted for the reader
+// when it is encrypted, and verified against its CID either way
+export async function fetchProjectFile(
+  project: ProjectData,
+  address?: string | null
+): Promise<{ file: File; gateway: string }> {
+  if (project.encryption) {
+    return decryptProjectFile(project, address);
+  }
+
+  const { data, gateway } = await fetchFromIpfs(project.ipfsHash);
+  const { extension, mimeType } = detectFileType(data);
+  return { file: new File([data], `${project.title}${extension}`, { type: mimeType }), gateway };
+}
@@ -0,0 +1,270 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import {
+  ProjectData,
+  ProjectIdPage,
+  ProjectSummary,
+  mockProjects,
+  registerProject,
+  getProjectById as getChainProjectById,
+  getProjectIdsByAuthor,
+  getProjectIdsByDepartment,
+  getProjectIdsByYear,
+  getProjectIdsPage,
+  getProjectsBatch,
+  getTotalProjects,
+  setProjectAccessLevel
+} from '@/lib/blockchain';
+import { getOnChainAccessLevel } from '@/lib/accessPolicy';
+import { formatContentReference } from '@/lib/projectMetadata';
+import { loadMetadataRevisions, pinMetadataRevision, withProjectMetadata } from './metadataService';
+import * as api from './apiClient';
+
+// Filters the contract can answer directly through its paginated list queries
+export interface ProjectListFilter {
+  departmentId?: number;
+  year?: number;
+  author?: string;
+}
+
+// A page of projects with the cursor for the next one
+export interface ProjectPage {
+  projects: ProjectData[];
+  nextCursor: number | null;
+  total: number | null;
+}
+
+// Common interface for every backend that can hold project records
+export interface ProjectRepository {
+  getProjects: () => Promise<ProjectData[]>;
+  getAllProjects: () => Promise<ProjectData[]>; // Without access control, even where getProjects has it
+  getProjectSummaries: (ids: number[]) => Promise<ProjectSummary[]>;
+  getProjectsPage: (filter: ProjectListFilter, cursor: number, limit: number) => Promise<ProjectPage>;
+  getProject: (id: number) => Promise<ProjectData | undefined>;
+  addProject: (project: ProjectData) => Promise<ProjectData>;
+  updateProject: (project: ProjectData) => Promise<void>;
+}
+
+export type ProjectSource = 'local' | 'contract' | 'api';
+
+// Create a store to manage projects
+interface ProjectStore {
+  projects: ProjectData[];
+  addProject: (project: ProjectData) => void;
+  getProjects: () => ProjectData[];
+}
+
+// Create a persistent store that saves projects to localStorage
+export const useProjectStore = create<ProjectStore>()(
+  persist(
+    (set, get) => ({
+      projects: [...mockProjects], // Initialize with mock projects
+      addProject: (project: ProjectData) => {
+        set((state) => ({
+          projects: [project, ...state.projects] // Add new project at the beginning
+        }));
+      },
+      getProjects: () => get().projects
+    }),
+    {
+      name: 'project-storage', // Name for localStorage
+    }
+  )
+);
+
+// Check a project against every field of a list filter
+const matchesFilter = (project: ProjectData, filter: ProjectListFilter): boolean => {
+  return (filter.departmentId === undefined || project.departmentId === filter.departmentId) &&
+    (filter.year === undefined || project.year === filter.year) &&
+    (filter.author === undefined ||
+      project.authors.some(author => author.toLowerCase() === filter.author.toLowerCase()));
+};
+
+const toProjectSummary = ({ id, title, authors, departmentId, institutionId, year, accessLevel, embargoUntil }: ProjectData): ProjectSummary => {
+  return { id, title, authors, departmentId, institutionId, year, accessLevel, embargoUntil };
+};
+
+// Repository backed by the persisted zustand store (demo data)
+export const localProjectRepository: ProjectRepository = {
+  getProjects: async () => useProjectStore.getState().getProjects(),
+
+  getAllProjects: () => localProjectRepository.getProjects(),
+
+  getProjectSummaries: async (ids) => {
+    return useProjectStore.getState().getProjects()
+      .filter(project => ids.includes(project.id))
+      .map(toProjectSummary);
+  },
+
+  getProjectsPage: async (filter, cursor, limit) => {
+    const matches = useProjectStore.getState().getProjects()
+      .filter(project => matchesFilter(project, filter))
+      .sort((a, b) => b.uploadDate - a.uploadDate);
+    const end = cursor + limit;
+
+    return {
+      projects: matches.slice(cursor, end),
+      nextCursor: end < matches.length ? end : null,
+      total: matches.length
+    };
+  },
+
+  getProject: async (id) => {
+    return useProjectStore.getState().getProjects().find(project => project.id === id);
+  },
+
+  addProject: async (project) => {
+    useProjectStore.getState().addProject(project);
+    return project;
+  },
+
+  updateProject: async (updatedProject) => {
+    const { projects } = useProjectStore.getState();
+    const updatedProjects = projects.map(project =>
+      project.id === updatedProject.id ? updatedProject : project
+    );
+
+    useProjectStore.setState({ projects: updatedProjects });
+  }
+};
+
+// Read projects from the contract and complete them from their newest pinned metadata
+const getChainProjects = async (ids: number[]): Promise<ProjectData[]> => {
+  const [projects, revisions] = await Promise.all([getProjectsBatch(ids), loadMetadataRevisions(ids)]);
+  return Promise.all(projects.map(project => withProjectMetadata(project, revisions[project.id])));
+};
+
+// Access settings kept in the metadata document rather than on the contract
+const sameAccessSettings = (a: ProjectData, b: ProjectData): boolean => {
+  const settings = ({ accessLevel, allowlist, embargoUntil, encryption }: ProjectData) =>
+    JSON.stringify([accessLevel, allowlist ?? [], embargoUntil ?? null, encryption ?? null]);
+  return settings(a) === settings(b);
+};
+
+// Repository backed by the deployed University Project Repository contract
+export const contractProjectRepository: ProjectRepository = {
+  getProjects: async () => {
+    const total = await getTotalProjects();
+
+    // Project IDs on the contract are sequential and start at 1
+    const ids = Array.from({ length: total }, (_, i) => i + 1);
+    return getChainProjects(ids);
+  },
+
+  getAllProjects: () => contractProjectRepository.getProjects(),
+
+  // The access level of department and allowlist projects is only in their metadata document
+  getProjectSummaries: async (ids) => {
+    const projects = await Promise.all(ids.map(id => contractProjectRepository.getProject(id)));
+    return projects.filter(project => project !== undefined).map(toProjectSummary);
+  },
+
+  getProjectsPage: async (filter, cursor, limit) => {
+    // The contract lists by a single field, so query the most selective one
+    let page: ProjectIdPage;
+    if (filter.departmentId !== undefined) {
+      page = await getProjectIdsByDepartment(filter.departmentId, cursor, limit);
+    } else if (filter.author !== undefined) {
+      page = await getProjectIdsByAuthor(filter.author, cursor, limit);
+    } else if (filter.year !== undefined) {
+      page = await getProjectIdsByYear(filter.year, cursor, limit);
+    } else {
+      page = await getProjectIdsPage(cursor, limit);
+    }
+
+    // Any remaining fields are checked after fetching, which can shorten the page
+    // (the total still counts the queried list)
+    const projects = await getChainProjects(page.ids);
+    return {
+      projects: projects.filter(project => matchesFilter(project, filter)),
+      nextCursor: page.nextCursor,
+      total: page.total
+    };
+  },
+
+  getProject: async (id) => {
+    try {
+      const [chainProject, revisions] = await Promise.all([getChainProjectById(id), loadMetadataRevisions([id])]);
+      return await withProjectMetadata(chainProject, revisions[id]);
+    } catch (error) {
+      // The contract reverts for unknown IDs
+      return undefined;
+    }
+  },
+
+  addProject: async (project) => {
+    // Already registered through the transaction manager, nothing left to write
+    if (project.transactionHash) {
+      return project;
+    }
+
+    const projectId = await registerProject(
+      project.title,
+      project.description,
+      formatContentReference(project.ipfsHash, project.metadataCid),
+      project.departmentId,
+      project.year,
+      getOnChainAccessLevel(project)
+    );
+
+    // The contract assigns the ID, so replace the locally generated one
+    return { ...project, id: Number(projectId) };
+  },
+
+  updateProject: async (updatedProject) => {
+    const [current, chainProject] = await Promise.all([
+      contractProjectRepository.getProject(updatedProject.id),
+      getChainProjectById(updatedProject.id)
+    ]);
+
+    // Department, allowlist and embargo settings only live in the metadata document, so a changed
+    // document is pinned first and only recorded once the contract holds the matching level
+    const revisionCid = current && !sameAccessSettings(current, updatedProject)
+      ? await pinMetadataRevision({ ...updatedProject, metadataCid: current.metadataCid })
+      : undefined;
+
+    // Only the access level is mutable on-chain, embargoed projects stay private until released
+    const accessLevel = getOnChainAccessLevel(updatedProject);
+    if (chainProject.accessLevel !== accessLevel) {
+      await setProjectAccessLevel(updatedProject.id, accessLevel);
+    }
+
+    if (revisionCid) {
+      await api.setMetadataRevision(updatedProject.id, revisionCid);
+    }
+  }
+};
+
+// Repository backed by the project API of the backend, shared by every browser
+export const apiProjectRepository: ProjectRepository = {
+  // Only what the signed-in wallet may see
+  getProjects: async () => (await api.listProjects()).projects,
+
+  getAllProjects: () => api.listAllProjects(),
+
+  getProjectSummaries: (ids) => api.getProjectSummaries(ids),
+
+  getProjectsPage: (filter, cursor, limit) => api.listProjects(filter, cursor, limit),
+
+  getProject: (id) => api.getProject(id),
+
+  // The backend assigns the ID
+  addProject: (project) => api.createProject(project),
+
+  updateProject: async (updatedProject) => {
+    await api.updateProject(updatedProject.id, updatedProject);
+  }
+};
+
+const PROJECT_SOURCES: ProjectSource[] = ['local', 'contract', 'api'];
+
+// The configured data source (from .env file), defaults to the local store
+export const PROJECT_SOURCE: ProjectSource =
+  PROJECT_SOURCES.find(source => source === import.meta.env.VITE_PROJECT_SOURCE) ?? 'local';
+
+// Get the repository for the configured data source
+export const getProjectRepository = (source: ProjectSource = PROJECT_SOURCE): ProjectRepository => {
+  if (source === 'contract') return contractProjectRepository;
+  if (source === 'api') return apiProjectRepository;
+  return localProjectRepository;
+};
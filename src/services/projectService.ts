@@ -1,34 +1,16 @@
-import { ProjectData, AccessLevel, mockProjects } from '@/lib/blockchain';
+import { ethers } from 'ethers';
+import { ProjectData, ProjectSummary, AccessLevel } from '@/lib/blockchain';
 import { generateProjectSummary } from './geminiService';
-import { useWallet } from '@/context/WalletContext';
-import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
 import { getStudentByWallet } from './studentService';
+import { ProjectListFilter, ProjectPage, getProjectRepository, useProjectStore } from './projectRepository';
+import { loadUserRoles } from './permissionService';
+import { getGrantedProjectIds, useAccessRequestStore } from './accessRequestService';
+import { AccessViewer, GUEST_VIEWER, canViewProject, filterVisibleProjects, isEmbargoed } from '@/lib/accessPolicy';
+import { UserRoles, canChangeAccess, getInstitutionIdForDepartment } from '@/lib/permissions';
+import { recordAccessChange } from './accessHistoryService';
 
-// Create a store to manage projects
-interface ProjectStore {
-  projects: ProjectData[];
-  addProject: (project: ProjectData) => void;
-  getProjects: () => ProjectData[];
-}
-
-// Create a persistent store that saves projects to localStorage
-export const useProjectStore = create<ProjectStore>()(
-  persist(
-    (set, get) => ({
-      projects: [...mockProjects], // Initialize with mock projects
-      addProject: (project: ProjectData) => {
-        set((state) => ({
-          projects: [project, ...state.projects] // Add new project at the beginning
-        }));
-      },
-      getProjects: () => get().projects
-    }),
-    {
-      name: 'project-storage', // Name for localStorage
-    }
-  )
-);
+// Re-export the store so existing consumers keep working
+export { useProjectStore };
 
 // Generate a random IPFS hash for mock purposes
 export const generateMockIpfsHash = (): string => {
@@ -67,9 +49,9 @@ export const createProject = (
   // Get student information if available
   const student = getStudentByWallet(author);
 
-  // If student exists, use their department and institution
+  // If student exists, use their department, the institution follows from the department
   const studentDepartmentId = student ? student.departmentId : departmentId;
-  const institutionId = student ? student.institutionId : 1; // Default to first institution if not found
+  const institutionId = getInstitutionIdForDepartment(studentDepartmentId) ?? student?.institutionId;
 
   // Create the project object
   const project: ProjectData = {
@@ -89,8 +71,8 @@ export const createProject = (
   return project;
 };
 
-// Add a new project to the store
-export const addProject = async (project: ProjectData): Promise<void> => {
+// Add a new project to the configured repository
+export const addProject = async (project: ProjectData): Promise<ProjectData> => {
   try {
     // Generate AI summary for the project if it doesn't already have one
     if (!project.aiSummary) {
@@ -104,75 +86,97 @@ export const addProject = async (project: ProjectData): Promise<void> => {
     // Continue without summary if there's an error
   }
 
-  // Add the project to the store
-  useProjectStore.getState().addProject(project);
+  // Add the project to the repository (the returned project carries its final ID)
+  return getProjectRepository().addProject(project);
 };
 
-// Get all projects from the store with access control
-export const getAllProjects = (userAddress?: string | null): ProjectData[] => {
-  const projects = useProjectStore.getState().getProjects();
-  const student = userAddress ? getStudentByWallet(userAddress) : null;
-
-  // If no user address is provided, only return public projects
-  if (!userAddress) {
-    return projects.filter(project => project.accessLevel === AccessLevel.Public);
-  }
+// Resolve the viewer's institution and department for the access policy
+export const getViewer = async (userAddress?: string | null): Promise<AccessViewer> => {
+  if (!userAddress) return GUEST_VIEWER;
 
-  return projects.filter(project => {
-    // Public projects are visible to everyone
-    if (project.accessLevel === AccessLevel.Public) {
-      return true;
-    }
+  const roles = await loadUserRoles(userAddress);
+  return {
+    ...roles,
+    grantedProjectIds: getGrantedProjectIds(useAccessRequestStore.getState().requests, userAddress)
+  };
+};
 
-    // Projects authored by the user are always visible
-    if (project.authors.includes(userAddress)) {
-      return true;
-    }
+// Get all projects from the repository with access control
+export const getAllProjects = async (userAddress?: string | null): Promise<ProjectData[]> => {
+  const [projects, viewer] = await Promise.all([getProjectRepository().getProjects(), getViewer(userAddress)]);
+  return filterVisibleProjects(projects, viewer);
+};
 
-    // Institution-level projects are visible to members of the same institution
-    if (project.accessLevel === AccessLevel.Institution && student &&
-        project.institutionId === student.institutionId) {
-      return true;
-    }
+// Get a page of projects with access control, cursor is the repository's index the page starts at.
+// Only one repository page is read, so projects the viewer may not see shorten the page and the
+// total counts the whole list, like contractProjectRepository.getProjectsPage does for its extra filters.
+export const getProjectsPage = async (
+  filter: ProjectListFilter,
+  cursor: number,
+  limit: number,
+  userAddress?: string | null
+): Promise<ProjectPage> => {
+  const [page, viewer] = await Promise.all([
+    getProjectRepository().getProjectsPage(filter, cursor, limit),
+    getViewer(userAddress)
+  ]);
+  return {
+    ...page,
+    projects: filterVisibleProjects(page.projects, viewer)
+  };
+};
 
-    return false;
-  });
+// Get all projects without access control (super admins only on the API)
+export const getAllProjectsAdmin = async (): Promise<ProjectData[]> => {
+  return getProjectRepository().getAllProjects();
 };
 
-// Get all projects without access control (admin only)
-export const getAllProjectsAdmin = (): ProjectData[] => {
-  return useProjectStore.getState().getProjects();
+// Get what anyone may know about projects, including the ones the user can't view
+export const getProjectSummaries = async (ids: number[]): Promise<ProjectSummary[]> => {
+  return getProjectRepository().getProjectSummaries(ids);
 };
 
 // Get a project by ID with access control
-export const getProjectById = (id: number, userAddress?: string | null): ProjectData | undefined => {
-  const projects = useProjectStore.getState().getProjects();
-  const project = projects.find(project => project.id === id);
-  const student = userAddress ? getStudentByWallet(userAddress) : null;
-
-  if (!project) return undefined;
-
-  // Check access control
-  if (
-    project.accessLevel === AccessLevel.Public || // Public projects are visible to everyone
-    (userAddress && project.authors.includes(userAddress)) || // Author can see their own projects
-    (project.accessLevel === AccessLevel.Institution && student &&
-     project.institutionId === student.institutionId) // Institution members can see institution projects
-  ) {
-    return project;
-  }
+export const getProjectById = async (id: number, userAddress?: string | null): Promise<ProjectData | undefined> => {
+  const [project, viewer] = await Promise.all([getProjectRepository().getProject(id), getViewer(userAddress)]);
+
+  // Undefined when the project doesn't exist or the user doesn't have access
+  return project && canViewProject(project, viewer) ? project : undefined;
+};
 
-  // Project exists but user doesn't have access
-  return undefined;
+// Update a project in the repository
+export const updateProject = async (updatedProject: ProjectData): Promise<void> => {
+  await getProjectRepository().updateProject(updatedProject);
 };
 
-// Update a project in the store
-export const updateProject = (updatedProject: ProjectData): void => {
-  const { projects, addProject } = useProjectStore.getState();
-  const updatedProjects = projects.map(project =>
-    project.id === updatedProject.id ? updatedProject : project
+// Projects whose release transaction the user turned down in the wallet, not asked again until reload
+const declinedReleaseIds = new Set<number>();
+
+// Publish the user's projects whose embargo has passed. Clearing the embargo lets the
+// repository apply the target access level, which on the contract sends the
+// setProjectAccessLevel transaction the schedule now requires while the chain still holds Private.
+export const releaseExpiredEmbargoes = async (user: UserRoles): Promise<ProjectData[]> => {
+  const projects = await getProjectRepository().getProjects();
+  const expired = projects.filter(project =>
+    project.embargoUntil !== undefined && !isEmbargoed(project) && canChangeAccess(user, project) &&
+    !declinedReleaseIds.has(project.id)
   );
 
-  // Clear and re-add all projects (since we don't have a direct update method)
-  useProjectStore.setState({ projects: updatedProjects });
+  const released: ProjectData[] = [];
+  for (const project of expired) {
+    try {
+      const releasedProject = { ...project, embargoUntil: undefined };
+      await updateProject(releasedProject);
+      // The embargo already ran out, so record the release as leaving private
+      recordAccessChange({ ...project, accessLevel: AccessLevel.Private, embargoUntil: undefined }, releasedProject, user.address);
+      released.push(project);
+    } catch (error) {
+      if (ethers.isError(error, 'ACTION_REJECTED')) {
+        declinedReleaseIds.add(project.id);
+      }
+      console.error(`Error releasing the embargo of project ${project.id}:`, error);
+    }
+  }
+
+  return released;
 };
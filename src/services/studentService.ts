@@ -1,14 +1,16 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { Student, generateStudentId } from '@/models/Student';
+import * as api from './apiClient';
 
-// Define the student store
+// Define the student store, with the API source writes go to the backend and the store caches the result
 interface StudentStore {
   students: Student[];
-  addStudent: (student: Omit<Student, 'id' | 'dateAdded'>) => Student;
-  addStudents: (students: Omit<Student, 'id' | 'dateAdded'>[]) => Student[];
-  updateStudent: (id: string, updates: Partial<Omit<Student, 'id'>>) => boolean;
-  deleteStudent: (id: string) => boolean;
+  loadStudents: () => Promise<void>;
+  addStudent: (student: Omit<Student, 'id' | 'dateAdded'>) => Promise<Student>;
+  addStudents: (students: Omit<Student, 'id' | 'dateAdded'>[]) => Promise<Student[]>;
+  updateStudent: (id: string, updates: Partial<Omit<Student, 'id'>>) => Promise<boolean>;
+  deleteStudent: (id: string) => Promise<boolean>;
   getStudentByWallet: (walletAddress: string) => Student | undefined;
   getStudentsByDepartment: (departmentId: number) => Student[];
   getStudentsByInstitution: (institutionId: number) => Student[];
@@ -19,22 +21,29 @@ export const useStudentStore = create<StudentStore>()(
   persist(
     (set, get) => ({
       // Initialize with some mock students including one with a wallet address that will match the connected user
-      students: [
+      // (the API source starts empty until loadStudents)
+      students: api.USE_API ? [] : [
         {
           id: 'STU-ADMIN-1',
           walletAddress: '0x1234567890123456789012345678901234567890', // This should match the connected wallet for testing
           name: 'Admin User',
           email: 'admin@example.com',
           departmentId: 1,
-          institutionId: 1,
+          institutionId: 0,
           year: 2023,
           dateAdded: Date.now(),
           status: 'active'
         }
       ],
 
-      addStudent: (studentData) => {
-        const newStudent: Student = {
+      // Refresh the cache from the backend, the local store is already complete
+      loadStudents: async () => {
+        if (!api.USE_API) return;
+        set({ students: await api.listStudents() });
+      },
+
+      addStudent: async (studentData) => {
+        const newStudent: Student = api.USE_API ? await api.createStudent(studentData) : {
           id: generateStudentId(),
           dateAdded: Date.now(),
           ...studentData
@@ -47,8 +56,8 @@ export const useStudentStore = create<StudentStore>()(
         return newStudent;
       },
 
-      addStudents: (studentsData) => {
-        const newStudents = studentsData.map(studentData => ({
+      addStudents: async (studentsData) => {
+        const newStudents = api.USE_API ? await api.createStudents(studentsData) : studentsData.map(studentData => ({
           id: generateStudentId(),
           dateAdded: Date.now(),
           ...studentData
@@ -61,23 +70,31 @@ export const useStudentStore = create<StudentStore>()(
         return newStudents;
       },
 
-      updateStudent: (id, updates) => {
+      updateStudent: async (id, updates) => {
         const student = get().students.find(s => s.id === id);
         if (!student) return false;
 
+        // The backend owns the ID and registration date
+        const { dateAdded, ...changes } = updates;
+        const updated = api.USE_API ? await api.updateStudent(id, changes) : { ...student, ...updates };
+
         set((state) => ({
           students: state.students.map(s =>
-            s.id === id ? { ...s, ...updates } : s
+            s.id === id ? updated : s
           )
         }));
 
         return true;
       },
 
-      deleteStudent: (id) => {
+      deleteStudent: async (id) => {
         const studentExists = get().students.some(s => s.id === id);
         if (!studentExists) return false;
 
+        if (api.USE_API) {
+          await api.deleteStudent(id);
+        }
+
         set((state) => ({
           students: state.students.filter(s => s.id !== id)
         }));
@@ -100,7 +117,8 @@ export const useStudentStore = create<StudentStore>()(
       }
     }),
     {
-      name: 'student-store'
+      // Keep the backend's students apart from the ones kept in this browser
+      name: api.USE_API ? 'student-api-cache' : 'student-store'
     }
   )
 );
@@ -119,7 +137,7 @@ export const addStudent = (
   institutionId: number,
   year: number,
   status: 'active' | 'inactive' | 'graduated' = 'active'
-): Student => {
+): Promise<Student> => {
   return useStudentStore.getState().addStudent({
     walletAddress,
     name,
@@ -134,7 +152,7 @@ export const addStudent = (
 // Helper function to add multiple students at once
 export const addStudents = (
   students: Omit<Student, 'id' | 'dateAdded'>[]
-): Student[] => {
+): Promise<Student[]> => {
   return useStudentStore.getState().addStudents(students);
 };
 
@@ -151,7 +169,7 @@ export const parseExcelData = async (file: File): Promise<Omit<Student, 'id' | '
           name: 'John Doe',
           email: 'john.doe@example.com',
           departmentId: 1,
-          institutionId: 1,
+          institutionId: 0,
           year: 2023,
           status: 'active'
         },
@@ -160,7 +178,7 @@ export const parseExcelData = async (file: File): Promise<Omit<Student, 'id' | '
           name: 'Jane Smith',
           email: 'jane.smith@example.com',
           departmentId: 2,
-          institutionId: 1,
+          institutionId: 0,
           year: 2023,
           status: 'active'
         },
@@ -169,7 +187,7 @@ export const parseExcelData = async (file: File): Promise<Omit<Student, 'id' | '
           name: 'Bob Johnson',
           email: 'bob.johnson@example.com',
           departmentId: 3,
-          institutionId: 2,
+          institutionId: 1,
           year: 2023,
           status: 'active'
         }
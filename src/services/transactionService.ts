@@ -0,0 +1,279 @@
+import { ethers } from 'ethers';
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { ProjectData, getContract, getRegisteredProjectId } from '@/lib/blockchain';
+import { getOnChainAccessLevel } from '@/lib/accessPolicy';
+import { formatContentReference } from '@/lib/projectMetadata';
+import { addProject } from './projectService';
+
+// Confirmations required before a registration is treated as final (from .env file)
+export const REQUIRED_CONFIRMATIONS = Number(import.meta.env.VITE_REQUIRED_CONFIRMATIONS || 2);
+
+// How long an unknown transaction may stay unseen before it is considered dropped
+const DROPPED_TIMEOUT_MS = 10 * 60 * 1000;
+
+export type TransactionStatus =
+  | 'pending'     // Broadcast, waiting to be mined
+  | 'confirming'  // Mined, waiting for REQUIRED_CONFIRMATIONS
+  | 'confirmed'   // Final, the project has an on-chain ID
+  | 'failed'      // Mined but reverted
+  | 'dropped'     // Never mined and no longer known to the node
+  | 'replaced';   // Cancelled or replaced by another transaction with the same nonce
+
+export interface TrackedTransaction {
+  hash: string;
+  from: string;
+  nonce: number;
+  startBlock: number;
+  status: TransactionStatus;
+  confirmations: number;
+  blockNumber?: number;
+  projectId?: number;
+  replacedBy?: string;
+  error?: string;
+  project: ProjectData; // Project being registered, saved once the transaction is final
+  saved: boolean;
+  createdAt: number;
+}
+
+export interface GasEstimate {
+  gasLimit: string;
+  gasPrice: string; // Gwei
+  totalFee: string; // ETH
+  calldata: string;
+}
+
+interface TransactionStore {
+  transactions: TrackedTransaction[];
+  addTransaction: (transaction: TrackedTransaction) => void;
+  updateTransaction: (hash: string, updates: Partial<TrackedTransaction>) => void;
+  removeTransaction: (hash: string) => void;
+}
+
+// Persist transactions so a page reload resumes tracking them
+export const useTransactionStore = create<TransactionStore>()(
+  persist(
+    (set) => ({
+      transactions: [],
+
+      addTransaction: (transaction) => {
+        set((state) => ({
+          transactions: [transaction, ...state.transactions.filter(t => t.hash !== transaction.hash)]
+        }));
+      },
+
+      updateTransaction: (hash, updates) => {
+        set((state) => ({
+          transactions: state.transactions.map(t =>
+            t.hash === hash ? { ...t, ...updates } : t
+          )
+        }));
+      },
+
+      removeTransaction: (hash) => {
+        set((state) => ({
+          transactions: state.transactions.filter(t => t.hash !== hash)
+        }));
+      }
+    }),
+    {
+      name: 'transaction-storage'
+    }
+  )
+);
+
+const getTransaction = (hash: string) => {
+  return useTransactionStore.getState().transactions.find(t => t.hash === hash);
+};
+
+const updateTransaction = (hash: string, updates: Partial<TrackedTransaction>) => {
+  useTransactionStore.getState().updateTransaction(hash, updates);
+};
+
+// Turn wallet and provider errors into messages suitable for the UI
+export const getTransactionErrorMessage = (error: unknown): string => {
+  if (ethers.isError(error, 'ACTION_REJECTED')) {
+    return 'Transaction was rejected in your wallet';
+  }
+  if (ethers.isError(error, 'INSUFFICIENT_FUNDS')) {
+    return 'Insufficient funds to pay for gas';
+  }
+  if (ethers.isError(error, 'CALL_EXCEPTION')) {
+    return error.reason ? `Transaction reverted: ${error.reason}` : 'Transaction reverted by the contract';
+  }
+  return error instanceof Error ? error.message : 'An unknown error occurred';
+};
+
+const registrationArgs = (project: ProjectData) => [
+  project.title,
+  formatContentReference(project.ipfsHash, project.metadataCid),
+  project.departmentId,
+  project.year,
+  project.description,
+  getOnChainAccessLevel(project)
+];
+
+// Estimate the gas and fee for registering a project
+export async function estimateRegisterProject(project: ProjectData): Promise<GasEstimate> {
+  const contract = await getContract();
+  const provider = contract.runner.provider;
+  const args = registrationArgs(project);
+
+  const [gasLimit, feeData] = await Promise.all([
+    contract.registerProject.estimateGas(...args),
+    provider.getFeeData()
+  ]);
+
+  const gasPrice = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+
+  return {
+    gasLimit: gasLimit.toLocaleString(),
+    gasPrice: Number(ethers.formatUnits(gasPrice, 'gwei')).toFixed(2),
+    totalFee: Number(ethers.formatEther(gasLimit * gasPrice)).toFixed(6),
+    calldata: contract.interface.encodeFunctionData('registerProject', args)
+  };
+}
+
+// Send the registration transaction and start tracking it, resolves with the transaction hash
+export async function submitProjectRegistration(project: ProjectData): Promise<string> {
+  const contract = await getContract();
+  const provider = contract.runner.provider;
+  const startBlock = await provider.getBlockNumber();
+
+  const tx: ethers.TransactionResponse = await contract.registerProject(...registrationArgs(project));
+
+  useTransactionStore.getState().addTransaction({
+    hash: tx.hash,
+    from: tx.from,
+    nonce: tx.nonce,
+    startBlock,
+    status: 'pending',
+    confirmations: 0,
+    project,
+    saved: false,
+    createdAt: Date.now()
+  });
+
+  trackTransaction(tx.hash);
+
+  return tx.hash;
+}
+
+// Save the registered project once its transaction is final
+const finalizeRegistration = async (hash: string) => {
+  const transaction = getTransaction(hash);
+  if (!transaction || transaction.saved || transaction.projectId === undefined) return;
+
+  try {
+    await addProject({
+      ...transaction.project,
+      id: transaction.projectId,
+      transactionHash: hash
+    });
+    updateTransaction(hash, { saved: true });
+  } catch (error) {
+    console.error('Error saving registered project:', error);
+    updateTransaction(hash, { error: getTransactionErrorMessage(error) });
+  }
+};
+
+const trackedHashes = new Set<string>();
+
+// Follow a transaction until it is final, replaced, dropped or reverted
+export async function trackTransaction(hash: string): Promise<void> {
+  const transaction = getTransaction(hash);
+  if (!transaction || trackedHashes.has(hash)) return;
+
+  if (transaction.status === 'confirmed') {
+    await finalizeRegistration(hash);
+    return;
+  }
+
+  trackedHashes.add(hash);
+
+  try {
+    const contract = await getContract();
+    const provider = contract.runner.provider;
+
+    let response = await provider.getTransaction(hash);
+
+    if (!response) {
+      // Not known to the node (yet), give it until the timeout to show up
+      const remaining = Math.max(DROPPED_TIMEOUT_MS - (Date.now() - transaction.createdAt), 0);
+      let receipt: ethers.TransactionReceipt | null = null;
+      try {
+        receipt = remaining > 0 ? await provider.waitForTransaction(hash, 1, remaining) : null;
+      } catch (error) {
+        // waitForTransaction rejects once the timeout passes instead of resolving with null
+        if (!ethers.isError(error, 'TIMEOUT')) throw error;
+      }
+
+      if (!receipt) {
+        updateTransaction(hash, { status: 'dropped', error: 'Transaction was dropped from the network' });
+        return;
+      }
+
+      response = await provider.getTransaction(hash);
+    }
+
+    let receipt: ethers.TransactionReceipt;
+    let finalHash = hash;
+
+    try {
+      receipt = await response.replaceableTransaction(transaction.startBlock).wait(1);
+    } catch (error) {
+      if (!ethers.isError(error, 'TRANSACTION_REPLACED')) throw error;
+
+      if (error.reason !== 'repriced') {
+        updateTransaction(hash, {
+          status: 'replaced',
+          replacedBy: error.replacement.hash,
+          error: error.cancelled ? 'Transaction was cancelled in your wallet' : 'Transaction was replaced'
+        });
+        return;
+      }
+
+      // Sped up in the wallet: same call, different hash
+      receipt = error.receipt;
+      finalHash = error.replacement.hash;
+      updateTransaction(hash, { replacedBy: finalHash });
+    }
+
+    updateTransaction(hash, {
+      status: 'confirming',
+      confirmations: 1,
+      blockNumber: receipt.blockNumber,
+      projectId: getRegisteredProjectId(contract.interface, receipt)
+    });
+
+    // Report each new confirmation while waiting for the required depth
+    const handleBlock = (blockNumber: number) => {
+      updateTransaction(hash, {
+        confirmations: Math.min(blockNumber - receipt.blockNumber + 1, REQUIRED_CONFIRMATIONS)
+      });
+    };
+
+    await provider.on('block', handleBlock);
+    try {
+      await provider.waitForTransaction(finalHash, REQUIRED_CONFIRMATIONS);
+    } finally {
+      provider.off('block', handleBlock);
+    }
+
+    updateTransaction(hash, { status: 'confirmed', confirmations: REQUIRED_CONFIRMATIONS });
+    await finalizeRegistration(hash);
+  } catch (error) {
+    console.error(`Error tracking transaction ${hash}:`, error);
+    updateTransaction(hash, { status: 'failed', error: getTransactionErrorMessage(error) });
+  } finally {
+    trackedHashes.delete(hash);
+  }
+}
+
+// Resume tracking every transaction that was in flight when the page was closed
+export function resumePendingTransactions(address: string): void {
+  useTransactionStore.getState().transactions
+    .filter(t => t.from.toLowerCase() === address.toLowerCase())
+    .filter(t => t.status === 'pending' || t.status === 'confirming' || (t.status === 'confirmed' && !t.saved))
+    .forEach(t => trackTransaction(t.hash));
+}
@@ -0,0 +1,123 @@
+import axios from 'axios';
+import { PinOptions, STORAGE_PROVIDER, getStorageProvider } from '@/lib/storage';
+import { retryWithBackoff } from '@/lib/retry';
+import { API_URL, ensureSession, getAuthHeaders } from './authService';
+
+// Files above this size (from .env file) go through the backend in resumable chunks
+export const CHUNKED_UPLOAD_THRESHOLD =
+  Number(import.meta.env.VITE_CHUNKED_UPLOAD_THRESHOLD_MB || 20) * 1024 * 1024;
+
+// Upload IDs are remembered per file so a retry, or a reload, resumes the same upload
+const RESUME_KEY_PREFIX = 'chunkedUpload:';
+
+export interface UploadOptions extends PinOptions {
+  metadata?: Record<string, string>;
+  onRetry?: (attempt: number, error: unknown) => void;
+}
+
+// A chunked upload session as reported by the backend
+interface ChunkedUploadStatus {
+  uploadId: string;
+  fileName: string;
+  size: number;
+  chunkSize: number;
+  chunkCount: number;
+  receivedChunks: number[];
+}
+
+const UPLOADS_URL = `${API_URL}/uploads`;
+
+const getResumeKey = (file: File) => `${RESUME_KEY_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+
+// Whether a file takes the chunked path, the in-memory provider always pins directly
+export const isChunkedUpload = (file: File): boolean => {
+  return file.size > CHUNKED_UPLOAD_THRESHOLD && STORAGE_PROVIDER !== 'memory';
+};
+
+// Continue the upload remembered for this file, or start a new one
+const startOrResumeUpload = async (file: File, signal?: AbortSignal): Promise<ChunkedUploadStatus> => {
+  const resumeKey = getResumeKey(file);
+  const savedUploadId = localStorage.getItem(resumeKey);
+
+  if (savedUploadId) {
+    try {
+      const response = await axios.get<ChunkedUploadStatus>(`${UPLOADS_URL}/${savedUploadId}`, {
+        headers: getAuthHeaders(),
+        signal
+      });
+      return response.data;
+    } catch (error) {
+      // Expired or unknown uploads start over, anything else is a real failure
+      if (!axios.isAxiosError(error) || error.response?.status !== 404) throw error;
+      localStorage.removeItem(resumeKey);
+    }
+  }
+
+  const response = await axios.post<ChunkedUploadStatus>(
+    UPLOADS_URL,
+    { fileName: file.name, size: file.size },
+    { headers: getAuthHeaders(), signal }
+  );
+  localStorage.setItem(resumeKey, response.data.uploadId);
+  return response.data;
+};
+
+// Upload a large file to the backend chunk by chunk and let it pin the result.
+// Chunks the backend already holds are skipped, so an interrupted upload resumes
+// where it stopped instead of starting from the first byte.
+async function uploadInChunks(file: File, options: UploadOptions): Promise<string> {
+  const { signal, onProgress, onRetry } = options;
+
+  // The backend ties uploads to a signed-in wallet
+  await ensureSession();
+
+  const upload = await retryWithBackoff(() => startOrResumeUpload(file, signal), { signal, onRetry });
+  const received = new Set(upload.receivedChunks);
+
+  const chunkBytes = (index: number) => Math.min(upload.chunkSize, file.size - index * upload.chunkSize);
+  let uploadedBytes = upload.receivedChunks.reduce((total, index) => total + chunkBytes(index), 0);
+  onProgress?.(uploadedBytes, file.size);
+
+  for (let index = 0; index < upload.chunkCount; index++) {
+    if (received.has(index)) continue;
+
+    const start = index * upload.chunkSize;
+    const chunk = file.slice(start, start + upload.chunkSize);
+
+    await retryWithBackoff(() => axios.put(`${UPLOADS_URL}/${upload.uploadId}/chunks/${index}`, chunk, {
+      headers: { ...getAuthHeaders(), 'Content-Type': 'application/octet-stream' },
+      signal,
+      onUploadProgress: (event) => onProgress?.(uploadedBytes + event.loaded, file.size)
+    }), { signal, onRetry });
+
+    uploadedBytes += chunk.size;
+    onProgress?.(uploadedBytes, file.size);
+  }
+
+  const response = await retryWithBackoff(() => axios.post<{ cid: string }>(
+    `${UPLOADS_URL}/${upload.uploadId}/complete`,
+    null,
+    { headers: getAuthHeaders(), signal }
+  ), { signal, onRetry });
+
+  localStorage.removeItem(getResumeKey(file));
+  return response.data.cid;
+}
+
+/**
+ * Pin a file to IPFS with real progress, cancellation and retries
+ * @param file The file to upload
+ * @param options Metadata, progress callback, abort signal and retry callback
+ * @returns The IPFS hash (CID) of the uploaded file
+ */
+export async function uploadFile(file: File, options: UploadOptions = {}): Promise<string> {
+  if (isChunkedUpload(file)) {
+    return uploadInChunks(file, options);
+  }
+
+  const { metadata, signal, onProgress, onRetry } = options;
+  return retryWithBackoff(
+    () => getStorageProvider().pinFile(file, metadata, { signal, onProgress }),
+    { signal, onRetry }
+  );
+}
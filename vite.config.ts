@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
@@ -8,6 +9,10 @@ export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
+    proxy: {
+      // Backend API (see backend/index.js)
+      "/api": "http://localhost:3001",
+    },
   },
   plugins: [
     react(),
@@ -19,4 +24,8 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  test: {
+    // The backend is a separate package with its own tests (see backend/package.json)
+    include: ["src/**/*.test.{ts,tsx}"],
+  },
 }));